@@ -0,0 +1,135 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db } from 'mongodb';
+import { BlobService } from '../services/blob.service';
+import { FileStorageService } from '../services/file-storage.service';
+import { resolveStorageConfig } from '../services/storage-driver';
+import { BlobModel } from '../models/blob.model';
+
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+describe('BlobService', () => {
+  let mongoServer: MongoMemoryServer;
+  let mongoClient: MongoClient;
+  let db: Db;
+  let tmpDir: string;
+  let storage: FileStorageService;
+  let quarantineStorage: FileStorageService;
+  let service: BlobService;
+  let uploads = 0;
+
+  const content = Buffer.from('胰腺癌化疗指南');
+
+  // 模拟 multer 写入的上传文件
+  const upload = async (data: Buffer = content): Promise<string> => {
+    const filename = `file-${++uploads}.pdf`;
+    await storage.putFile(filename, data);
+    return filename;
+  };
+
+  const blobOf = (hash: string) => db.collection<BlobModel>('blobs').findOne({ _id: hash });
+  const storedFiles = () => fs.promises.readdir(path.join(tmpDir, 'files'));
+
+  beforeAll(async () => {
+    // 启动内存MongoDB服务器
+    mongoServer = await MongoMemoryServer.create();
+    mongoClient = new MongoClient(mongoServer.getUri());
+    await mongoClient.connect();
+    db = mongoClient.db();
+
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'blob-service-'));
+    storage = new FileStorageService({ ...resolveStorageConfig(), driver: 'local', localDir: path.join(tmpDir, 'files') });
+    quarantineStorage = new FileStorageService({ ...resolveStorageConfig(), driver: 'local', localDir: path.join(tmpDir, 'quarantine') });
+  });
+
+  beforeEach(async () => {
+    await db.dropDatabase();
+    await fs.promises.rm(path.join(tmpDir, 'files'), { recursive: true, force: true });
+    await fs.promises.rm(path.join(tmpDir, 'quarantine'), { recursive: true, force: true });
+    await fs.promises.mkdir(path.join(tmpDir, 'files'), { recursive: true });
+    await fs.promises.mkdir(path.join(tmpDir, 'quarantine'), { recursive: true });
+    service = new BlobService(db, storage, quarantineStorage);
+  });
+
+  afterAll(async () => {
+    // 清理连接和临时目录
+    if (mongoClient) {
+      await mongoClient.close();
+    }
+    if (mongoServer) {
+      await mongoServer.stop();
+    }
+    if (tmpDir) {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('store', () => {
+    it('首次出现的内容应该重命名为内容块并登记', async () => {
+      const uploaded = await upload();
+
+      const stored = await service.store(uploaded, content.length);
+
+      expect(stored.deduplicated).toBe(false);
+      expect(stored.sha256).toBe(sha256(content));
+      expect(stored.filename).toMatch(new RegExp(`^blob-${stored.sha256}-[a-f0-9]{8}\\.pdf$`));
+      expect(await storedFiles()).toEqual([stored.filename]);
+      expect(await blobOf(stored.sha256)).toMatchObject({ filename: stored.filename, size: content.length, refCount: 1 });
+    });
+
+    it('相同内容再次上传时应该复用已有文件并增加引用计数', async () => {
+      const first = await service.store(await upload(), content.length, sha256(content));
+      const second = await service.store(await upload(), content.length, sha256(content));
+
+      expect(second).toEqual({ sha256: first.sha256, filename: first.filename, deduplicated: true });
+      expect(await storedFiles()).toEqual([first.filename]);
+      expect((await blobOf(first.sha256))?.refCount).toBe(2);
+    });
+
+    it('并发上传相同内容时只保留一个物理文件，引用计数不丢失', async () => {
+      const uploaded = await Promise.all([upload(), upload(), upload()]);
+
+      const results = await Promise.all(uploaded.map(filename => service.store(filename, content.length, sha256(content))));
+
+      const filenames = new Set(results.map(result => result.filename));
+      expect(filenames.size).toBe(1);
+      expect(results.filter(result => !result.deduplicated)).toHaveLength(1);
+      expect(await storedFiles()).toEqual([...filenames]);
+      expect((await blobOf(sha256(content)))?.refCount).toBe(3);
+    });
+  });
+
+  describe('release', () => {
+    it('引用计数归零前应该保留物理文件，归零后删除', async () => {
+      const stored = await service.store(await upload(), content.length);
+      await service.store(await upload(), content.length);
+
+      await service.release(stored.sha256);
+      expect((await blobOf(stored.sha256))?.refCount).toBe(1);
+      expect(await storage.fileExists(stored.filename)).toBe(true);
+
+      await service.release(stored.sha256);
+      expect(await blobOf(stored.sha256)).toBeNull();
+      expect(await storage.fileExists(stored.filename)).toBe(false);
+    });
+
+    it('被隔离的内容应该从隔离存储中删除', async () => {
+      const stored = await service.store(await upload(), content.length);
+      // 恶意文件扫描把文件转移到隔离存储
+      await quarantineStorage.putFile(stored.filename, content);
+      await storage.deleteFile(stored.filename);
+
+      await service.release(stored.sha256);
+
+      expect(await quarantineStorage.fileExists(stored.filename)).toBe(false);
+      expect(await blobOf(stored.sha256)).toBeNull();
+    });
+
+    it('释放不存在的内容块时不做任何处理', async () => {
+      await expect(service.release('0'.repeat(64))).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import net from 'node:net';
+import { Readable } from 'node:stream';
+import { ClamdScannerDriver, parseClamdResponse } from '../services/clamd-scanner.driver';
+
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * 本地模拟的 clamd：解析 INSTREAM 数据块，内容包含 EICAR 测试串时报告病毒
+ */
+function startFakeClamd(options: { maxStreamLength?: number } = {}) {
+  const received: { command: string; chunkSizes: number[]; data: Buffer }[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = Buffer.alloc(0);
+    let command: string | null = null;
+    const chunkSizes: number[] = [];
+    const chunks: Buffer[] = [];
+    let total = 0;
+    let done = false;
+
+    socket.on('error', () => undefined);
+    socket.on('data', data => {
+      if (done) return;
+      buffer = Buffer.concat([buffer, data]);
+      if (command === null) {
+        const end = buffer.indexOf(0);
+        if (end === -1) return;
+        command = buffer.subarray(0, end).toString();
+        buffer = buffer.subarray(end + 1);
+      }
+
+      while (buffer.length >= 4) {
+        const length = buffer.readUInt32BE(0);
+        if (length === 0) {
+          const content = Buffer.concat(chunks);
+          received.push({ command, chunkSizes, data: content });
+          done = true;
+          socket.end(content.includes(EICAR) ? 'stream: Win.Test.EICAR_HDB-1 FOUND\0' : 'stream: OK\0');
+          return;
+        }
+        if (buffer.length < 4 + length) return;
+        chunkSizes.push(length);
+        chunks.push(buffer.subarray(4, 4 + length));
+        buffer = buffer.subarray(4 + length);
+        total += length;
+        if (options.maxStreamLength && total > options.maxStreamLength) {
+          done = true;
+          socket.end('INSTREAM size limit exceeded. ERROR\0');
+          return;
+        }
+      }
+    });
+  });
+
+  return new Promise<{ server: net.Server; port: number; received: typeof received }>(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port, received });
+    });
+  });
+}
+
+const createDriver = (port: number) =>
+  new ClamdScannerDriver({ host: '127.0.0.1', port, timeoutMs: 5000 });
+
+describe('clamd scanner driver', () => {
+  it('应该解析 clamd 的响应', () => {
+    expect(parseClamdResponse('stream: OK\0')).toEqual({ infected: false });
+    expect(parseClamdResponse('stream: Eicar-Signature FOUND\0')).toEqual({ infected: true, signature: 'Eicar-Signature' });
+    expect(() => parseClamdResponse('INSTREAM size limit exceeded. ERROR\0')).toThrow('clamd 扫描失败');
+    expect(() => parseClamdResponse('')).toThrow('无响应');
+  });
+
+  it('应该按 INSTREAM 协议分块发送内容并识别安全文件', async () => {
+    const { server, port, received } = await startFakeClamd();
+    try {
+      const content = Buffer.alloc(150 * 1024, 'a');
+      const verdict = await createDriver(port).scan(Readable.from([content]));
+      expect(verdict).toEqual({ infected: false });
+      expect(received[0].command).toBe('zINSTREAM');
+      expect(received[0].chunkSizes).toEqual([65536, 65536, 22528]);
+      expect(received[0].data.equals(content)).toBe(true);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('应该识别病毒特征', async () => {
+    const { server, port } = await startFakeClamd();
+    try {
+      const verdict = await createDriver(port).scan(Readable.from([Buffer.from(EICAR)]));
+      expect(verdict).toEqual({ infected: true, signature: 'Win.Test.EICAR_HDB-1' });
+    } finally {
+      server.close();
+    }
+  });
+
+  it('clamd 提前返回错误或无法连接时应该抛出错误', async () => {
+    const { server, port } = await startFakeClamd({ maxStreamLength: 1024 });
+    try {
+      const large = Readable.from((function* () {
+        for (let i = 0; i < 64; i++) yield Buffer.alloc(64 * 1024, 'b');
+      })());
+      await expect(createDriver(port).scan(large)).rejects.toThrow('size limit exceeded');
+    } finally {
+      server.close();
+    }
+
+    await expect(createDriver(port).scan(Readable.from([Buffer.from('x')]))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,39 @@
+import sharp from 'sharp';
+import { FileTypeMismatchError, mimeTypeFromExtension, verifyFileType } from '../utils/file-type-verifier';
+
+const PDF = Buffer.from('%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\n%%EOF\n');
+const HTML = Buffer.from('<!DOCTYPE html><html><body><script>alert(1)</script></body></html>');
+const EXE = Buffer.concat([Buffer.from('MZ', 'latin1'), Buffer.alloc(200)]);
+
+describe('file type verifier', () => {
+  it('应该按扩展名推断类型，大小写不敏感', () => {
+    expect(mimeTypeFromExtension('报告.PDF')).toBe('application/pdf');
+    expect(mimeTypeFromExtension('photo.jpeg')).toBe('image/jpeg');
+    expect(mimeTypeFromExtension('setup.exe')).toBeNull();
+  });
+
+  it('声明类型、扩展名和文件头一致时应该通过', async () => {
+    const png = await sharp({
+      create: { width: 4, height: 4, channels: 3, background: '#ffffff' }
+    }).png().toBuffer();
+
+    await expect(verifyFileType(PDF, 'application/pdf', 'report.pdf')).resolves.toBe('application/pdf');
+    await expect(verifyFileType(png, 'image/png', 'scan.png')).resolves.toBe('image/png');
+    await expect(verifyFileType(Buffer.from('血常规结果'), 'text/plain', 'notes.txt')).resolves.toBe('text/plain');
+    await expect(verifyFileType(PDF, 'application/pdf', 'report')).resolves.toBe('application/pdf');
+  });
+
+  it('应该拒绝改了扩展名的 HTML 和可执行文件', async () => {
+    await expect(verifyFileType(HTML, 'application/pdf', 'report.pdf')).rejects.toBeInstanceOf(FileTypeMismatchError);
+    await expect(verifyFileType(EXE, 'application/pdf', 'report.pdf')).rejects.toMatchObject({
+      detectedMimeType: 'application/x-msdownload'
+    });
+    await expect(verifyFileType(EXE, 'text/plain', 'readme.txt')).rejects.toBeInstanceOf(FileTypeMismatchError);
+  });
+
+  it('应该拒绝扩展名与声明类型不一致的文件', async () => {
+    await expect(verifyFileType(PDF, 'application/pdf', 'report.html')).rejects.toThrow('文件扩展名与文件类型不一致');
+    await expect(verifyFileType(PDF, 'image/png', 'report.pdf')).rejects.toBeInstanceOf(FileTypeMismatchError);
+    await expect(verifyFileType(HTML, 'text/html', 'page.html')).rejects.toThrow('不支持的文件类型');
+  });
+});
@@ -0,0 +1,119 @@
+import { Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { FileController } from '../controllers/file.controller';
+import { container } from '../services/container';
+import type { AuthRequest } from '../middlewares/auth.middleware';
+import { FileStatus, ReviewStatus } from '../models/file.model';
+import { Permission, Role, resolvePermissions } from '../models/role.model';
+
+// Mock services
+jest.mock('../services/container', () => ({
+  container: {
+    getFileService: jest.fn(),
+    getReviewService: jest.fn(),
+  },
+}));
+
+describe('FileController.updateFile', () => {
+  let mockFileService: any;
+  let mockReviewService: any;
+  let mockRequest: Partial<AuthRequest>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const ownerId = new ObjectId();
+  const fileId = new ObjectId();
+
+  const asUser = (role: Role, id: ObjectId = ownerId) => ({
+    id: id.toString(),
+    username: role,
+    role,
+    permissions: resolvePermissions(role)
+  });
+
+  beforeEach(() => {
+    delete process.env.CONTENT_REVIEW_ENABLED;
+
+    mockFileService = {
+      findFileById: jest.fn().mockResolvedValue({
+        _id: fileId,
+        uploaderId: ownerId,
+        status: FileStatus.ACTIVE,
+        reviewStatus: ReviewStatus.APPROVED
+      }),
+      updateFile: jest.fn().mockResolvedValue(true),
+    };
+    mockReviewService = {
+      flag: jest.fn().mockResolvedValue(true),
+    };
+
+    (container.getFileService as jest.Mock).mockReturnValue(mockFileService);
+    (container.getReviewService as jest.Mock).mockReturnValue(mockReviewService);
+
+    mockRequest = {
+      params: { id: fileId.toString() },
+      body: { tags: ['新标签'] },
+      user: asUser(Role.UPLOADER),
+    };
+
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+
+    mockNext = jest.fn();
+  });
+
+  afterAll(() => {
+    delete process.env.CONTENT_REVIEW_ENABLED;
+  });
+
+  it('上传者修改已公开内容后应该重新进入审核', async () => {
+    await FileController.updateFile(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+    expect(mockFileService.updateFile).toHaveBeenCalled();
+    expect(mockReviewService.flag).toHaveBeenCalledWith(fileId, expect.any(String));
+    expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+      success: true,
+      data: { reviewStatus: ReviewStatus.SUBMITTED }
+    }));
+  });
+
+  it('审核员修改内容不需要重新审核', async () => {
+    mockRequest.user = asUser(Role.REVIEWER);
+    expect(mockRequest.user.permissions).toContain(Permission.FILE_APPROVE);
+
+    await FileController.updateFile(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+    expect(mockFileService.updateFile).toHaveBeenCalled();
+    expect(mockReviewService.flag).not.toHaveBeenCalled();
+  });
+
+  it('只修改状态时不需要重新审核', async () => {
+    mockRequest.body = { status: FileStatus.ACTIVE };
+
+    await FileController.updateFile(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+    expect(mockFileService.updateFile).toHaveBeenCalled();
+    expect(mockReviewService.flag).not.toHaveBeenCalled();
+  });
+
+  it('关闭内容审核时不需要重新审核', async () => {
+    process.env.CONTENT_REVIEW_ENABLED = 'false';
+
+    await FileController.updateFile(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+    expect(mockFileService.updateFile).toHaveBeenCalled();
+    expect(mockReviewService.flag).not.toHaveBeenCalled();
+  });
+
+  it('不能修改他人的文件', async () => {
+    mockRequest.user = asUser(Role.UPLOADER, new ObjectId());
+
+    await FileController.updateFile(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+    expect(mockFileService.updateFile).not.toHaveBeenCalled();
+    expect(mockReviewService.flag).not.toHaveBeenCalled();
+  });
+});
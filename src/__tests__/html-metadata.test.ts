@@ -0,0 +1,108 @@
+import { parseHtmlMetadata, hasMetadata } from '../utils/html-metadata';
+
+describe('parseHtmlMetadata', () => {
+  const pageUrl = 'https://example.com/articles/1';
+
+  it('应该提取Open Graph元数据，不受属性顺序和引号影响', () => {
+    const html = `
+      <html><head>
+        <meta content='胰腺癌治疗指南' property='og:title'>
+        <meta property="og:description" content="最新 &amp; 权威的解读">
+        <meta content="/images/cover.jpg" property="og:image" />
+        <meta property="og:site_name" content="小胰宝">
+        <title>备用标题</title>
+      </head></html>
+    `;
+
+    const metadata = parseHtmlMetadata(html, pageUrl);
+
+    expect(metadata.title).toBe('胰腺癌治疗指南');
+    expect(metadata.description).toBe('最新 & 权威的解读');
+    expect(metadata.thumbnail).toBe('https://example.com/images/cover.jpg');
+    expect(metadata.siteName).toBe('小胰宝');
+  });
+
+  it('应该在缺少Open Graph时回退到Twitter Card', () => {
+    const html = `
+      <meta name="twitter:title" content="Twitter Title">
+      <meta name="twitter:description" content="Twitter Description">
+      <meta name="twitter:image:src" content="https://cdn.example.com/t.png">
+    `;
+
+    const metadata = parseHtmlMetadata(html, pageUrl);
+
+    expect(metadata.title).toBe('Twitter Title');
+    expect(metadata.description).toBe('Twitter Description');
+    expect(metadata.thumbnail).toBe('https://cdn.example.com/t.png');
+  });
+
+  it('应该从JSON-LD的@graph中提取文章信息', () => {
+    const html = `
+      <script type="application/ld+json">
+        {"@context":"https://schema.org","@graph":[
+          {"@type":"WebSite","name":"Site"},
+          {"@type":"Article","headline":"JSON-LD 标题","description":"JSON-LD 描述",
+           "image":[{"@type":"ImageObject","url":"https://example.com/ld.jpg"}],
+           "publisher":{"@type":"Organization","name":"出版方"}}
+        ]}
+      </script>
+      <title>HTML 标题</title>
+    `;
+
+    const metadata = parseHtmlMetadata(html, pageUrl);
+
+    expect(metadata.title).toBe('JSON-LD 标题');
+    expect(metadata.description).toBe('JSON-LD 描述');
+    expect(metadata.thumbnail).toBe('https://example.com/ld.jpg');
+    expect(metadata.siteName).toBe('出版方');
+  });
+
+  it('应该忽略格式错误的JSON-LD并回退到普通HTML标签', () => {
+    const html = `
+      <script type="application/ld+json">{ invalid json</script>
+      <title>
+        普通标题
+      </title>
+      <meta name="description" content="普通描述">
+    `;
+
+    const metadata = parseHtmlMetadata(html, pageUrl);
+
+    expect(metadata.title).toBe('普通标题');
+    expect(metadata.description).toBe('普通描述');
+  });
+
+  it('应该解析图标和规范URL，并遵循<base href>', () => {
+    const html = `
+      <base href="https://static.example.com/assets/">
+      <link rel="apple-touch-icon" href="touch.png">
+      <link rel="shortcut icon" href="favicon.png">
+      <link href="/articles/canonical" rel="canonical">
+    `;
+
+    const metadata = parseHtmlMetadata(html, pageUrl);
+
+    expect(metadata.favicon).toBe('https://static.example.com/assets/favicon.png');
+    expect(metadata.canonicalUrl).toBe('https://static.example.com/articles/canonical');
+  });
+
+  it('应该在没有图标声明时使用默认favicon', () => {
+    const metadata = parseHtmlMetadata('<title>t</title>', pageUrl);
+    expect(metadata.favicon).toBe('https://example.com/favicon.ico');
+  });
+
+  it('应该拒绝非http协议的图片地址', () => {
+    const html = '<meta property="og:image" content="javascript:alert(1)">';
+    const metadata = parseHtmlMetadata(html, pageUrl);
+    expect(metadata.thumbnail).toBeUndefined();
+  });
+});
+
+describe('hasMetadata', () => {
+  it('应该只在包含标题、描述或缩略图时返回true', () => {
+    expect(hasMetadata({})).toBe(false);
+    expect(hasMetadata({ favicon: 'https://example.com/favicon.ico' })).toBe(false);
+    expect(hasMetadata({ title: '标题' })).toBe(true);
+    expect(hasMetadata(null)).toBe(false);
+  });
+});
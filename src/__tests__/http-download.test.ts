@@ -0,0 +1,58 @@
+import { buildETag, contentDisposition, isNotModified, isRangeFresh, parseRange } from '../utils/http-download';
+
+describe('http download helpers', () => {
+  it('应该按 RFC 5987 编码中文文件名，并保留 ASCII 兼容文件名', () => {
+    expect(contentDisposition('report.pdf')).toBe('attachment; filename="report.pdf"');
+    expect(contentDisposition('糖尿病 指南(2024).pdf')).toBe(
+      'attachment; filename="___ __(2024).pdf"; filename*=UTF-8\'\'%E7%B3%96%E5%B0%BF%E7%97%85%20%E6%8C%87%E5%8D%97%282024%29.pdf'
+    );
+    expect(contentDisposition('a"b.txt', 'inline')).toBe('inline; filename="a_b.txt"; filename*=UTF-8\'\'a%22b.txt');
+    expect(contentDisposition('café.txt')).toContain('filename="cafe.txt"');
+  });
+
+  it('应该优先使用内容哈希生成强 ETag', () => {
+    const uploadedAt = new Date('2024-01-01T00:00:00Z');
+    expect(buildETag({ sha256: 'abc', size: 10, uploadedAt })).toBe('"abc"');
+    expect(buildETag({ size: 255, uploadedAt })).toMatch(/^W\/"ff-[0-9a-f]+"$/);
+  });
+
+  it('应该处理 If-None-Match 和 If-Modified-Since', () => {
+    const lastModified = new Date('2024-01-01T00:00:00.500Z');
+    expect(isNotModified({ 'if-none-match': '"x", "abc"' }, '"abc"', lastModified)).toBe(true);
+    expect(isNotModified({ 'if-none-match': 'W/"abc"' }, '"abc"', lastModified)).toBe(true);
+    expect(isNotModified({ 'if-none-match': '*' }, '"abc"', lastModified)).toBe(true);
+    // If-None-Match 不匹配时忽略 If-Modified-Since
+    expect(isNotModified({ 'if-none-match': '"x"', 'if-modified-since': lastModified.toUTCString() }, '"abc"', lastModified)).toBe(false);
+    expect(isNotModified({ 'if-modified-since': lastModified.toUTCString() }, '"abc"', lastModified)).toBe(true);
+    expect(isNotModified({ 'if-modified-since': 'Sun, 31 Dec 2023 00:00:00 GMT' }, '"abc"', lastModified)).toBe(false);
+    expect(isNotModified({ 'if-modified-since': 'invalid' }, '"abc"', lastModified)).toBe(false);
+  });
+
+  it('If-Range 应该对 ETag 使用强比较', () => {
+    const lastModified = new Date('2024-01-01T00:00:00Z');
+    expect(isRangeFresh(undefined, '"abc"', lastModified)).toBe(true);
+    expect(isRangeFresh('"abc"', '"abc"', lastModified)).toBe(true);
+    expect(isRangeFresh('"abc"', 'W/"abc"', lastModified)).toBe(false);
+    expect(isRangeFresh(lastModified.toUTCString(), '"abc"', lastModified)).toBe(true);
+    expect(isRangeFresh('Tue, 02 Jan 2024 00:00:00 GMT', '"abc"', lastModified)).toBe(false);
+  });
+
+  it('应该解析单个和多个字节范围', () => {
+    expect(parseRange(undefined, 100)).toBeNull();
+    expect(parseRange('bytes=0-9', 100)).toEqual([{ start: 0, end: 9 }]);
+    expect(parseRange('bytes=90-', 100)).toEqual([{ start: 90, end: 99 }]);
+    expect(parseRange('bytes=-10', 100)).toEqual([{ start: 90, end: 99 }]);
+    expect(parseRange('bytes=-200', 100)).toEqual([{ start: 0, end: 99 }]);
+    expect(parseRange('bytes=50-500', 100)).toEqual([{ start: 50, end: 99 }]);
+    expect(parseRange('bytes=20-29, 0-9, 5-14', 100)).toEqual([{ start: 0, end: 14 }, { start: 20, end: 29 }]);
+  });
+
+  it('应该忽略无效范围，并识别无法满足的范围', () => {
+    expect(parseRange('items=0-9', 100)).toBeNull();
+    expect(parseRange('bytes=9-0', 100)).toBeNull();
+    expect(parseRange('bytes=abc', 100)).toBeNull();
+    expect(parseRange('bytes=100-', 100)).toBe('unsatisfiable');
+    expect(parseRange('bytes=-0', 100)).toBe('unsatisfiable');
+    expect(parseRange(`bytes=${Array.from({ length: 11 }, (_, i) => `${i * 2}-${i * 2}`).join(',')}`, 100)).toBeNull();
+  });
+});
@@ -26,6 +26,8 @@ describe('Links API Integration Tests', () => {
     // 设置环境变量
     process.env.MONGODB_URI = mongoUri;
     process.env.NODE_ENV = 'test';
+    // 关闭内容审核，上传后的链接直接出现在公开列表中
+    process.env.CONTENT_REVIEW_ENABLED = 'false';
 
     // 初始化服务容器
     const db = mongoClient.db();
@@ -0,0 +1,38 @@
+import { renderMailTemplate, resolveMailLocale } from '../utils/mail-templates';
+
+describe('renderMailTemplate', () => {
+  it('应该按语言渲染邮件并包含操作链接', () => {
+    const zh = renderMailTemplate('password-reset', 'zh-CN', {
+      username: '张三',
+      link: 'https://kb.example.com/reset-password?token=abc',
+      expiresIn: '30分钟'
+    });
+    expect(zh.subject).toContain('重置密码');
+    expect(zh.text).toContain('张三');
+    expect(zh.text).toContain('https://kb.example.com/reset-password?token=abc');
+    expect(zh.text).toContain('30分钟');
+
+    const en = renderMailTemplate('email-verification', 'en', {
+      username: 'alice',
+      link: 'https://kb.example.com/verify-email?token=xyz',
+      expiresIn: '24 hours'
+    });
+    expect(en.subject).toContain('Verify your email');
+    expect(en.html).toContain('href="https://kb.example.com/verify-email?token=xyz"');
+  });
+
+  it('应该转义HTML中的用户输入', () => {
+    const mail = renderMailTemplate('password-changed', 'zh-CN', { username: '<script>alert(1)</script>' });
+    expect(mail.html).not.toContain('<script>');
+    expect(mail.html).toContain('&lt;script&gt;');
+    expect(mail.text).toContain('<script>alert(1)</script>');
+  });
+});
+
+describe('resolveMailLocale', () => {
+  it('应该根据Accept-Language选择语言，默认中文', () => {
+    expect(resolveMailLocale('en-US,en;q=0.9')).toBe('en');
+    expect(resolveMailLocale('zh-CN,zh;q=0.9,en;q=0.8')).toBe('zh-CN');
+    expect(resolveMailLocale(undefined)).toBe('zh-CN');
+  });
+});
@@ -0,0 +1,99 @@
+import sharp from 'sharp';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import { MetadataStripStatus } from '../models/file.model';
+import { MetadataStripError, resolveStripper, stripMetadata } from '../utils/metadata-stripper';
+
+const createImage = (format: 'jpeg' | 'png' | 'webp', orientation?: number) => {
+  const image = sharp({ create: { width: 40, height: 20, channels: 3, background: { r: 220, g: 40, b: 40 } } })
+    .withExif({ IFD0: { Make: 'PhoneMaker', Model: 'Phone X' } });
+  return (orientation ? image.withMetadata({ orientation }) : image)[format]().toBuffer();
+};
+
+describe('metadata stripper', () => {
+  it('应该根据MIME类型或扩展名选择清除方式', () => {
+    expect(resolveStripper('image/jpeg', 'a.bin')).toBe('jpeg');
+    expect(resolveStripper('application/octet-stream', '检验单.PNG')).toBe('png');
+    expect(resolveStripper('application/pdf', 'a.pdf')).toBe('pdf');
+    expect(resolveStripper('text/plain', 'a.txt')).toBeNull();
+  });
+
+  it.each(['jpeg', 'png', 'webp'] as const)('应该清除 %s 图片中的 EXIF 且图片仍可解码', async format => {
+    const input = await createImage(format);
+    expect((await sharp(input).metadata()).exif).toBeDefined();
+
+    const { data, record } = await stripMetadata(input, format);
+
+    expect(record).toMatchObject({ status: MetadataStripStatus.STRIPPED, originalSize: input.length });
+    expect(record.removed).toContain('EXIF');
+    expect(data.includes(Buffer.from('PhoneMaker'))).toBe(false);
+    const metadata = await sharp(data).metadata();
+    expect(metadata.exif).toBeUndefined();
+    expect([metadata.width, metadata.height]).toEqual([40, 20]);
+  });
+
+  it('JPEG 带旋转方向时应该先旋转再清除', async () => {
+    const { data, record } = await stripMetadata(await createImage('jpeg', 6), 'jpeg');
+
+    expect(record.status).toBe(MetadataStripStatus.STRIPPED);
+    const metadata = await sharp(data).metadata();
+    expect(metadata.exif).toBeUndefined();
+    expect([metadata.width, metadata.height]).toEqual([20, 40]);
+  });
+
+  it('没有元数据时应该保留原文件', async () => {
+    const input = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#000' } }).png().toBuffer();
+    const { data, record } = await stripMetadata(input, 'png');
+    expect(record.status).toBe(MetadataStripStatus.CLEAN);
+    expect(data).toBe(input);
+  });
+
+  it('应该清除 DOCX 的作者和公司信息', async () => {
+    const zip = new JSZip();
+    zip.file('word/document.xml', '<w:document/>');
+    zip.file('docProps/core.xml', '<cp:coreProperties xmlns:cp="x" xmlns:dc="y"><dc:creator>张医生</dc:creator></cp:coreProperties>');
+    zip.file('docProps/app.xml', '<Properties><Company>某某医院</Company><Pages>1</Pages></Properties>');
+    const input = await zip.generateAsync({ type: 'nodebuffer' });
+
+    const { data, record } = await stripMetadata(input, 'docx');
+
+    expect(record.removed).toEqual(['DOCX_CORE', 'DOCX_APP']);
+    const stripped = await JSZip.loadAsync(data);
+    expect(await stripped.file('docProps/core.xml')!.async('string')).not.toContain('张医生');
+    expect(await stripped.file('docProps/app.xml')!.async('string')).toBe('<Properties><Pages>1</Pages></Properties>');
+    expect(await stripped.file('word/document.xml')!.async('string')).toBe('<w:document/>');
+  });
+
+  it('应该清除 PDF 的文档信息', async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    pdf.setAuthor('张医生');
+    pdf.setTitle('检验报告');
+    const input = Buffer.from(await pdf.save());
+
+    const { data, record } = await stripMetadata(input, 'pdf');
+
+    expect(record.status).toBe(MetadataStripStatus.STRIPPED);
+    expect(record.removed).toContain('PDF_INFO');
+    const stripped = await PDFDocument.load(data, { updateMetadata: false });
+    expect(stripped.getAuthor()).toBeUndefined();
+    expect(stripped.getTitle()).toBeUndefined();
+    expect(stripped.getPageCount()).toBe(1);
+  });
+
+  it('文档无法处理时保留原文件，图片无法处理时拒绝', async () => {
+    const broken = Buffer.from('not a pdf');
+    const { data, record } = await stripMetadata(broken, 'pdf');
+    expect(record.status).toBe(MetadataStripStatus.FAILED);
+    expect(data).toBe(broken);
+
+    await expect(stripMetadata(broken, 'jpeg')).rejects.toThrow(MetadataStripError);
+  });
+
+  it('超过大小限制的文件不处理', async () => {
+    const input = await createImage('jpeg');
+    const { data, record } = await stripMetadata(input, 'jpeg', 10);
+    expect(record.status).toBe(MetadataStripStatus.SKIPPED);
+    expect(data).toBe(input);
+  });
+});
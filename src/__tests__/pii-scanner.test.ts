@@ -0,0 +1,67 @@
+import { PiiType } from '../models/file.model';
+import { countPii, isValidChineseIdCard, redactPii, scanPii } from '../utils/pii-scanner';
+
+const REPORT = [
+  '某某医院检验报告单',
+  '姓名：张三 性别：男 年龄：56岁',
+  '住院号：ZY20230815 床号：12',
+  '身份证号：11010519491231002X',
+  '联系电话：138 0013 8000，邮箱 zhangsan@example.com',
+  '检验项目：血常规'
+].join('\n');
+
+describe('pii scanner', () => {
+  it('应该按校验位和出生日期识别身份证号', () => {
+    expect(isValidChineseIdCard('11010519491231002X')).toBe(true);
+    expect(isValidChineseIdCard('11010519491231002x')).toBe(true);
+    expect(isValidChineseIdCard('440304199003071256')).toBe(true);
+    expect(isValidChineseIdCard('110105194912310021')).toBe(false);
+    expect(isValidChineseIdCard('110105194902301234')).toBe(false);
+    expect(isValidChineseIdCard('1101051949123100')).toBe(false);
+  });
+
+  it('应该识别检验报告中的各类个人信息', () => {
+    const findings = scanPii(REPORT);
+    expect(findings.map(f => [f.type, f.value])).toEqual([
+      [PiiType.NAME, '张三'],
+      [PiiType.MEDICAL_RECORD, 'ZY20230815'],
+      [PiiType.ID_CARD, '11010519491231002X'],
+      [PiiType.PHONE, '138 0013 8000'],
+      [PiiType.EMAIL, 'zhangsan@example.com']
+    ]);
+    for (const finding of findings) {
+      expect(REPORT.slice(finding.start, finding.end)).toBe(finding.value);
+    }
+  });
+
+  it('姓名应该止于下一个字段名，并忽略常见的非姓名词语', () => {
+    expect(scanPii('患者李四性别女').map(f => f.value)).toEqual(['李四']);
+    expect(scanPii('患者姓名:欧阳娜娜，女').map(f => f.value)).toEqual(['欧阳娜娜']);
+    expect(scanPii('患者男性，56岁，主诉胸痛')).toEqual([]);
+    expect(scanPii('患者教育手册')).toEqual([]);
+  });
+
+  it('不应该把普通数字误识别为身份证号或手机号', () => {
+    expect(scanPii('样本编号 110105194912310021，白细胞 12345678901234')).toEqual([]);
+    expect(scanPii('订单号 213800138000')).toEqual([]);
+    expect(scanPii('+86-13800138000').map(f => f.type)).toEqual([PiiType.PHONE]);
+  });
+
+  it('应该生成脱敏副本并按类型统计', () => {
+    const findings = scanPii(REPORT);
+    expect(countPii(findings)).toEqual({
+      [PiiType.NAME]: 1,
+      [PiiType.MEDICAL_RECORD]: 1,
+      [PiiType.ID_CARD]: 1,
+      [PiiType.PHONE]: 1,
+      [PiiType.EMAIL]: 1
+    });
+
+    const redacted = redactPii(REPORT, findings);
+    expect(redacted).toContain('姓名：[姓名] 性别：男');
+    expect(redacted).toContain('住院号：[病历号] 床号：12');
+    expect(redacted).toContain('身份证号：[身份证号]');
+    expect(redacted).toContain('联系电话：[手机号]，邮箱 [邮箱]');
+    expect(scanPii(redacted)).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { GLOBAL_QUOTA_KEY, QuotaErrorCode, QuotaExceededError, QuotaService } from '../services/quota.service';
+import { QuotaUsageModel } from '../models/quota.model';
+import { FileStatus } from '../models/file.model';
+import { Role } from '../models/role.model';
+
+describe('QuotaService', () => {
+  let mongoServer: MongoMemoryServer;
+  let mongoClient: MongoClient;
+  let db: Db;
+  let service: QuotaService;
+
+  const anonymous = { ip: '10.0.0.1' };
+
+  const usageOf = (key: string) => db.collection<QuotaUsageModel>('quota_usage').findOne({ _id: key });
+
+  beforeAll(async () => {
+    // 启动内存MongoDB服务器
+    mongoServer = await MongoMemoryServer.create();
+    mongoClient = new MongoClient(mongoServer.getUri());
+    await mongoClient.connect();
+    db = mongoClient.db();
+
+    // 匿名上传配额：1000 字节、3 个文件
+    process.env.QUOTA_ENABLED = 'true';
+    process.env.QUOTA_ANONYMOUS_MAX_BYTES = '1000';
+    process.env.QUOTA_ANONYMOUS_MAX_FILES = '3';
+  });
+
+  beforeEach(async () => {
+    await db.dropDatabase();
+    service = new QuotaService(db);
+  });
+
+  afterAll(async () => {
+    // 清理连接
+    if (mongoClient) {
+      await mongoClient.close();
+    }
+    if (mongoServer) {
+      await mongoServer.stop();
+    }
+    delete process.env.QUOTA_ENABLED;
+    delete process.env.QUOTA_ANONYMOUS_MAX_BYTES;
+    delete process.env.QUOTA_ANONYMOUS_MAX_FILES;
+    delete process.env.QUOTA_GLOBAL_MAX_BYTES;
+  });
+
+  it('统计记录不存在时应该从未删除的文件记录计算用量，不含链接', async () => {
+    await db.collection('files').insertMany([
+      { uploadIp: anonymous.ip, size: 100, status: FileStatus.ACTIVE },
+      { uploadIp: anonymous.ip, size: 200, status: FileStatus.PROCESSING },
+      { uploadIp: anonymous.ip, size: 400, status: FileStatus.DELETED },
+      { uploadIp: anonymous.ip, size: 0, status: FileStatus.ACTIVE, isLink: true },
+      { uploadIp: anonymous.ip, uploaderId: new ObjectId(), size: 800, status: FileStatus.ACTIVE }
+    ]);
+
+    expect(await service.getUsage(QuotaService.keyOf(anonymous))).toMatchObject({ bytes: 300, files: 2 });
+  });
+
+  it('预占用量后再检查应该计入已预占的部分', async () => {
+    await service.reserve(anonymous, 600);
+
+    expect(await usageOf('ip:10.0.0.1')).toMatchObject({ bytes: 600, files: 1 });
+    await expect(service.check(anonymous, 400)).resolves.toBeUndefined();
+    await expect(service.check(anonymous, 401)).rejects.toMatchObject({ code: QuotaErrorCode.BYTES_EXCEEDED });
+    await expect(service.check(anonymous, 1, 3)).rejects.toMatchObject({ code: QuotaErrorCode.FILES_EXCEEDED });
+  });
+
+  it('超出配额时预占失败且不改变用量', async () => {
+    await service.reserve(anonymous, 600);
+
+    const error = await service.reserve(anonymous, 500).catch(e => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.code).toBe(QuotaErrorCode.BYTES_EXCEEDED);
+    expect(await usageOf('ip:10.0.0.1')).toMatchObject({ bytes: 600, files: 1 });
+    expect(await usageOf(GLOBAL_QUOTA_KEY)).toMatchObject({ bytes: 600, files: 1 });
+  });
+
+  it('并发预占不会超出配额', async () => {
+    const results = await Promise.allSettled(Array.from({ length: 5 }, () => service.reserve(anonymous, 300)));
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(3);
+    expect(await usageOf('ip:10.0.0.1')).toMatchObject({ bytes: 900, files: 3 });
+  });
+
+  it('归还用量应该同时减少个人和全站用量', async () => {
+    await service.reserve(anonymous, 300);
+    await service.reserve(anonymous, 200);
+
+    await service.release(anonymous, 300);
+
+    expect(await usageOf('ip:10.0.0.1')).toMatchObject({ bytes: 200, files: 1 });
+    expect(await usageOf(GLOBAL_QUOTA_KEY)).toMatchObject({ bytes: 200, files: 1 });
+  });
+
+  it('超出全站存储空间时应该撤销个人用量的预占', async () => {
+    process.env.QUOTA_GLOBAL_MAX_BYTES = '500';
+    service = new QuotaService(db);
+    delete process.env.QUOTA_GLOBAL_MAX_BYTES;
+
+    await service.reserve({ ip: '10.0.0.2' }, 400);
+    const error = await service.reserve(anonymous, 200).catch(e => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.code).toBe(QuotaErrorCode.GLOBAL_EXCEEDED);
+    expect(await usageOf('ip:10.0.0.1')).toMatchObject({ bytes: 0, files: 0 });
+    expect(await usageOf(GLOBAL_QUOTA_KEY)).toMatchObject({ bytes: 400, files: 1 });
+  });
+
+  it('管理员单独设置的配额应该覆盖角色默认配额', async () => {
+    const { insertedId: userId } = await db.collection('users').insertOne({ username: 'alice', role: Role.UPLOADER });
+    const owner = { userId, ip: anonymous.ip };
+
+    expect(await service.setOverride(userId, { maxBytes: 100 }, new ObjectId())).toBe(true);
+
+    await expect(service.reserve(owner, 101)).rejects.toMatchObject({ code: QuotaErrorCode.BYTES_EXCEEDED });
+    await service.reserve(owner, 100);
+    expect((await service.getSummary(owner)).remaining).toMatchObject({ maxBytes: 0 });
+  });
+
+  it('重新计算应该以文件记录为准', async () => {
+    await service.reserve(anonymous, 600);
+    await db.collection('files').insertOne({ uploadIp: anonymous.ip, size: 50, status: FileStatus.ACTIVE });
+
+    await service.recalculate([anonymous]);
+
+    expect(await usageOf('ip:10.0.0.1')).toMatchObject({ bytes: 50, files: 1 });
+    expect(await usageOf(GLOBAL_QUOTA_KEY)).toMatchObject({ bytes: 50, files: 1 });
+  });
+});
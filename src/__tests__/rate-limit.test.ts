@@ -0,0 +1,126 @@
+import type { Db } from 'mongodb';
+import { MemoryRateLimitStore } from '../services/memory-rate-limit.driver';
+import { RateLimitConfig, slidingCount } from '../services/rate-limit-store';
+import { RateLimitService, resolveLoginLockMs } from '../services/rate-limit.service';
+import { createIpMatcher, isValidIpRule } from '../utils/ip-allowlist';
+
+const MINUTE = 60 * 1000;
+
+const createConfig = (overrides: Partial<RateLimitConfig> = {}): RateLimitConfig => ({
+  enabled: true,
+  store: 'memory',
+  policies: {
+    'login': { max: 3, windowMs: MINUTE },
+    'register': { max: 3, windowMs: MINUTE },
+    'forgot-password': { max: 3, windowMs: MINUTE },
+    'link-upload': { max: 3, windowMs: MINUTE }
+  },
+  allowlist: [],
+  loginLockout: { threshold: 3, accountThreshold: 6, baseDelayMs: 30 * 1000, maxDelayMs: 5 * MINUTE, windowMs: 60 * MINUTE },
+  ...overrides
+});
+
+// 白名单集合为空的数据库
+const emptyDb = {
+  collection: () => ({ find: () => ({ toArray: async () => [] }) })
+} as unknown as Db;
+
+describe('rate limit', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('应该按上一窗口的剩余比例估算滑动窗口计数', async () => {
+    let now = 10 * MINUTE;
+    const store = new MemoryRateLimitStore(() => now);
+
+    for (let i = 0; i < 4; i++) await store.hit('k', MINUTE);
+    now += MINUTE + 15 * 1000;
+    const counts = await store.hit('k', MINUTE);
+
+    expect(counts).toMatchObject({ windowStart: 11 * MINUTE, current: 1, previous: 4 });
+    expect(slidingCount(counts, MINUTE, now)).toBe(4 * 0.75 + 1);
+
+    now += 2 * MINUTE;
+    expect(await store.peek('k', MINUTE)).toMatchObject({ current: 0, previous: 0 });
+  });
+
+  it('超出策略限制后应该拒绝并给出重试时间，白名单IP不受限制', async () => {
+    jest.useFakeTimers({ now: 10 * MINUTE });
+    const service = new RateLimitService(emptyDb, createConfig({ allowlist: ['10.8.0.0/16'] }));
+
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await service.consume('register', { ip: '203.0.113.9' }));
+    }
+    expect(results.map(result => result?.allowed)).toEqual([true, true, true, false]);
+    expect(results[2]).toMatchObject({ limit: 3, remaining: 0, resetMs: MINUTE });
+    expect(results[3]?.retryAfterMs).toBe(MINUTE);
+
+    // 登录用户按用户计数，与同一IP的匿名请求互不影响
+    expect((await service.consume('register', { ip: '203.0.113.9', userId: 'u1' }))?.allowed).toBe(true);
+    expect(await service.consume('register', { ip: '::ffff:10.8.3.4' })).toBeNull();
+  });
+
+  it('连续登录失败后应该逐步延长锁定时间', async () => {
+    jest.useFakeTimers({ now: 10 * MINUTE });
+    const config = createConfig();
+    const service = new RateLimitService(emptyDb, config);
+
+    expect(resolveLoginLockMs(2, config.loginLockout)).toBe(0);
+    expect(resolveLoginLockMs(3, config.loginLockout)).toBe(30 * 1000);
+    expect(resolveLoginLockMs(4, config.loginLockout)).toBe(60 * 1000);
+    expect(resolveLoginLockMs(10, config.loginLockout)).toBe(5 * MINUTE);
+
+    const ip = '203.0.113.9';
+    await service.recordLoginFailure('Alice', ip);
+    await service.recordLoginFailure('alice', `::ffff:${ip}`);
+    expect(await service.getLoginLockMs('alice', ip)).toBe(0);
+    expect(await service.recordLoginFailure('alice', ip)).toBe(30 * 1000);
+    expect(await service.getLoginLockMs('ALICE', ip)).toBe(30 * 1000);
+
+    jest.advanceTimersByTime(31 * 1000);
+    expect(await service.getLoginLockMs('alice', ip)).toBe(0);
+    expect(await service.recordLoginFailure('alice', ip)).toBe(60 * 1000);
+
+    await service.resetLoginFailures('alice', ip);
+    expect(await service.getLoginLockMs('alice', ip)).toBe(0);
+  });
+
+  it('其他IP的登录失败不应该锁定账号本人，累计失败过多时才锁定账号', async () => {
+    jest.useFakeTimers({ now: 10 * MINUTE });
+    const config = createConfig();
+    const service = new RateLimitService(emptyDb, config);
+
+    expect(resolveLoginLockMs(6, config.loginLockout, config.loginLockout.accountThreshold)).toBe(30 * 1000);
+
+    // 攻击者从一个IP连续输错密码，只锁定该IP对该账号的登录
+    for (let i = 0; i < 3; i++) await service.recordLoginFailure('alice', '198.51.100.1');
+    expect(await service.getLoginLockMs('alice', '198.51.100.1')).toBe(30 * 1000);
+    expect(await service.getLoginLockMs('alice', '203.0.113.9')).toBe(0);
+    expect(await service.getLoginLockMs('bob', '198.51.100.1')).toBe(0);
+
+    // 分散到多个IP累计达到账号阈值后，所有IP都被锁定
+    for (let i = 0; i < 3; i++) await service.recordLoginFailure('alice', `198.51.100.${i + 2}`);
+    expect(await service.getLoginLockMs('alice', '203.0.113.9')).toBe(30 * 1000);
+
+    // 登录成功只清除本IP的计数，账号累计的计数仍然有效
+    await service.resetLoginFailures('alice', '198.51.100.1');
+    expect(await service.getLoginLockMs('alice', '198.51.100.1')).toBe(30 * 1000);
+    jest.advanceTimersByTime(31 * 1000);
+    expect(await service.getLoginLockMs('alice', '198.51.100.1')).toBe(0);
+  });
+
+  it('应该匹配白名单中的IP和网段', () => {
+    const matches = createIpMatcher(['192.168.1.10', '10.0.0.0/8', '2001:db8::/32', 'not-an-ip', '1.2.3.4/33']);
+
+    expect(matches('192.168.1.10')).toBe(true);
+    expect(matches('::ffff:192.168.1.10')).toBe(true);
+    expect(matches('10.255.0.1')).toBe(true);
+    expect(matches('2001:db8:1::5')).toBe(true);
+    expect(matches('192.168.1.11')).toBe(false);
+    expect(matches('unknown')).toBe(false);
+    expect(isValidIpRule('1.2.3.4/33')).toBe(false);
+    expect(isValidIpRule('2001:db8::/48')).toBe(true);
+  });
+});
@@ -0,0 +1,185 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { Collection, MongoClient, Db, ObjectId } from 'mongodb';
+import { ReviewService, ReviewTransitionError } from '../services/review.service';
+import { ReviewAction, REVIEW_TRANSITIONS } from '../models/review.model';
+import { FileModel, FileStatus, ReviewStatus } from '../models/file.model';
+
+describe('ReviewService', () => {
+  let mongoServer: MongoMemoryServer;
+  let mongoClient: MongoClient;
+  let db: Db;
+  let service: ReviewService;
+
+  const reviewer = { id: new ObjectId().toString(), username: 'reviewer' };
+  const otherReviewer = { id: new ObjectId().toString(), username: 'other' };
+
+  const insertFile = async (fields: Partial<FileModel> = {}): Promise<ObjectId> => {
+    const { insertedId } = await db.collection('files').insertOne({
+      shortCode: Math.random().toString(36).slice(2, 8),
+      originalName: 'notes.txt',
+      status: FileStatus.ACTIVE,
+      uploadedAt: new Date(),
+      ...fields
+    });
+    return insertedId;
+  };
+
+  const reviewStatusOf = async (fileId: ObjectId) =>
+    (await db.collection<FileModel>('files').findOne({ _id: fileId }))?.reviewStatus;
+
+  beforeAll(async () => {
+    // 启动内存MongoDB服务器
+    mongoServer = await MongoMemoryServer.create();
+    mongoClient = new MongoClient(mongoServer.getUri());
+    await mongoClient.connect();
+    db = mongoClient.db();
+    service = new ReviewService(db);
+  });
+
+  beforeEach(async () => {
+    await db.dropDatabase();
+  });
+
+  afterAll(async () => {
+    // 清理连接
+    if (mongoClient) {
+      await mongoClient.close();
+    }
+    if (mongoServer) {
+      await mongoServer.stop();
+    }
+  });
+
+  describe('transition 状态机', () => {
+    const reviewActions = Object.values(ReviewAction).filter(action => action !== ReviewAction.FLAG);
+    const statuses = [ReviewStatus.SUBMITTED, ReviewStatus.IN_REVIEW, ReviewStatus.APPROVED, ReviewStatus.REJECTED];
+
+    for (const action of reviewActions) {
+      for (const status of statuses) {
+        const { from, to } = REVIEW_TRANSITIONS[action];
+        const allowed = from.includes(status);
+
+        it(`${status} 状态${allowed ? '可以' : '不能'}执行 ${action}`, async () => {
+          const fileId = await insertFile({ reviewStatus: status });
+
+          if (allowed) {
+            const updated = await service.transition(fileId, action, reviewer, '原因');
+            expect(updated?.reviewStatus).toBe(to);
+
+            const audit = await db.collection('review_audit').findOne({ fileId });
+            expect(audit).toMatchObject({ action, fromStatus: status, toStatus: to, reviewerName: 'reviewer' });
+          } else {
+            const error = await service.transition(fileId, action, reviewer).catch(e => e);
+            expect(error).toBeInstanceOf(ReviewTransitionError);
+            expect(error.currentStatus).toBe(status);
+            expect(await reviewStatusOf(fileId)).toBe(status);
+            expect(await db.collection('review_audit').countDocuments({ fileId })).toBe(0);
+          }
+        });
+      }
+    }
+
+    it('驳回时记录原因，重新通过后清除原因', async () => {
+      const fileId = await insertFile({ reviewStatus: ReviewStatus.IN_REVIEW });
+
+      const rejected = await service.transition(fileId, ReviewAction.REJECT, reviewer, '含有广告');
+      expect(rejected?.reviewReason).toBe('含有广告');
+
+      await service.transition(fileId, ReviewAction.REOPEN, reviewer);
+      const approved = await service.transition(fileId, ReviewAction.APPROVE, reviewer);
+      expect(approved?.reviewReason).toBeUndefined();
+      expect(approved?.reviewerId).toEqual(new ObjectId(reviewer.id));
+    });
+
+    it('没有审核状态的历史内容按已通过处理', async () => {
+      const fileId = await insertFile();
+
+      await expect(service.transition(fileId, ReviewAction.CLAIM, reviewer)).rejects.toBeInstanceOf(ReviewTransitionError);
+      const reopened = await service.transition(fileId, ReviewAction.REOPEN, reviewer);
+      expect(reopened?.reviewStatus).toBe(ReviewStatus.IN_REVIEW);
+    });
+
+    it('已删除或不存在的内容返回 null', async () => {
+      const fileId = await insertFile({ reviewStatus: ReviewStatus.SUBMITTED, status: FileStatus.DELETED });
+
+      expect(await service.transition(fileId, ReviewAction.CLAIM, reviewer)).toBeNull();
+      expect(await service.transition(new ObjectId(), ReviewAction.CLAIM, reviewer)).toBeNull();
+    });
+  });
+
+  describe('transition 并发', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('读取后状态被其他审核员修改时应该拒绝本次操作', async () => {
+      const fileId = await insertFile({ reviewStatus: ReviewStatus.IN_REVIEW });
+      const findOne = Collection.prototype.findOne;
+
+      // 第一个审核员读取到审核中状态后，另一个审核员抢先驳回
+      jest.spyOn(Collection.prototype, 'findOne').mockImplementationOnce(async function (this: Collection, ...args: any[]) {
+        const current = await (findOne as any).apply(this, args);
+        await service.transition(fileId, ReviewAction.REJECT, otherReviewer, '重复内容');
+        return current;
+      } as any);
+
+      const error = await service.transition(fileId, ReviewAction.APPROVE, reviewer).catch(e => e);
+
+      expect(error).toBeInstanceOf(ReviewTransitionError);
+      expect(error.currentStatus).toBe(ReviewStatus.REJECTED);
+      expect(await reviewStatusOf(fileId)).toBe(ReviewStatus.REJECTED);
+
+      // 只有成功的操作写入审核记录
+      const audit = await db.collection('review_audit').find({ fileId }).toArray();
+      expect(audit).toHaveLength(1);
+      expect(audit[0]).toMatchObject({ action: ReviewAction.REJECT, reviewerName: 'other' });
+    });
+
+    it('同时领取同一内容时只有一个审核员成功', async () => {
+      const fileId = await insertFile({ reviewStatus: ReviewStatus.SUBMITTED });
+
+      const results = await Promise.allSettled([
+        service.transition(fileId, ReviewAction.CLAIM, reviewer),
+        service.transition(fileId, ReviewAction.CLAIM, otherReviewer)
+      ]);
+
+      expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+      const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0].reason).toBeInstanceOf(ReviewTransitionError);
+      expect(await db.collection('review_audit').countDocuments({ fileId })).toBe(1);
+    });
+  });
+
+  describe('flag', () => {
+    it('已公开的内容回到待审核状态并记录系统操作', async () => {
+      const fileId = await insertFile({ reviewStatus: ReviewStatus.APPROVED });
+
+      expect(await service.flag(fileId, '检测到个人信息')).toBe(true);
+      expect(await reviewStatusOf(fileId)).toBe(ReviewStatus.SUBMITTED);
+      expect(await db.collection('review_audit').findOne({ fileId })).toMatchObject({
+        action: ReviewAction.FLAG,
+        fromStatus: ReviewStatus.APPROVED,
+        toStatus: ReviewStatus.SUBMITTED,
+        reviewerName: 'system'
+      });
+    });
+
+    it('没有审核状态的历史内容也会被标记', async () => {
+      const fileId = await insertFile();
+
+      expect(await service.flag(fileId, '检测到个人信息')).toBe(true);
+      expect(await reviewStatusOf(fileId)).toBe(ReviewStatus.SUBMITTED);
+    });
+
+    it('未公开的内容保持不变', async () => {
+      for (const status of [ReviewStatus.SUBMITTED, ReviewStatus.IN_REVIEW, ReviewStatus.REJECTED]) {
+        const fileId = await insertFile({ reviewStatus: status });
+
+        expect(await service.flag(fileId, '检测到个人信息')).toBe(false);
+        expect(await reviewStatusOf(fileId)).toBe(status);
+      }
+      expect(await db.collection('review_audit').countDocuments()).toBe(0);
+    });
+  });
+});
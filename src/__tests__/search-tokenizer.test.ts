@@ -0,0 +1,31 @@
+import { tokenizeForIndex, tokenizeQuery } from '../utils/search-tokenizer';
+
+describe('search tokenizer', () => {
+  it('应该为中文生成分词和二字组合，使未收录的医学词汇可以命中', () => {
+    const tokens = tokenizeForIndex('胰腺癌患者化疗后的饮食建议');
+    for (const term of tokenizeQuery('胰腺癌')) {
+      expect(tokens).toContain(term);
+    }
+    for (const term of tokenizeQuery('化疗')) {
+      expect(tokens).toContain(term);
+    }
+  });
+
+  it('查询词应该只包含二字组合，单字查询保留单字', () => {
+    expect(tokenizeQuery('胰腺癌')).toEqual(['胰腺', '腺癌']);
+    expect(tokenizeQuery('癌')).toEqual(['癌']);
+  });
+
+  it('应该统一英文大小写和全角字符，并拆分网址', () => {
+    expect(tokenizeQuery('ＰＤ-1 Immunotherapy')).toEqual(['pd', '1', 'immunotherapy']);
+    const tokens = tokenizeForIndex('https://www.Example.com/covid-19');
+    expect(tokens).toEqual(expect.arrayContaining(['example', 'com', 'covid', '19']));
+    expect(tokens).not.toContain('https');
+    expect(tokens).not.toContain('www');
+  });
+
+  it('应该忽略空值和标点', () => {
+    expect(tokenizeForIndex(undefined, null, '')).toEqual([]);
+    expect(tokenizeQuery('，。！?')).toEqual([]);
+  });
+});
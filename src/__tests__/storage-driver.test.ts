@@ -0,0 +1,66 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { LocalStorageDriver } from '../services/local-storage.driver';
+import { S3StorageDriver } from '../services/s3-storage.driver';
+import { resolveStorageConfig, StorageDriver } from '../services/storage-driver';
+
+const readAll = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString();
+};
+
+const describeDriver = (name: string, createDriver: () => StorageDriver) => {
+  describe(name, () => {
+    const driver = createDriver();
+    const key = `storage-test-${Date.now()}.txt`;
+
+    afterAll(async () => {
+      await driver.delete(key);
+      await driver.delete(`moved-${key}`);
+    });
+
+    it('应该写入并读取对象，支持按范围读取', async () => {
+      await driver.put(key, Readable.from([Buffer.from('hello '), Buffer.from('知识库')]), 'text/plain');
+
+      expect(await driver.exists(key)).toBe(true);
+      expect((await driver.stat(key))?.size).toBe(Buffer.byteLength('hello 知识库'));
+      expect(await readAll(await driver.getStream(key))).toBe('hello 知识库');
+      expect(await readAll(await driver.getStream(key, { start: 0, end: 4 }))).toBe('hello');
+    });
+
+    it('应该移动和删除对象', async () => {
+      await driver.move(key, `moved-${key}`);
+      expect(await driver.exists(key)).toBe(false);
+      expect(await driver.delete(`moved-${key}`)).toBe(true);
+      expect(await driver.delete(`moved-${key}`)).toBe(false);
+      expect(await driver.stat(`moved-${key}`)).toBeNull();
+    });
+  });
+};
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-storage-'));
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+describeDriver('LocalStorageDriver', () => new LocalStorageDriver(tmpDir));
+
+describe('LocalStorageDriver 对象名校验', () => {
+  it('应该拒绝包含路径的对象名', async () => {
+    const driver = new LocalStorageDriver(tmpDir);
+    await expect(driver.put('../escape.txt', Buffer.from('x'))).rejects.toThrow('非法的存储对象名');
+    await expect(driver.getStream('a/b.txt')).rejects.toThrow('非法的存储对象名');
+    expect(await driver.presign()).toBeNull();
+  });
+});
+
+// 配置 STORAGE_S3_BUCKET（以及 MinIO 的 STORAGE_S3_ENDPOINT 等）后运行 S3 驱动测试
+const s3Config = resolveStorageConfig().s3;
+if (s3Config.bucket) {
+  describeDriver('S3StorageDriver', () => new S3StorageDriver(s3Config));
+} else {
+  describe.skip('S3StorageDriver（未配置 STORAGE_S3_BUCKET）', () => {
+    it('跳过', () => undefined);
+  });
+}
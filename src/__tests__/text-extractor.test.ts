@@ -0,0 +1,54 @@
+import JSZip from 'jszip';
+import { decodeText, extractText, resolveExtractor } from '../utils/text-extractor';
+
+const buildDocx = async (paragraphs: string[], properties: { title?: string; creator?: string }) => {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>');
+  zip.file('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>');
+  zip.file('word/document.xml',
+    '<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>' +
+    paragraphs.map(p => `<w:p><w:r><w:t>${p}</w:t></w:r></w:p>`).join('') +
+    '</w:body></w:document>');
+  zip.file('docProps/core.xml',
+    '<?xml version="1.0" encoding="UTF-8"?><cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+    (properties.title ? `<dc:title>${properties.title}</dc:title>` : '') +
+    (properties.creator ? `<dc:creator>${properties.creator}</dc:creator>` : '') +
+    '</cp:coreProperties>');
+  return await zip.generateAsync({ type: 'nodebuffer' });
+};
+
+describe('text extractor', () => {
+  it('应该根据MIME类型或扩展名选择提取器', () => {
+    expect(resolveExtractor('application/pdf', 'a.bin')).toBe('pdf');
+    expect(resolveExtractor('application/octet-stream', '指南.DOCX')).toBe('docx');
+    expect(resolveExtractor('text/plain', 'note')).toBe('text');
+    expect(resolveExtractor('application/msword', '旧版.doc')).toBeNull();
+    expect(resolveExtractor('image/png', 'scan.png')).toBeNull();
+  });
+
+  it('应该兼容UTF-8和GB18030编码的纯文本', () => {
+    expect(decodeText(Buffer.from('\uFEFF化疗注意事项', 'utf-8'))).toBe('化疗注意事项');
+    // “中文”的 GBK 编码
+    expect(decodeText(Buffer.from([0xd6, 0xd0, 0xce, 0xc4]))).toBe('中文');
+  });
+
+  it('应该提取DOCX正文和文档属性', async () => {
+    const buffer = await buildDocx(['胰腺癌化疗指南', '第二段'], { title: '诊疗指南', creator: '李医生' });
+    const result = await extractText(buffer, 'docx');
+    expect(result.text).toBe('胰腺癌化疗指南\n\n第二段');
+    expect(result.title).toBe('诊疗指南');
+    expect(result.author).toBe('李医生');
+  });
+
+  it('应该规范化纯文本中的换行和空白', async () => {
+    const result = await extractText(Buffer.from('第一行  \r\n\r\n\r\n\t第二行'), 'text');
+    expect(result.text).toBe('第一行\n\n第二行');
+    expect(result.extractor).toBe('text');
+  });
+});
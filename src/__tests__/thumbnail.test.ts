@@ -0,0 +1,37 @@
+import sharp from 'sharp';
+import { ThumbnailSize } from '../models/file.model';
+import { renderThumbnails, resolveThumbnailSource } from '../utils/thumbnail';
+
+const createImage = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, background: { r: 200, g: 80, b: 40 } } }).jpeg().toBuffer();
+
+describe('thumbnail', () => {
+  it('应该只为图片和 PDF 生成缩略图', () => {
+    expect(resolveThumbnailSource('image/jpeg')).toBe('image');
+    expect(resolveThumbnailSource('IMAGE/PNG; charset=binary')).toBe('image');
+    expect(resolveThumbnailSource('application/pdf')).toBe('pdf');
+    expect(resolveThumbnailSource('image/svg+xml')).toBeNull();
+    expect(resolveThumbnailSource('text/plain')).toBeNull();
+  });
+
+  it('应该按最长边生成各尺寸的 WebP 缩略图', async () => {
+    const thumbnails = await renderThumbnails(await createImage(1200, 600));
+
+    expect(thumbnails.map(({ size, width, height }) => ({ size, width, height }))).toEqual([
+      { size: ThumbnailSize.SMALL, width: 160, height: 80 },
+      { size: ThumbnailSize.MEDIUM, width: 480, height: 240 },
+      { size: ThumbnailSize.LARGE, width: 960, height: 480 }
+    ]);
+    expect((await sharp(thumbnails[0].data).metadata()).format).toBe('webp');
+  });
+
+  it('不应该放大小图，并按 EXIF 方向旋转', async () => {
+    const small = await renderThumbnails(await createImage(100, 50), [ThumbnailSize.MEDIUM]);
+    expect(small[0]).toMatchObject({ width: 100, height: 50 });
+
+    // 方向 6 表示需要顺时针旋转 90 度
+    const rotated = await sharp(await createImage(300, 100)).withMetadata({ orientation: 6 }).jpeg().toBuffer();
+    const [thumbnail] = await renderThumbnails(rotated, [ThumbnailSize.SMALL]);
+    expect(thumbnail).toMatchObject({ width: 53, height: 160 });
+  });
+});
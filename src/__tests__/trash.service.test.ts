@@ -0,0 +1,238 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { TrashService } from '../services/trash.service';
+import { BlobService } from '../services/blob.service';
+import { SearchService } from '../services/search.service';
+import { FileStorageService } from '../services/file-storage.service';
+import { resolveStorageConfig } from '../services/storage-driver';
+import { QuotaErrorCode, QuotaExceededError, QuotaService } from '../services/quota.service';
+import { FileModel, FileStatus, ThumbnailSize } from '../models/file.model';
+import { BlobModel } from '../models/blob.model';
+import { QuotaUsageModel } from '../models/quota.model';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('TrashService', () => {
+  let mongoServer: MongoMemoryServer;
+  let mongoClient: MongoClient;
+  let db: Db;
+  let tmpDir: string;
+  let storage: FileStorageService;
+  let quarantineStorage: FileStorageService;
+  let blobService: BlobService;
+  let service: TrashService;
+
+  const ip = '10.0.0.1';
+  const now = new Date('2026-06-01T00:00:00Z');
+  const expired = new Date(now.getTime() - 31 * DAY);
+  const recent = new Date(now.getTime() - 29 * DAY);
+
+  const insertFile = async (fields: Partial<FileModel> = {}): Promise<ObjectId> => {
+    const file: Record<string, unknown> = {
+      shortCode: Math.random().toString(36).slice(2, 8),
+      originalName: 'notes.pdf',
+      filename: `file-${new ObjectId().toHexString()}.pdf`,
+      size: 300,
+      uploadIp: ip,
+      status: FileStatus.DELETED,
+      statusBeforeDelete: FileStatus.ACTIVE,
+      deletedAt: expired,
+      updatedAt: expired,
+      ...fields
+    };
+    // 传入 undefined 表示不设置该字段（如回收站上线前删除的文件没有删除时间）
+    for (const key of Object.keys(file)) {
+      if (file[key] === undefined) delete file[key];
+    }
+    const { insertedId } = await db.collection('files').insertOne(file);
+    return insertedId;
+  };
+
+  const fileOf = (fileId: ObjectId) => db.collection<FileModel>('files').findOne({ _id: fileId });
+  const usageOf = (key: string) => db.collection<QuotaUsageModel>('quota_usage').findOne({ _id: key });
+
+  beforeAll(async () => {
+    // 启动内存MongoDB服务器
+    mongoServer = await MongoMemoryServer.create();
+    mongoClient = new MongoClient(mongoServer.getUri());
+    await mongoClient.connect();
+    db = mongoClient.db();
+
+    // 匿名上传配额：1000 字节
+    process.env.QUOTA_ENABLED = 'true';
+    process.env.QUOTA_ANONYMOUS_MAX_BYTES = '1000';
+    process.env.QUOTA_ANONYMOUS_MAX_FILES = '10';
+
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'trash-service-'));
+    storage = new FileStorageService({ ...resolveStorageConfig(), driver: 'local', localDir: path.join(tmpDir, 'files') });
+    quarantineStorage = new FileStorageService({ ...resolveStorageConfig(), driver: 'local', localDir: path.join(tmpDir, 'quarantine') });
+  });
+
+  beforeEach(async () => {
+    await db.dropDatabase();
+    blobService = new BlobService(db, storage, quarantineStorage);
+    service = new TrashService(
+      db,
+      storage,
+      quarantineStorage,
+      blobService,
+      new SearchService(db),
+      new QuotaService(db),
+      { retentionDays: 30, purgeIntervalMs: 60 * 60 * 1000 }
+    );
+  });
+
+  afterAll(async () => {
+    // 清理连接和临时目录
+    if (mongoClient) {
+      await mongoClient.close();
+    }
+    if (mongoServer) {
+      await mongoServer.stop();
+    }
+    if (tmpDir) {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    }
+    delete process.env.QUOTA_ENABLED;
+    delete process.env.QUOTA_ANONYMOUS_MAX_BYTES;
+    delete process.env.QUOTA_ANONYMOUS_MAX_FILES;
+  });
+
+  describe('restore', () => {
+    it('应该恢复到删除前的状态并重新占用配额', async () => {
+      await insertFile({ status: FileStatus.ACTIVE, size: 200, deletedAt: undefined, statusBeforeDelete: undefined });
+      const fileId = await insertFile({ statusBeforeDelete: FileStatus.ERROR, deletedBy: new ObjectId() });
+
+      const restored = await service.restore(fileId);
+
+      expect(restored?.status).toBe(FileStatus.ERROR);
+      expect(restored).not.toHaveProperty('deletedAt');
+      expect(restored).not.toHaveProperty('deletedBy');
+      expect(restored).not.toHaveProperty('statusBeforeDelete');
+      expect(await usageOf(`ip:${ip}`)).toMatchObject({ bytes: 500, files: 2 });
+    });
+
+    it('超出配额时不恢复，用量保持不变', async () => {
+      await insertFile({ status: FileStatus.ACTIVE, size: 800, deletedAt: undefined, statusBeforeDelete: undefined });
+      const fileId = await insertFile({ size: 300 });
+
+      const error = await service.restore(fileId).catch(e => e);
+
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect(error.code).toBe(QuotaErrorCode.BYTES_EXCEEDED);
+      expect((await fileOf(fileId))?.status).toBe(FileStatus.DELETED);
+      expect(await usageOf(`ip:${ip}`)).toMatchObject({ bytes: 800, files: 1 });
+    });
+
+    it('恢复链接不占用配额', async () => {
+      const fileId = await insertFile({ isLink: true, size: 0 });
+
+      expect((await service.restore(fileId))?.status).toBe(FileStatus.ACTIVE);
+      expect(await usageOf(`ip:${ip}`)).toBeNull();
+    });
+
+    it('同时恢复同一文件只占用一次配额', async () => {
+      const fileId = await insertFile();
+
+      const results = await Promise.all([service.restore(fileId), service.restore(fileId)]);
+
+      expect(results.filter(Boolean)).toHaveLength(1);
+      expect(await usageOf(`ip:${ip}`)).toMatchObject({ bytes: 300, files: 1 });
+    });
+
+    it('不在回收站中的文件返回 null', async () => {
+      const fileId = await insertFile({ status: FileStatus.ACTIVE });
+
+      expect(await service.restore(fileId)).toBeNull();
+      expect(await service.restore(new ObjectId())).toBeNull();
+    });
+  });
+
+  describe('purgeExpired', () => {
+    it('应该删除过期文件的记录、正文、索引、物理文件和缩略图，保留未过期的文件', async () => {
+      const fileId = await insertFile({
+        thumbnails: [{
+          size: ThumbnailSize.SMALL,
+          filename: 'thumb-small.webp',
+          mimeType: 'image/webp',
+          width: 160,
+          height: 120,
+          bytes: 4
+        }]
+      });
+      const file = await fileOf(fileId);
+      await storage.putFile(file!.filename, Buffer.from('pdf'));
+      await storage.putFile('thumb-small.webp', Buffer.from('webp'));
+      await db.collection('file_contents').insertOne({ _id: fileId, text: '正文' } as any);
+      await db.collection('search_index').insertOne({ _id: fileId, terms: ['正文'] } as any);
+      // 回收站上线前删除的文件没有删除时间，按最后更新时间计算
+      const legacyId = await insertFile({ deletedAt: undefined });
+      const recentId = await insertFile({ deletedAt: recent, updatedAt: recent });
+
+      expect(await service.purgeExpired(now)).toBe(2);
+
+      expect(await fileOf(fileId)).toBeNull();
+      expect(await fileOf(legacyId)).toBeNull();
+      expect(await fileOf(recentId)).not.toBeNull();
+      expect(await storage.fileExists(file!.filename)).toBe(false);
+      expect(await storage.fileExists('thumb-small.webp')).toBe(false);
+      expect(await db.collection('file_contents').countDocuments({ _id: fileId } as any)).toBe(0);
+      expect(await db.collection('search_index').countDocuments({ _id: fileId } as any)).toBe(0);
+    });
+
+    it('内容寻址的文件只释放引用，最后一个引用释放后才删除物理文件', async () => {
+      await storage.putFile('upload-1.pdf', Buffer.from('same content'));
+      await storage.putFile('upload-2.pdf', Buffer.from('same content'));
+      const first = await blobService.store('upload-1.pdf', 12);
+      await blobService.store('upload-2.pdf', 12);
+      await insertFile({ sha256: first.sha256, filename: first.filename, size: 12 });
+      const liveId = await insertFile({
+        sha256: first.sha256,
+        filename: first.filename,
+        size: 12,
+        status: FileStatus.ACTIVE,
+        deletedAt: undefined
+      });
+
+      await service.purgeExpired(now);
+
+      const blob = await db.collection<BlobModel>('blobs').findOne({ _id: first.sha256 });
+      expect(blob?.refCount).toBe(1);
+      expect(await storage.fileExists(first.filename)).toBe(true);
+
+      // 另一条记录也过期后，内容块和物理文件一并删除
+      await db.collection('files').updateOne(
+        { _id: liveId },
+        { $set: { status: FileStatus.DELETED, statusBeforeDelete: FileStatus.ACTIVE, deletedAt: expired } }
+      );
+      await service.purgeExpired(now);
+
+      expect(await db.collection<BlobModel>('blobs').findOne({ _id: first.sha256 })).toBeNull();
+      expect(await storage.fileExists(first.filename)).toBe(false);
+    });
+
+    it('删除前已被隔离的文件应该从隔离存储中删除', async () => {
+      const fileId = await insertFile({ statusBeforeDelete: FileStatus.QUARANTINED });
+      const file = await fileOf(fileId);
+      await quarantineStorage.putFile(file!.filename, Buffer.from('malware'));
+
+      expect(await service.purgeExpired(now)).toBe(1);
+
+      expect(await quarantineStorage.fileExists(file!.filename)).toBe(false);
+    });
+
+    it('不应该归还已在移入回收站时归还的配额', async () => {
+      await insertFile({ status: FileStatus.ACTIVE, size: 200, deletedAt: undefined, statusBeforeDelete: undefined });
+      await insertFile();
+      const quota = new QuotaService(db);
+      await quota.getUsage(`ip:${ip}`);
+
+      await service.purgeExpired(now);
+
+      expect(await usageOf(`ip:${ip}`)).toMatchObject({ bytes: 200, files: 1 });
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { UploadSessionController } from '../controllers/upload-session.controller';
+import { container } from '../services/container';
+import { UploadSessionError } from '../services/upload-session.service';
+import { QuotaErrorCode, QuotaExceededError } from '../services/quota.service';
+import { UploadSessionStatus } from '../models/upload-session.model';
+import type { AuthRequest } from '../middlewares/auth.middleware';
+
+// Mock services
+jest.mock('../services/container', () => ({
+  container: {
+    getUploadSessionService: jest.fn(),
+    getUploadService: jest.fn(),
+  },
+}));
+
+describe('UploadSessionController', () => {
+  let mockSessionService: any;
+  let mockUploadService: any;
+  let mockRequest: Partial<AuthRequest>;
+  let mockResponse: Partial<Response>;
+  let mockNext: NextFunction;
+
+  const session = {
+    _id: 'a'.repeat(32),
+    uploaderId: new ObjectId(),
+    uploadIp: '127.0.0.1',
+    originalName: 'report.txt',
+    mimeType: 'text/plain',
+    size: 10,
+    chunkSize: 256 * 1024,
+    totalChunks: 1,
+    receivedChunks: [0],
+    categories: ['docs'],
+    status: UploadSessionStatus.ACTIVE,
+    expiresAt: new Date(Date.now() + 60_000),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+  const stored = {
+    originalname: 'report.txt',
+    mimetype: 'text/plain',
+    size: 10,
+    filename: 'file-1.txt',
+    sha256: 'b'.repeat(64)
+  };
+
+  beforeEach(() => {
+    mockSessionService = {
+      createSession: jest.fn(),
+      complete: jest.fn(),
+      missingChunks: jest.fn().mockReturnValue([]),
+    };
+    mockUploadService = {
+      saveStoredFile: jest.fn(),
+    };
+
+    (container.getUploadSessionService as jest.Mock).mockReturnValue(mockSessionService);
+    (container.getUploadService as jest.Mock).mockReturnValue(mockUploadService);
+
+    mockRequest = {
+      body: {},
+      params: { sessionId: session._id },
+      ip: '127.0.0.1',
+      user: { id: session.uploaderId.toString(), username: 'alice', role: 'user' as any, permissions: [] },
+    };
+
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+
+    mockNext = jest.fn();
+  });
+
+  describe('createSession', () => {
+    it('未完成的会话过多时应该返回429', async () => {
+      mockRequest.body = { filename: 'report.txt', mimeType: 'text/plain', size: 10 };
+      mockSessionService.createSession.mockRejectedValue(new UploadSessionError('未完成的上传会话过多', 429));
+
+      await UploadSessionController.createSession(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('超出配额时应该返回413和错误码', async () => {
+      mockRequest.body = { filename: 'report.txt', mimeType: 'text/plain', size: 10 };
+      mockSessionService.createSession.mockRejectedValue(
+        new QuotaExceededError(QuotaErrorCode.BYTES_EXCEEDED, { maxBytes: 5, maxFiles: null }, { bytes: 0, files: 0 })
+      );
+
+      await UploadSessionController.createSession(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(413);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        success: false,
+        code: QuotaErrorCode.BYTES_EXCEEDED
+      }));
+    });
+  });
+
+  describe('complete', () => {
+    it('应该用会话的分类和上传者保存合并后的文件', async () => {
+      const file = { _id: new ObjectId(), shortCode: 'ABC123' };
+      mockSessionService.complete.mockImplementation((_id: string, _requester: string, finalize: any) =>
+        finalize(stored, session)
+      );
+      mockUploadService.saveStoredFile.mockResolvedValue(file);
+
+      await UploadSessionController.complete(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockUploadService.saveStoredFile).toHaveBeenCalledWith(stored, mockRequest, ['docs'], session.uploaderId);
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ success: true, data: file }));
+    });
+
+    it('保存文件时超出配额应该返回413和错误码，而不是500', async () => {
+      const error = new QuotaExceededError(
+        QuotaErrorCode.FILES_EXCEEDED,
+        { maxBytes: null, maxFiles: 1 },
+        { bytes: 10, files: 1 }
+      );
+      mockSessionService.complete.mockImplementation((_id: string, _requester: string, finalize: any) =>
+        finalize(stored, session)
+      );
+      mockUploadService.saveStoredFile.mockRejectedValue(error);
+
+      await UploadSessionController.complete(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(413);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        message: error.message,
+        code: QuotaErrorCode.FILES_EXCEEDED,
+        data: { limit: { maxBytes: null, maxFiles: 1 }, usage: { bytes: 10, files: 1 } }
+      });
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('其他错误应该交给错误处理中间件', async () => {
+      const error = new Error('数据库不可用');
+      mockSessionService.complete.mockRejectedValue(error);
+
+      await UploadSessionController.complete(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(error);
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoClient, Db, ObjectId } from 'mongodb';
+import { UploadSessionError, UploadSessionService } from '../services/upload-session.service';
+import { FileStorageService } from '../services/file-storage.service';
+import { resolveStorageConfig } from '../services/storage-driver';
+import { QuotaErrorCode, QuotaExceededError, QuotaService } from '../services/quota.service';
+import { UploadSessionModel, UploadSessionStatus } from '../models/upload-session.model';
+import { FileModel } from '../models/file.model';
+
+const CHUNK_SIZE = 256 * 1024;
+const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+describe('UploadSessionService', () => {
+  let mongoServer: MongoMemoryServer;
+  let mongoClient: MongoClient;
+  let db: Db;
+  let tmpDir: string;
+  let storage: FileStorageService;
+  let service: UploadSessionService;
+
+  // 两个分片：一个完整分片加一个较小的最后一片
+  const content = Buffer.alloc(CHUNK_SIZE + 1000, 'a');
+  const chunks = [content.subarray(0, CHUNK_SIZE), content.subarray(CHUNK_SIZE)];
+
+  const createSession = (overrides: Partial<Parameters<UploadSessionService['createSession']>[0]> = {}) =>
+    service.createSession({
+      originalName: 'notes.txt',
+      mimeType: 'text/plain',
+      size: content.length,
+      sha256: sha256(content),
+      chunkSize: CHUNK_SIZE,
+      categories: ['docs'],
+      uploadIp: '10.0.0.1',
+      ...overrides
+    });
+
+  const uploadAll = async (session: UploadSessionModel) => {
+    for (let i = 0; i < chunks.length; i++) {
+      await service.uploadPart(session._id, i, chunks[i], sha256(chunks[i]));
+    }
+  };
+
+  beforeAll(async () => {
+    // 启动内存MongoDB服务器
+    mongoServer = await MongoMemoryServer.create();
+    mongoClient = new MongoClient(mongoServer.getUri());
+    await mongoClient.connect();
+    db = mongoClient.db();
+
+    // 匿名上传配额：1MB、10个文件
+    process.env.QUOTA_ENABLED = 'true';
+    process.env.QUOTA_ANONYMOUS_MAX_BYTES = String(1024 * 1024);
+    process.env.QUOTA_ANONYMOUS_MAX_FILES = '10';
+    process.env.METADATA_STRIP_ENABLED = 'false';
+
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'upload-session-'));
+    storage = new FileStorageService({ ...resolveStorageConfig(), driver: 'local', localDir: path.join(tmpDir, 'files') });
+  });
+
+  beforeEach(async () => {
+    await db.dropDatabase();
+    service = new UploadSessionService(
+      db,
+      {
+        maxFileSize: 5 * 1024 * 1024,
+        defaultChunkSize: CHUNK_SIZE,
+        maxChunkSize: 4 * CHUNK_SIZE,
+        sessionTtlMs: 60 * 60 * 1000,
+        maxOpenSessions: 3,
+        partsDir: path.join(tmpDir, 'parts')
+      },
+      storage,
+      new QuotaService(db)
+    );
+    await service.ensureIndexes();
+  });
+
+  afterAll(async () => {
+    // 清理连接和临时目录
+    if (mongoClient) {
+      await mongoClient.close();
+    }
+    if (mongoServer) {
+      await mongoServer.stop();
+    }
+    if (tmpDir) {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    }
+    delete process.env.QUOTA_ENABLED;
+    delete process.env.QUOTA_ANONYMOUS_MAX_BYTES;
+    delete process.env.QUOTA_ANONYMOUS_MAX_FILES;
+    delete process.env.METADATA_STRIP_ENABLED;
+  });
+
+  describe('createSession', () => {
+    it('应该按分片大小计算分片数', async () => {
+      const session = await createSession();
+
+      expect(session.status).toBe(UploadSessionStatus.ACTIVE);
+      expect(session.totalChunks).toBe(2);
+      expect(service.missingChunks(session)).toEqual([0, 1]);
+    });
+
+    it('应该拒绝不支持的文件类型和过小的分片', async () => {
+      await expect(createSession({ mimeType: 'application/x-msdownload' })).rejects.toMatchObject({ statusCode: 400 });
+      await expect(createSession({ chunkSize: 1024 })).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('未完成会话声明的大小应该计入配额', async () => {
+      const size = 600 * 1024;
+      await createSession({ size, sha256: undefined });
+
+      // 已有 600KB 的会话未完成，再开一个 600KB 的会话会超出 1MB 配额
+      const error = await createSession({ size, sha256: undefined }).catch(e => e);
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect(error.code).toBe(QuotaErrorCode.BYTES_EXCEEDED);
+
+      // 其他IP的匿名上传不受影响
+      await expect(createSession({ size, sha256: undefined, uploadIp: '10.0.0.2' })).resolves.toBeDefined();
+    });
+
+    it('取消的会话不再占用配额', async () => {
+      const size = 600 * 1024;
+      const first = await createSession({ size, sha256: undefined });
+      await service.abort(first._id);
+
+      await expect(createSession({ size, sha256: undefined })).resolves.toBeDefined();
+    });
+
+    it('未完成的会话数量超过上限时应该返回429', async () => {
+      const uploaderId = new ObjectId();
+      for (let i = 0; i < 3; i++) {
+        await createSession({ uploaderId, size: 1000, sha256: undefined });
+      }
+
+      await expect(createSession({ uploaderId, size: 1000, sha256: undefined })).rejects.toMatchObject({
+        name: 'UploadSessionError',
+        statusCode: 429
+      });
+      // 上限按上传者统计
+      await expect(createSession({ uploaderId: new ObjectId(), size: 1000, sha256: undefined })).resolves.toBeDefined();
+    });
+  });
+
+  describe('uploadPart', () => {
+    it('应该记录已接收的分片，重复上传同一分片不会重复计数', async () => {
+      const session = await createSession();
+      await service.uploadPart(session._id, 0, chunks[0], sha256(chunks[0]));
+      const updated = await service.uploadPart(session._id, 0, chunks[0], sha256(chunks[0]));
+
+      expect(updated.receivedChunks).toEqual([0]);
+      expect(service.missingChunks(updated)).toEqual([1]);
+    });
+
+    it('应该拒绝大小不正确、校验值不一致和序号越界的分片', async () => {
+      const session = await createSession();
+
+      await expect(service.uploadPart(session._id, 1, chunks[0], sha256(chunks[0]))).rejects.toMatchObject({ statusCode: 400 });
+      await expect(service.uploadPart(session._id, 0, chunks[0], sha256(chunks[1]))).rejects.toMatchObject({ statusCode: 422 });
+      await expect(service.uploadPart(session._id, 2, chunks[1], sha256(chunks[1]))).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('登录用户的会话不能被其他人继续上传', async () => {
+      const session = await createSession({ uploaderId: new ObjectId() });
+
+      await expect(
+        service.uploadPart(session._id, 0, chunks[0], sha256(chunks[0]), new ObjectId().toString())
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
+  describe('complete', () => {
+    it('分片未到齐时应该返回409', async () => {
+      const session = await createSession();
+      await service.uploadPart(session._id, 0, chunks[0], sha256(chunks[0]));
+
+      await expect(service.complete(session._id, undefined, jest.fn())).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('应该按顺序合并分片并交由 finalize 生成文件记录', async () => {
+      const session = await createSession();
+      await uploadAll(session);
+      const fileId = new ObjectId();
+      const finalize = jest.fn(async () => ({ _id: fileId } as FileModel));
+
+      await service.complete(session._id, undefined, finalize);
+
+      const [stored, finalizedSession] = (finalize.mock.calls[0] as unknown) as [any, UploadSessionModel];
+      expect(stored.size).toBe(content.length);
+      expect(stored.sha256).toBe(sha256(content));
+      expect(finalizedSession.categories).toEqual(['docs']);
+      expect(await storage.readHead(stored.filename, content.length)).toEqual(content);
+
+      const completed = await service.getSession(session._id);
+      expect(completed.status).toBe(UploadSessionStatus.COMPLETED);
+      expect(completed.fileId).toEqual(fileId);
+      expect(fs.existsSync(path.join(tmpDir, 'parts', session._id))).toBe(false);
+    });
+
+    it('整体校验值不一致时应该放弃会话', async () => {
+      const session = await createSession({ sha256: 'f'.repeat(64) });
+      await uploadAll(session);
+
+      await expect(service.complete(session._id, undefined, jest.fn())).rejects.toBeInstanceOf(UploadSessionError);
+      expect((await service.getSession(session._id)).status).toBe(UploadSessionStatus.ABORTED);
+    });
+
+    it('保存文件时超出配额应该原样抛出并放弃会话', async () => {
+      const session = await createSession();
+      await uploadAll(session);
+      const quotaError = new QuotaExceededError(
+        QuotaErrorCode.BYTES_EXCEEDED,
+        { maxBytes: 1024, maxFiles: null },
+        { bytes: 1024, files: 1 }
+      );
+
+      await expect(service.complete(session._id, undefined, async () => { throw quotaError; })).rejects.toBe(quotaError);
+
+      expect((await service.getSession(session._id)).status).toBe(UploadSessionStatus.ABORTED);
+      expect(fs.existsSync(path.join(tmpDir, 'parts', session._id))).toBe(false);
+    });
+
+    it('其他错误应该恢复会话，允许客户端重试合并', async () => {
+      const session = await createSession();
+      await uploadAll(session);
+
+      await expect(
+        service.complete(session._id, undefined, async () => { throw new Error('数据库不可用'); })
+      ).rejects.toThrow('数据库不可用');
+      expect((await service.getSession(session._id)).status).toBe(UploadSessionStatus.ACTIVE);
+
+      const fileId = new ObjectId();
+      await service.complete(session._id, undefined, async () => ({ _id: fileId } as FileModel));
+      expect((await service.getSession(session._id)).status).toBe(UploadSessionStatus.COMPLETED);
+    });
+
+    it('同一会话不能同时合并两次', async () => {
+      const session = await createSession();
+      await uploadAll(session);
+      const finalize = jest.fn(async () => ({ _id: new ObjectId() } as FileModel));
+
+      const results = await Promise.allSettled([
+        service.complete(session._id, undefined, finalize),
+        service.complete(session._id, undefined, finalize)
+      ]);
+
+      expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+      expect(finalize).toHaveBeenCalledTimes(1);
+    });
+  });
+});
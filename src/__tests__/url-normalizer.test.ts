@@ -0,0 +1,35 @@
+import { normalizeUrl } from '../utils/url-normalizer';
+
+describe('normalizeUrl', () => {
+  it('应该统一协议、主机名大小写和www前缀', () => {
+    expect(normalizeUrl('http://WWW.Example.com/Article')).toBe('https://example.com/Article');
+    expect(normalizeUrl('https://example.com:443/a')).toBe('https://example.com/a');
+  });
+
+  it('应该去掉末尾斜杠和普通锚点', () => {
+    expect(normalizeUrl('https://example.com/')).toBe('https://example.com');
+    expect(normalizeUrl('https://example.com/a/b/')).toBe('https://example.com/a/b');
+    expect(normalizeUrl('https://example.com/a#section')).toBe('https://example.com/a');
+  });
+
+  it('应该保留前端路由形式的锚点', () => {
+    expect(normalizeUrl('https://example.com/#/page/1')).toBe('https://example.com/#/page/1');
+    expect(normalizeUrl('https://example.com/#!/page')).toBe('https://example.com/#!/page');
+  });
+
+  it('应该移除utm等跟踪参数并对剩余参数排序', () => {
+    expect(
+      normalizeUrl('https://example.com/a?b=2&utm_source=wechat&a=1&fbclid=xyz&UTM_Medium=x')
+    ).toBe('https://example.com/a?a=1&b=2');
+  });
+
+  it('应该移除微信文章的分享参数', () => {
+    const shared = 'https://mp.weixin.qq.com/s?__biz=MzA&mid=2650&idx=1&sn=abc&chksm=8b&scene=21#wechat_redirect';
+    const canonical = 'http://mp.weixin.qq.com/s?__biz=MzA&mid=2650&idx=1&sn=abc';
+    expect(normalizeUrl(shared)).toBe(normalizeUrl(canonical));
+  });
+
+  it('只应在对应站点移除站点专属参数', () => {
+    expect(normalizeUrl('https://example.com/list?scene=1')).toBe('https://example.com/list?scene=1');
+  });
+});
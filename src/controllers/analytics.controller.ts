@@ -0,0 +1,191 @@
+import type { Request, Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { container } from '../services/container.js';
+import type { AnalyticsRange } from '../services/analytics.service.js';
+import type { AuthRequest } from '../middlewares/auth.middleware.js';
+import { FileModel } from '../models/file.model.js';
+import {
+  AnalyticsContext,
+  AnalyticsEventType,
+  AnalyticsGranularity
+} from '../models/analytics.model.js';
+
+const PERIOD_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+const MAX_TOP_LIMIT = 100;
+
+/**
+ * 访问统计控制器
+ * 提供资源访问时间序列、热门资源和独立访客统计（仅管理员）
+ */
+export class AnalyticsController {
+  /**
+   * 从请求中提取统计上下文
+   */
+  public static getContext(req: AuthRequest): AnalyticsContext {
+    return {
+      ip: req.ip || req.socket?.remoteAddress,
+      userAgent: req.get('User-Agent'),
+      referrer: req.get('Referer'),
+      userId: req.user?.id
+    };
+  }
+
+  /**
+   * 记录访问事件（不等待写入完成）
+   */
+  public static track(req: AuthRequest, file: FileModel, type: AnalyticsEventType): void {
+    void container.getAnalyticsService().track(file, type, AnalyticsController.getContext(req));
+  }
+
+  /**
+   * 解析统计时间范围
+   * 支持 from/to（ISO时间）或 period（如 24h、7d、30d），默认最近7天
+   */
+  private static parseRange(req: Request): AnalyticsRange | string {
+    const { from, to, period, type } = req.query as Record<string, string | undefined>;
+    const end = to ? new Date(to) : new Date();
+    let start: Date;
+
+    if (from) {
+      start = new Date(from);
+    } else {
+      const match = (period || '7d').match(/^(\d+)([hd])$/);
+      if (!match) {
+        return '无效的统计周期，格式如 24h、7d、30d';
+      }
+      start = new Date(end.getTime() - Number(match[1]) * PERIOD_UNITS[match[2]]);
+    }
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      return '无效的时间范围';
+    }
+
+    if (type && !Object.values(AnalyticsEventType).includes(type as AnalyticsEventType)) {
+      return '无效的事件类型';
+    }
+
+    return { from: start, to: end, type: type as AnalyticsEventType | undefined };
+  }
+
+  /**
+   * 单个资源的访问时间序列
+   */
+  static async getTimeSeries(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const granularity = (req.query.granularity as AnalyticsGranularity) || 'day';
+
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的文件ID'
+        });
+      }
+
+      if (!['hour', 'day', 'month'].includes(granularity)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的时间粒度'
+        });
+      }
+
+      const range = AnalyticsController.parseRange(req);
+      if (typeof range === 'string') {
+        return res.status(400).json({
+          success: false,
+          message: range
+        });
+      }
+
+      const analyticsService = container.getAnalyticsService();
+      const series = await analyticsService.getTimeSeries(new ObjectId(id), range, granularity);
+
+      res.json({
+        success: true,
+        data: {
+          fileId: id,
+          granularity,
+          from: range.from,
+          to: range.to,
+          series
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 指定时间段内的热门资源
+   */
+  static async getTopItems(req: Request, res: Response, next: NextFunction) {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 10, 1), MAX_TOP_LIMIT);
+
+      const range = AnalyticsController.parseRange(req);
+      if (typeof range === 'string') {
+        return res.status(400).json({
+          success: false,
+          message: range
+        });
+      }
+
+      const analyticsService = container.getAnalyticsService();
+      const items = await analyticsService.getTopItems(range, limit);
+
+      res.json({
+        success: true,
+        data: {
+          from: range.from,
+          to: range.to,
+          items
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 独立访客估算（可按资源筛选）
+   */
+  static async getUniqueVisitors(req: Request, res: Response, next: NextFunction) {
+    try {
+      const fileId = req.query.fileId as string | undefined;
+
+      if (fileId && !ObjectId.isValid(fileId)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的文件ID'
+        });
+      }
+
+      const range = AnalyticsController.parseRange(req);
+      if (typeof range === 'string') {
+        return res.status(400).json({
+          success: false,
+          message: range
+        });
+      }
+
+      const analyticsService = container.getAnalyticsService();
+      const result = await analyticsService.getUniqueVisitors(range, fileId ? new ObjectId(fileId) : undefined);
+
+      res.json({
+        success: true,
+        data: {
+          fileId,
+          from: range.from,
+          to: range.to,
+          ...result
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
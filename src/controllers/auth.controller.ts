@@ -1,6 +1,12 @@
 import { Request, Response } from 'express';
+import { ObjectId } from 'mongodb';
 import { AuthService } from '../services/auth.service.js';
+import type { RateLimitService } from '../services/rate-limit.service.js';
 import { UserInput, LoginInput } from '../models/user.model.js';
+import { SessionContext } from '../models/refresh-token.model.js';
+import { resolveMailLocale } from '../utils/mail-templates.js';
+import { Role, ROLE_PERMISSIONS, normalizeRole, resolvePermissions } from '../models/role.model.js';
+import type { AuthRequest } from '../middlewares/auth.middleware.js';
 import { createLogger } from '../utils/logger.js';
 
 // 创建认证控制器日志器
@@ -8,9 +14,21 @@ const logger = createLogger('AuthController');
 
 export class AuthController {
   private authService: AuthService;
+  private rateLimitService?: RateLimitService;
 
-  constructor(authService: AuthService) {
+  constructor(authService: AuthService, rateLimitService?: RateLimitService) {
     this.authService = authService;
+    this.rateLimitService = rateLimitService;
+  }
+
+  /**
+   * 获取签发令牌时记录的客户端信息
+   */
+  private getSessionContext(req: Request): SessionContext {
+    return {
+      ip: req.ip,
+      userAgent: req.get('User-Agent')
+    };
   }
 
   register = async (req: Request, res: Response) => {
@@ -45,16 +63,17 @@ export class AuthController {
       }
 
       // 获取真实IP地址
-      const forwarded = req.headers['x-forwarded-for'];
-      const uploadIp = Array.isArray(forwarded) ? forwarded[0] : (forwarded || req.ip || '');
+      // 经过反向代理时的客户端IP由 trust proxy 设置决定，不直接读取 X-Forwarded-For
+      const uploadIp = req.ip || '';
       
       const userData: UserInput = {
         ...userInput,
-        uploadIp
+        uploadIp,
+        locale: resolveMailLocale(req.body.locale || req.get('Accept-Language'))
       };
 
       logger.dev('开始处理用户注册', { username: userInput.username, uploadIp });
-      const result = await this.authService.register(userData);
+      const result = await this.authService.register(userData, this.getSessionContext(req));
       
       logger.info('用户注册成功', { 
         userId: result.user.id, 
@@ -101,8 +120,21 @@ export class AuthController {
         });
       }
 
+      // 连续登录失败的账号在锁定期内直接拒绝（按账号和IP锁定，累计失败过多时锁定账号）
+      const lockMs = await this.rateLimitService?.getLoginLockMs(loginInput.username, req.ip || 'unknown') || 0;
+      if (lockMs > 0) {
+        const retryAfter = Math.ceil(lockMs / 1000);
+        logger.warn('用户登录失败：账号已暂时锁定', { username: loginInput.username, ip: req.ip, retryAfter });
+        res.set('Retry-After', String(retryAfter));
+        return res.status(429).json({
+          message: 'Too many failed login attempts, please try again later',
+          retryAfter
+        });
+      }
+
       logger.dev('开始验证用户凭据', { username: loginInput.username });
-      const result = await this.authService.login(loginInput.username, loginInput.password);
+      const result = await this.authService.login(loginInput.username, loginInput.password, this.getSessionContext(req));
+      await this.rateLimitService?.resetLoginFailures(loginInput.username, req.ip || 'unknown');
       
       logger.info('用户登录成功', { 
         userId: result.user.id, 
@@ -122,8 +154,12 @@ export class AuthController {
             username: loginInput?.username,
             ip: req.ip
           });
+          await this.rateLimitService?.recordLoginFailure(loginInput.username, req.ip || 'unknown');
           return res.status(401).json({ message: 'Invalid username or password' });
         }
+        if (error.message.includes('Account disabled')) {
+          return res.status(403).json({ message: 'Account disabled' });
+        }
       }
       logger.errorWithStack('用户登录时发生内部错误', error as Error);
       res.status(500).json({ message: 'Internal server error' });
@@ -156,7 +192,9 @@ export class AuthController {
           id: user._id?.toString(),
           username: user.username,
           email: user.email,
-          role: user.role,
+          role: normalizeRole(user.role),
+          permissions: resolvePermissions(user.role),
+          emailVerified: !!user.emailVerified,
           createdAt: user.createdAt,
           updatedAt: user.updatedAt
         }
@@ -166,4 +204,229 @@ export class AuthController {
       res.status(500).json({ message: 'Internal server error' });
     }
   };
-}
\ No newline at end of file
+
+  refresh = async (req: Request, res: Response) => {
+    try {
+      const { refreshToken } = req.body || {};
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        return res.status(400).json({ message: 'Refresh token is required' });
+      }
+
+      const result = await this.authService.refresh(refreshToken, this.getSessionContext(req));
+      res.json({
+        message: 'Token refreshed',
+        data: result
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes('Account disabled')) {
+          return res.status(403).json({ message: 'Account disabled' });
+        }
+        if (error.message.includes('refresh token') || error.message.includes('Refresh token')) {
+          logger.warn('刷新令牌失败', { reason: error.message, ip: req.ip });
+          return res.status(401).json({ message: error.message });
+        }
+      }
+      logger.errorWithStack('刷新令牌时发生内部错误', error as Error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  logout = async (req: Request, res: Response) => {
+    try {
+      const { refreshToken } = req.body || {};
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        return res.status(400).json({ message: 'Refresh token is required' });
+      }
+
+      await this.authService.logout(refreshToken);
+      res.json({ message: 'Logout successful' });
+    } catch (error) {
+      logger.errorWithStack('退出登录时发生内部错误', error as Error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  logoutAll = async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const revokedSessions = await this.authService.logoutAll(userId);
+      res.json({
+        message: 'Logged out from all devices',
+        data: { revokedSessions }
+      });
+    } catch (error) {
+      logger.errorWithStack('退出所有设备时发生内部错误', error as Error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  setUserStatus = async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { disabled } = req.body || {};
+
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid user ID' });
+      }
+      if (typeof disabled !== 'boolean') {
+        return res.status(400).json({ message: 'Field "disabled" must be a boolean' });
+      }
+      if (disabled && id === req.user?.id) {
+        return res.status(400).json({ message: 'Cannot disable your own account' });
+      }
+
+      const user = await this.authService.setUserDisabled(id, disabled);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      logger.info('管理员更新用户状态', { adminId: req.user?.id, userId: id, disabled });
+      res.json({
+        message: disabled ? 'User disabled' : 'User enabled',
+        data: {
+          id: user._id?.toString(),
+          username: user.username,
+          disabled: !!user.disabled
+        }
+      });
+    } catch (error) {
+      logger.errorWithStack('更新用户状态时发生内部错误', error as Error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  verifyEmail = async (req: Request, res: Response) => {
+    try {
+      const { token } = req.body || {};
+      if (!token || typeof token !== 'string') {
+        return res.status(400).json({ message: 'Token is required' });
+      }
+
+      const user = await this.authService.verifyEmail(token);
+      res.json({
+        message: 'Email verified',
+        data: { id: user._id?.toString(), email: user.email, emailVerified: true }
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Invalid or expired token')) {
+        return res.status(400).json({ message: error.message });
+      }
+      logger.errorWithStack('验证邮箱时发生内部错误', error as Error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  resendVerification = async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: 'User not authenticated' });
+      }
+
+      const user = await this.authService.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      await this.authService.sendVerificationEmail(user);
+      res.json({ message: 'Verification email sent' });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('already verified')) {
+        return res.status(409).json({ message: error.message });
+      }
+      logger.errorWithStack('重新发送验证邮件时发生内部错误', error as Error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  forgotPassword = async (req: Request, res: Response) => {
+    try {
+      const { email, locale } = req.body || {};
+      if (!email || typeof email !== 'string') {
+        return res.status(400).json({ message: 'Email is required' });
+      }
+
+      await this.authService.requestPasswordReset(email, locale ? resolveMailLocale(locale) : undefined);
+
+      // 无论邮箱是否存在都返回相同结果
+      res.json({ message: 'If the email is registered, a password reset link has been sent' });
+    } catch (error) {
+      logger.errorWithStack('申请重置密码时发生内部错误', error as Error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  resetPassword = async (req: Request, res: Response) => {
+    try {
+      const { token, password } = req.body || {};
+      if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+        return res.status(400).json({ message: 'Token and password are required' });
+      }
+
+      if (password.length < 6) {
+        return res.status(400).json({
+          message: 'Password must be at least 6 characters long'
+        });
+      }
+
+      await this.authService.resetPassword(token, password);
+      res.json({ message: 'Password reset successful' });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Invalid or expired token')) {
+        return res.status(400).json({ message: error.message });
+      }
+      logger.errorWithStack('重置密码时发生内部错误', error as Error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+
+  getRoles = async (_req: Request, res: Response) => {
+    res.json({
+      data: Object.values(Role).map(role => ({
+        role,
+        permissions: ROLE_PERMISSIONS[role]
+      }))
+    });
+  };
+
+  setUserRole = async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params;
+      const { role } = req.body || {};
+
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid user ID' });
+      }
+      if (!Object.values(Role).includes(role)) {
+        return res.status(400).json({ message: `Role must be one of: ${Object.values(Role).join(', ')}` });
+      }
+      if (id === req.user?.id) {
+        return res.status(400).json({ message: 'Cannot change your own role' });
+      }
+
+      const user = await this.authService.setUserRole(id, role);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      logger.info('管理员修改用户角色', { adminId: req.user?.id, userId: id, role });
+      res.json({
+        message: 'Role updated',
+        data: {
+          id: user._id?.toString(),
+          username: user.username,
+          role,
+          permissions: resolvePermissions(role)
+        }
+      });
+    } catch (error) {
+      logger.errorWithStack('修改用户角色时发生内部错误', error as Error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  };
+}
@@ -1,11 +1,29 @@
 import type { Request, Response, NextFunction } from 'express';
+import { randomBytes } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import path from 'node:path';
 import { container } from '../services/container.js';
 import { ObjectId } from 'mongodb';
 import { createLogger } from '../utils/logger.js';
+import { buildETag, contentDisposition, isNotModified, isRangeFresh, parseRange } from '../utils/http-download.js';
+import { resolveThumbnailSource } from '../utils/thumbnail.js';
+import { AnalyticsEventType } from '../models/analytics.model.js';
+import { AnalyticsController } from './analytics.controller.js';
+import { AuthRequest, canModifyResource, canViewContent, hasPermission } from '../middlewares/auth.middleware.js';
+import { FileModel, FileStatus, FileUpdate, HIDDEN_STATUSES, ReviewStatus, SCANNER_MANAGED_STATUSES, ThumbnailSize } from '../models/file.model.js';
+import { Permission } from '../models/role.model.js';
+import { QuotaExceededError } from '../services/quota.service.js';
+import { resolveInitialReviewStatus } from '../services/review.service.js';
 
 // 创建文件控制器日志器
 const logger = createLogger('FileController');
 
+/**
+ * 在线预览的内容安全策略：只允许展示图片和浏览器内置的 PDF 查看器，禁止脚本
+ */
+const PREVIEW_CSP = "default-src 'none'; img-src 'self' data:; style-src 'unsafe-inline'; object-src 'self'; base-uri 'none'; form-action 'none'";
+
 /**
  * 文件控制器
  * 处理文件相关的HTTP请求
@@ -17,7 +35,7 @@ export class FileController {
    * 统一文件上传接口
    * 支持单文件和多文件上传
    */
-  static async uploadFiles(req: Request, res: Response, next: NextFunction) {
+  static async uploadFiles(req: AuthRequest, res: Response, next: NextFunction) {
     try {
       const uploadService = container.getUploadService();
       const { categories } = req.body;
@@ -25,6 +43,7 @@ export class FileController {
       logger.info('收到文件上传请求', { 
         fileCount: req.files?.length || 0,
         categories,
+        uploaderId: req.user?.id,
         ip: req.ip,
         userAgent: req.get('User-Agent')
       });
@@ -45,8 +64,23 @@ export class FileController {
         totalSize: files.reduce((sum, f) => sum + f.size, 0)
       });
       
+      // 按实际大小检查存储配额，超出时删除已写入的文件
+      const uploaderId = req.user?.id ? new ObjectId(req.user.id) : undefined;
+      try {
+        await container.getQuotaService().check(
+          { userId: uploaderId, ip: req.ip || 'unknown' },
+          files.reduce((sum, f) => sum + f.size, 0),
+          files.length
+        );
+      } catch (error) {
+        if (!(error instanceof QuotaExceededError)) throw error;
+        const fileStorageService = container.getFileStorageService();
+        await Promise.all(files.map(f => fileStorageService.deleteFile(f.filename)));
+        return next(error);
+      }
+
       // 使用统一的文件上传处理方法
-      const result = await uploadService.handleFileUpload(files, req, categories);
+      const result = await uploadService.handleFileUpload(files, req, categories, uploaderId);
       
       if (!result.success) {
         logger.warn('文件上传处理失败', { 
@@ -71,7 +105,7 @@ export class FileController {
         });
         return res.status(201).json({
           success: true,
-          message: '文件上传成功',
+          message: file.duplicate ? '文件上传成功，已存在相同内容的文件' : '文件上传成功',
           data: file
         });
       }
@@ -100,11 +134,14 @@ export class FileController {
 
   /**
    * 获取文件列表
+   * 公开列表只包含审核通过的内容；上传者查看本人文件或审核员查看时可按 reviewStatus 筛选
    */
-  static async getFiles(req: Request, res: Response, next: NextFunction) {
+  static async getFiles(req: AuthRequest, res: Response, next: NextFunction) {
     try {
       const fileService = container.getFileService();
-      const { page = 1, limit = 20, uploaderId, status, categories, tags, mimeType } = req.query;
+      const { page = 1, limit = 20, uploaderId, status, reviewStatus, categories, tags, mimeType } = req.query;
+      const isOwner = !!req.user && !!uploaderId && uploaderId === req.user.id;
+      const isReviewer = hasPermission(req, Permission.FILE_APPROVE);
 
       logger.info('收到获取文件列表请求', { 
         page, 
@@ -117,11 +154,22 @@ export class FileController {
         ip: req.ip
       });
 
+      // 已删除的文件只能通过回收站查看，等待扫描和已隔离的文件不公开
+      if (status !== undefined && (!Object.values(FileStatus).includes(status as FileStatus) || HIDDEN_STATUSES.includes(status as FileStatus))) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的文件状态'
+        });
+      }
+
       const query = {
         page: parseInt(page as string),
         limit: parseInt(limit as string),
         uploaderId: uploaderId ? new ObjectId(uploaderId as string) : undefined,
-        status: status as any,
+        status: status as FileStatus | undefined,
+        reviewStatus: (isOwner || isReviewer)
+          ? (reviewStatus as ReviewStatus | 'any') || (isOwner ? 'any' as const : undefined)
+          : undefined,
         categories: categories ? (Array.isArray(categories) ? categories.map(c => String(c)) : [String(categories)]) : undefined,
         tags: tags ? (Array.isArray(tags) ? tags.map(t => String(t)) : [String(tags)]) : undefined,
         mimeType: mimeType as string
@@ -156,7 +204,7 @@ export class FileController {
   /**
    * 获取文件详情
    */
-  static async getFileById(req: Request, res: Response, next: NextFunction) {
+  static async getFileById(req: AuthRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
       const fileService = container.getFileService();
@@ -169,19 +217,22 @@ export class FileController {
       }
 
       const file = await fileService.findFileById(new ObjectId(id));
-      if (!file) {
+      if (!file || !canViewContent(req, file)) {
         return res.status(404).json({
           success: false,
           message: '文件不存在'
         });
       }
 
+      AnalyticsController.track(req, file, AnalyticsEventType.VIEW);
+
       // 不返回敏感信息，只返回前端需要的数据
       const safeFile = {
         _id: file._id,
         shortCode: file.shortCode,
         originalName: file.originalName,
         mimeType: file.mimeType,
+        verifiedMimeType: file.verifiedMimeType,
         size: file.size,
         filename: file.filename,
         uploaderId: file.uploaderId,
@@ -189,6 +240,11 @@ export class FileController {
         categories: file.categories,
         tags: file.tags,
         description: file.description,
+        contentStatus: file.contentStatus,
+        metadataStrip: file.metadataStrip,
+        malwareScan: file.malwareScan,
+        thumbnailStatus: file.thumbnailStatus,
+        thumbnails: file.thumbnails?.map(({ size, width, height }) => ({ size, width, height })),
         uploadedAt: file.uploadedAt,
         updatedAt: file.updatedAt
       };
@@ -201,11 +257,61 @@ export class FileController {
       next(error);
     }
   }
+  /**
+   * 获取文档正文及文档属性（PDF/DOCX/TXT）
+   */
+  static async getFileContent(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的文件ID'
+        });
+      }
+
+      const file = await container.getFileService().findFileById(new ObjectId(id));
+      if (!file || file.isLink || !canViewContent(req, file)) {
+        return res.status(404).json({
+          success: false,
+          message: '文件不存在'
+        });
+      }
+
+      if (!file.contentStatus) {
+        return res.status(404).json({
+          success: false,
+          message: '该文件类型不支持正文提取'
+        });
+      }
+
+      const content = await container.getContentExtractionService().getContent(file._id as ObjectId);
+
+      res.json({
+        success: true,
+        data: {
+          fileId: file._id,
+          contentStatus: file.contentStatus,
+          pageCount: content?.pageCount,
+          title: content?.title,
+          author: content?.author,
+          charCount: content?.charCount,
+          truncated: content?.truncated,
+          extractedAt: content?.extractedAt,
+          text: content?.text
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
 
   /**
    * 根据短码获取文件
    */
-  static async getFileByShortCode(req: Request, res: Response, next: NextFunction) {
+  static async getFileByShortCode(req: AuthRequest, res: Response, next: NextFunction) {
     try {
       const { shortCode } = req.params;
       const fileService = container.getFileService();
@@ -218,13 +324,15 @@ export class FileController {
       }
 
       const file = await fileService.findFileByShortCode(shortCode.toUpperCase());
-      if (!file) {
+      if (!file || !canViewContent(req, file)) {
         return res.status(404).json({
           success: false,
           message: '文件不存在'
         });
       }
 
+      AnalyticsController.track(req, file, AnalyticsEventType.VIEW);
+
       // 不返回敏感信息，只返回前端需要的数据
       const safeFile = {
         _id: file._id,
@@ -254,11 +362,10 @@ export class FileController {
   /**
    * 下载文件
    */
-  static async downloadFile(req: Request, res: Response, next: NextFunction) {
+  static async downloadFile(req: AuthRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
       const fileService = container.getFileService();
-      const fileStorageService = container.getFileStorageService();
 
       if (!ObjectId.isValid(id)) {
         return res.status(400).json({
@@ -268,45 +375,252 @@ export class FileController {
       }
 
       const file = await fileService.findFileById(new ObjectId(id));
-      if (!file) {
+      if (!file || !canViewContent(req, file)) {
         return res.status(404).json({
           success: false,
           message: '文件不存在'
         });
       }
 
-      // 检查文件是否存在于磁盘
-      if (!fileStorageService.fileExists(file.filename)) {
+      await FileController.sendFile(req, res, file);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 在线预览文件（仅图片和 PDF）
+   */
+  static async previewFile(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的文件ID'
+        });
+      }
+
+      const file = await container.getFileService().findFileById(new ObjectId(id));
+      if (!file || file.isLink || !canViewContent(req, file)) {
         return res.status(404).json({
           success: false,
-          message: '文件已丢失'
+          message: '文件不存在'
         });
       }
 
-      // 设置下载头
-      res.setHeader('Content-Disposition', `attachment; filename="${file.originalName}"`);
-      res.setHeader('Content-Type', file.mimeType);
-      res.setHeader('Content-Length', file.size.toString());
+      if (!resolveThumbnailSource(file.mimeType)) {
+        return res.status(415).json({
+          success: false,
+          message: '该文件类型不支持在线预览'
+        });
+      }
+
+      // 预览内容只作为图片或 PDF 展示，禁止脚本；允许前端跨域嵌入
+      res.setHeader('Content-Security-Policy', PREVIEW_CSP);
+      res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+      await FileController.sendFile(req, res, file, { disposition: 'inline', event: AnalyticsEventType.VIEW });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 获取缩略图
+   * size 为 small/medium/large，默认 medium
+   */
+  static async getThumbnail(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const size = (req.query.size as ThumbnailSize) || ThumbnailSize.MEDIUM;
+
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的文件ID'
+        });
+      }
+
+      if (!Object.values(ThumbnailSize).includes(size)) {
+        return res.status(400).json({
+          success: false,
+          message: `缩略图尺寸只能是 ${Object.values(ThumbnailSize).join('/')}`
+        });
+      }
 
-      // 创建文件流并发送
-      const fileStream = fileStorageService.getFileStream(file.filename);
-      if (fileStream) {
-        fileStream.pipe(res);
-      } else {
-        res.status(500).json({
+      const file = await container.getFileService().findFileById(new ObjectId(id));
+      if (!file || file.isLink || !canViewContent(req, file)) {
+        return res.status(404).json({
+          success: false,
+          message: '文件不存在'
+        });
+      }
+
+      const thumbnail = file.thumbnails?.find(item => item.size === size);
+      if (!thumbnail) {
+        return res.status(404).json({
           success: false,
-          message: '文件读取失败'
+          message: '缩略图不存在',
+          data: { thumbnailStatus: file.thumbnailStatus }
         });
       }
+
+      res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+      await FileController.sendFile(req, res, {
+        ...file,
+        filename: thumbnail.filename,
+        originalName: `${path.parse(file.originalName).name}-${size}.webp`,
+        mimeType: thumbnail.mimeType,
+        size: thumbnail.bytes,
+        sha256: undefined
+      }, { disposition: 'inline', event: null });
     } catch (error) {
       next(error);
     }
   }
 
+  /**
+   * 输出存储中的文件
+   * 支持 ETag/Last-Modified 条件请求和 Range 分段下载（多个范围以 multipart/byteranges 返回），
+   * 只有完整下载或从头开始的分段请求计入统计（默认记为下载，event 为 null 时不统计）
+   */
+  static async sendFile(
+    req: Request,
+    res: Response,
+    file: FileModel,
+    options: { disposition?: 'attachment' | 'inline'; event?: AnalyticsEventType | null } = {}
+  ): Promise<void> {
+    const { disposition = 'attachment', event = AnalyticsEventType.DOWNLOAD } = options;
+    const fileStorageService = container.getFileStorageService();
+    // 优先使用按文件头校验过的类型
+    const contentType = file.verifiedMimeType || file.mimeType;
+
+    // 等待恶意文件扫描结果或已被隔离的文件不提供下载
+    if (file.status === FileStatus.PROCESSING) {
+      res.setHeader('Retry-After', '30');
+      res.status(409).json({
+        success: false,
+        message: '文件正在进行安全扫描，请稍后再试',
+        data: { malwareScan: file.malwareScan?.status }
+      });
+      return;
+    }
+    if (file.status === FileStatus.QUARANTINED) {
+      res.status(403).json({
+        success: false,
+        message: '文件未通过安全扫描，已被隔离'
+      });
+      return;
+    }
+
+    // 检查文件是否存在于存储中
+    if (!(await fileStorageService.fileExists(file.filename))) {
+      res.status(404).json({
+        success: false,
+        message: '文件已丢失'
+      });
+      return;
+    }
+
+    const etag = buildETag(file);
+    const lastModified = new Date(file.uploadedAt);
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('ETag', etag);
+    res.setHeader('Last-Modified', lastModified.toUTCString());
+    res.setHeader('Cache-Control', 'private, no-cache');
+
+    if (isNotModified(req.headers, etag, lastModified)) {
+      res.status(304).end();
+      return;
+    }
+
+    const ranges = isRangeFresh(req.get('If-Range'), etag, lastModified)
+      ? parseRange(req.get('Range'), file.size)
+      : null;
+    if (ranges === 'unsatisfiable') {
+      res.setHeader('Content-Range', `bytes */${file.size}`);
+      res.status(416).end();
+      return;
+    }
+
+    if (event && (!ranges || ranges[0].start === 0)) {
+      AnalyticsController.track(req, file, event);
+    }
+
+    // 对象存储开启下载重定向时，直接跳转到预签名地址（预览需要由服务端设置安全响应头，不重定向）
+    if (disposition === 'attachment') {
+      const redirectUrl = await fileStorageService.getDownloadRedirect(file.filename, file.originalName, contentType);
+      if (redirectUrl) {
+        res.redirect(302, redirectUrl);
+        return;
+      }
+    }
+
+    res.setHeader('Content-Disposition', contentDisposition(file.originalName, disposition));
+
+    let body: Readable | null;
+    if (!ranges) {
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Length', file.size.toString());
+      body = await fileStorageService.getFileStream(file.filename);
+    } else if (ranges.length === 1) {
+      const [range] = ranges;
+      res.status(206);
+      res.setHeader('Content-Type', contentType);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`);
+      res.setHeader('Content-Length', (range.end - range.start + 1).toString());
+      body = await fileStorageService.getFileStream(file.filename, range);
+    } else {
+      const boundary = randomBytes(12).toString('hex');
+      const partHeaders = ranges.map((range, index) =>
+        `${index > 0 ? '\r\n' : ''}--${boundary}\r\n` +
+        `Content-Type: ${contentType}\r\n` +
+        `Content-Range: bytes ${range.start}-${range.end}/${file.size}\r\n\r\n`
+      );
+      const closing = `\r\n--${boundary}--\r\n`;
+      const length = ranges.reduce(
+        (sum, range, index) => sum + Buffer.byteLength(partHeaders[index]) + range.end - range.start + 1,
+        Buffer.byteLength(closing)
+      );
+
+      res.status(206);
+      res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+      res.setHeader('Content-Length', length.toString());
+      body = Readable.from((async function* () {
+        for (let i = 0; i < ranges.length; i++) {
+          yield Buffer.from(partHeaders[i]);
+          const part = await fileStorageService.getFileStream(file.filename, ranges[i]);
+          if (!part) {
+            throw new Error(`读取文件分段失败: ${file.filename}`);
+          }
+          yield* part;
+        }
+        yield Buffer.from(closing);
+      })());
+    }
+
+    if (!body) {
+      res.status(500).json({
+        success: false,
+        message: '文件读取失败'
+      });
+      return;
+    }
+
+    try {
+      await pipeline(body, res);
+    } catch (error) {
+      // 客户端中途断开属于正常情况，响应已开始输出时只记录日志
+      if (!res.headersSent) throw error;
+      logger.warn('文件传输中断', { fileId: file._id, error: (error as Error).message });
+    }
+  }
+
   /**
    * 更新文件信息
    */
-  static async updateFile(req: Request, res: Response, next: NextFunction) {
+  static async updateFile(req: AuthRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
       const { categories, tags, description, status } = req.body;
@@ -319,7 +633,39 @@ export class FileController {
         });
       }
 
-      const updates = { categories, tags, description, status };
+      // 删除走回收站，处理中和已隔离的状态只能由恶意文件扫描设置
+      if (status !== undefined && (!Object.values(FileStatus).includes(status) || HIDDEN_STATUSES.includes(status))) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的文件状态'
+        });
+      }
+
+      const file = await fileService.findFileById(new ObjectId(id));
+      if (!file) {
+        return res.status(404).json({
+          success: false,
+          message: '文件不存在或更新失败'
+        });
+      }
+
+      if (!canModifyResource(req, file.uploaderId, Permission.FILE_UPDATE_ANY, Permission.FILE_UPDATE_OWN)) {
+        logger.warn('更新文件失败：无权操作', { fileId: id, userId: req.user?.id });
+        return res.status(403).json({
+          success: false,
+          message: '无权操作该文件'
+        });
+      }
+
+      if (status !== undefined && SCANNER_MANAGED_STATUSES.includes(file.status)) {
+        return res.status(409).json({
+          success: false,
+          message: '文件正在安全扫描或已被隔离，不能修改状态',
+          data: { status: file.status }
+        });
+      }
+
+      const updates: FileUpdate = { categories, tags, description, status };
       const success = await fileService.updateFile(new ObjectId(id), updates);
 
       if (!success) {
@@ -329,9 +675,16 @@ export class FileController {
         });
       }
 
+      // 非审核员修改已公开内容的分类、标签或描述后，内容重新进入审核
+      const contentChanged = categories !== undefined || tags !== undefined || description !== undefined;
+      const isReviewer = hasPermission(req, file.isLink ? Permission.LINK_APPROVE : Permission.FILE_APPROVE);
+      const flagged = contentChanged && !isReviewer && resolveInitialReviewStatus() !== ReviewStatus.APPROVED
+        && await container.getReviewService().flag(file._id as ObjectId, '上传者修改了分类、标签或描述');
+
       res.json({
         success: true,
-        message: '文件更新成功'
+        message: flagged ? '文件更新成功，修改后的内容需要重新审核' : '文件更新成功',
+        data: flagged ? { reviewStatus: ReviewStatus.SUBMITTED } : undefined
       });
     } catch (error) {
       next(error);
@@ -339,9 +692,9 @@ export class FileController {
   }
 
   /**
-   * 删除文件（软删除）
+   * 删除文件（软删除，移入回收站）
    */
-  static async deleteFile(req: Request, res: Response, next: NextFunction) {
+  static async deleteFile(req: AuthRequest, res: Response, next: NextFunction) {
     try {
       const { id } = req.params;
       const fileService = container.getFileService();
@@ -353,7 +706,23 @@ export class FileController {
         });
       }
 
-      const success = await fileService.deleteFile(new ObjectId(id));
+      const file = await fileService.findFileById(new ObjectId(id));
+      if (!file) {
+        return res.status(404).json({
+          success: false,
+          message: '文件不存在或删除失败'
+        });
+      }
+
+      if (!canModifyResource(req, file.uploaderId, Permission.FILE_DELETE_ANY, Permission.FILE_DELETE_OWN)) {
+        logger.warn('删除文件失败：无权操作', { fileId: id, userId: req.user?.id });
+        return res.status(403).json({
+          success: false,
+          message: '无权操作该文件'
+        });
+      }
+
+      const success = await fileService.deleteFile(new ObjectId(id), req.user?.id ? new ObjectId(req.user.id) : undefined);
       if (!success) {
         return res.status(404).json({
           success: false,
@@ -363,7 +732,117 @@ export class FileController {
 
       res.json({
         success: true,
-        message: '文件删除成功'
+        message: '文件已移入回收站'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 获取回收站中的文件
+   * 拥有 file:delete:any 权限可查看全部（可按 uploaderId 筛选），否则只能查看本人删除的文件
+   */
+  static async getTrash(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const trashService = container.getTrashService();
+      const { page = 1, limit = 20, uploaderId } = req.query;
+      const canViewAll = hasPermission(req, Permission.FILE_DELETE_ANY);
+
+      if (!canViewAll && !hasPermission(req, Permission.FILE_DELETE_OWN)) {
+        return res.status(403).json({
+          success: false,
+          message: '无权查看回收站'
+        });
+      }
+      if (uploaderId && !ObjectId.isValid(uploaderId as string)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的上传者ID'
+        });
+      }
+
+      const query = {
+        page: parseInt(page as string),
+        limit: parseInt(limit as string),
+        uploaderId: canViewAll
+          ? (uploaderId ? new ObjectId(uploaderId as string) : undefined)
+          : new ObjectId(req.user!.id)
+      };
+      const result = await trashService.findDeletedFiles(query);
+
+      res.json({
+        success: true,
+        data: result.files.map(file => ({ ...file, purgeAt: trashService.expiresAt(file) })),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total: result.total,
+          pages: Math.ceil(result.total / query.limit)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 从回收站恢复文件，恢复后重新占用上传者的存储配额
+   */
+  static async restoreFile(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const trashService = container.getTrashService();
+
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的文件ID'
+        });
+      }
+
+      const file = await trashService.findDeletedFile(new ObjectId(id));
+      if (!file) {
+        return res.status(404).json({
+          success: false,
+          message: '回收站中不存在该文件'
+        });
+      }
+
+      if (!canModifyResource(req, file.uploaderId, Permission.FILE_DELETE_ANY, Permission.FILE_DELETE_OWN)) {
+        logger.warn('恢复文件失败：无权操作', { fileId: id, userId: req.user?.id });
+        return res.status(403).json({
+          success: false,
+          message: '无权操作该文件'
+        });
+      }
+
+      let restored: FileModel | null;
+      try {
+        restored = await trashService.restore(new ObjectId(id));
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          return res.status(error.statusCode).json({
+            success: false,
+            message: error.message,
+            code: error.code,
+            data: { limit: error.limit, usage: error.usage }
+          });
+        }
+        throw error;
+      }
+      if (!restored) {
+        return res.status(404).json({
+          success: false,
+          message: '回收站中不存在该文件'
+        });
+      }
+
+      logger.info('文件已恢复', { fileId: id, userId: req.user?.id });
+      res.json({
+        success: true,
+        message: '文件已恢复',
+        data: restored
       });
     } catch (error) {
       next(error);
@@ -411,7 +890,7 @@ export class FileController {
   /**
    * 批量更新文件状态
    */
-  static async batchUpdateStatus(req: Request, res: Response, next: NextFunction) {
+  static async batchUpdateStatus(req: AuthRequest, res: Response, next: NextFunction) {
     try {
       const { fileIds, status } = req.body;
       const fileService = container.getFileService();
@@ -430,6 +909,14 @@ export class FileController {
         });
       }
 
+      // 等待扫描和隔离状态只能由恶意文件扫描设置
+      if (!Object.values(FileStatus).includes(status) || SCANNER_MANAGED_STATUSES.includes(status)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的文件状态'
+        });
+      }
+
       // 验证所有ID都是有效的ObjectId
       const validIds = fileIds.filter(id => ObjectId.isValid(id));
       if (validIds.length !== fileIds.length) {
@@ -440,7 +927,22 @@ export class FileController {
       }
 
       const objectIds = validIds.map(id => new ObjectId(id));
-      const updatedCount = await fileService.batchUpdateStatus(objectIds, status);
+
+      // 非管理员只能修改自己上传的文件，包含他人文件时整批拒绝
+      const files = await fileService.findFilesByIds(objectIds);
+      const forbiddenIds = files
+        .filter(file => !canModifyResource(req, file.uploaderId, Permission.FILE_UPDATE_ANY, Permission.FILE_UPDATE_OWN))
+        .map(file => file._id!.toString());
+      if (forbiddenIds.length > 0) {
+        logger.warn('批量更新状态失败：包含无权操作的文件', { userId: req.user?.id, forbiddenIds });
+        return res.status(403).json({
+          success: false,
+          message: '无权操作部分文件',
+          data: { forbiddenIds }
+        });
+      }
+
+      const updatedCount = await fileService.batchUpdateStatus(objectIds, status, new ObjectId(req.user!.id));
 
       res.json({
         success: true,
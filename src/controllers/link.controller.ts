@@ -2,7 +2,9 @@ import type { Request, Response, NextFunction } from 'express';
 import { container } from '../services/container.js';
 import { ObjectId } from 'mongodb';
 import { createLogger } from '../utils/logger.js';
-import { LinkUploadService } from '../services/link-upload.service.js';
+import { AuthRequest, hasPermission } from '../middlewares/auth.middleware.js';
+import { Permission } from '../models/role.model.js';
+import { LinkUploadService, DuplicateLinkError } from '../services/link-upload.service.js';
 
 // 创建链接控制器日志器
 const logger = createLogger('LinkController');
@@ -34,7 +36,11 @@ export class LinkController {
       linkUrl: link.linkUrl,
       linkTitle: link.linkTitle,
       linkDescription: link.linkDescription,
-      linkThumbnail: link.linkThumbnail
+      linkThumbnail: link.linkThumbnail,
+      linkSiteName: link.linkSiteName,
+      linkFavicon: link.linkFavicon,
+      linkCanonicalUrl: link.linkCanonicalUrl,
+      duplicateOf: link.duplicateOf
     };
   }
 
@@ -52,7 +58,7 @@ export class LinkController {
    * 统一链接上传接口
    * 支持单个和多个链接上传
    */
-  static async uploadLinks(req: Request, res: Response, next: NextFunction) {
+  static async uploadLinks(req: AuthRequest, res: Response, next: NextFunction) {
     try {
       const linkUploadService = container.getLinkUploadService();
       const { urls, categories, tags } = req.body;
@@ -98,7 +104,7 @@ export class LinkController {
         description: item.description,
         categories: item.categories || [],
         tags: item.tags || [],
-        uploaderId: undefined, // 公开上传，无需用户ID
+        uploaderId: req.user?.id ? new ObjectId(req.user.id) : undefined, // 匿名上传时不记录上传者
         uploadIp: LinkController.getClientIp(req)
       }));
 
@@ -171,6 +177,17 @@ export class LinkController {
         }
       });
     } catch (error) {
+      // 去重策略为reject时，重复提交返回409并附带已有链接的短码
+      if (error instanceof DuplicateLinkError) {
+        logger.warn('链接上传失败：链接已存在', { shortCode: error.match.shortCode });
+        return res.status(409).json({
+          success: false,
+          message: '链接已存在',
+          data: {
+            duplicateOf: error.match
+          }
+        });
+      }
       logger.errorWithStack('链接上传过程中发生错误', error as Error);
       next(error);
     }
@@ -179,7 +196,7 @@ export class LinkController {
   /**
    * 获取链接列表
    */
-  static async getLinks(req: Request, res: Response, next: NextFunction) {
+  static async getLinks(req: AuthRequest, res: Response, next: NextFunction) {
     try {
       const linkUploadService = container.getLinkUploadService();
       const { page = 1, limit = 20, uploaderId } = req.query;
@@ -219,10 +236,15 @@ export class LinkController {
         });
       }
 
+      // 上传者本人和审核员可以看到待审核和已驳回的链接
+      const includeUnreviewed = !!req.user
+        && (req.user.id === uploaderId || hasPermission(req, Permission.LINK_APPROVE));
+
       const result = await linkUploadService.getUserLinks(
         new ObjectId(uploaderId as string),
         parseInt(page as string),
-        parseInt(limit as string)
+        parseInt(limit as string),
+        includeUnreviewed
       );
 
       // 过滤敏感信息，只返回前端需要的数据
@@ -349,7 +371,7 @@ export class LinkController {
       
       res.json({
         success: true,
-        message: '元数据重新提取已启动'
+        message: '元数据重新提取任务已提交'
       });
       
     } catch (error) {
@@ -0,0 +1,152 @@
+import type { Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { container } from '../services/container.js';
+import type { AuthRequest } from '../middlewares/auth.middleware.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建配额控制器日志器
+const logger = createLogger('QuotaController');
+
+/**
+ * 校验配额值：非负整数，null 表示不限制
+ */
+const isValidLimit = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isInteger(value) && value >= 0);
+
+/**
+ * 存储配额控制器
+ */
+export class QuotaController {
+  /**
+   * 获取当前用户的配额使用情况（匿名访问时返回当前IP的匿名上传用量）
+   */
+  static async getMyQuota(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const summary = await container.getQuotaService().getSummary({
+        userId: req.user?.id,
+        ip: req.ip || 'unknown'
+      });
+
+      res.json({
+        success: true,
+        message: '获取配额成功',
+        data: summary
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 获取指定用户的配额使用情况（管理员）
+   */
+  static async getUserQuota(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的用户ID'
+        });
+      }
+
+      const user = await container.getAuthService().getUserById(id);
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          message: '用户不存在'
+        });
+      }
+
+      const summary = await container.getQuotaService().getSummary({ userId: id, ip: user.uploadIp || 'unknown' });
+      res.json({
+        success: true,
+        message: '获取配额成功',
+        data: summary
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 设置指定用户的配额（管理员）
+   * 请求体为 maxBytes / maxFiles，未提供的项沿用角色默认值，null 表示不限制
+   */
+  static async setUserQuota(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的用户ID'
+        });
+      }
+
+      const { maxBytes, maxFiles } = req.body || {};
+      if (maxBytes === undefined && maxFiles === undefined) {
+        return res.status(400).json({
+          success: false,
+          message: '请提供 maxBytes 或 maxFiles'
+        });
+      }
+      if ((maxBytes !== undefined && !isValidLimit(maxBytes)) || (maxFiles !== undefined && !isValidLimit(maxFiles))) {
+        return res.status(400).json({
+          success: false,
+          message: '配额必须是非负整数或 null'
+        });
+      }
+
+      const quotaService = container.getQuotaService();
+      const found = await quotaService.setOverride(new ObjectId(id), { maxBytes, maxFiles }, new ObjectId(req.user!.id));
+      if (!found) {
+        return res.status(404).json({
+          success: false,
+          message: '用户不存在'
+        });
+      }
+
+      logger.info('管理员设置用户配额', { userId: id, maxBytes, maxFiles, adminId: req.user!.id });
+      res.json({
+        success: true,
+        message: '配额已更新',
+        data: await quotaService.getSummary({ userId: id, ip: 'unknown' })
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 清除指定用户的配额设置，恢复角色默认值（管理员）
+   */
+  static async clearUserQuota(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的用户ID'
+        });
+      }
+
+      const quotaService = container.getQuotaService();
+      const found = await quotaService.clearOverride(new ObjectId(id));
+      if (!found) {
+        return res.status(404).json({
+          success: false,
+          message: '用户不存在'
+        });
+      }
+
+      logger.info('管理员清除用户配额设置', { userId: id, adminId: req.user!.id });
+      res.json({
+        success: true,
+        message: '已恢复角色默认配额',
+        data: await quotaService.getSummary({ userId: id, ip: 'unknown' })
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import type { Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { container } from '../services/container.js';
+import type { AuthRequest } from '../middlewares/auth.middleware.js';
+import { isValidIpRule } from '../utils/ip-allowlist.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建限流控制器日志器
+const logger = createLogger('RateLimitController');
+
+/**
+ * 限流白名单控制器（管理员维护合作机构的出口IP）
+ */
+export class RateLimitController {
+  /**
+   * 获取白名单
+   */
+  static async getAllowlist(_req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const entries = await container.getRateLimitService().listAllowlist();
+      res.json({
+        success: true,
+        message: '获取白名单成功',
+        data: entries
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 添加白名单规则，请求体 { rule, note? }，rule 为 IP 或 CIDR 网段
+   */
+  static async addAllowlistEntry(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { rule, note } = req.body || {};
+      if (typeof rule !== 'string' || !isValidIpRule(rule)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的IP或网段'
+        });
+      }
+      if (note !== undefined && typeof note !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: '备注必须是字符串'
+        });
+      }
+
+      const entry = await container.getRateLimitService().addAllowlistEntry(rule, note, new ObjectId(req.user!.id));
+      if (!entry) {
+        return res.status(409).json({
+          success: false,
+          message: '白名单中已存在该规则'
+        });
+      }
+
+      logger.info('管理员添加限流白名单', { rule: entry.rule, adminId: req.user!.id });
+      res.status(201).json({
+        success: true,
+        message: '已添加到白名单',
+        data: entry
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 删除白名单规则
+   */
+  static async removeAllowlistEntry(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的白名单ID'
+        });
+      }
+
+      const removed = await container.getRateLimitService().removeAllowlistEntry(new ObjectId(id));
+      if (!removed) {
+        return res.status(404).json({
+          success: false,
+          message: '白名单规则不存在'
+        });
+      }
+
+      logger.info('管理员删除限流白名单', { id, adminId: req.user!.id });
+      res.json({
+        success: true,
+        message: '已从白名单删除'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,344 @@
+import type { Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { container } from '../services/container.js';
+import { ReviewTransitionError } from '../services/review.service.js';
+import { AuthRequest, hasPermission } from '../middlewares/auth.middleware.js';
+import { FileModel, ReviewStatus } from '../models/file.model.js';
+import { ReviewAction } from '../models/review.model.js';
+import { Permission } from '../models/role.model.js';
+import { contentDisposition } from '../utils/http-download.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建审核控制器日志器
+const logger = createLogger('ReviewController');
+
+const MAX_REASON_LENGTH = 1000;
+
+/**
+ * 内容审核控制器
+ * 文件审核需要 file:approve 权限，链接审核需要 link:approve 权限
+ */
+export class ReviewController {
+  /**
+   * 当前用户可以审核的内容类型
+   */
+  private static reviewableKinds(req: AuthRequest): ('file' | 'link')[] {
+    const kinds: ('file' | 'link')[] = [];
+    if (hasPermission(req, Permission.FILE_APPROVE)) kinds.push('file');
+    if (hasPermission(req, Permission.LINK_APPROVE)) kinds.push('link');
+    return kinds;
+  }
+
+  /**
+   * 判断当前用户能否审核指定内容
+   */
+  private static canReview(req: AuthRequest, item: FileModel): boolean {
+    return ReviewController.reviewableKinds(req).includes(item.isLink ? 'link' : 'file');
+  }
+
+  /**
+   * 获取审核队列
+   * 默认返回已提交和审核中的内容，可通过 status 指定（逗号分隔），type 限定 file 或 link
+   */
+  static async getQueue(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { page = 1, limit = 20, status, type } = req.query as Record<string, string | undefined>;
+      let kinds = ReviewController.reviewableKinds(req);
+
+      if (kinds.length === 0) {
+        return res.status(403).json({
+          success: false,
+          message: '没有审核权限'
+        });
+      }
+
+      const statuses = status
+        ? status.split(',').map(s => s.trim()) as ReviewStatus[]
+        : [ReviewStatus.SUBMITTED, ReviewStatus.IN_REVIEW];
+      if (statuses.some(s => !Object.values(ReviewStatus).includes(s))) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的审核状态'
+        });
+      }
+
+      if (type) {
+        if (type !== 'file' && type !== 'link') {
+          return res.status(400).json({
+            success: false,
+            message: '无效的内容类型'
+          });
+        }
+        if (!kinds.includes(type)) {
+          return res.status(403).json({
+            success: false,
+            message: '没有审核权限'
+          });
+        }
+        kinds = [type];
+      }
+
+      const query = {
+        statuses,
+        kinds,
+        page: Math.max(parseInt(page as string) || 1, 1),
+        limit: Math.min(Math.max(parseInt(limit as string) || 20, 1), 100)
+      };
+
+      const result = await container.getReviewService().getQueue(query);
+
+      res.json({
+        success: true,
+        data: result.items,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total: result.total,
+          pages: Math.ceil(result.total / query.limit)
+        }
+      });
+    } catch (error) {
+      logger.errorWithStack('获取审核队列时发生错误', error as Error);
+      next(error);
+    }
+  }
+
+  /**
+   * 生成审核操作处理函数
+   */
+  private static handleAction(action: ReviewAction) {
+    return async (req: AuthRequest, res: Response, next: NextFunction) => {
+      try {
+        const { id } = req.params;
+        const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : undefined;
+
+        if (!ObjectId.isValid(id)) {
+          return res.status(400).json({
+            success: false,
+            message: '无效的文件ID'
+          });
+        }
+
+        if (action === ReviewAction.REJECT && !reason) {
+          return res.status(400).json({
+            success: false,
+            message: '驳回时必须填写原因'
+          });
+        }
+
+        if (reason && reason.length > MAX_REASON_LENGTH) {
+          return res.status(400).json({
+            success: false,
+            message: `原因不能超过${MAX_REASON_LENGTH}个字符`
+          });
+        }
+
+        const file = await container.getFileService().findFileById(new ObjectId(id));
+        if (!file) {
+          return res.status(404).json({
+            success: false,
+            message: '文件不存在'
+          });
+        }
+
+        if (!ReviewController.canReview(req, file)) {
+          logger.warn('审核操作失败：权限不足', { fileId: id, action, userId: req.user?.id });
+          return res.status(403).json({
+            success: false,
+            message: '没有审核权限'
+          });
+        }
+
+        const updated = await container.getReviewService().transition(
+          new ObjectId(id),
+          action,
+          { id: req.user!.id, username: req.user!.username },
+          reason
+        );
+        if (!updated) {
+          return res.status(404).json({
+            success: false,
+            message: '文件不存在'
+          });
+        }
+
+        res.json({
+          success: true,
+          message: '审核操作成功',
+          data: updated
+        });
+      } catch (error) {
+        if (error instanceof ReviewTransitionError) {
+          return res.status(409).json({
+            success: false,
+            message: error.message,
+            data: { reviewStatus: error.currentStatus }
+          });
+        }
+        logger.errorWithStack('审核操作时发生错误', error as Error);
+        next(error);
+      }
+    };
+  }
+
+  static claim = ReviewController.handleAction(ReviewAction.CLAIM);
+  static release = ReviewController.handleAction(ReviewAction.RELEASE);
+  static approve = ReviewController.handleAction(ReviewAction.APPROVE);
+  static reject = ReviewController.handleAction(ReviewAction.REJECT);
+  static reopen = ReviewController.handleAction(ReviewAction.REOPEN);
+
+  /**
+   * 单个内容的审核历史
+   */
+  static async getHistory(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的文件ID'
+        });
+      }
+
+      if (ReviewController.reviewableKinds(req).length === 0) {
+        return res.status(403).json({
+          success: false,
+          message: '没有审核权限'
+        });
+      }
+
+      const result = await container.getReviewService().getAuditLog({ fileId: new ObjectId(id), limit: 200 });
+
+      res.json({
+        success: true,
+        data: result.records
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 审核记录查询（谁在何时审核了什么）
+   * 支持按 reviewerId、action、from/to 筛选
+   */
+  static async getAuditLog(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { reviewerId, action, from, to, page = 1, limit = 50 } = req.query as Record<string, string | undefined>;
+
+      if (ReviewController.reviewableKinds(req).length === 0) {
+        return res.status(403).json({
+          success: false,
+          message: '没有审核权限'
+        });
+      }
+
+      if (reviewerId && !ObjectId.isValid(reviewerId)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的用户ID'
+        });
+      }
+
+      if (action && !Object.values(ReviewAction).includes(action as ReviewAction)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的审核操作'
+        });
+      }
+
+      const startDate = from ? new Date(from) : undefined;
+      const endDate = to ? new Date(to) : undefined;
+      if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的时间范围'
+        });
+      }
+
+      const query = {
+        reviewerId: reviewerId ? new ObjectId(reviewerId) : undefined,
+        action: action as ReviewAction | undefined,
+        startDate,
+        endDate,
+        page: Math.max(parseInt(page as string) || 1, 1),
+        limit: Math.min(Math.max(parseInt(limit as string) || 50, 1), 200)
+      };
+
+      const result = await container.getReviewService().getAuditLog(query);
+
+      res.json({
+        success: true,
+        data: result.records,
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total: result.total,
+          pages: Math.ceil(result.total / query.limit)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * 获取脱敏副本（需要 content:redact 权限）
+   * 默认返回各字段脱敏后的内容，format=txt 时将脱敏后的文档正文作为文本文件下载，原内容不受影响
+   */
+  static async getRedactedCopy(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { id } = req.params;
+      const { format } = req.query as Record<string, string | undefined>;
+
+      if (!ObjectId.isValid(id)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的文件ID'
+        });
+      }
+
+      if (format && format !== 'json' && format !== 'txt') {
+        return res.status(400).json({
+          success: false,
+          message: '无效的格式'
+        });
+      }
+
+      const file = await container.getFileService().findFileById(new ObjectId(id));
+      if (!file) {
+        return res.status(404).json({
+          success: false,
+          message: '文件不存在'
+        });
+      }
+
+      const copy = await container.getPiiScanService().getRedactedCopy(file);
+      logger.info('生成脱敏副本', { fileId: id, format: format || 'json', userId: req.user?.id });
+
+      if (format === 'txt') {
+        if (file.isLink || copy.fields.content === undefined) {
+          return res.status(404).json({
+            success: false,
+            message: '该文件没有可导出的正文'
+          });
+        }
+        const basename = file.originalName.replace(/\.[^.]*$/, '') || 'document';
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.setHeader('Content-Disposition', contentDisposition(`${basename}.redacted.txt`));
+        res.setHeader('Cache-Control', 'private, no-store');
+        return res.send(copy.fields.content);
+      }
+
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.json({
+        success: true,
+        data: copy
+      });
+    } catch (error) {
+      logger.errorWithStack('生成脱敏副本时发生错误', error as Error);
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import type { Request, Response, NextFunction } from 'express';
+import { container } from '../services/container.js';
+import { SearchHit, SearchType } from '../models/search.model.js';
+import { LinkController } from './link.controller.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建搜索控制器日志器
+const logger = createLogger('SearchController');
+
+const SEARCH_TYPES: SearchType[] = ['all', 'file', 'link'];
+const MAX_QUERY_LENGTH = 200;
+const MAX_LIMIT = 100;
+
+/**
+ * 搜索控制器
+ * 统一搜索文件和链接
+ */
+export class SearchController {
+  /**
+   * 过滤搜索结果中的内部字段
+   */
+  private static toSafeHit(hit: SearchHit) {
+    if (hit.isLink) {
+      return { ...LinkController.createSafeLink(hit), score: hit.score };
+    }
+    const { uploadIp: _uploadIp, ...safe } = hit;
+    return safe;
+  }
+
+  /**
+   * 搜索文件和链接
+   * 支持 q（关键词）、type（all/file/link）、categories 和分页参数
+   */
+  static async search(req: Request, res: Response, next: NextFunction) {
+    try {
+      const { q, type = 'all', categories, page = 1, limit = 20 } = req.query;
+
+      if (!q || typeof q !== 'string' || !q.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: '请提供搜索关键词'
+        });
+      }
+
+      if (q.length > MAX_QUERY_LENGTH) {
+        return res.status(400).json({
+          success: false,
+          message: `搜索关键词不能超过${MAX_QUERY_LENGTH}个字符`
+        });
+      }
+
+      if (!SEARCH_TYPES.includes(type as SearchType)) {
+        return res.status(400).json({
+          success: false,
+          message: '无效的内容类型'
+        });
+      }
+
+      const query = {
+        q,
+        type: type as SearchType,
+        categories: categories ? (Array.isArray(categories) ? categories.map(c => String(c)) : [String(categories)]) : undefined,
+        page: Math.max(parseInt(page as string) || 1, 1),
+        limit: Math.min(Math.max(parseInt(limit as string) || 20, 1), MAX_LIMIT)
+      };
+
+      logger.info('收到搜索请求', { query: q, type, page: query.page, limit: query.limit, ip: req.ip });
+
+      const result = await container.getSearchService().search(query);
+
+      res.json({
+        success: true,
+        data: result.items.map(hit => SearchController.toSafeHit(hit)),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total: result.total,
+          pages: Math.ceil(result.total / query.limit)
+        }
+      });
+    } catch (error) {
+      logger.errorWithStack('搜索时发生错误', error as Error);
+      next(error);
+    }
+  }
+}
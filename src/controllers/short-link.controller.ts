@@ -0,0 +1,127 @@
+import type { Response, NextFunction } from 'express';
+import { container } from '../services/container.js';
+import { ShortCodeService } from '../services/shortcode.service.js';
+import { FileModel, FileStatus } from '../models/file.model.js';
+import { AnalyticsEventType } from '../models/analytics.model.js';
+import { AnalyticsController } from './analytics.controller.js';
+import { FileController } from './file.controller.js';
+import { AuthRequest, canViewContent } from '../middlewares/auth.middleware.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建短链接控制器日志器
+const logger = createLogger('ShortLinkController');
+
+/**
+ * 预览页的内容安全策略：禁止脚本，只允许内联样式和外部图片
+ */
+const PREVIEW_CSP = "default-src 'none'; img-src https: data:; style-src 'unsafe-inline'; base-uri 'none'; form-action 'none'";
+
+/**
+ * 转义HTML特殊字符
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * 渲染预览中转页
+ */
+function renderPreviewPage(file: FileModel): string {
+  const title = file.isLink ? file.linkTitle || file.linkUrl || file.originalName : file.originalName;
+  const description = file.isLink ? file.linkDescription || file.description : file.description;
+  const target = file.isLink ? file.linkUrl || '' : `/s/${file.shortCode}`;
+  const host = file.isLink && file.linkUrl ? new URL(file.linkUrl).host : '';
+  const thumbnail = file.isLink && file.linkThumbnail?.startsWith('https://') ? file.linkThumbnail : '';
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(title)}</title>
+<style>
+body{font-family:-apple-system,BlinkMacSystemFont,"Segoe UI","PingFang SC","Microsoft YaHei",sans-serif;max-width:560px;margin:48px auto;padding:0 16px;color:#222}
+.card{border:1px solid #e5e5e5;border-radius:8px;padding:20px}
+img{max-width:100%;border-radius:4px;margin-bottom:12px}
+h1{font-size:20px;margin:0 0 8px}
+p{color:#555;line-height:1.6}
+.host{color:#888;font-size:13px;word-break:break-all}
+a.button{display:inline-block;margin-top:12px;padding:8px 16px;background:#1677ff;color:#fff;border-radius:4px;text-decoration:none}
+</style>
+</head>
+<body>
+<div class="card">
+${thumbnail ? `<img src="${escapeHtml(thumbnail)}" alt="">\n` : ''}<h1>${escapeHtml(title)}</h1>
+${description ? `<p>${escapeHtml(description)}</p>\n` : ''}${host ? `<div class="host">即将前往：${escapeHtml(host)}</div>\n` : ''}<a class="button" href="${escapeHtml(target)}" rel="noopener noreferrer nofollow">${file.isLink ? '继续访问' : '下载文件'}</a>
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * 短链接控制器
+ * 处理面向用户的短链接访问：链接跳转到原地址，文件直接下载
+ */
+export class ShortLinkController {
+  /**
+   * 通过短码访问
+   * 链接返回302跳转，文件以附件形式输出；带 ?preview 参数时返回预览中转页
+   * 未通过审核的内容对其他人返回 404
+   */
+  static async resolve(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const shortCode = ShortCodeService.formatShortCode(req.params.shortCode || '');
+
+      if (!ShortCodeService.validateShortCode(shortCode)) {
+        return res.status(404).json({
+          success: false,
+          message: '短链接不存在'
+        });
+      }
+
+      const fileService = container.getFileService();
+      const file = await fileService.findFileByShortCode(shortCode);
+      // 未通过审核的内容只对上传者本人和审核员开放
+      if (!file || file.status !== FileStatus.ACTIVE || !canViewContent(req, file)) {
+        logger.warn('短链接不存在', { shortCode });
+        return res.status(404).json({
+          success: false,
+          message: '短链接不存在'
+        });
+      }
+
+      // 短链接目标可能被修改，不允许缓存跳转结果
+      res.setHeader('Cache-Control', 'private, no-cache');
+
+      if (req.query.preview !== undefined) {
+        AnalyticsController.track(req, file, AnalyticsEventType.VIEW);
+        res.setHeader('Content-Security-Policy', PREVIEW_CSP);
+        res.type('html').send(renderPreviewPage(file));
+        return;
+      }
+
+      if (file.isLink) {
+        if (!file.linkUrl) {
+          return res.status(404).json({
+            success: false,
+            message: '短链接不存在'
+          });
+        }
+        logger.info('短链接跳转', { shortCode, linkUrl: file.linkUrl });
+        AnalyticsController.track(req, file, AnalyticsEventType.REDIRECT);
+        return res.redirect(302, file.linkUrl);
+      }
+
+      logger.info('短链接下载文件', { shortCode, fileId: file._id });
+      await FileController.sendFile(req, res, file);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
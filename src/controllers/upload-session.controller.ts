@@ -0,0 +1,184 @@
+import type { Response, NextFunction } from 'express';
+import { ObjectId } from 'mongodb';
+import { container } from '../services/container.js';
+import { UploadSessionError } from '../services/upload-session.service.js';
+import { QuotaExceededError } from '../services/quota.service.js';
+import type { AuthRequest } from '../middlewares/auth.middleware.js';
+import { UploadSessionModel } from '../models/upload-session.model.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建分片上传控制器日志器
+const logger = createLogger('UploadSessionController');
+
+/**
+ * 分片上传控制器
+ * 创建会话 → 逐个上传分片（可断点续传）→ 完成合并
+ */
+export class UploadSessionController {
+  /**
+   * 会话对外展示的字段
+   */
+  private static toSessionView(session: UploadSessionModel) {
+    return {
+      sessionId: session._id,
+      originalName: session.originalName,
+      mimeType: session.mimeType,
+      size: session.size,
+      chunkSize: session.chunkSize,
+      totalChunks: session.totalChunks,
+      receivedChunks: [...session.receivedChunks].sort((a, b) => a - b),
+      missingChunks: container.getUploadSessionService().missingChunks(session),
+      status: session.status,
+      fileId: session.fileId,
+      expiresAt: session.expiresAt
+    };
+  }
+
+  /**
+   * 将分片上传错误转换为响应，其他错误交给错误处理中间件
+   */
+  private static handleError(error: unknown, res: Response, next: NextFunction) {
+    if (error instanceof UploadSessionError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message
+      });
+    }
+    if (error instanceof QuotaExceededError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+        code: error.code,
+        data: { limit: error.limit, usage: error.usage }
+      });
+    }
+    next(error);
+  }
+
+  /**
+   * 创建分片上传会话
+   */
+  static async createSession(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const { filename, mimeType, size, sha256, chunkSize, categories } = req.body || {};
+
+      if (!filename || typeof filename !== 'string' || !mimeType || typeof mimeType !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: '请提供文件名和文件类型'
+        });
+      }
+
+      const session = await container.getUploadSessionService().createSession({
+        originalName: filename,
+        mimeType,
+        size: Number(size),
+        sha256: typeof sha256 === 'string' ? sha256 : undefined,
+        chunkSize: chunkSize !== undefined ? Number(chunkSize) : undefined,
+        categories: Array.isArray(categories)
+          ? categories.map(c => String(c))
+          : typeof categories === 'string' && categories ? categories.split(',').map(c => c.trim()) : [],
+        uploaderId: req.user?.id ? new ObjectId(req.user.id) : undefined,
+        uploadIp: req.ip || req.socket?.remoteAddress || 'unknown'
+      });
+
+      res.status(201).json({
+        success: true,
+        message: '上传会话已创建',
+        data: UploadSessionController.toSessionView(session)
+      });
+    } catch (error) {
+      UploadSessionController.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * 查询会话状态（断点续传时获取缺失的分片）
+   */
+  static async getSession(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const session = await container.getUploadSessionService().getSession(req.params.sessionId, req.user?.id);
+      res.json({
+        success: true,
+        data: UploadSessionController.toSessionView(session)
+      });
+    } catch (error) {
+      UploadSessionController.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * 上传单个分片
+   * 请求体为分片的原始字节，X-Chunk-SHA256 头为该分片的 SHA-256（十六进制）
+   */
+  static async uploadPart(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({
+          success: false,
+          message: '请以 application/octet-stream 上传分片内容'
+        });
+      }
+
+      const session = await container.getUploadSessionService().uploadPart(
+        req.params.sessionId,
+        Number(req.params.index),
+        req.body,
+        req.get('X-Chunk-SHA256'),
+        req.user?.id
+      );
+
+      res.json({
+        success: true,
+        data: {
+          index: Number(req.params.index),
+          received: session.receivedChunks.length,
+          totalChunks: session.totalChunks
+        }
+      });
+    } catch (error) {
+      UploadSessionController.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * 完成上传，合并分片并生成文件记录
+   */
+  static async complete(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      const uploadService = container.getUploadService();
+
+      const file = await container.getUploadSessionService().complete(
+        req.params.sessionId,
+        req.user?.id,
+        // 超出配额等错误原样抛出，由 handleError 返回对应的状态码
+        (stored, session) => uploadService.saveStoredFile(stored, req, session.categories, session.uploaderId)
+      );
+
+      logger.info('分片上传文件保存成功', { sessionId: req.params.sessionId, fileId: file._id });
+
+      res.status(201).json({
+        success: true,
+        message: file.duplicate ? '文件上传成功，已存在相同内容的文件' : '文件上传成功',
+        data: file
+      });
+    } catch (error) {
+      UploadSessionController.handleError(error, res, next);
+    }
+  }
+
+  /**
+   * 取消上传
+   */
+  static async abort(req: AuthRequest, res: Response, next: NextFunction) {
+    try {
+      await container.getUploadSessionService().abort(req.params.sessionId, req.user?.id);
+      res.json({
+        success: true,
+        message: '上传已取消'
+      });
+    } catch (error) {
+      UploadSessionController.handleError(error, res, next);
+    }
+  }
+}
@@ -8,6 +8,13 @@ import { container } from './services/container.js';
 import filesRouter from './routes/files.routes.js';
 import linksRouter from './routes/links.routes.js';
 import authRouter from './routes/auth.routes.js';
+import shortLinkRouter from './routes/short-link.routes.js';
+import analyticsRouter from './routes/analytics.routes.js';
+import reviewRouter from './routes/review.routes.js';
+import searchRouter from './routes/search.routes.js';
+import uploadSessionRouter from './routes/upload-session.routes.js';
+import quotaRouter from './routes/quota.routes.js';
+import rateLimitRouter from './routes/rate-limit.routes.js';
 import { createLogger } from './utils/logger.js';
 
 // 创建主应用日志器
@@ -16,8 +23,22 @@ const logger = createLogger('App');
 // 加载环境变量，默认读取 .env.dev，可通过 ENV_FILE 覆盖
 dotenv.config({ path: process.env.ENV_FILE || '.env.dev' });
 
+/**
+ * 解析反向代理信任设置（TRUST_PROXY）
+ * true/false、信任的代理层数，或可信代理的IP/网段（如 loopback、10.0.0.0/8），未设置时不信任 X-Forwarded-For
+ */
+const resolveTrustProxy = (value: string | undefined): boolean | number | string => {
+  const normalized = (value || '').trim();
+  if (!normalized || normalized === 'false') return false;
+  if (normalized === 'true') return true;
+  if (/^\d+$/.test(normalized)) return Number(normalized);
+  return normalized;
+};
+
 const app = express();
 
+// req.ip 取决于此设置，限流、登录会话和上传IP都以它为准
+app.set('trust proxy', resolveTrustProxy(process.env.TRUST_PROXY));
 app.use(helmet());
 const corsOrigin = process.env.CORS_ORIGIN ? process.env.CORS_ORIGIN.split(',') : '*';
 app.use(cors({ origin: corsOrigin }));
@@ -28,6 +49,15 @@ app.use(morgan('dev'));
 app.use('/api/v1/files', filesRouter);
 app.use('/api/v1/links', linksRouter);
 app.use('/api/v1/auth', authRouter);
+app.use('/api/v1/analytics', analyticsRouter);
+app.use('/api/v1/reviews', reviewRouter);
+app.use('/api/v1/search', searchRouter);
+app.use('/api/v1/uploads', uploadSessionRouter);
+app.use('/api/v1/quotas', quotaRouter);
+app.use('/api/v1/rate-limits', rateLimitRouter);
+
+// 短链接
+app.use('/s', shortLinkRouter);
 
 // 全局404处理 - 捕获所有未匹配的路由
 app.use('*', (_req, res) => {
@@ -52,6 +82,16 @@ async function start() {
     await container.initialize();
     logger.info('服务容器初始化成功');
 
+    // 启动后台任务工作进程
+    await container.getJobQueueService().start();
+    logger.info('后台任务工作进程启动成功');
+
+    // 定时清理过期的分片上传会话
+    container.getUploadSessionService().startCleanup();
+
+    // 定时彻底删除回收站中超过保留期的文件
+    container.getTrashService().startPurge();
+
     app.listen(PORT, () => {
       logger.info('服务器启动成功', { 
         port: PORT, 
@@ -65,15 +105,25 @@ async function start() {
   }
 }
 
+// 停止后台任务，执行中的任务结束后再退出
+async function shutdown() {
+  if (container.isInitialized()) {
+    container.getUploadSessionService().stopCleanup();
+    container.getTrashService().stopPurge();
+    await container.getJobQueueService().stop();
+  }
+  process.exit(0);
+}
+
 // 优雅关闭处理
 process.on('SIGTERM', async () => {
   logger.info('收到SIGTERM信号，正在优雅关闭...');
-  process.exit(0);
+  await shutdown();
 });
 
 process.on('SIGINT', async () => {
   logger.info('收到SIGINT信号，正在优雅关闭...');
-  process.exit(0);
+  await shutdown();
 });
 
 start();
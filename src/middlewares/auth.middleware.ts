@@ -1,5 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { container } from '../services/container.js';
+import type { AccessTokenPayload } from '../models/user.model.js';
+import { AnonymousUploadPolicy, ReviewStatus } from '../models/file.model.js';
+import { Permission, Role, normalizeRole, resolvePermissions } from '../models/role.model.js';
 import { createLogger } from '../utils/logger.js';
 
 // 创建认证中间件日志器
@@ -9,10 +13,31 @@ export interface AuthRequest extends Request {
   user?: {
     id: string;
     username: string;
-    role: string;
+    role: Role;
+    permissions: Permission[];
   };
 }
 
+/**
+ * 由令牌载荷构建请求用户
+ * 旧令牌不含权限列表时按角色解析
+ */
+const toRequestUser = (decoded: any): NonNullable<AuthRequest['user']> => {
+  const role = normalizeRole(decoded.role);
+  return {
+    id: decoded.id,
+    username: decoded.username,
+    role,
+    permissions: Array.isArray(decoded.permissions) ? decoded.permissions : resolvePermissions(role)
+  };
+};
+
+/**
+ * 判断当前用户是否拥有指定权限
+ */
+export const hasPermission = (req: AuthRequest, permission: Permission): boolean =>
+  !!req.user && req.user.permissions.includes(permission);
+
 export const authenticateToken = (req: AuthRequest, res: Response, next: NextFunction) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
@@ -26,7 +51,7 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
     return res.status(401).json({ message: 'Access token required' });
   }
 
-  jwt.verify(token, process.env.JWT_SECRET as string, (err, decoded: any) => {
+  jwt.verify(token, process.env.JWT_SECRET as string, async (err, decoded: any) => {
     if (err) {
       logger.warn('访问受保护资源失败：令牌无效或已过期', { 
         path: req.path, 
@@ -37,7 +62,22 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
       return res.status(403).json({ message: 'Invalid or expired token' });
     }
 
-    req.user = decoded;
+    // 检查用户是否被禁用、令牌是否已随“退出所有设备”失效
+    try {
+      const session = await container.getAuthService().verifySession(decoded as AccessTokenPayload);
+      if (session === 'disabled') {
+        logger.warn('访问受保护资源失败：账号已禁用', { userId: decoded.id, path: req.path });
+        return res.status(403).json({ message: 'Account disabled' });
+      }
+      if (session === 'revoked') {
+        logger.warn('访问受保护资源失败：令牌已吊销', { userId: decoded.id, path: req.path });
+        return res.status(401).json({ message: 'Token has been revoked' });
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    req.user = toRequestUser(decoded);
     logger.dev('用户认证成功', { 
       userId: decoded.id, 
       username: decoded.username, 
@@ -49,34 +89,158 @@ export const authenticateToken = (req: AuthRequest, res: Response, next: NextFun
   });
 };
 
-export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction) => {
-  if (!req.user) {
-    logger.warn('访问管理员资源失败：用户未认证', { 
-      path: req.path, 
-      method: req.method, 
-      ip: req.ip 
-    });
-    return res.status(401).json({ message: 'Authentication required' });
-  }
+/**
+ * 可选认证：携带有效令牌时解析用户信息，未携带或无效时以匿名身份继续
+ * 与 authenticateToken 一样检查账号是否被禁用、令牌是否已吊销，未通过时按匿名访问处理
+ */
+export const optionalAuth = (req: AuthRequest, _res: Response, next: NextFunction) => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
 
-  if (req.user.role !== 'admin') {
-    logger.warn('访问管理员资源失败：权限不足', { 
-      userId: req.user.id,
-      username: req.user.username,
-      userRole: req.user.role,
-      path: req.path, 
-      method: req.method, 
-      ip: req.ip 
-    });
-    return res.status(403).json({ message: 'Admin access required' });
+  if (!token) {
+    return next();
   }
 
-  logger.dev('管理员权限验证通过', { 
-    userId: req.user.id, 
-    username: req.user.username, 
-    role: req.user.role,
-    path: req.path,
-    method: req.method
+  jwt.verify(token, process.env.JWT_SECRET as string, async (err, decoded: any) => {
+    if (err) {
+      logger.dev('可选认证令牌无效，按匿名访问处理', { path: req.path, error: err.message });
+      return next();
+    }
+
+    try {
+      const session = await container.getAuthService().verifySession(decoded as AccessTokenPayload);
+      if (session === 'disabled' || session === 'revoked') {
+        logger.dev('可选认证令牌已失效，按匿名访问处理', { path: req.path, userId: decoded.id, session });
+        return next();
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    req.user = toRequestUser(decoded);
+    next();
   });
-  next();
-};
\ No newline at end of file
+};
+
+/**
+ * 上传前要求邮箱已验证
+ * 仅在 REQUIRE_EMAIL_VERIFICATION_FOR_UPLOAD=true 时生效，此时上传必须登录
+ */
+export const requireVerifiedEmail = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (process.env.REQUIRE_EMAIL_VERIFICATION_FOR_UPLOAD !== 'true') {
+    return next();
+  }
+
+  const checkVerified = async () => {
+    try {
+      const user = await container.getAuthService().getUserById(req.user!.id);
+      if (!user || (!user.emailVerified && user.role !== Role.ADMIN)) {
+        logger.warn('上传失败：邮箱未验证', { userId: req.user?.id, path: req.path });
+        return res.status(403).json({ message: 'Email verification required' });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  // 上游已完成认证时不再重复校验令牌
+  if (req.user) {
+    return checkVerified();
+  }
+  authenticateToken(req, res, checkVerified);
+};
+
+/**
+ * 读取匿名上传策略
+ * ANONYMOUS_FILE_UPLOAD 默认 deny；ANONYMOUS_LINK_UPLOAD 默认 allow（保持链接公开提交）
+ */
+const resolveAnonymousUploadPolicy = (kind: 'file' | 'link'): AnonymousUploadPolicy => {
+  const value = (kind === 'file' ? process.env.ANONYMOUS_FILE_UPLOAD : process.env.ANONYMOUS_LINK_UPLOAD) || '';
+  if (Object.values(AnonymousUploadPolicy).includes(value.toLowerCase() as AnonymousUploadPolicy)) {
+    return value.toLowerCase() as AnonymousUploadPolicy;
+  }
+  return kind === 'file' ? AnonymousUploadPolicy.DENY : AnonymousUploadPolicy.ALLOW;
+};
+
+/**
+ * 上传认证
+ * 携带令牌时必须有效并记录上传者；未携带令牌时按匿名上传策略决定是否放行
+ */
+export const uploadAuth = (kind: 'file' | 'link') =>
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    const authHeader = req.headers['authorization'];
+    if (authHeader) {
+      return authenticateToken(req, res, () => {
+        const permission = kind === 'file' ? Permission.FILE_UPLOAD : Permission.LINK_UPLOAD;
+        if (!hasPermission(req, permission)) {
+          logger.warn('上传失败：权限不足', { kind, userId: req.user?.id, role: req.user?.role });
+          return res.status(403).json({ message: 'Permission denied', required: [permission] });
+        }
+        next();
+      });
+    }
+
+    if (resolveAnonymousUploadPolicy(kind) === AnonymousUploadPolicy.ALLOW) {
+      logger.dev('匿名上传', { kind, path: req.path, ip: req.ip });
+      return next();
+    }
+
+    logger.warn('上传失败：不允许匿名上传', { kind, path: req.path, ip: req.ip });
+    return res.status(401).json({ message: 'Authentication required to upload' });
+  };
+
+/**
+ * 判断当前用户能否修改指定资源
+ * 拥有 any 权限可修改全部内容，拥有 own 权限只能修改本人上传的内容
+ */
+export const canModifyResource = (
+  req: AuthRequest,
+  uploaderId: { toString(): string } | undefined,
+  anyPermission: Permission,
+  ownPermission: Permission
+): boolean => {
+  if (!req.user) return false;
+  if (hasPermission(req, anyPermission)) return true;
+  return hasPermission(req, ownPermission) && !!uploaderId && uploaderId.toString() === req.user.id;
+};
+
+/**
+ * 判断当前用户能否查看指定内容
+ * 审核通过的内容（含审核流程上线前没有审核状态的内容）公开可见；
+ * 未通过审核的内容（包括检测到个人信息后重新进入审核的内容）只有上传者本人和审核员可见
+ */
+export const canViewContent = (
+  req: AuthRequest,
+  item: { uploaderId?: { toString(): string }; isLink?: boolean; reviewStatus?: ReviewStatus }
+): boolean => {
+  if (!item.reviewStatus || item.reviewStatus === ReviewStatus.APPROVED) return true;
+  if (!req.user) return false;
+  if (item.uploaderId && item.uploaderId.toString() === req.user.id) return true;
+  return hasPermission(req, item.isLink ? Permission.LINK_APPROVE : Permission.FILE_APPROVE);
+};
+
+/**
+ * 权限校验中间件（需在 authenticateToken 之后使用），要求同时具备所有指定权限
+ */
+export const requirePermission = (...permissions: Permission[]) =>
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      logger.warn('权限校验失败：用户未认证', { path: req.path, method: req.method, ip: req.ip });
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+
+    const missing = permissions.filter(permission => !req.user!.permissions.includes(permission));
+    if (missing.length > 0) {
+      logger.warn('权限校验失败：权限不足', {
+        userId: req.user.id,
+        role: req.user.role,
+        missing,
+        path: req.path,
+        method: req.method
+      });
+      return res.status(403).json({ message: 'Permission denied', required: missing });
+    }
+
+    next();
+  };
@@ -0,0 +1,53 @@
+import { Response, NextFunction } from 'express';
+import type { AuthRequest } from './auth.middleware.js';
+import { container } from '../services/container.js';
+import type { RateLimitPolicyName } from '../services/rate-limit-store.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建限流中间件日志器
+const logger = createLogger('RateLimitMiddleware');
+
+/**
+ * 接口限流中间件（需要按用户计数时放在认证中间件之后）
+ * 响应带 RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset / RateLimit-Policy 头，
+ * 超出限制时返回 429 和 Retry-After；计数存储不可用时放行
+ */
+export const rateLimit = (policy: RateLimitPolicyName) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const ip = req.ip || 'unknown';
+    let result;
+    try {
+      result = await container.getRateLimitService().consume(policy, { ip, userId: req.user?.id });
+    } catch (error) {
+      logger.warn('限流计数失败，放行请求', {
+        policy,
+        error: error instanceof Error ? error.message : '未知错误'
+      });
+      return next();
+    }
+
+    if (!result) {
+      return next();
+    }
+
+    res.set({
+      'RateLimit-Limit': String(result.limit),
+      'RateLimit-Remaining': String(result.remaining),
+      'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+      'RateLimit-Policy': `${result.limit};w=${Math.round(result.windowMs / 1000)}`
+    });
+
+    if (!result.allowed) {
+      const retryAfter = Math.max(Math.ceil(result.retryAfterMs / 1000), 1);
+      logger.warn('请求过于频繁，已限流', { policy, ip, userId: req.user?.id, retryAfter });
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        success: false,
+        message: '请求过于频繁，请稍后再试',
+        code: 'RATE_LIMITED',
+        data: { retryAfter }
+      });
+    }
+
+    next();
+  };
@@ -1,7 +1,19 @@
 import multer from 'multer';
 import path from 'node:path';
-import fs from 'node:fs';
+import { createHash } from 'node:crypto';
+import { Transform } from 'node:stream';
 import { Request, Response, NextFunction } from 'express';
+import type { FileStorageService } from '../services/file-storage.service.js';
+import { MetadataStripStatus } from '../models/file.model.js';
+import {
+  MetadataStripError,
+  resolveMetadataStripConfig,
+  resolveStripper,
+  stripMetadata
+} from '../utils/metadata-stripper.js';
+import { FILE_TYPE_SAMPLE_BYTES, FileTypeMismatchError, verifyFileType } from '../utils/file-type-verifier.js';
+import { QuotaExceededError } from '../services/quota.service.js';
+import type { AuthRequest } from './auth.middleware.js';
 import { createLogger } from '../utils/logger.js';
 
 // 创建上传中间件日志器
@@ -69,51 +81,114 @@ const fileFilter = (config: UploadConfig) => (req: Request, file: Express.Multer
 };
 
 /**
- * 确保上传目录存在
+ * 获取存储服务（运行时从服务容器获取，避免模块加载时产生循环依赖）
  */
-const ensureUploadsDir = () => {
-  const uploadsDir = path.resolve(process.cwd(), 'uploads');
-  if (!fs.existsSync(uploadsDir)) {
-    logger.info('创建上传目录', { uploadsDir });
-    fs.mkdirSync(uploadsDir, { recursive: true });
-  }
-  return uploadsDir;
+const getStorage = async (): Promise<FileStorageService> => {
+  const { container } = await import('../services/container.js');
+  return container.getFileStorageService();
 };
 
 /**
  * 创建存储配置
+ * 上传内容经由存储驱动写入，同时计算大小和 SHA-256；图片和文档在写入前清除隐私元数据；
+ * 按文件头校验实际类型，与声明的类型或扩展名不一致时拒绝上传
  */
-const createStorage = (uploadsDir: string) => {
-  return multer.diskStorage({
-    destination: (_req, _file, cb) => {
-      cb(null, uploadsDir);
-    },
-    filename: (_req, file, cb) => {
-      const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
-      const ext = path.extname(file.originalname);
-      const filename = `${file.fieldname}-${uniqueSuffix}${ext}`;
-      logger.dev('生成唯一文件名', { 
-        originalName: file.originalname,
-        generatedName: filename
+const createStorage = (): multer.StorageEngine => ({
+  _handleFile: (_req, file, cb) => {
+    const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+    const ext = path.extname(file.originalname);
+    const filename = `${file.fieldname}-${uniqueSuffix}${ext}`;
+    logger.dev('生成唯一文件名', { 
+      originalName: file.originalname,
+      generatedName: filename
+    });
+
+    const stripConfig = resolveMetadataStripConfig();
+    const stripper = stripConfig.enabled ? resolveStripper(file.mimetype, file.originalname) : null;
+    const store = async () => {
+      const storage = await getStorage();
+
+      if (stripper) {
+        // 需要清除元数据的文件先读入内存，清除后再写入存储，原文件不落盘
+        const chunks: Buffer[] = [];
+        for await (const chunk of file.stream) {
+          chunks.push(chunk as Buffer);
+        }
+        const original = Buffer.concat(chunks);
+        const verifiedMimeType = await verifyFileType(original, file.mimetype, file.originalname);
+        const { data, record } = await stripMetadata(original, stripper, stripConfig.maxSize);
+        if (record.status === MetadataStripStatus.STRIPPED) {
+          logger.info('已清除上传文件的元数据', { fileName: file.originalname, removed: record.removed });
+        }
+        await storage.putFile(filename, data, file.mimetype);
+        return {
+          filename,
+          size: data.length,
+          sha256: createHash('sha256').update(data).digest('hex'),
+          metadataStrip: record,
+          verifiedMimeType
+        };
+      }
+
+      const hash = createHash('sha256');
+      let size = 0;
+      const meter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          hash.update(chunk);
+          size += chunk.length;
+          callback(null, chunk);
+        }
       });
-      cb(null, filename);
-    },
-  });
-};
+
+      // 客户端中断时结束写入，避免存储驱动一直等待数据
+      file.stream.on('error', error => meter.destroy(error));
+
+      await storage.putFile(filename, file.stream.pipe(meter), file.mimetype);
+
+      // 写入后读取文件头校验类型，不通过时删除已写入的文件
+      let verifiedMimeType: string;
+      try {
+        const head = size > 0 ? await storage.readHead(filename, FILE_TYPE_SAMPLE_BYTES) : Buffer.alloc(0);
+        verifiedMimeType = await verifyFileType(head, file.mimetype, file.originalname);
+      } catch (error) {
+        await storage.deleteFile(filename);
+        throw error;
+      }
+      return { filename, size, sha256: hash.digest('hex'), verifiedMimeType };
+    };
+
+    store()
+      .then(info => cb(null, info))
+      .catch(error => {
+        if (error instanceof FileTypeMismatchError) {
+          logger.warn('文件上传被拒绝：文件内容与类型不一致', {
+            fileName: file.originalname,
+            declaredMimeType: error.declaredMimeType,
+            detectedMimeType: error.detectedMimeType
+          });
+        }
+        cb(error);
+      });
+  },
+  _removeFile: (_req, file, cb) => {
+    getStorage()
+      .then(storage => storage.deleteFile(file.filename))
+      .then(() => cb(null))
+      .catch(cb);
+  }
+});
 
 /**
  * 创建上传中间件
  */
 export const createUploadMiddleware = (config: Partial<UploadConfig> = {}) => {
   const finalConfig = { ...defaultUploadConfig, ...config };
-  const uploadsDir = ensureUploadsDir();
-  const storage = createStorage(uploadsDir);
+  const storage = createStorage();
 
   logger.info('创建上传中间件', { 
     maxFileSize: finalConfig.maxFileSize,
     maxFiles: finalConfig.maxFiles,
-    allowedMimeTypes: finalConfig.allowedMimeTypes,
-    uploadsDir
+    allowedMimeTypes: finalConfig.allowedMimeTypes
   });
 
   return multer({
@@ -141,6 +216,22 @@ export const uploadMultiple = createUploadMiddleware({ maxFiles: 5 });
  */
 export const uploadAny = createUploadMiddleware();
 
+/**
+ * 上传前检查存储配额（需在上传认证之后、multer 之前使用）
+ * 以请求体大小估算文件总大小，超出配额时在写入存储前拒绝；写入后按实际大小再次检查
+ */
+export const checkUploadQuota = (req: AuthRequest, _res: Response, next: NextFunction) => {
+  const contentLength = Number(req.headers['content-length']);
+  if (!Number.isFinite(contentLength) || contentLength <= 0) {
+    return next();
+  }
+
+  import('../services/container.js')
+    .then(({ container }) => container.getQuotaService().check({ userId: req.user?.id, ip: req.ip || 'unknown' }, contentLength))
+    .then(() => next())
+    .catch(next);
+};
+
 /**
  * 错误处理中间件
  */
@@ -166,6 +257,30 @@ export const uploadErrorHandler = (err: any, req: Request, res: Response, next:
     }
   }
 
+  if (err instanceof FileTypeMismatchError) {
+    return res.status(415).json({
+      success: false,
+      message: err.message
+    });
+  }
+
+  if (err instanceof QuotaExceededError) {
+    logger.warn('文件上传被拒绝：超出存储配额', { code: err.code, usage: err.usage, ip: req.ip });
+    return res.status(err.statusCode).json({
+      success: false,
+      message: err.message,
+      code: err.code,
+      data: { limit: err.limit, usage: err.usage }
+    });
+  }
+
+  if (err instanceof MetadataStripError) {
+    return res.status(422).json({
+      success: false,
+      message: err.message
+    });
+  }
+
   if (err.message && err.message.includes('不支持的文件类型')) {
     return res.status(400).json({
       success: false,
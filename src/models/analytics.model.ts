@@ -0,0 +1,75 @@
+import { ObjectId } from 'mongodb';
+
+/**
+ * 访问事件模型接口
+ * 记录短链接跳转、文件下载和短码查询，不保存原始IP
+ */
+export interface AnalyticsEvent {
+  _id?: ObjectId;
+  fileId: ObjectId;           // 文件/链接ID
+  shortCode: string;          // 短码
+  type: AnalyticsEventType;   // 事件类型
+  occurredAt: Date;           // 发生时间
+  referrerHost?: string;      // 来源站点（仅保留主机名）
+  uaFamily: string;           // 浏览器/客户端类型
+  deviceType: DeviceType;     // 设备类型
+  country?: string;           // 国家/地区代码（ISO 3166-1）
+  userId?: ObjectId;          // 已登录用户ID
+  visitorHash: string;        // 访客标识（IP+UA按天加盐哈希，次日不可关联）
+}
+
+/**
+ * 访问事件类型枚举
+ */
+export enum AnalyticsEventType {
+  REDIRECT = 'redirect',       // 短链接跳转
+  DOWNLOAD = 'download',       // 文件下载
+  VIEW = 'view'                // 短码查询
+}
+
+/**
+ * 设备类型枚举
+ */
+export enum DeviceType {
+  DESKTOP = 'desktop',
+  MOBILE = 'mobile',
+  TABLET = 'tablet',
+  BOT = 'bot',
+  UNKNOWN = 'unknown'
+}
+
+/**
+ * 时间序列粒度
+ */
+export type AnalyticsGranularity = 'hour' | 'day' | 'month';
+
+/**
+ * 访问事件上下文（由请求提取）
+ */
+export interface AnalyticsContext {
+  ip?: string;
+  userAgent?: string;
+  referrer?: string;
+  userId?: string;
+}
+
+/**
+ * 时间序列数据点
+ */
+export interface AnalyticsTimeSeriesPoint {
+  period: string;             // 时间段起点（ISO格式）
+  events: number;             // 事件数
+  uniqueVisitors: number;     // 独立访客数（估算）
+}
+
+/**
+ * 热门资源统计项
+ */
+export interface AnalyticsTopItem {
+  fileId: ObjectId;
+  shortCode: string;
+  title?: string;
+  isLink?: boolean;
+  events: number;
+  uniqueVisitors: number;
+}
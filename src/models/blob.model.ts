@@ -0,0 +1,21 @@
+/**
+ * 文件内容块模型
+ * 以 SHA-256 为主键，相同内容的文件共用一个物理文件，通过引用计数决定何时删除
+ */
+export interface BlobModel {
+  _id: string;                 // 内容的 SHA-256（十六进制）
+  filename: string;            // 物理文件名
+  size: number;                // 文件大小（字节）
+  refCount: number;            // 引用该内容的文件记录数
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 内容重复时返回给上传者的已有文件信息
+ */
+export interface DuplicateFileMatch {
+  fileId: string;              // 已有文件ID
+  shortCode: string;           // 已有文件短码
+  shortUrl: string;            // 已有文件的短链接
+}
@@ -0,0 +1,17 @@
+import { ObjectId } from 'mongodb';
+
+/**
+ * 文档内容模型
+ * 保存从 PDF/DOCX/TXT 中提取的正文和文档属性，与 files 集合一一对应（_id 即文件ID）
+ */
+export interface FileContentModel {
+  _id: ObjectId;
+  text: string;                // 提取的正文
+  charCount: number;           // 原始正文字符数
+  truncated: boolean;          // 正文是否因超出长度限制被截断
+  pageCount?: number;          // 页数（PDF）
+  title?: string;              // 文档属性中的标题
+  author?: string;             // 文档属性中的作者
+  extractor: 'pdf' | 'docx' | 'text';  // 使用的提取器
+  extractedAt: Date;           // 提取时间
+}
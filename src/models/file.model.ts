@@ -9,8 +9,10 @@ export interface FileModel {
   shortCode: string;          // 六位短码（大写字母+数字）
   originalName: string;        // 原始文件名
   mimeType: string;           // MIME类型
+  verifiedMimeType?: string;  // 按文件头校验后的MIME类型（校验上线前的历史文件没有此字段）
   size: number;               // 文件大小（字节）
   filename: string;           // 存储后的文件名
+  sha256?: string;            // 文件内容的 SHA-256（相同内容的文件共用一个物理文件）
   uploaderId?: ObjectId;      // 上传者ID（关联用户）
   uploadIp: string;           // 上传者IP地址
   status: FileStatus;         // 文件状态
@@ -22,11 +24,99 @@ export interface FileModel {
   // 链接相关字段
   isLink?: boolean;           // 是否为链接类型
   linkUrl?: string;           // 链接URL
+  normalizedUrl?: string;     // 规范化URL（用于重复链接检测）
+  normalizedUrlError?: string; // 历史链接补全规范化URL失败的原因
   linkTitle?: string;         // 链接标题
   linkDescription?: string;   // 链接描述
   linkThumbnail?: string;     // 链接缩略图URL
+  linkSiteName?: string;      // 站点名称
+  linkFavicon?: string;       // 站点图标URL
+  linkCanonicalUrl?: string;  // 页面声明的规范URL
   // 元数据处理状态
   metadataStatus?: MetadataStatus;  // 元数据处理状态
+  // 文档正文提取状态（仅 PDF/DOCX/TXT，正文保存在 file_contents 集合）
+  contentStatus?: MetadataStatus;
+  // 上传时清除的隐私元数据（EXIF/XMP/IPTC、文档属性）
+  metadataStrip?: MetadataStripRecord;
+  // 缩略图（图片和 PDF 首页，由后台任务生成）
+  thumbnailStatus?: MetadataStatus;
+  thumbnails?: FileThumbnail[];
+  // 恶意文件扫描（扫描完成前文件处于 processing 状态）
+  malwareScan?: MalwareScanRecord;
+  // 个人信息检测（文档正文和链接元数据，检测到时重新进入审核队列）
+  piiScan?: PiiScanRecord;
+  // 内容审核（历史数据无此字段，视为已通过）
+  reviewStatus?: ReviewStatus;      // 审核状态
+  reviewerId?: ObjectId;            // 当前或最后一次处理的审核员ID
+  reviewReason?: string;            // 驳回原因
+  reviewedAt?: Date;                // 最后一次审核操作时间
+  // 回收站（软删除的文件保留到期后由定时任务彻底删除）
+  deletedAt?: Date;                 // 删除时间
+  deletedBy?: ObjectId;             // 删除人ID
+  statusBeforeDelete?: FileStatus;  // 删除前的状态，恢复时还原
+}
+
+/**
+ * 缩略图尺寸枚举
+ */
+export enum ThumbnailSize {
+  SMALL = 'small',             // 最长边 160px
+  MEDIUM = 'medium',           // 最长边 480px
+  LARGE = 'large'              // 最长边 960px
+}
+
+/**
+ * 缩略图信息
+ */
+export interface FileThumbnail {
+  size: ThumbnailSize;
+  filename: string;            // 存储中的文件名
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;               // 缩略图文件大小（字节）
+}
+
+/**
+ * 元数据清除状态枚举
+ */
+export enum MetadataStripStatus {
+  STRIPPED = 'stripped',       // 已清除
+  CLEAN = 'clean',             // 未发现需要清除的元数据
+  SKIPPED = 'skipped',         // 文件过大，未处理
+  FAILED = 'failed'            // 清除失败（仅文档，保留原文件）
+}
+
+/**
+ * 元数据清除记录
+ */
+export interface MetadataStripRecord {
+  status: MetadataStripStatus;
+  removed: string[];           // 清除的元数据类型，如 EXIF、XMP、IPTC、PDF_INFO
+  originalSize: number;        // 清除前的文件大小（字节）
+  strippedAt: Date;
+}
+
+/**
+ * 个人信息类型枚举
+ */
+export enum PiiType {
+  ID_CARD = 'id_card',         // 身份证号
+  PHONE = 'phone',             // 手机号
+  EMAIL = 'email',             // 邮箱
+  NAME = 'name',               // 姓名（“姓名”“患者”等关键词后）
+  MEDICAL_RECORD = 'medical_record'  // 住院号、门诊号、病案号
+}
+
+/**
+ * 个人信息检测记录（只保存类型和数量，不保存识别到的内容）
+ */
+export interface PiiScanRecord {
+  flagged: boolean;            // 是否检测到个人信息
+  types: PiiType[];
+  counts: Partial<Record<PiiType, number>>;
+  fields: string[];            // 检测到个人信息的字段，如 content、linkTitle
+  scannedAt: Date;
 }
 
 /**
@@ -35,10 +125,51 @@ export interface FileModel {
 export enum FileStatus {
   ACTIVE = 'active',           // 正常
   DELETED = 'deleted',         // 已删除
-  PROCESSING = 'processing',   // 处理中
+  PROCESSING = 'processing',   // 处理中（等待恶意文件扫描结果）
+  QUARANTINED = 'quarantined', // 检测到恶意内容，已移入隔离存储
   ERROR = 'error'              // 错误
 }
 
+/**
+ * 只能由恶意文件扫描设置的状态，更新接口不能把文件改入或改出这些状态
+ */
+export const SCANNER_MANAGED_STATUSES: FileStatus[] = [FileStatus.PROCESSING, FileStatus.QUARANTINED];
+
+/**
+ * 不出现在公开列表和搜索结果中的状态：已删除、等待扫描和已隔离
+ */
+export const HIDDEN_STATUSES: FileStatus[] = [FileStatus.DELETED, ...SCANNER_MANAGED_STATUSES];
+
+/**
+ * 恶意文件扫描状态枚举
+ */
+export enum MalwareScanStatus {
+  PENDING = 'pending',         // 等待扫描
+  CLEAN = 'clean',             // 未发现恶意内容
+  INFECTED = 'infected',       // 检测到恶意内容
+  FAILED = 'failed'            // 多次扫描失败，文件保持不可下载
+}
+
+/**
+ * 恶意文件扫描记录
+ */
+export interface MalwareScanRecord {
+  status: MalwareScanStatus;
+  scanner: string;             // 扫描驱动名称
+  signature?: string;          // 命中的病毒特征名
+  scannedAt?: Date;
+}
+
+/**
+ * 内容审核状态枚举
+ */
+export enum ReviewStatus {
+  SUBMITTED = 'submitted',     // 已提交，等待审核
+  IN_REVIEW = 'in_review',     // 审核中
+  APPROVED = 'approved',       // 已通过（公开可见）
+  REJECTED = 'rejected'        // 已驳回
+}
+
 /**
  * 元数据处理状态枚举
  */
@@ -49,6 +180,23 @@ export enum MetadataStatus {
   FAILED = 'failed'            // 处理失败
 }
 
+/**
+ * 重复链接处理策略枚举
+ */
+export enum DuplicateLinkPolicy {
+  REJECT = 'reject',           // 拒绝上传
+  MERGE = 'merge',             // 将分类和标签合并到已有记录
+  ALLOW = 'allow'              // 允许重复，仅在响应中提示
+}
+
+/**
+ * 匿名上传策略枚举
+ */
+export enum AnonymousUploadPolicy {
+  ALLOW = 'allow',             // 允许未登录上传（不记录上传者）
+  DENY = 'deny'                // 必须登录后上传
+}
+
 /**
  * 文件输入接口
  */
@@ -56,8 +204,13 @@ export interface FileInput {
   shortCode: string;          // 六位短码
   originalName: string;
   mimeType: string;
+  verifiedMimeType?: string;
   size: number;
   filename: string;
+  sha256?: string;
+  metadataStrip?: MetadataStripRecord;
+  status?: FileStatus;        // 初始状态，默认为 active
+  malwareScan?: MalwareScanRecord;
   uploaderId?: ObjectId;
   uploadIp: string;
   categories: string[];       // 文件分类（前端提供）
@@ -66,6 +219,7 @@ export interface FileInput {
   // 链接相关字段
   isLink?: boolean;
   linkUrl?: string;
+  normalizedUrl?: string;
   linkTitle?: string;
   linkDescription?: string;
   linkThumbnail?: string;
@@ -79,6 +233,7 @@ export interface FileInput {
 export interface FileQuery {
   uploaderId?: ObjectId;
   status?: FileStatus;
+  reviewStatus?: ReviewStatus | 'any';  // 审核状态筛选，未指定时只返回已通过的内容
   categories?: string[];      // 按分类筛选
   tags?: string[];
   mimeType?: string;
@@ -95,7 +250,7 @@ export interface FileUpdate {
   categories?: string[];      // 更新分类
   tags?: string[];
   description?: string;
-  status?: FileStatus;
+  status?: FileStatus;        // 不能改为已删除，也不能改入或改出扫描状态
 }
 
 /**
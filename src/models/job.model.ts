@@ -0,0 +1,46 @@
+import { ObjectId } from 'mongodb';
+
+/**
+ * 后台任务模型接口
+ * 定义持久化在数据库中的后台任务结构
+ */
+export interface JobModel<TPayload = Record<string, any>> {
+  _id?: ObjectId;
+  type: string;               // 任务类型（对应处理器）
+  payload: TPayload;          // 任务参数
+  status: JobStatus;          // 任务状态
+  attempts: number;           // 已尝试次数
+  maxAttempts: number;        // 最大尝试次数
+  runAt: Date;                // 最早执行时间（用于延迟和退避重试）
+  leaseExpiresAt?: Date;      // 租约到期时间（处理中任务）
+  lockedBy?: string;          // 持有租约的工作进程
+  dedupeKey?: string;         // 去重键（同一时间只允许一个未完成的任务）
+  lastError?: string;         // 最近一次失败原因
+  createdAt: Date;            // 创建时间
+  updatedAt: Date;            // 更新时间
+  completedAt?: Date;         // 完成时间
+}
+
+/**
+ * 任务状态枚举
+ */
+export enum JobStatus {
+  PENDING = 'pending',         // 等待执行（包括等待重试）
+  PROCESSING = 'processing',   // 执行中
+  COMPLETED = 'completed',     // 已完成
+  DEAD = 'dead'                // 超过最大重试次数，进入死信状态
+}
+
+/**
+ * 任务入队选项
+ */
+export interface JobOptions {
+  maxAttempts?: number;       // 最大尝试次数
+  delayMs?: number;           // 延迟执行时间（毫秒）
+  dedupeKey?: string;         // 去重键
+}
+
+/**
+ * 任务处理器
+ */
+export type JobHandler<TPayload = Record<string, any>> = (job: JobModel<TPayload>) => Promise<void>;
@@ -0,0 +1,66 @@
+import { ObjectId } from 'mongodb';
+import { Role } from './role.model.js';
+
+/**
+ * 存储配额（null 表示不限制）
+ */
+export interface QuotaLimit {
+  maxBytes: number | null;     // 文件总大小上限（字节）
+  maxFiles: number | null;     // 文件数量上限
+}
+
+/**
+ * 各角色的默认配额，可通过 QUOTA_<角色>_MAX_BYTES / QUOTA_<角色>_MAX_FILES 覆盖
+ */
+export const DEFAULT_ROLE_QUOTAS: Record<Role, QuotaLimit> = {
+  [Role.ADMIN]: { maxBytes: null, maxFiles: null },
+  [Role.REVIEWER]: { maxBytes: 5 * 1024 * 1024 * 1024, maxFiles: 5000 },
+  [Role.EDITOR]: { maxBytes: 5 * 1024 * 1024 * 1024, maxFiles: 5000 },
+  [Role.UPLOADER]: { maxBytes: 1024 * 1024 * 1024, maxFiles: 1000 },
+  [Role.VIEWER]: { maxBytes: 0, maxFiles: 0 }
+};
+
+/**
+ * 匿名上传（按IP统计）的默认配额
+ */
+export const DEFAULT_ANONYMOUS_QUOTA: QuotaLimit = { maxBytes: 100 * 1024 * 1024, maxFiles: 20 };
+
+/**
+ * 配额使用量模型
+ * _id 为统计对象：user:<用户ID>、ip:<IP地址>（匿名上传）或 global（全站）
+ */
+export interface QuotaUsageModel {
+  _id: string;
+  bytes: number;               // 已使用的字节数（按文件记录的大小计算，去重不减少用量）
+  files: number;               // 文件数量
+  updatedAt: Date;
+}
+
+/**
+ * 配额统计对象（登录用户按用户统计，匿名上传按IP统计）
+ */
+export interface QuotaOwner {
+  userId?: ObjectId | string;
+  ip: string;
+}
+
+/**
+ * 管理员为单个用户设置的配额（未设置的项使用角色默认值）
+ */
+export interface QuotaOverride {
+  maxBytes?: number | null;
+  maxFiles?: number | null;
+  updatedBy: ObjectId;         // 设置人ID
+  updatedAt: Date;
+}
+
+/**
+ * 配额使用情况
+ */
+export interface QuotaSummary {
+  owner: string;               // 统计对象
+  limit: QuotaLimit;
+  usage: { bytes: number; files: number };
+  remaining: QuotaLimit;       // 剩余额度（不限制时为 null）
+  override?: QuotaOverride;    // 管理员设置的配额
+}
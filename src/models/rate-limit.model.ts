@@ -0,0 +1,36 @@
+import { ObjectId } from 'mongodb';
+
+/**
+ * 限流计数模型（使用 MongoDB 存储计数时）
+ */
+export interface RateLimitCounterModel {
+  _id: string;                 // 计数键，如 login:ip:1.2.3.4
+  windowStart: number;         // 当前窗口的开始时间（毫秒时间戳）
+  current: number;             // 当前窗口的计数
+  previous: number;            // 上一窗口的计数
+  lastHitAt: number;           // 最后一次计数的时间
+  expiresAt: Date;             // 过期后由 TTL 索引删除
+}
+
+/**
+ * 限流白名单（如合作医院的出口IP），白名单内的请求不受限流
+ */
+export interface RateLimitAllowlistEntry {
+  _id?: ObjectId;
+  rule: string;                // IP 或 CIDR 网段
+  note?: string;               // 备注（如合作机构名称）
+  createdBy: ObjectId;         // 添加人ID
+  createdAt: Date;
+}
+
+/**
+ * 限流检查结果
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;               // 窗口内允许的请求数
+  remaining: number;           // 剩余请求数
+  resetMs: number;             // 距计数重置的时间（毫秒）
+  retryAfterMs: number;        // 被拒绝时建议的重试等待时间（毫秒）
+  windowMs: number;
+}
@@ -0,0 +1,38 @@
+import { ObjectId } from 'mongodb';
+
+/**
+ * 刷新令牌模型接口
+ * 数据库中只保存令牌的哈希值，同一次登录产生的令牌属于同一个令牌族
+ */
+export interface RefreshTokenModel {
+  _id?: ObjectId;
+  userId: ObjectId;           // 所属用户
+  familyId: string;           // 令牌族ID（登录时生成，轮换时沿用）
+  tokenHash: string;          // 令牌SHA-256哈希
+  expiresAt: Date;            // 过期时间
+  createdAt: Date;            // 签发时间
+  usedAt?: Date;              // 轮换时间（已使用的令牌不能再次使用）
+  replacedBy?: ObjectId;      // 轮换后的新令牌
+  revokedAt?: Date;           // 吊销时间
+  revokedReason?: RevokeReason; // 吊销原因
+  ip?: string;                // 签发时的客户端IP
+  userAgent?: string;         // 签发时的客户端UA
+}
+
+/**
+ * 令牌吊销原因枚举
+ */
+export enum RevokeReason {
+  LOGOUT = 'logout',           // 用户退出登录
+  LOGOUT_ALL = 'logout_all',   // 退出所有设备
+  REUSE_DETECTED = 'reuse_detected', // 检测到已轮换的令牌被再次使用
+  USER_DISABLED = 'user_disabled'    // 用户被禁用
+}
+
+/**
+ * 签发令牌时的客户端信息
+ */
+export interface SessionContext {
+  ip?: string;
+  userAgent?: string;
+}
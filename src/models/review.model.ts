@@ -0,0 +1,78 @@
+import { ObjectId } from 'mongodb';
+import { ReviewStatus } from './file.model.js';
+
+/**
+ * 审核操作枚举
+ */
+export enum ReviewAction {
+  CLAIM = 'claim',             // 领取（提交 → 审核中）
+  RELEASE = 'release',         // 放回队列（审核中 → 已提交）
+  APPROVE = 'approve',         // 通过（审核中 → 已通过）
+  REJECT = 'reject',           // 驳回（审核中 → 已驳回，必须填写原因）
+  REOPEN = 'reopen',           // 重新审核（已通过/已驳回 → 审核中）
+  FLAG = 'flag'                // 系统标记（已通过 → 已提交，如检测到个人信息）
+}
+
+/**
+ * 审核状态机：每个操作允许的起始状态及目标状态
+ */
+export const REVIEW_TRANSITIONS: Record<ReviewAction, { from: ReviewStatus[]; to: ReviewStatus }> = {
+  [ReviewAction.CLAIM]: { from: [ReviewStatus.SUBMITTED], to: ReviewStatus.IN_REVIEW },
+  [ReviewAction.RELEASE]: { from: [ReviewStatus.IN_REVIEW], to: ReviewStatus.SUBMITTED },
+  [ReviewAction.APPROVE]: { from: [ReviewStatus.IN_REVIEW], to: ReviewStatus.APPROVED },
+  [ReviewAction.REJECT]: { from: [ReviewStatus.IN_REVIEW], to: ReviewStatus.REJECTED },
+  [ReviewAction.REOPEN]: { from: [ReviewStatus.APPROVED, ReviewStatus.REJECTED], to: ReviewStatus.IN_REVIEW },
+  [ReviewAction.FLAG]: { from: [ReviewStatus.APPROVED], to: ReviewStatus.SUBMITTED }
+};
+
+/**
+ * 公开可见内容的查询条件（field 为审核状态字段路径，用于聚合中关联的文档）
+ * 审核流程上线前的历史内容没有审核状态，视为已通过
+ */
+export const approvedFilterFor = (field: string) => ({
+  $or: [
+    { [field]: ReviewStatus.APPROVED },
+    { [field]: { $exists: false } }
+  ]
+});
+
+export const APPROVED_FILTER = approvedFilterFor('reviewStatus');
+
+/**
+ * 审核记录模型（审计日志，只增不改）
+ */
+export interface ReviewAuditModel {
+  _id?: ObjectId;
+  fileId: ObjectId;            // 被审核的文件或链接ID
+  isLink: boolean;             // 是否为链接
+  action: ReviewAction;        // 审核操作
+  fromStatus: ReviewStatus;    // 操作前状态
+  toStatus: ReviewStatus;      // 操作后状态
+  reviewerId?: ObjectId;       // 操作人ID（系统操作为空）
+  reviewerName: string;        // 操作人用户名（冗余保存，便于追溯；系统操作为 system）
+  reason?: string;             // 驳回原因或备注
+  createdAt: Date;             // 操作时间
+}
+
+/**
+ * 审核队列查询接口
+ */
+export interface ReviewQueueQuery {
+  statuses: ReviewStatus[];    // 要查看的审核状态
+  kinds: ('file' | 'link')[];  // 内容类型（按审核员权限限定）
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * 审核记录查询接口
+ */
+export interface ReviewAuditQuery {
+  fileId?: ObjectId;
+  reviewerId?: ObjectId;
+  action?: ReviewAction;
+  startDate?: Date;
+  endDate?: Date;
+  page?: number;
+  limit?: number;
+}
@@ -0,0 +1,77 @@
+/**
+ * 用户角色枚举
+ */
+export enum Role {
+  ADMIN = 'admin',             // 管理员
+  REVIEWER = 'reviewer',       // 审核员（医学志愿者，负责审核内容）
+  EDITOR = 'editor',           // 编辑（整理分类、修改任意内容）
+  UPLOADER = 'uploader',       // 上传者（默认角色）
+  VIEWER = 'viewer'            // 只读用户
+}
+
+/**
+ * 权限枚举
+ * 格式为 资源:操作[:范围]，own 表示仅限本人上传的内容，any 表示全部内容
+ */
+export enum Permission {
+  FILE_UPLOAD = 'file:upload',
+  FILE_UPDATE_OWN = 'file:update:own',
+  FILE_UPDATE_ANY = 'file:update:any',
+  FILE_DELETE_OWN = 'file:delete:own',
+  FILE_DELETE_ANY = 'file:delete:any',
+  FILE_APPROVE = 'file:approve',
+  LINK_UPLOAD = 'link:upload',
+  LINK_APPROVE = 'link:approve',
+  CONTENT_REDACT = 'content:redact',
+  ANALYTICS_VIEW = 'analytics:view',
+  USER_MANAGE = 'user:manage',
+  RATE_LIMIT_MANAGE = 'rate-limit:manage',
+  ROLE_MANAGE = 'role:manage'
+}
+
+/**
+ * 角色权限矩阵
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.ADMIN]: Object.values(Permission),
+  [Role.REVIEWER]: [
+    Permission.FILE_UPLOAD,
+    Permission.FILE_UPDATE_OWN,
+    Permission.FILE_DELETE_OWN,
+    Permission.FILE_APPROVE,
+    Permission.LINK_UPLOAD,
+    Permission.LINK_APPROVE,
+    Permission.ANALYTICS_VIEW
+  ],
+  [Role.EDITOR]: [
+    Permission.FILE_UPLOAD,
+    Permission.FILE_UPDATE_OWN,
+    Permission.FILE_UPDATE_ANY,
+    Permission.FILE_DELETE_OWN,
+    Permission.FILE_DELETE_ANY,
+    Permission.LINK_UPLOAD
+  ],
+  [Role.UPLOADER]: [
+    Permission.FILE_UPLOAD,
+    Permission.FILE_UPDATE_OWN,
+    Permission.FILE_DELETE_OWN,
+    Permission.LINK_UPLOAD
+  ],
+  // 公开内容无需登录即可查看，只读用户没有额外权限
+  [Role.VIEWER]: []
+};
+
+/**
+ * 规范化角色，旧版的 user 角色视为上传者，无法识别的角色按只读处理
+ */
+export function normalizeRole(role?: string): Role {
+  if (role === 'user') return Role.UPLOADER;
+  return Object.values(Role).includes(role as Role) ? (role as Role) : Role.VIEWER;
+}
+
+/**
+ * 解析角色对应的权限列表
+ */
+export function resolvePermissions(role?: string): Permission[] {
+  return [...ROLE_PERMISSIONS[normalizeRole(role)]];
+}
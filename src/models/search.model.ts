@@ -0,0 +1,36 @@
+import { ObjectId } from 'mongodb';
+import { FileModel } from './file.model.js';
+
+/**
+ * 搜索索引条目
+ * 与 files 集合一一对应，_id 即文件ID；状态和审核结果在查询时关联 files 判断
+ */
+export interface SearchIndexEntry {
+  _id: ObjectId;               // 文件或链接ID
+  isLink: boolean;             // 是否为链接
+  titleTokens: string[];       // 标题、文件名分词（权重最高）
+  tagTokens: string[];         // 标签和分类分词
+  tokens: string[];            // 全部索引词（含描述和正文）
+  indexedAt: Date;             // 索引时间
+}
+
+/**
+ * 搜索内容类型
+ */
+export type SearchType = 'all' | 'file' | 'link';
+
+/**
+ * 搜索查询接口
+ */
+export interface SearchQuery {
+  q: string;                   // 搜索关键词
+  type?: SearchType;           // 内容类型，默认 all
+  categories?: string[];       // 按分类筛选
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * 搜索结果（score 为相关度得分）
+ */
+export type SearchHit = FileModel & { score: number };
@@ -0,0 +1,49 @@
+import { ObjectId } from 'mongodb';
+
+/**
+ * 分片上传会话模型
+ * 客户端先创建会话，再逐个上传分片，全部到齐后合并为普通文件记录
+ */
+export interface UploadSessionModel {
+  _id: string;                 // 会话ID（随机生成，兼作上传凭证）
+  uploaderId?: ObjectId;       // 上传者ID（匿名上传时为空）
+  uploadIp: string;            // 创建会话的IP
+  originalName: string;        // 原始文件名
+  mimeType: string;            // MIME类型
+  size: number;                // 文件总大小（字节）
+  sha256?: string;             // 客户端声明的整个文件的SHA-256（可选，合并后校验）
+  chunkSize: number;           // 分片大小（最后一片可以更小）
+  totalChunks: number;         // 分片总数
+  receivedChunks: number[];    // 已接收的分片序号
+  categories: string[];        // 文件分类
+  status: UploadSessionStatus; // 会话状态
+  fileId?: ObjectId;           // 合并完成后生成的文件ID
+  expiresAt: Date;             // 过期时间（每次上传分片后顺延）
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 分片上传会话状态枚举
+ */
+export enum UploadSessionStatus {
+  ACTIVE = 'active',           // 上传中
+  COMPLETING = 'completing',   // 合并中
+  COMPLETED = 'completed',     // 已完成
+  ABORTED = 'aborted',         // 已取消
+  EXPIRED = 'expired'          // 已过期
+}
+
+/**
+ * 创建分片上传会话的输入
+ */
+export interface UploadSessionInput {
+  originalName: string;
+  mimeType: string;
+  size: number;
+  sha256?: string;
+  chunkSize?: number;
+  categories: string[];
+  uploaderId?: ObjectId;
+  uploadIp: string;
+}
@@ -0,0 +1,24 @@
+import { ObjectId } from 'mongodb';
+
+/**
+ * 用户一次性令牌模型接口
+ * 用于邮箱验证和密码重置，数据库中只保存令牌哈希
+ */
+export interface UserTokenModel {
+  _id?: ObjectId;
+  userId: ObjectId;           // 所属用户
+  type: UserTokenType;        // 令牌用途
+  tokenHash: string;          // 令牌SHA-256哈希
+  email: string;              // 签发时的邮箱（邮箱变更后令牌失效）
+  expiresAt: Date;            // 过期时间
+  createdAt: Date;            // 创建时间
+  usedAt?: Date;              // 使用时间（只能使用一次）
+}
+
+/**
+ * 一次性令牌用途枚举
+ */
+export enum UserTokenType {
+  EMAIL_VERIFICATION = 'email_verification', // 邮箱验证
+  PASSWORD_RESET = 'password_reset'          // 密码重置
+}
@@ -1,12 +1,21 @@
 import { ObjectId } from 'mongodb';
+import type { Role, Permission } from './role.model.js';
+import type { QuotaOverride } from './quota.model.js';
 
 export interface User {
   _id?: ObjectId;
   username: string;
   email: string;
   password: string;
-  role: 'user' | 'admin';
+  role: Role | 'user';        // 旧数据中的 user 视为 uploader
   uploadIp?: string;
+  disabled?: boolean;         // 是否被禁用
+  disabledAt?: Date;
+  tokenVersion?: number;      // 令牌版本，递增后已签发的访问令牌全部失效
+  emailVerified?: boolean;    // 邮箱是否已验证
+  emailVerifiedAt?: Date;
+  locale?: MailLocale;        // 邮件语言
+  quotaOverride?: QuotaOverride; // 管理员设置的存储配额
   createdAt: Date;
   updatedAt: Date;
 }
@@ -16,8 +25,14 @@ export interface UserInput {
   email: string;
   password: string;
   uploadIp?: string;
+  locale?: MailLocale;
 }
 
+/**
+ * 邮件语言
+ */
+export type MailLocale = 'zh-CN' | 'en';
+
 export interface LoginInput {
   username: string;
   password: string;
@@ -28,7 +43,21 @@ export interface AuthResponse {
     id: string;
     username: string;
     email: string;
-    role: string;
+    role: Role;
+    permissions: Permission[];
   };
-  token: string;
+  token: string;              // 访问令牌（短期有效）
+  refreshToken: string;       // 刷新令牌
+  expiresIn: number;          // 访问令牌有效期（秒）
+}
+
+/**
+ * 访问令牌载荷
+ */
+export interface AccessTokenPayload {
+  id: string;
+  username: string;
+  role: Role;
+  permissions: Permission[];  // 签发时解析出的权限
+  tv: number;                 // 签发时的令牌版本
 }
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { AnalyticsController } from '../controllers/analytics.controller.js';
+import { authenticateToken, requirePermission } from '../middlewares/auth.middleware.js';
+import { Permission } from '../models/role.model.js';
+
+const router = Router();
+
+// 访问统计需要 analytics:view 权限
+router.use(authenticateToken, requirePermission(Permission.ANALYTICS_VIEW));
+
+router.get('/top', AnalyticsController.getTopItems);
+router.get('/visitors', AnalyticsController.getUniqueVisitors);
+router.get('/files/:id/timeseries', AnalyticsController.getTimeSeries);
+
+export default router;
@@ -1,20 +1,34 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller.js';
-import { authenticateToken } from '../middlewares/auth.middleware.js';
+import { authenticateToken, requirePermission } from '../middlewares/auth.middleware.js';
+import { rateLimit } from '../middlewares/rate-limit.middleware.js';
+import { Permission } from '../models/role.model.js';
 import { container } from '../services/container.js';
 
 const router = Router();
 
 // 获取认证控制器
 function getAuthController() {
-  return new AuthController(container.getAuthService());
+  return new AuthController(container.getAuthService(), container.getRateLimitService());
 }
 
-// 公开路由
-router.post('/register', (req, res) => getAuthController().register(req, res));
-router.post('/login', (req, res) => getAuthController().login(req, res));
+// 公开路由（注册、登录和找回密码按IP限流）
+router.post('/register', rateLimit('register'), (req, res) => getAuthController().register(req, res));
+router.post('/login', rateLimit('login'), (req, res) => getAuthController().login(req, res));
+router.post('/refresh', (req, res) => getAuthController().refresh(req, res));
+router.post('/logout', (req, res) => getAuthController().logout(req, res));
+router.post('/verify-email', (req, res) => getAuthController().verifyEmail(req, res));
+router.post('/forgot-password', rateLimit('forgot-password'), (req, res) => getAuthController().forgotPassword(req, res));
+router.post('/reset-password', (req, res) => getAuthController().resetPassword(req, res));
 
 // 需要认证的路由
 router.get('/profile', authenticateToken, (req, res) => getAuthController().getProfile(req, res));
+router.post('/logout-all', authenticateToken, (req, res) => getAuthController().logoutAll(req, res));
+router.post('/resend-verification', authenticateToken, (req, res) => getAuthController().resendVerification(req, res));
+
+// 用户与角色管理路由
+router.get('/roles', authenticateToken, requirePermission(Permission.ROLE_MANAGE), (req, res) => getAuthController().getRoles(req, res));
+router.patch('/users/:id/role', authenticateToken, requirePermission(Permission.ROLE_MANAGE), (req, res) => getAuthController().setUserRole(req, res));
+router.patch('/users/:id/status', authenticateToken, requirePermission(Permission.USER_MANAGE), (req, res) => getAuthController().setUserStatus(req, res));
 
 export default router;
\ No newline at end of file
@@ -2,26 +2,34 @@ import { Router } from 'express';
 import { 
   uploadSingle, 
   uploadMultiple, 
-  uploadErrorHandler 
+  uploadErrorHandler,
+  checkUploadQuota
 } from '../middlewares/upload.middleware.js';
 import { FileController } from '../controllers/file.controller.js';
-import { authenticateToken } from '../middlewares/auth.middleware.js';
+import { authenticateToken, optionalAuth, requireVerifiedEmail, uploadAuth } from '../middlewares/auth.middleware.js';
 
 const router = Router();
 
-// 文件上传相关路由
-router.post('/upload', uploadMultiple.array('file', 5), FileController.uploadFiles);
+// 文件上传相关路由（是否允许匿名上传由 ANONYMOUS_FILE_UPLOAD 决定）
+router.post('/upload', uploadAuth('file'), requireVerifiedEmail, checkUploadQuota, uploadMultiple.array('file', 5), FileController.uploadFiles);
 
 // 文件管理相关路由
-router.get('/', FileController.getFiles);
+router.get('/', optionalAuth, FileController.getFiles);
 router.get('/stats', FileController.getFileStats);
 router.get('/categories', FileController.getCategories);
-router.get('/shortcode/:shortCode', FileController.getFileByShortCode);
-router.get('/:id', FileController.getFileById);
-router.get('/:id/download', FileController.downloadFile);
-router.put('/:id', FileController.updateFile);
-router.delete('/:id', FileController.deleteFile);
-router.post('/batch/status', FileController.batchUpdateStatus);
+router.get('/trash', authenticateToken, FileController.getTrash);
+router.get('/shortcode/:shortCode', optionalAuth, FileController.getFileByShortCode);
+router.get('/:id', optionalAuth, FileController.getFileById);
+router.get('/:id/content', optionalAuth, FileController.getFileContent);
+router.get('/:id/download', optionalAuth, FileController.downloadFile);
+router.get('/:id/preview', optionalAuth, FileController.previewFile);
+router.get('/:id/thumbnail', optionalAuth, FileController.getThumbnail);
+
+// 修改类路由需要登录，且只能由上传者本人或管理员操作
+router.put('/:id', authenticateToken, FileController.updateFile);
+router.delete('/:id', authenticateToken, FileController.deleteFile);
+router.post('/:id/restore', authenticateToken, FileController.restoreFile);
+router.post('/batch/status', authenticateToken, FileController.batchUpdateStatus);
 
 // 错误处理中间件
 router.use(uploadErrorHandler);
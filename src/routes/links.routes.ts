@@ -1,13 +1,16 @@
 import { Router } from 'express';
 import { LinkController } from '../controllers/link.controller.js';
+import { optionalAuth, requireVerifiedEmail, uploadAuth } from '../middlewares/auth.middleware.js';
+import { rateLimit } from '../middlewares/rate-limit.middleware.js';
 
 const router = Router();
 
-// 链接上传相关路由（公开，无需鉴权）
-router.post('/upload', LinkController.uploadLinks);
+// 链接上传相关路由（默认公开，由 ANONYMOUS_LINK_UPLOAD 控制；开启邮箱验证要求时需登录且邮箱已验证）
+// 登录用户按用户限流，匿名上传按IP限流
+router.post('/upload', uploadAuth('link'), rateLimit('link-upload'), requireVerifiedEmail, LinkController.uploadLinks);
 
 // 链接管理相关路由
-router.get('/', LinkController.getLinks);
+router.get('/', optionalAuth, LinkController.getLinks);
 router.get('/search', LinkController.searchLinks);
 
 // 获取链接元数据处理状态
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { QuotaController } from '../controllers/quota.controller.js';
+import { authenticateToken, optionalAuth, requirePermission } from '../middlewares/auth.middleware.js';
+import { Permission } from '../models/role.model.js';
+
+const router = Router();
+
+// 当前用户的配额使用情况（匿名访问时按IP统计）
+router.get('/me', optionalAuth, QuotaController.getMyQuota);
+
+// 管理员查看和调整用户配额
+router.get('/users/:id', authenticateToken, requirePermission(Permission.USER_MANAGE), QuotaController.getUserQuota);
+router.put('/users/:id', authenticateToken, requirePermission(Permission.USER_MANAGE), QuotaController.setUserQuota);
+router.delete('/users/:id', authenticateToken, requirePermission(Permission.USER_MANAGE), QuotaController.clearUserQuota);
+
+export default router;
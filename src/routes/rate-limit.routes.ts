@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { RateLimitController } from '../controllers/rate-limit.controller.js';
+import { authenticateToken, requirePermission } from '../middlewares/auth.middleware.js';
+import { Permission } from '../models/role.model.js';
+
+const router = Router();
+
+// 限流白名单需要 rate-limit:manage 权限（默认只有管理员）
+router.use(authenticateToken, requirePermission(Permission.RATE_LIMIT_MANAGE));
+
+router.get('/allowlist', RateLimitController.getAllowlist);
+router.post('/allowlist', RateLimitController.addAllowlistEntry);
+router.delete('/allowlist/:id', RateLimitController.removeAllowlistEntry);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { ReviewController } from '../controllers/review.controller.js';
+import { authenticateToken, requirePermission } from '../middlewares/auth.middleware.js';
+import { Permission } from '../models/role.model.js';
+
+const router = Router();
+
+// 审核相关路由需要登录，具体的 file:approve / link:approve 权限由控制器按内容类型校验
+router.use(authenticateToken);
+
+router.get('/queue', ReviewController.getQueue);
+router.get('/audit', ReviewController.getAuditLog);
+router.get('/:id/history', ReviewController.getHistory);
+router.post('/:id/claim', ReviewController.claim);
+router.post('/:id/release', ReviewController.release);
+router.post('/:id/approve', ReviewController.approve);
+router.post('/:id/reject', ReviewController.reject);
+router.post('/:id/reopen', ReviewController.reopen);
+router.get('/:id/redacted', requirePermission(Permission.CONTENT_REDACT), ReviewController.getRedactedCopy);
+
+export default router;
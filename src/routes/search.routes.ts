@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { SearchController } from '../controllers/search.controller.js';
+
+const router = Router();
+
+// 统一搜索（公开，只返回审核通过的内容）
+router.get('/', SearchController.search);
+
+export default router;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { ShortLinkController } from '../controllers/short-link.controller.js';
+import { optionalAuth } from '../middlewares/auth.middleware.js';
+
+const router = Router();
+
+// 短链接访问（公开，短码不区分大小写）
+router.get('/:shortCode', optionalAuth, ShortLinkController.resolve);
+
+export default router;
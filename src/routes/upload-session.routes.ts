@@ -0,0 +1,21 @@
+import express, { Router } from 'express';
+import { UploadSessionController } from '../controllers/upload-session.controller.js';
+import { requireVerifiedEmail, uploadAuth } from '../middlewares/auth.middleware.js';
+import { resolveUploadSessionConfig } from '../services/upload-session.service.js';
+
+const router = Router();
+
+// 分片上传与普通文件上传使用相同的认证规则（ANONYMOUS_FILE_UPLOAD）
+router.use(uploadAuth('file'));
+
+router.post('/', requireVerifiedEmail, UploadSessionController.createSession);
+router.get('/:sessionId', UploadSessionController.getSession);
+router.put(
+  '/:sessionId/parts/:index',
+  express.raw({ type: () => true, limit: resolveUploadSessionConfig().maxChunkSize }),
+  UploadSessionController.uploadPart
+);
+router.post('/:sessionId/complete', UploadSessionController.complete);
+router.delete('/:sessionId', UploadSessionController.abort);
+
+export default router;
@@ -0,0 +1,385 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { Collection, Db, MongoServerError, ObjectId } from 'mongodb';
+import maxmind, { CountryResponse, Reader } from 'maxmind';
+import {
+  AnalyticsEvent,
+  AnalyticsEventType,
+  AnalyticsContext,
+  AnalyticsGranularity,
+  AnalyticsTimeSeriesPoint,
+  AnalyticsTopItem,
+  DeviceType
+} from '../models/analytics.model.js';
+import { FileModel } from '../models/file.model.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建访问统计服务日志器
+const logger = createLogger('AnalyticsService');
+
+/**
+ * 每日盐值记录
+ * 盐值只保留两天，过期后无法再由IP反推访客标识
+ */
+interface DailySalt {
+  _id: string;                // 统计时区的日期（YYYY-MM-DD）
+  salt: string;
+  createdAt: Date;
+}
+
+/**
+ * 统计查询条件
+ */
+export interface AnalyticsRange {
+  from: Date;
+  to: Date;
+  type?: AnalyticsEventType;
+}
+
+/**
+ * 客户端识别规则，按顺序匹配
+ */
+const UA_FAMILIES: Array<[RegExp, string]> = [
+  [/bot|crawler|spider|slurp|curl|wget|python-requests|okhttp|go-http-client/i, 'Bot'],
+  [/MicroMessenger/i, 'WeChat'],
+  [/DingTalk/i, 'DingTalk'],
+  [/MQQBrowser|QQBrowser/i, 'QQ Browser'],
+  [/UCBrowser/i, 'UC Browser'],
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser/, 'Samsung Internet'],
+  [/Firefox|FxiOS/, 'Firefox'],
+  [/Chrome|CriOS/, 'Chrome'],
+  [/Safari/, 'Safari'],
+  [/MSIE|Trident/, 'Internet Explorer']
+];
+
+const DATE_FORMATS: Record<AnalyticsGranularity, string> = {
+  hour: '%Y-%m-%dT%H:00',
+  day: '%Y-%m-%d',
+  month: '%Y-%m'
+};
+
+/**
+ * 识别客户端类型
+ */
+export function parseUserAgent(userAgent: string = ''): { uaFamily: string; deviceType: DeviceType } {
+  const family = UA_FAMILIES.find(([pattern]) => pattern.test(userAgent));
+  const uaFamily = family ? family[1] : userAgent ? 'Other' : 'Unknown';
+
+  let deviceType = DeviceType.UNKNOWN;
+  if (uaFamily === 'Bot') {
+    deviceType = DeviceType.BOT;
+  } else if (/iPad|Tablet/i.test(userAgent) || (/Android/i.test(userAgent) && !/Mobile/i.test(userAgent))) {
+    deviceType = DeviceType.TABLET;
+  } else if (/Mobi|iPhone|Android/i.test(userAgent)) {
+    deviceType = DeviceType.MOBILE;
+  } else if (userAgent) {
+    deviceType = DeviceType.DESKTOP;
+  }
+
+  return { uaFamily, deviceType };
+}
+
+/**
+ * 提取来源站点主机名，不保留路径和参数
+ */
+function referrerHostOf(referrer?: string): string | undefined {
+  if (!referrer) return undefined;
+  try {
+    return new URL(referrer).hostname.toLowerCase() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 访问统计服务
+ * 记录短链接跳转和文件下载事件，提供时间序列、热门资源和独立访客统计
+ */
+export class AnalyticsService {
+  private db: Db;
+  private events: Collection<AnalyticsEvent>;
+  private salts: Collection<DailySalt>;
+  private saltCache = new Map<string, string>();
+  private geoReader: Promise<Reader<CountryResponse> | null> | null = null;
+  private geoDbPath: string | undefined;
+  private timezone: string;
+  private dayFormat: Intl.DateTimeFormat;
+  private retentionDays: number;
+
+  constructor(db: Db) {
+    this.db = db;
+    this.events = db.collection<AnalyticsEvent>('analytics_events');
+    this.salts = db.collection<DailySalt>('analytics_salts');
+    this.geoDbPath = process.env.GEOIP_DB_PATH;
+    this.timezone = process.env.ANALYTICS_TIMEZONE || 'Asia/Shanghai';
+    // en-CA 的日期格式为 YYYY-MM-DD
+    this.dayFormat = new Intl.DateTimeFormat('en-CA', {
+      timeZone: this.timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    });
+    this.retentionDays = Number(process.env.ANALYTICS_RETENTION_DAYS) || 0;
+    logger.info('访问统计服务初始化完成', { geoip: !!this.geoDbPath, timezone: this.timezone });
+  }
+
+  /**
+   * 创建统计集合索引
+   */
+  async ensureIndexes(): Promise<void> {
+    await this.events.createIndex({ fileId: 1, occurredAt: 1 });
+    await this.ensureRetentionIndex();
+    await this.salts.createIndex({ createdAt: 1 }, { expireAfterSeconds: 2 * 24 * 60 * 60 });
+  }
+
+  /**
+   * 创建或调整 occurredAt 索引：配置了保留天数时同时作为过期索引
+   * 修改 ANALYTICS_RETENTION_DAYS 后，只调整过期时间时使用 collMod，开启或关闭过期时删除后重建，避免索引选项冲突
+   */
+  private async ensureRetentionIndex(): Promise<void> {
+    const expireAfterSeconds = this.retentionDays > 0 ? this.retentionDays * 24 * 60 * 60 : undefined;
+    let existing: { name?: string; expireAfterSeconds?: number } | undefined;
+    try {
+      existing = (await this.events.indexes()).find(index =>
+        Object.keys(index.key).length === 1 && index.key.occurredAt === 1);
+    } catch (error) {
+      // 集合尚未创建
+      if (!(error instanceof MongoServerError && error.code === 26)) throw error;
+    }
+
+    if (existing && existing.expireAfterSeconds === expireAfterSeconds) {
+      return;
+    }
+    if (existing?.name) {
+      if (existing.expireAfterSeconds !== undefined && expireAfterSeconds !== undefined) {
+        await this.db.command({
+          collMod: this.events.collectionName,
+          index: { name: existing.name, expireAfterSeconds }
+        });
+        logger.info('已调整访问事件的过期时间', { retentionDays: this.retentionDays });
+        return;
+      }
+      await this.events.dropIndex(existing.name);
+      logger.info('访问事件保留设置已变化，重建 occurredAt 索引', { retentionDays: this.retentionDays });
+    }
+
+    await this.events.createIndex(
+      { occurredAt: 1 },
+      expireAfterSeconds !== undefined ? { expireAfterSeconds } : {}
+    );
+  }
+
+  /**
+   * 记录访问事件
+   * 统计失败不影响正常访问，因此这里只记录日志不抛出异常
+   */
+  async track(file: FileModel, type: AnalyticsEventType, context: AnalyticsContext): Promise<void> {
+    try {
+      const occurredAt = new Date();
+      const { uaFamily, deviceType } = parseUserAgent(context.userAgent);
+      const event: AnalyticsEvent = {
+        fileId: file._id as ObjectId,
+        shortCode: file.shortCode,
+        type,
+        occurredAt,
+        uaFamily,
+        deviceType,
+        visitorHash: await this.hashVisitor(context, occurredAt)
+      };
+
+      const referrerHost = referrerHostOf(context.referrer);
+      if (referrerHost) event.referrerHost = referrerHost;
+
+      const country = await this.lookupCountry(context.ip);
+      if (country) event.country = country;
+
+      if (context.userId && ObjectId.isValid(context.userId)) {
+        event.userId = new ObjectId(context.userId);
+      }
+
+      await this.events.insertOne(event);
+      logger.dev('记录访问事件', { shortCode: file.shortCode, type, uaFamily, country });
+    } catch (error) {
+      logger.warn('记录访问事件失败', {
+        shortCode: file.shortCode,
+        type,
+        error: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  }
+
+  /**
+   * 单个资源的访问时间序列
+   */
+  async getTimeSeries(
+    fileId: ObjectId,
+    range: AnalyticsRange,
+    granularity: AnalyticsGranularity = 'day'
+  ): Promise<AnalyticsTimeSeriesPoint[]> {
+    return await this.events
+      .aggregate<AnalyticsTimeSeriesPoint>([
+        { $match: this.buildMatch(range, fileId) },
+        {
+          $group: {
+            _id: {
+              $dateToString: { date: '$occurredAt', format: DATE_FORMATS[granularity], timezone: this.timezone }
+            },
+            events: { $sum: 1 },
+            visitors: { $addToSet: '$visitorHash' }
+          }
+        },
+        { $sort: { _id: 1 } },
+        { $project: { _id: 0, period: '$_id', events: 1, uniqueVisitors: { $size: '$visitors' } } }
+      ])
+      .toArray();
+  }
+
+  /**
+   * 指定时间段内访问量最高的资源
+   */
+  async getTopItems(range: AnalyticsRange, limit: number = 10): Promise<AnalyticsTopItem[]> {
+    const items = await this.events
+      .aggregate<AnalyticsTopItem>([
+        { $match: this.buildMatch(range) },
+        {
+          $group: {
+            _id: '$fileId',
+            shortCode: { $last: '$shortCode' },
+            events: { $sum: 1 },
+            visitors: { $addToSet: '$visitorHash' }
+          }
+        },
+        { $sort: { events: -1 } },
+        { $limit: limit },
+        { $project: { _id: 0, fileId: '$_id', shortCode: 1, events: 1, uniqueVisitors: { $size: '$visitors' } } }
+      ])
+      .toArray();
+
+    const files = await this.db
+      .collection<FileModel>('files')
+      .find(
+        { _id: { $in: items.map(item => item.fileId) } },
+        { projection: { originalName: 1, linkTitle: 1, isLink: 1 } }
+      )
+      .toArray();
+    const fileMap = new Map(files.map(file => [file._id!.toString(), file]));
+
+    return items.map(item => {
+      const file = fileMap.get(item.fileId.toString());
+      return {
+        ...item,
+        title: file ? file.linkTitle || file.originalName : undefined,
+        isLink: file?.isLink
+      };
+    });
+  }
+
+  /**
+   * 独立访客估算
+   * 访客标识按天加盐，跨天无法关联，因此多日区间的结果为每日独立访客之和（访客·天）
+   */
+  async getUniqueVisitors(
+    range: AnalyticsRange,
+    fileId?: ObjectId
+  ): Promise<{ events: number; uniqueVisitors: number; days: number }> {
+    const [result] = await this.events
+      .aggregate<{ events: number; uniqueVisitors: number; days: number }>([
+        { $match: this.buildMatch(range, fileId) },
+        {
+          $group: {
+            _id: { $dateToString: { date: '$occurredAt', format: DATE_FORMATS.day, timezone: this.timezone } },
+            events: { $sum: 1 },
+            visitors: { $addToSet: '$visitorHash' }
+          }
+        },
+        {
+          $group: {
+            _id: null,
+            events: { $sum: '$events' },
+            uniqueVisitors: { $sum: { $size: '$visitors' } },
+            days: { $sum: 1 }
+          }
+        },
+        { $project: { _id: 0, events: 1, uniqueVisitors: 1, days: 1 } }
+      ])
+      .toArray();
+
+    return result || { events: 0, uniqueVisitors: 0, days: 0 };
+  }
+
+  /**
+   * 构建查询条件
+   */
+  private buildMatch(range: AnalyticsRange, fileId?: ObjectId): Record<string, unknown> {
+    const match: Record<string, unknown> = { occurredAt: { $gte: range.from, $lt: range.to } };
+    if (fileId) match.fileId = fileId;
+    if (range.type) match.type = range.type;
+    return match;
+  }
+
+  /**
+   * 计算访客标识
+   * 使用当日随机盐对IP和UA做HMAC，盐值过期删除后无法再还原
+   */
+  private async hashVisitor(context: AnalyticsContext, occurredAt: Date): Promise<string> {
+    const salt = await this.getDailySalt(occurredAt);
+    return createHmac('sha256', salt)
+      .update(`${context.ip || ''}|${context.userAgent || ''}`)
+      .digest('hex')
+      .slice(0, 32);
+  }
+
+  /**
+   * 获取当日盐值，多个进程通过数据库共享同一个盐值
+   * 按 ANALYTICS_TIMEZONE 划分日期，与按天汇总的统计口径一致
+   */
+  private async getDailySalt(date: Date): Promise<string> {
+    const day = this.dayFormat.format(date);
+    const cached = this.saltCache.get(day);
+    if (cached) return cached;
+
+    let record: DailySalt | null;
+    try {
+      record = await this.salts.findOneAndUpdate(
+        { _id: day },
+        { $setOnInsert: { salt: randomBytes(32).toString('hex'), createdAt: new Date() } },
+        { upsert: true, returnDocument: 'after' }
+      );
+    } catch (error) {
+      // 其他进程同时创建了当日盐值
+      if (!(error instanceof MongoServerError && error.code === 11000)) throw error;
+      record = await this.salts.findOne({ _id: day });
+    }
+    if (!record) {
+      throw new Error('获取访客盐值失败');
+    }
+    const salt = record.salt;
+
+    this.saltCache.clear();
+    this.saltCache.set(day, salt);
+    return salt;
+  }
+
+  /**
+   * 通过本地GeoIP数据库查询国家/地区
+   */
+  private async lookupCountry(ip?: string): Promise<string | undefined> {
+    if (!ip || !this.geoDbPath) return undefined;
+
+    if (!this.geoReader) {
+      this.geoReader = maxmind.open<CountryResponse>(this.geoDbPath).catch(error => {
+        logger.warn('加载GeoIP数据库失败，跳过地区统计', {
+          path: this.geoDbPath,
+          error: error instanceof Error ? error.message : '未知错误'
+        });
+        return null;
+      });
+    }
+
+    const reader = await this.geoReader;
+    const address = ip.replace(/^::ffff:/, '');
+    if (!reader || !maxmind.validate(address)) return undefined;
+    return reader.get(address)?.country?.iso_code;
+  }
+}
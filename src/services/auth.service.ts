@@ -1,21 +1,72 @@
 import { Collection, Db, ObjectId } from 'mongodb';
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import { User, UserInput, AuthResponse } from '../models/user.model.js';
+import { User, UserInput, AuthResponse, AccessTokenPayload, MailLocale } from '../models/user.model.js';
+import { RefreshTokenModel, RevokeReason, SessionContext } from '../models/refresh-token.model.js';
+import { UserTokenModel, UserTokenType } from '../models/user-token.model.js';
+import { MailService } from './mail.service.js';
+import { Role, normalizeRole, resolvePermissions } from '../models/role.model.js';
 import { createLogger } from '../utils/logger.js';
 
 // 创建认证服务日志器
 const logger = createLogger('AuthService');
 
+// 访问令牌有效期（秒），默认15分钟
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+// 刷新令牌有效期（天），默认30天
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+// 邮箱验证链接有效期（小时），默认24小时
+const EMAIL_VERIFICATION_TTL_HOURS = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 24;
+// 密码重置链接有效期（分钟），默认30分钟
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30;
+
+/**
+ * 新注册用户的默认角色（DEFAULT_USER_ROLE，默认uploader，不允许配置为admin）
+ */
+const resolveDefaultRole = (): Role => {
+  const role = normalizeRole(process.env.DEFAULT_USER_ROLE || Role.UPLOADER);
+  return role === Role.ADMIN ? Role.UPLOADER : role;
+};
+
+/**
+ * 计算令牌哈希
+ */
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
 export class AuthService {
   private usersCollection: Collection<User>;
+  private refreshTokensCollection: Collection<RefreshTokenModel>;
+  private userTokensCollection: Collection<UserTokenModel>;
+  private mailService: MailService;
 
-  constructor(db: Db) {
+  constructor(db: Db, mailService: MailService = new MailService()) {
     this.usersCollection = db.collection<User>('users');
+    this.refreshTokensCollection = db.collection<RefreshTokenModel>('refresh_tokens');
+    this.userTokensCollection = db.collection<UserTokenModel>('user_tokens');
+    this.mailService = mailService;
   }
 
-  async register(userInput: UserInput): Promise<AuthResponse> {
-    const { username, email, password, uploadIp } = userInput;
+  /**
+   * 创建刷新令牌集合索引，过期令牌由TTL索引自动清理
+   */
+  async ensureIndexes(): Promise<void> {
+    await this.refreshTokensCollection.createIndexes([
+      { key: { tokenHash: 1 }, unique: true },
+      { key: { familyId: 1 } },
+      { key: { userId: 1 } },
+      { key: { expiresAt: 1 }, expireAfterSeconds: 0 }
+    ]);
+    await this.userTokensCollection.createIndexes([
+      { key: { tokenHash: 1 }, unique: true },
+      { key: { userId: 1, type: 1 } },
+      { key: { expiresAt: 1 }, expireAfterSeconds: 0 }
+    ]);
+  }
+
+  async register(userInput: UserInput, context: SessionContext = {}): Promise<AuthResponse> {
+    const { username, email, password, uploadIp, locale } = userInput;
     
     logger.dev('开始用户注册流程', { username, email, uploadIp });
 
@@ -42,8 +93,10 @@ export class AuthService {
       username,
       email,
       password: hashedPassword,
-      role: 'user',
+      role: resolveDefaultRole(),
       uploadIp,
+      emailVerified: false,
+      locale: locale || 'zh-CN',
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -57,13 +110,9 @@ export class AuthService {
       throw new Error('Failed to create user');
     }
 
-    // 生成JWT token
+    // 签发访问令牌和刷新令牌
     logger.dev('生成JWT令牌', { userId: user._id.toString(), role: user.role });
-    const token = jwt.sign(
-      { id: user._id.toString(), username: user.username, role: user.role },
-      process.env.JWT_SECRET as string,
-      { expiresIn: '7d' }
-    );
+    const authResponse = await this.issueTokens(user, context);
 
     logger.info('用户注册成功', { 
       userId: user._id.toString(), 
@@ -72,18 +121,20 @@ export class AuthService {
       uploadIp
     });
 
-    return {
-      user: {
-        id: user._id.toString(),
-        username: user.username,
-        email: user.email,
-        role: user.role
-      },
-      token
-    };
+    // 发送验证邮件失败不影响注册，用户可稍后重新发送
+    try {
+      await this.sendVerificationEmail(user);
+    } catch (error) {
+      logger.error('发送邮箱验证邮件失败', {
+        userId: user._id.toString(),
+        error: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+
+    return authResponse;
   }
 
-  async login(username: string, password: string): Promise<AuthResponse> {
+  async login(username: string, password: string, context: SessionContext = {}): Promise<AuthResponse> {
     logger.dev('开始用户登录流程', { username });
     
     // 首先检查是否是管理员登录
@@ -101,7 +152,8 @@ export class AuthService {
             username: process.env.ADMIN_USERNAME as string,
             email: 'admin@system.local',
             password: hashedPassword,
-            role: 'admin',
+            role: Role.ADMIN,
+            emailVerified: true,
             createdAt: new Date(),
             updatedAt: new Date()
           };
@@ -115,12 +167,13 @@ export class AuthService {
           throw new Error('Failed to create admin user');
         }
 
+        if (adminUser.disabled) {
+          logger.warn('管理员登录失败：账号已禁用', { username });
+          throw new Error('Account disabled');
+        }
+
         logger.dev('生成管理员JWT令牌');
-        const token = jwt.sign(
-          { id: adminUser._id.toString(), username: adminUser.username, role: adminUser.role },
-          process.env.JWT_SECRET as string,
-          { expiresIn: '7d' }
-        );
+        const result = await this.issueTokens(adminUser, context);
 
         logger.info('管理员登录成功', { 
           userId: adminUser._id.toString(), 
@@ -128,15 +181,7 @@ export class AuthService {
           role: adminUser.role
         });
 
-        return {
-          user: {
-            id: adminUser._id.toString(),
-            username: adminUser.username,
-            email: adminUser.email,
-            role: adminUser.role
-          },
-          token
-        };
+        return result;
       }
     }
 
@@ -157,13 +202,14 @@ export class AuthService {
       throw new Error('Invalid credentials');
     }
 
-    // 生成JWT token
+    if (user.disabled) {
+      logger.warn('用户登录失败：账号已禁用', { username });
+      throw new Error('Account disabled');
+    }
+
+    // 签发访问令牌和刷新令牌
     logger.dev('生成用户JWT令牌', { userId: user._id.toString(), role: user.role });
-    const token = jwt.sign(
-      { id: user._id.toString(), username: user.username, role: user.role },
-      process.env.JWT_SECRET as string,
-      { expiresIn: '7d' }
-    );
+    const result = await this.issueTokens(user, context);
 
     logger.info('用户登录成功', { 
       userId: user._id.toString(), 
@@ -171,17 +217,370 @@ export class AuthService {
       role: user.role
     });
 
+    return result;
+  }
+
+  /**
+   * 使用刷新令牌换取新的令牌对
+   * 刷新令牌只能使用一次；已轮换或已吊销的令牌再次出现时视为泄露，吊销整个令牌族
+   */
+  async refresh(refreshToken: string, context: SessionContext = {}): Promise<AuthResponse> {
+    const stored = await this.refreshTokensCollection.findOne({ tokenHash: hashToken(refreshToken) });
+
+    if (!stored) {
+      logger.warn('刷新令牌失败：令牌不存在');
+      throw new Error('Invalid refresh token');
+    }
+
+    if (stored.usedAt || stored.revokedAt) {
+      await this.revokeFamily(stored.familyId, RevokeReason.REUSE_DETECTED);
+      logger.warn('检测到刷新令牌被重复使用，已吊销整个令牌族', {
+        userId: stored.userId.toString(),
+        familyId: stored.familyId,
+        ip: context.ip
+      });
+      throw new Error('Refresh token reuse detected');
+    }
+
+    if (stored.expiresAt <= new Date()) {
+      logger.warn('刷新令牌失败：令牌已过期', { userId: stored.userId.toString() });
+      throw new Error('Refresh token expired');
+    }
+
+    const user = await this.usersCollection.findOne({ _id: stored.userId });
+    if (!user || user.disabled) {
+      await this.revokeFamily(stored.familyId, RevokeReason.USER_DISABLED);
+      logger.warn('刷新令牌失败：用户不存在或已禁用', { userId: stored.userId.toString() });
+      throw new Error('Account disabled');
+    }
+
+    // 原子地标记旧令牌已使用，并发请求中只有一个能成功
+    const claimed = await this.refreshTokensCollection.findOneAndUpdate(
+      { _id: stored._id, usedAt: { $exists: false }, revokedAt: { $exists: false } },
+      { $set: { usedAt: new Date() } }
+    );
+    if (!claimed) {
+      await this.revokeFamily(stored.familyId, RevokeReason.REUSE_DETECTED);
+      logger.warn('检测到刷新令牌被并发重复使用，已吊销整个令牌族', {
+        userId: stored.userId.toString(),
+        familyId: stored.familyId
+      });
+      throw new Error('Refresh token reuse detected');
+    }
+
+    const result = await this.issueTokens(user, context, stored.familyId, stored._id);
+    logger.info('刷新令牌成功', { userId: user._id.toString(), familyId: stored.familyId });
+    return result;
+  }
+
+  /**
+   * 退出登录：吊销该刷新令牌所属的令牌族
+   */
+  async logout(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokensCollection.findOne({ tokenHash: hashToken(refreshToken) });
+    if (!stored) {
+      logger.dev('退出登录：刷新令牌不存在，忽略');
+      return;
+    }
+
+    await this.revokeFamily(stored.familyId, RevokeReason.LOGOUT);
+    logger.info('用户退出登录', { userId: stored.userId.toString(), familyId: stored.familyId });
+  }
+
+  /**
+   * 退出所有设备：吊销用户全部刷新令牌并使已签发的访问令牌失效
+   */
+  async logoutAll(userId: string, reason: RevokeReason = RevokeReason.LOGOUT_ALL): Promise<number> {
+    const userObjectId = new ObjectId(userId);
+    const result = await this.refreshTokensCollection.updateMany(
+      { userId: userObjectId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    await this.usersCollection.updateOne(
+      { _id: userObjectId },
+      { $inc: { tokenVersion: 1 }, $set: { updatedAt: new Date() } }
+    );
+
+    logger.info('已吊销用户全部会话', { userId, reason, revokedCount: result.modifiedCount });
+    return result.modifiedCount;
+  }
+
+  /**
+   * 启用或禁用用户，禁用时立即吊销其全部会话
+   */
+  async setUserDisabled(userId: string, disabled: boolean): Promise<User | null> {
+    const user = await this.usersCollection.findOneAndUpdate(
+      { _id: new ObjectId(userId) },
+      disabled
+        ? { $set: { disabled: true, disabledAt: new Date(), updatedAt: new Date() } }
+        : { $set: { disabled: false, updatedAt: new Date() }, $unset: { disabledAt: '' } },
+      { returnDocument: 'after' }
+    );
+
+    if (!user) {
+      logger.warn('更新用户状态失败：用户不存在', { userId });
+      return null;
+    }
+
+    if (disabled) {
+      await this.logoutAll(userId, RevokeReason.USER_DISABLED);
+    }
+
+    logger.info('用户状态已更新', { userId, username: user.username, disabled });
+    return user;
+  }
+
+  /**
+   * 发送邮箱验证邮件，之前未使用的验证链接随之失效
+   */
+  async sendVerificationEmail(user: User): Promise<void> {
+    if (user.emailVerified) {
+      throw new Error('Email already verified');
+    }
+
+    const token = await this.createUserToken(
+      user,
+      UserTokenType.EMAIL_VERIFICATION,
+      EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000
+    );
+    const locale = user.locale || 'zh-CN';
+    await this.mailService.sendTemplate(user.email, 'email-verification', locale, {
+      username: user.username,
+      link: this.buildActionLink('verify-email', token),
+      expiresIn: locale === 'en' ? `${EMAIL_VERIFICATION_TTL_HOURS} hours` : `${EMAIL_VERIFICATION_TTL_HOURS}小时`
+    });
+  }
+
+  /**
+   * 验证邮箱
+   */
+  async verifyEmail(token: string): Promise<User> {
+    const record = await this.consumeUserToken(token, UserTokenType.EMAIL_VERIFICATION);
+    const user = await this.usersCollection.findOneAndUpdate(
+      { _id: record.userId, email: record.email },
+      { $set: { emailVerified: true, emailVerifiedAt: new Date(), updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    if (!user) {
+      throw new Error('Invalid or expired token');
+    }
+
+    logger.info('邮箱验证成功', { userId: user._id?.toString(), email: user.email });
+    return user;
+  }
+
+  /**
+   * 申请重置密码
+   * 邮箱不存在时同样正常返回，避免泄露注册信息
+   */
+  async requestPasswordReset(email: string, locale?: MailLocale): Promise<void> {
+    const user = await this.usersCollection.findOne({ email });
+    if (!user || user.disabled) {
+      logger.dev('申请重置密码：邮箱不存在或用户已禁用，忽略', { email });
+      return;
+    }
+
+    const token = await this.createUserToken(
+      user,
+      UserTokenType.PASSWORD_RESET,
+      PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+    );
+    const mailLocale = locale || user.locale || 'zh-CN';
+    await this.mailService.sendTemplate(user.email, 'password-reset', mailLocale, {
+      username: user.username,
+      link: this.buildActionLink('reset-password', token),
+      expiresIn: mailLocale === 'en' ? `${PASSWORD_RESET_TTL_MINUTES} minutes` : `${PASSWORD_RESET_TTL_MINUTES}分钟`
+    });
+    logger.info('已发送密码重置邮件', { userId: user._id.toString() });
+  }
+
+  /**
+   * 使用重置令牌设置新密码，并吊销该用户的全部会话
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const record = await this.consumeUserToken(token, UserTokenType.PASSWORD_RESET);
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+    // 能收到重置邮件即证明邮箱有效
+    const user = await this.usersCollection.findOneAndUpdate(
+      { _id: record.userId, email: record.email },
+      { $set: { password: hashedPassword, emailVerified: true, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    if (!user) {
+      throw new Error('Invalid or expired token');
+    }
+
+    await this.userTokensCollection.deleteMany({ userId: record.userId, type: UserTokenType.PASSWORD_RESET });
+    await this.logoutAll(record.userId.toString());
+    logger.info('密码重置成功', { userId: record.userId.toString() });
+
+    try {
+      await this.mailService.sendTemplate(user.email, 'password-changed', user.locale || 'zh-CN', {
+        username: user.username
+      });
+    } catch (error) {
+      logger.warn('发送密码修改通知失败', {
+        userId: record.userId.toString(),
+        error: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+  }
+
+  /**
+   * 创建一次性令牌，同一用途的旧令牌全部作废
+   */
+  private async createUserToken(user: User, type: UserTokenType, ttlMs: number): Promise<string> {
+    const userId = user._id as ObjectId;
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+
+    await this.userTokensCollection.deleteMany({ userId, type });
+    await this.userTokensCollection.insertOne({
+      userId,
+      type,
+      tokenHash: hashToken(token),
+      email: user.email,
+      expiresAt: new Date(now.getTime() + ttlMs),
+      createdAt: now
+    });
+
+    return token;
+  }
+
+  /**
+   * 消费一次性令牌（原子操作，过期或已使用的令牌无效）
+   */
+  private async consumeUserToken(token: string, type: UserTokenType): Promise<UserTokenModel> {
+    const record = await this.userTokensCollection.findOneAndUpdate(
+      {
+        tokenHash: hashToken(token),
+        type,
+        usedAt: { $exists: false },
+        expiresAt: { $gt: new Date() }
+      },
+      { $set: { usedAt: new Date() } }
+    );
+
+    if (!record) {
+      logger.warn('一次性令牌无效或已过期', { type });
+      throw new Error('Invalid or expired token');
+    }
+    return record;
+  }
+
+  /**
+   * 生成邮件中的操作链接（指向前端页面）
+   */
+  private buildActionLink(action: string, token: string): string {
+    const baseUrl = (process.env.APP_PUBLIC_URL || process.env.BASE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+    return `${baseUrl}/${action}?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * 修改用户角色
+   * 递增令牌版本，使携带旧权限的访问令牌失效，客户端刷新后获得新权限
+   */
+  async setUserRole(userId: string, role: Role): Promise<User | null> {
+    const user = await this.usersCollection.findOneAndUpdate(
+      { _id: new ObjectId(userId) },
+      { $set: { role, updatedAt: new Date() }, $inc: { tokenVersion: 1 } },
+      { returnDocument: 'after' }
+    );
+
+    if (!user) {
+      logger.warn('修改用户角色失败：用户不存在', { userId });
+      return null;
+    }
+
+    logger.info('用户角色已更新', { userId, username: user.username, role });
+    return user;
+  }
+
+  /**
+   * 校验访问令牌对应的用户是否仍然有效
+   * 用户被禁用或令牌版本落后（退出所有设备后）时返回失败原因
+   */
+  async verifySession(payload: AccessTokenPayload): Promise<'ok' | 'disabled' | 'revoked'> {
+    if (!ObjectId.isValid(payload.id)) {
+      return 'revoked';
+    }
+
+    const user = await this.usersCollection.findOne(
+      { _id: new ObjectId(payload.id) },
+      { projection: { disabled: 1, tokenVersion: 1 } }
+    );
+
+    if (!user) return 'revoked';
+    if (user.disabled) return 'disabled';
+    if ((user.tokenVersion || 0) !== (payload.tv || 0)) return 'revoked';
+    return 'ok';
+  }
+
+  /**
+   * 签发访问令牌和刷新令牌
+   * 首次登录生成新的令牌族，轮换时沿用原令牌族
+   */
+  private async issueTokens(
+    user: User,
+    context: SessionContext,
+    familyId: string = randomUUID(),
+    previousId?: ObjectId
+  ): Promise<AuthResponse> {
+    const userId = user._id as ObjectId;
+    const role = normalizeRole(user.role);
+    const permissions = resolvePermissions(role);
+    const payload: AccessTokenPayload = {
+      id: userId.toString(),
+      username: user.username,
+      role,
+      permissions,
+      tv: user.tokenVersion || 0
+    };
+    const token = jwt.sign(payload, process.env.JWT_SECRET as string, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+
+    const refreshToken = randomBytes(48).toString('base64url');
+    const now = new Date();
+    const { insertedId } = await this.refreshTokensCollection.insertOne({
+      userId,
+      familyId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+      createdAt: now,
+      ip: context.ip,
+      userAgent: context.userAgent
+    });
+
+    if (previousId) {
+      await this.refreshTokensCollection.updateOne({ _id: previousId }, { $set: { replacedBy: insertedId } });
+    }
+
     return {
       user: {
-        id: user._id.toString(),
+        id: userId.toString(),
         username: user.username,
         email: user.email,
-        role: user.role
+        role,
+        permissions
       },
-      token
+      token,
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS
     };
   }
 
+  /**
+   * 吊销整个令牌族
+   */
+  private async revokeFamily(familyId: string, reason: RevokeReason): Promise<void> {
+    await this.refreshTokensCollection.updateMany(
+      { familyId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+  }
+
   async getUserById(userId: string): Promise<User | null> {
     try {
       logger.dev('根据ID查找用户', { userId });
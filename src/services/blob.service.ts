@@ -0,0 +1,140 @@
+import path from 'node:path';
+import { createHash, randomBytes } from 'node:crypto';
+import { pipeline } from 'node:stream/promises';
+import { Db, MongoServerError } from 'mongodb';
+import { BlobModel } from '../models/blob.model.js';
+import type { FileModel } from '../models/file.model.js';
+import { FileStorageService } from './file-storage.service.js';
+import { resolveQuarantineStorageConfig } from './storage-driver.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建内容存储服务日志器
+const logger = createLogger('BlobService');
+
+/**
+ * 入库结果
+ */
+export interface StoredBlob {
+  sha256: string;
+  filename: string;            // 文件记录应使用的物理文件名
+  deduplicated: boolean;       // 是否复用了已有的物理文件
+}
+
+/**
+ * 内容寻址存储服务
+ * 上传的文件按内容哈希去重：首次出现的内容重命名为 blob-<sha256>-<随机后缀><扩展名>，
+ * 再次出现时删除新上传的副本并增加引用计数
+ */
+export class BlobService {
+  private db: Db;
+  private collection: string = 'blobs';
+  private storage: FileStorageService;
+  private quarantineStorage: FileStorageService;
+
+  constructor(
+    db: Db,
+    storage: FileStorageService = new FileStorageService(),
+    quarantineStorage: FileStorageService = new FileStorageService(resolveQuarantineStorageConfig())
+  ) {
+    this.db = db;
+    this.storage = storage;
+    this.quarantineStorage = quarantineStorage;
+  }
+
+  private get blobs() {
+    return this.db.collection<BlobModel>(this.collection);
+  }
+
+  /**
+   * 创建索引（按内容哈希查找重复文件）
+   */
+  async ensureIndexes(): Promise<void> {
+    await this.db.collection<FileModel>('files').createIndex({ sha256: 1 }, { sparse: true });
+  }
+
+  /**
+   * 计算已存储文件的 SHA-256
+   */
+  private async hashStoredFile(filename: string): Promise<string> {
+    const stream = await this.storage.getFileStream(filename);
+    if (!stream) {
+      throw new Error(`读取上传文件失败: ${filename}`);
+    }
+    const hash = createHash('sha256');
+    await pipeline(stream, hash);
+    return hash.digest('hex');
+  }
+
+  /**
+   * 将刚上传的文件登记为内容块
+   * 上传过程中已计算过哈希时直接传入 sha256，避免再次读取文件
+   */
+  async store(uploadedFilename: string, size: number, sha256?: string): Promise<StoredBlob> {
+    sha256 = sha256 || await this.hashStoredFile(uploadedFilename);
+
+    const existing = await this.acquire(sha256);
+    if (existing) {
+      await this.storage.deleteFile(uploadedFilename);
+      logger.info('文件内容已存在，复用已有存储', { sha256, filename: existing.filename, refCount: existing.refCount });
+      return { sha256, filename: existing.filename, deduplicated: true };
+    }
+
+    // 先重命名再登记：登记后其他请求即可复用，此时物理文件必须已经存在。
+    // 文件名带随机后缀，并发上传相同内容时各自的文件互不覆盖
+    const filename = `blob-${sha256}-${randomBytes(4).toString('hex')}${path.extname(uploadedFilename).toLowerCase()}`;
+    if (!(await this.storage.moveFile(uploadedFilename, filename))) {
+      throw new Error(`保存文件内容失败: ${uploadedFilename}`);
+    }
+
+    const now = new Date();
+    try {
+      await this.blobs.insertOne({ _id: sha256, filename, size, refCount: 1, createdAt: now, updatedAt: now });
+    } catch (error) {
+      if (error instanceof MongoServerError && error.code === 11000) {
+        // 其他请求先登记了相同内容，改为复用其文件
+        const raced = await this.acquire(sha256);
+        if (raced) {
+          await this.storage.deleteFile(filename);
+          return { sha256, filename: raced.filename, deduplicated: true };
+        }
+      }
+      await this.storage.deleteFile(filename);
+      throw error;
+    }
+
+    logger.dev('新内容已入库', { sha256, filename, size });
+    return { sha256, filename, deduplicated: false };
+  }
+
+  /**
+   * 增加已有内容块的引用计数，不存在时返回 null
+   */
+  private async acquire(sha256: string): Promise<BlobModel | null> {
+    return await this.blobs.findOneAndUpdate(
+      { _id: sha256 },
+      { $inc: { refCount: 1 }, $set: { updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+  }
+
+  /**
+   * 释放一次引用，引用计数归零时删除物理文件（包括被隔离后转移到隔离存储中的文件）
+   */
+  async release(sha256: string): Promise<void> {
+    const blob = await this.blobs.findOneAndUpdate(
+      { _id: sha256 },
+      { $inc: { refCount: -1 }, $set: { updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+    if (!blob || blob.refCount > 0) {
+      return;
+    }
+
+    const { deletedCount } = await this.blobs.deleteOne({ _id: sha256, refCount: { $lte: 0 } });
+    if (deletedCount > 0) {
+      await this.storage.deleteFile(blob.filename);
+      await this.quarantineStorage.deleteFile(blob.filename);
+      logger.info('内容块已无引用，删除物理文件', { sha256, filename: blob.filename });
+    }
+  }
+}
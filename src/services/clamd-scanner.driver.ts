@@ -0,0 +1,105 @@
+import net from 'node:net';
+import { once } from 'node:events';
+import type { Readable } from 'node:stream';
+import type { MalwareScanConfig, MalwareScanner, ScanVerdict } from './malware-scanner.js';
+
+/**
+ * INSTREAM 单个数据块的最大长度
+ */
+const MAX_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * 写入数据并等待写出，避免大文件在内存中堆积
+ */
+const write = (socket: net.Socket, data: Buffer | string) =>
+  new Promise<void>((resolve, reject) => {
+    socket.write(data, error => (error ? reject(error) : resolve()));
+  });
+
+/**
+ * 解析 clamd 的响应
+ * 正常为 "stream: OK" 或 "stream: <特征名> FOUND"，其他（以 ERROR 结尾）视为扫描失败
+ */
+export function parseClamdResponse(response: string): ScanVerdict {
+  const line = response.replace(/\0/g, '').trim();
+  if (/^stream: OK$/.test(line)) {
+    return { infected: false };
+  }
+  const found = /^stream: (.+) FOUND$/.exec(line);
+  if (found) {
+    return { infected: true, signature: found[1] };
+  }
+  throw new Error(`clamd 扫描失败: ${line || '无响应'}`);
+}
+
+/**
+ * ClamAV 守护进程扫描驱动
+ * 使用 clamd 的 INSTREAM 命令流式发送文件内容：每个数据块前带 4 字节大端长度，以长度为 0 的块结束
+ */
+export class ClamdScannerDriver implements MalwareScanner {
+  readonly name = 'clamd';
+  readonly enabled = true;
+  private config: MalwareScanConfig['clamd'];
+
+  constructor(config: MalwareScanConfig['clamd']) {
+    this.config = config;
+  }
+
+  private connect(): net.Socket {
+    return this.config.socketPath
+      ? net.createConnection(this.config.socketPath)
+      : net.createConnection(this.config.port, this.config.host);
+  }
+
+  async scan(stream: Readable): Promise<ScanVerdict> {
+    const socket = this.connect();
+    socket.setTimeout(this.config.timeoutMs, () => {
+      socket.destroy(new Error(`clamd 扫描超时（${this.config.timeoutMs}ms）`));
+    });
+
+    // 连接关闭时返回收到的响应；clamd 提前断开导致的写入错误不影响已收到的响应
+    const response = new Promise<string>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let socketError: Error | null = null;
+      socket.on('data', chunk => chunks.push(chunk));
+      socket.on('error', error => {
+        socketError = error;
+      });
+      socket.on('close', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        if (text || !socketError) {
+          resolve(text);
+        } else {
+          reject(socketError);
+        }
+      });
+    });
+    response.catch(() => undefined);
+
+    try {
+      await once(socket, 'connect');
+      await write(socket, 'zINSTREAM\0');
+      for await (const chunk of stream) {
+        const data = chunk as Buffer;
+        for (let offset = 0; offset < data.length; offset += MAX_CHUNK_SIZE) {
+          const part = data.subarray(offset, offset + MAX_CHUNK_SIZE);
+          const header = Buffer.alloc(4);
+          header.writeUInt32BE(part.length);
+          await write(socket, Buffer.concat([header, part]));
+        }
+      }
+      await write(socket, Buffer.alloc(4));
+    } catch (error) {
+      stream.destroy();
+      socket.destroy();
+      // clamd 可能提前返回并断开连接（如超出 StreamMaxLength），此时以它的响应为准
+      const early = await response.catch(() => '');
+      if (early) {
+        return parseClamdResponse(early);
+      }
+      throw error;
+    }
+
+    return parseClamdResponse(await response);
+  }
+}
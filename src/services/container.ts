@@ -4,8 +4,23 @@ import { AuthService } from './auth.service.js';
 import { FileService } from './file.service.js';
 import { UploadService } from './upload.service.js';
 import { FileStorageService } from './file-storage.service.js';
+import { resolveQuarantineStorageConfig } from './storage-driver.js';
 import { ShortCodeService } from './shortcode.service.js';
 import { LinkUploadService } from './link-upload.service.js';
+import { LinkMetadataService } from './link-metadata.service.js';
+import { JobQueueService } from './job-queue.service.js';
+import { AnalyticsService } from './analytics.service.js';
+import { ReviewService } from './review.service.js';
+import { SearchService } from './search.service.js';
+import { ContentExtractionService } from './content-extraction.service.js';
+import { PiiScanService } from './pii-scan.service.js';
+import { MalwareScanService } from './malware-scan.service.js';
+import { UploadSessionService, resolveUploadSessionConfig } from './upload-session.service.js';
+import { BlobService } from './blob.service.js';
+import { ThumbnailService } from './thumbnail.service.js';
+import { QuotaService } from './quota.service.js';
+import { RateLimitService } from './rate-limit.service.js';
+import { TrashService } from './trash.service.js';
 import logger from '../utils/logger.js';
 
 // 服务统一启动容器
@@ -19,6 +34,19 @@ export class ServiceContainer {
   private fileStorageService: FileStorageService | null = null;
   private shortCodeService: ShortCodeService | null = null;
   private linkUploadService: LinkUploadService | null = null;
+  private jobQueueService: JobQueueService | null = null;
+  private analyticsService: AnalyticsService | null = null;
+  private reviewService: ReviewService | null = null;
+  private searchService: SearchService | null = null;
+  private contentExtractionService: ContentExtractionService | null = null;
+  private piiScanService: PiiScanService | null = null;
+  private malwareScanService: MalwareScanService | null = null;
+  private uploadSessionService: UploadSessionService | null = null;
+  private blobService: BlobService | null = null;
+  private thumbnailService: ThumbnailService | null = null;
+  private quotaService: QuotaService | null = null;
+  private rateLimitService: RateLimitService | null = null;
+  private trashService: TrashService | null = null;
   private initialized = false;
 
   private constructor() {}
@@ -37,12 +65,73 @@ export class ServiceContainer {
 
     try {
       this.db = getDatabase();
+      this.jobQueueService = new JobQueueService(this.db);
+      await this.jobQueueService.ensureIndexes();
       this.authService = new AuthService(this.db);
-      this.fileService = new FileService(this.db);
+      await this.authService.ensureIndexes();
+      this.rateLimitService = new RateLimitService(this.db);
+      await this.rateLimitService.ensureIndexes();
+      this.searchService = new SearchService(this.db, this.jobQueueService);
       this.fileStorageService = new FileStorageService();
+      const quarantineStorage = new FileStorageService(resolveQuarantineStorageConfig());
+      this.blobService = new BlobService(this.db, this.fileStorageService, quarantineStorage);
+      await this.blobService.ensureIndexes();
+      this.quotaService = new QuotaService(this.db);
+      this.fileService = new FileService(this.db, this.searchService, this.quotaService);
+      this.trashService = new TrashService(
+        this.db,
+        this.fileStorageService,
+        quarantineStorage,
+        this.blobService,
+        this.searchService,
+        this.quotaService
+      );
+      await this.trashService.ensureIndexes();
       this.shortCodeService = new ShortCodeService(this.db);
-      this.uploadService = new UploadService(this.fileService, this.shortCodeService);
-      this.linkUploadService = new LinkUploadService(this.db);
+      this.reviewService = new ReviewService(this.db);
+      await this.reviewService.ensureIndexes();
+      this.piiScanService = new PiiScanService(this.db, this.reviewService);
+      this.contentExtractionService = new ContentExtractionService(
+        this.db,
+        this.jobQueueService,
+        this.fileStorageService,
+        this.searchService,
+        this.piiScanService
+      );
+      this.thumbnailService = new ThumbnailService(this.db, this.jobQueueService, this.fileStorageService);
+      this.malwareScanService = new MalwareScanService(
+        this.db,
+        this.jobQueueService,
+        this.fileStorageService,
+        quarantineStorage
+      );
+      this.uploadService = new UploadService(
+        this.fileService,
+        this.shortCodeService,
+        this.contentExtractionService,
+        this.blobService,
+        this.thumbnailService,
+        this.malwareScanService
+      );
+      this.uploadSessionService = new UploadSessionService(
+        this.db,
+        resolveUploadSessionConfig(),
+        this.fileStorageService,
+        this.quotaService
+      );
+      await this.uploadSessionService.ensureIndexes();
+      this.linkUploadService = new LinkUploadService(
+        this.db,
+        this.jobQueueService,
+        new LinkMetadataService(),
+        this.searchService,
+        this.piiScanService,
+        this.reviewService
+      );
+      await this.linkUploadService.ensureIndexes();
+      this.analyticsService = new AnalyticsService(this.db);
+      await this.analyticsService.ensureIndexes();
+      await this.searchService.ensureIndexes();
       this.initialized = true;
       logger.info('Service container initialized successfully');
     } catch (error) {
@@ -93,6 +182,97 @@ export class ServiceContainer {
     return this.linkUploadService;
   }
 
+  getJobQueueService(): JobQueueService {
+    if (!this.initialized || !this.jobQueueService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.jobQueueService;
+  }
+
+  getAnalyticsService(): AnalyticsService {
+    if (!this.initialized || !this.analyticsService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.analyticsService;
+  }
+
+  getReviewService(): ReviewService {
+    if (!this.initialized || !this.reviewService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.reviewService;
+  }
+
+  getSearchService(): SearchService {
+    if (!this.initialized || !this.searchService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.searchService;
+  }
+
+  getContentExtractionService(): ContentExtractionService {
+    if (!this.initialized || !this.contentExtractionService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.contentExtractionService;
+  }
+
+  getPiiScanService(): PiiScanService {
+    if (!this.initialized || !this.piiScanService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.piiScanService;
+  }
+
+  getMalwareScanService(): MalwareScanService {
+    if (!this.initialized || !this.malwareScanService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.malwareScanService;
+  }
+
+  getUploadSessionService(): UploadSessionService {
+    if (!this.initialized || !this.uploadSessionService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.uploadSessionService;
+  }
+
+  getBlobService(): BlobService {
+    if (!this.initialized || !this.blobService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.blobService;
+  }
+
+  getThumbnailService(): ThumbnailService {
+    if (!this.initialized || !this.thumbnailService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.thumbnailService;
+  }
+
+  getQuotaService(): QuotaService {
+    if (!this.initialized || !this.quotaService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.quotaService;
+  }
+
+  getRateLimitService(): RateLimitService {
+    if (!this.initialized || !this.rateLimitService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.rateLimitService;
+  }
+
+  getTrashService(): TrashService {
+    if (!this.initialized || !this.trashService) {
+      throw new Error('Service container not initialized. Call initialize() first.');
+    }
+    return this.trashService;
+  }
+
   isInitialized(): boolean {
     return this.initialized;
   }
@@ -0,0 +1,177 @@
+import { Db, ObjectId } from 'mongodb';
+import { FileModel, FileStatus, MetadataStatus } from '../models/file.model.js';
+import { FileContentModel } from '../models/file-content.model.js';
+import { JobModel } from '../models/job.model.js';
+import { JobQueueService } from './job-queue.service.js';
+import { FileStorageService } from './file-storage.service.js';
+import { SearchService } from './search.service.js';
+import { PiiScanService } from './pii-scan.service.js';
+import { extractText, resolveExtractor } from '../utils/text-extractor.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建文档内容提取服务日志器
+const logger = createLogger('ContentExtractionService');
+
+/**
+ * 文档正文提取任务类型
+ */
+export const FILE_CONTENT_JOB = 'file-content';
+
+/**
+ * 文档正文提取任务参数
+ */
+interface FileContentJobPayload {
+  fileId: string;
+}
+
+/**
+ * 正文提取配置
+ */
+interface ContentExtractionConfig {
+  maxChars: number;            // 保存的最大字符数
+  maxAttempts: number;         // 任务最大尝试次数（文件损坏通常重试无效）
+}
+
+const resolveConfig = (): ContentExtractionConfig => ({
+  maxChars: Number(process.env.CONTENT_EXTRACTION_MAX_CHARS) || 500000,
+  maxAttempts: Number(process.env.CONTENT_EXTRACTION_MAX_ATTEMPTS) || 2
+});
+
+/**
+ * 文档内容提取服务
+ * 上传后以后台任务的形式提取 PDF/DOCX/TXT 的正文、页数、标题和作者，
+ * 正文保存在 file_contents 集合，检测其中的个人信息，并更新搜索索引
+ */
+export class ContentExtractionService {
+  private db: Db;
+  private collection: string = 'files';
+  private contentsCollection: string = 'file_contents';
+  private jobQueue: JobQueueService;
+  private storage: FileStorageService;
+  private searchService: SearchService;
+  private piiScanService: PiiScanService;
+  private config: ContentExtractionConfig;
+
+  constructor(
+    db: Db,
+    jobQueue: JobQueueService = new JobQueueService(db),
+    storage: FileStorageService = new FileStorageService(),
+    searchService: SearchService = new SearchService(db),
+    piiScanService: PiiScanService = new PiiScanService(db)
+  ) {
+    this.db = db;
+    this.jobQueue = jobQueue;
+    this.storage = storage;
+    this.searchService = searchService;
+    this.piiScanService = piiScanService;
+    this.config = resolveConfig();
+    this.jobQueue.registerHandler<FileContentJobPayload>(FILE_CONTENT_JOB, job => this.processJob(job));
+    logger.info('文档内容提取服务初始化完成', { collection: this.contentsCollection, maxChars: this.config.maxChars });
+  }
+
+  /**
+   * 提交正文提取任务
+   * 不支持的文件类型直接跳过，返回是否已提交
+   */
+  async enqueue(file: FileModel): Promise<boolean> {
+    if (file.isLink || !resolveExtractor(file.mimeType, file.originalName)) {
+      return false;
+    }
+
+    const fileId = file._id as ObjectId;
+    await this.updateStatus(fileId, MetadataStatus.PENDING);
+    await this.jobQueue.enqueue<FileContentJobPayload>(
+      FILE_CONTENT_JOB,
+      { fileId: fileId.toString() },
+      { dedupeKey: `${FILE_CONTENT_JOB}:${fileId.toString()}`, maxAttempts: this.config.maxAttempts }
+    );
+    return true;
+  }
+
+  /**
+   * 执行正文提取任务
+   * 失败时抛出错误交由任务队列重试，最后一次失败才标记为失败状态
+   */
+  private async processJob(job: JobModel<FileContentJobPayload>): Promise<void> {
+    const fileId = new ObjectId(job.payload.fileId);
+    const file = await this.db.collection<FileModel>(this.collection).findOne({
+      _id: fileId,
+      status: { $ne: FileStatus.DELETED }
+    });
+    if (!file) {
+      logger.warn('文件不存在或已删除，跳过正文提取', { fileId: job.payload.fileId });
+      return;
+    }
+
+    const extractor = resolveExtractor(file.mimeType, file.originalName);
+    if (!extractor) {
+      return;
+    }
+
+    try {
+      logger.info('开始提取文档正文', { fileId: job.payload.fileId, extractor, attempt: job.attempts });
+      await this.updateStatus(fileId, MetadataStatus.PROCESSING);
+
+      const buffer = await this.storage.readFile(file.filename);
+      const extracted = await extractText(buffer, extractor);
+      const truncated = extracted.text.length > this.config.maxChars;
+
+      const content: Omit<FileContentModel, '_id'> = {
+        text: truncated ? extracted.text.slice(0, this.config.maxChars) : extracted.text,
+        charCount: extracted.text.length,
+        truncated,
+        pageCount: extracted.pageCount,
+        title: extracted.title,
+        author: extracted.author,
+        extractor,
+        extractedAt: new Date()
+      };
+      await this.db.collection<FileContentModel>(this.contentsCollection).replaceOne(
+        { _id: fileId },
+        content,
+        { upsert: true }
+      );
+
+      await this.piiScanService.scanStored(fileId);
+      await this.updateStatus(fileId, MetadataStatus.COMPLETED);
+      this.searchService.scheduleIndex(fileId);
+
+      logger.info('文档正文提取完成', {
+        fileId: job.payload.fileId,
+        extractor,
+        charCount: content.charCount,
+        pageCount: content.pageCount,
+        truncated
+      });
+    } catch (error) {
+      const isLastAttempt = job.attempts >= job.maxAttempts;
+      logger.warn('文档正文提取失败', {
+        fileId: job.payload.fileId,
+        attempt: job.attempts,
+        willRetry: !isLastAttempt,
+        error: error instanceof Error ? error.message : '未知错误'
+      });
+
+      await this.updateStatus(fileId, isLastAttempt ? MetadataStatus.FAILED : MetadataStatus.PENDING);
+      throw error;
+    }
+  }
+
+  /**
+   * 更新正文提取状态
+   */
+  private async updateStatus(fileId: ObjectId, status: MetadataStatus): Promise<void> {
+    await this.db.collection<FileModel>(this.collection).updateOne(
+      { _id: fileId },
+      { $set: { contentStatus: status, updatedAt: new Date() } }
+    );
+  }
+
+  /**
+   * 获取文档内容
+   */
+  async getContent(fileId: ObjectId): Promise<FileContentModel | null> {
+    return await this.db.collection<FileContentModel>(this.contentsCollection).findOne({ _id: fileId });
+  }
+
+}
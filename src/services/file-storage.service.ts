@@ -1,35 +1,34 @@
-import path from 'node:path';
-import fs from 'node:fs';
+import type { Readable } from 'node:stream';
 import { ObjectId } from 'mongodb';
+import {
+  StorageConfig,
+  StorageDriver,
+  StorageObjectStat,
+  StorageRange,
+  createStorageDriver,
+  resolveStorageConfig
+} from './storage-driver.js';
 
 /**
  * 文件存储服务
- * 管理文件的物理存储和路径生成
+ * 通过存储驱动（本地目录或 S3 兼容存储）管理文件的物理存储
  */
 export class FileStorageService {
-  private uploadsDir: string;
+  private driver: StorageDriver;
+  private config: StorageConfig;
   private baseUrl: string;
 
-  constructor() {
-    this.uploadsDir = path.resolve(process.cwd(), 'uploads');
+  constructor(config: StorageConfig = resolveStorageConfig(), driver: StorageDriver = createStorageDriver(config)) {
+    this.config = config;
+    this.driver = driver;
     this.baseUrl = process.env.BASE_URL || 'http://localhost:3000';
-    this.ensureUploadsDir();
   }
 
   /**
-   * 确保上传目录存在
+   * 当前使用的存储驱动名称
    */
-  private ensureUploadsDir(): void {
-    if (!fs.existsSync(this.uploadsDir)) {
-      fs.mkdirSync(this.uploadsDir, { recursive: true });
-    }
-  }
-
-  /**
-   * 生成文件存储路径
-   */
-  generateFilePath(filename: string): string {
-    return path.join(this.uploadsDir, filename);
+  get driverName(): string {
+    return this.driver.name;
   }
 
   /**
@@ -46,32 +45,28 @@ export class FileStorageService {
     return `${this.baseUrl}/api/v1/file/${fileId}/download`;
   }
 
+  /**
+   * 写入文件
+   */
+  async putFile(filename: string, body: Readable | Buffer, contentType?: string): Promise<void> {
+    await this.driver.put(filename, body, contentType);
+  }
+
   /**
    * 检查文件是否存在
    */
-  fileExists(filename: string): boolean {
-    const filePath = this.generateFilePath(filename);
-    return fs.existsSync(filePath);
+  async fileExists(filename: string): Promise<boolean> {
+    return await this.driver.exists(filename);
   }
 
   /**
    * 获取文件信息
    */
-  getFileInfo(filename: string): { exists: boolean; size: number; path: string } | null {
-    const filePath = this.generateFilePath(filename);
-    
-    if (!fs.existsSync(filePath)) {
-      return null;
-    }
-
+  async getFileInfo(filename: string): Promise<StorageObjectStat | null> {
     try {
-      const stats = fs.statSync(filePath);
-      return {
-        exists: true,
-        size: stats.size,
-        path: filePath
-      };
+      return await this.driver.stat(filename);
     } catch (error) {
+      console.error('获取文件信息失败:', error);
       return null;
     }
   }
@@ -79,14 +74,9 @@ export class FileStorageService {
   /**
    * 删除物理文件
    */
-  deleteFile(filename: string): boolean {
+  async deleteFile(filename: string): Promise<boolean> {
     try {
-      const filePath = this.generateFilePath(filename);
-      if (fs.existsSync(filePath)) {
-        fs.unlinkSync(filePath);
-        return true;
-      }
-      return false;
+      return await this.driver.delete(filename);
     } catch (error) {
       console.error('删除文件失败:', error);
       return false;
@@ -96,16 +86,10 @@ export class FileStorageService {
   /**
    * 移动文件到新位置
    */
-  moveFile(oldFilename: string, newFilename: string): boolean {
+  async moveFile(oldFilename: string, newFilename: string): Promise<boolean> {
     try {
-      const oldPath = this.generateFilePath(oldFilename);
-      const newPath = this.generateFilePath(newFilename);
-      
-      if (fs.existsSync(oldPath)) {
-        fs.renameSync(oldPath, newPath);
-        return true;
-      }
-      return false;
+      await this.driver.move(oldFilename, newFilename);
+      return true;
     } catch (error) {
       console.error('移动文件失败:', error);
       return false;
@@ -113,15 +97,11 @@ export class FileStorageService {
   }
 
   /**
-   * 获取文件流
+   * 获取文件流，range 为闭区间
    */
-  getFileStream(filename: string): fs.ReadStream | null {
+  async getFileStream(filename: string, range?: StorageRange): Promise<Readable | null> {
     try {
-      const filePath = this.generateFilePath(filename);
-      if (fs.existsSync(filePath)) {
-        return fs.createReadStream(filePath);
-      }
-      return null;
+      return await this.driver.getStream(filename, range);
     } catch (error) {
       console.error('获取文件流失败:', error);
       return null;
@@ -129,51 +109,62 @@ export class FileStorageService {
   }
 
   /**
-   * 清理过期文件
+   * 读取完整文件内容
    */
-  cleanupExpiredFiles(expiredFiles: Array<{ filename: string; _id: ObjectId }>): number {
-    let deletedCount = 0;
-    
-    for (const file of expiredFiles) {
-      if (this.deleteFile(file.filename)) {
-        deletedCount++;
-      }
+  async readFile(filename: string): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.driver.getStream(filename)) {
+      chunks.push(chunk as Buffer);
     }
-    
-    return deletedCount;
+    return Buffer.concat(chunks);
   }
 
   /**
-   * 获取存储统计信息
+   * 将文件转移到另一个存储（如隔离存储），写入成功后才删除原文件
    */
-  getStorageStats(): { totalFiles: number; totalSize: number; directory: string } {
-    try {
-      const files = fs.readdirSync(this.uploadsDir);
-      let totalSize = 0;
-      
-      for (const file of files) {
-        const filePath = path.join(this.uploadsDir, file);
-        try {
-          const stats = fs.statSync(filePath);
-          if (stats.isFile()) {
-            totalSize += stats.size;
-          }
-        } catch (error) {
-          // 忽略无法访问的文件
-        }
+  async transferTo(filename: string, target: FileStorageService): Promise<void> {
+    await target.putFile(filename, await this.driver.getStream(filename));
+    await this.driver.delete(filename);
+  }
+
+  /**
+   * 读取文件开头的 length 个字节（文件更小时返回完整内容）
+   */
+  async readHead(filename: string, length: number): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.driver.getStream(filename, { start: 0, end: length - 1 })) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * 生成预签名下载地址
+   * 未开启 STORAGE_REDIRECT_DOWNLOADS 或驱动不支持时返回 null，由服务端转发文件内容
+   */
+  async getDownloadRedirect(filename: string, downloadName: string, contentType: string): Promise<string | null> {
+    if (!this.config.redirectDownloads) {
+      return null;
+    }
+    return await this.driver.presign(filename, {
+      expiresIn: this.config.presignExpiresIn,
+      downloadName,
+      contentType
+    });
+  }
+
+  /**
+   * 清理过期文件
+   */
+  async cleanupExpiredFiles(expiredFiles: Array<{ filename: string; _id: ObjectId }>): Promise<number> {
+    let deletedCount = 0;
+
+    for (const file of expiredFiles) {
+      if (await this.deleteFile(file.filename)) {
+        deletedCount++;
       }
-      
-      return {
-        totalFiles: files.length,
-        totalSize,
-        directory: this.uploadsDir
-      };
-    } catch (error) {
-      return {
-        totalFiles: 0,
-        totalSize: 0,
-        directory: this.uploadsDir
-      };
     }
+
+    return deletedCount;
   }
 }
@@ -1,7 +1,20 @@
 import type { Db, ObjectId } from 'mongodb';
-import { FileModel, FileInput, FileQuery, FileUpdate, FileStatus } from '../models/file.model';
+import {
+  FileModel,
+  FileInput,
+  FileQuery,
+  FileUpdate,
+  FileStatus,
+  ReviewStatus,
+  HIDDEN_STATUSES,
+  SCANNER_MANAGED_STATUSES
+} from '../models/file.model';
 import fs from 'node:fs';
 import path from 'node:path';
+import { APPROVED_FILTER } from '../models/review.model.js';
+import { resolveInitialReviewStatus } from './review.service.js';
+import { SearchService } from './search.service.js';
+import { QuotaService } from './quota.service.js';
 import { createLogger } from '../utils/logger.js';
 
 // 创建文件服务日志器
@@ -14,14 +27,23 @@ const logger = createLogger('FileService');
 export class FileService {
   private db: Db;
   private collection: string = 'files';
-
-  constructor(db: Db) {
+  private searchService: SearchService;
+  private quotaService: QuotaService;
+
+  constructor(
+    db: Db,
+    searchService: SearchService = new SearchService(db),
+    quotaService: QuotaService = new QuotaService(db)
+  ) {
     this.db = db;
+    this.searchService = searchService;
+    this.quotaService = quotaService;
     logger.info('文件服务初始化完成', { collection: this.collection });
   }
 
   /**
    * 保存文件元数据到数据库
+   * 文件（不含链接）先预占上传者的存储配额，超出时抛出 QuotaExceededError
    */
   async saveFileMetadata(fileData: FileInput): Promise<FileModel> {
     try {
@@ -36,13 +58,28 @@ export class FileService {
       
       const doc: Omit<FileModel, '_id'> = {
         ...fileData,
-        status: FileStatus.ACTIVE,
+        status: fileData.status || FileStatus.ACTIVE,
+        reviewStatus: resolveInitialReviewStatus(),
         uploadedAt: new Date(),
         updatedAt: new Date()
       };
 
-      const { insertedId } = await collection.insertOne(doc as any);
+      const owner = QuotaService.ownerOf(fileData);
+      if (!fileData.isLink) {
+        await this.quotaService.reserve(owner, fileData.size);
+      }
+
+      let insertedId: ObjectId;
+      try {
+        ({ insertedId } = await collection.insertOne(doc as any));
+      } catch (error) {
+        if (!fileData.isLink) {
+          await this.quotaService.release(owner, fileData.size);
+        }
+        throw error;
+      }
       const result = { ...doc, _id: insertedId };
+      this.searchService.scheduleIndex(insertedId);
       
       logger.info('文件元数据保存成功', { 
         fileId: insertedId.toString(),
@@ -64,6 +101,14 @@ export class FileService {
     return await collection.findOne({ _id: fileId, status: { $ne: FileStatus.DELETED } });
   }
 
+  /**
+   * 根据ID批量查找文件
+   */
+  async findFilesByIds(fileIds: ObjectId[]): Promise<FileModel[]> {
+    const collection = this.db.collection<FileModel>(this.collection);
+    return await collection.find({ _id: { $in: fileIds } }).toArray();
+  }
+
   /**
    * 根据短码查找文件
    */
@@ -105,10 +150,17 @@ export class FileService {
   async findFiles(query: FileQuery): Promise<{ files: FileModel[], total: number }> {
     const collection = this.db.collection<FileModel>(this.collection);
     
-    const filter: any = { status: { $ne: FileStatus.DELETED } };
+    // 已删除的文件只能通过回收站查看，等待扫描和已隔离的文件不公开
+    const filter: any = { status: { $nin: HIDDEN_STATUSES } };
     
     if (query.uploaderId) filter.uploaderId = query.uploaderId;
-    if (query.status) filter.status = query.status;
+    if (query.status && !HIDDEN_STATUSES.includes(query.status)) filter.status = query.status;
+    // 默认只返回审核通过的内容
+    if (!query.reviewStatus || query.reviewStatus === ReviewStatus.APPROVED) {
+      Object.assign(filter, APPROVED_FILTER);
+    } else if (query.reviewStatus !== 'any') {
+      filter.reviewStatus = query.reviewStatus;
+    }
     if (query.categories && query.categories.length > 0) filter.categories = { $in: query.categories };
     if (query.tags && query.tags.length > 0) filter.tags = { $in: query.tags };
     if (query.mimeType) filter.mimeType = query.mimeType;
@@ -140,62 +192,75 @@ export class FileService {
    */
   async updateFile(fileId: ObjectId, updates: FileUpdate): Promise<boolean> {
     const collection = this.db.collection<FileModel>(this.collection);
-    
-    const result = await collection.updateOne(
-      { _id: fileId, status: { $ne: FileStatus.DELETED } },
-      { 
-        $set: { 
-          ...updates, 
-          updatedAt: new Date() 
-        } 
+    const filter: any = { _id: fileId, status: { $ne: FileStatus.DELETED } };
+
+    // 只写入提供了的字段，未提供的字段保持不变
+    const fields: Partial<FileModel> = { updatedAt: new Date() };
+    if (updates.categories !== undefined) fields.categories = updates.categories;
+    if (updates.tags !== undefined) fields.tags = updates.tags;
+    if (updates.description !== undefined) fields.description = updates.description;
+    if (updates.status !== undefined) {
+      if (HIDDEN_STATUSES.includes(updates.status)) {
+        throw new Error(`不能将文件状态改为 ${updates.status}`);
       }
-    );
+      // 删除走回收站，处理中和已隔离的状态由恶意文件扫描维护
+      fields.status = updates.status;
+      filter.status = { $nin: HIDDEN_STATUSES };
+    }
+    
+    const result = await collection.updateOne(filter, { $set: fields });
 
+    if (result.modifiedCount > 0) {
+      this.searchService.scheduleIndex(fileId);
+    }
     return result.modifiedCount > 0;
   }
 
   /**
-   * 删除文件（软删除）
+   * 查找内容相同的已公开文件（用于提示上传者文件已存在）
    */
-  async deleteFile(fileId: ObjectId): Promise<boolean> {
+  async findDuplicateFile(sha256: string, excludeId?: ObjectId): Promise<FileModel | null> {
     const collection = this.db.collection<FileModel>(this.collection);
-    
-    const result = await collection.updateOne(
-      { _id: fileId },
-      { 
-        $set: { 
-          status: FileStatus.DELETED, 
-          updatedAt: new Date() 
-        } 
-      }
-    );
+    const filter: any = {
+      sha256,
+      status: FileStatus.ACTIVE,
+      ...APPROVED_FILTER
+    };
+    if (excludeId) filter._id = { $ne: excludeId };
 
-    return result.modifiedCount > 0;
+    return await collection.findOne(filter, { sort: { uploadedAt: 1 } });
   }
 
   /**
-   * 硬删除文件（从磁盘和数据库完全删除）
+   * 删除文件（软删除，移入回收站），归还上传者的存储配额
    */
-  async hardDeleteFile(fileId: ObjectId): Promise<boolean> {
+  async deleteFile(fileId: ObjectId, deletedBy?: ObjectId): Promise<boolean> {
     const collection = this.db.collection<FileModel>(this.collection);
     
-    // 先查找文件信息
-    const file = await this.findFileById(fileId);
+    const file = await collection.findOneAndUpdate(
+      { _id: fileId, status: { $ne: FileStatus.DELETED } },
+      [{ $set: this.deletionFields(deletedBy) }]
+    );
     if (!file) return false;
 
-    // 删除磁盘上的文件
-    try {
-      const fileStorageService = new (await import('./file-storage.service.js')).FileStorageService();
-      if (fileStorageService.fileExists(file.filename)) {
-        fileStorageService.deleteFile(file.filename);
-      }
-    } catch (error) {
-      console.error('删除磁盘文件失败:', error);
+    if (!file.isLink) {
+      await this.quotaService.release(QuotaService.ownerOf(file), file.size);
     }
+    return true;
+  }
 
-    // 从数据库删除记录
-    const result = await collection.deleteOne({ _id: fileId });
-    return result.deletedCount > 0;
+  /**
+   * 移入回收站时设置的字段（记录删除前的状态，恢复时还原）
+   */
+  private deletionFields(deletedBy?: ObjectId): Record<string, unknown> {
+    const now = new Date();
+    return {
+      statusBeforeDelete: '$status',
+      status: FileStatus.DELETED,
+      deletedAt: now,
+      deletedBy: deletedBy ?? '$$REMOVE',
+      updatedAt: now
+    };
   }
 
   /**
@@ -208,7 +273,8 @@ export class FileService {
   }> {
     const collection = this.db.collection<FileModel>(this.collection);
     
-    const filter: any = { status: { $ne: FileStatus.DELETED } };
+    // 统计接口公开可访问，只统计公开可见的文件
+    const filter: any = { status: { $nin: HIDDEN_STATUSES }, ...APPROVED_FILTER };
     if (uploaderId) filter.uploaderId = uploaderId;
 
     const pipeline = [
@@ -243,20 +309,44 @@ export class FileService {
 
   /**
    * 批量更新文件状态
+   * 等待扫描和已隔离的文件（包括从这些状态删除的文件）不受影响，也不能改为这些状态；
+   * 改为 deleted 时与单个删除一样记录删除信息，改为其他状态时清除删除信息；
+   * 删除或恢复文件会改变配额用量，更新后重新计算相关上传者的用量
    */
-  async batchUpdateStatus(fileIds: ObjectId[], status: FileStatus): Promise<number> {
+  async batchUpdateStatus(fileIds: ObjectId[], status: FileStatus, actorId?: ObjectId): Promise<number> {
+    if (SCANNER_MANAGED_STATUSES.includes(status)) {
+      throw new Error(`不能批量修改为 ${status} 状态`);
+    }
+
     const collection = this.db.collection<FileModel>(this.collection);
+    const filter: any = {
+      _id: { $in: fileIds },
+      status: { $nin: SCANNER_MANAGED_STATUSES },
+      statusBeforeDelete: { $nin: SCANNER_MANAGED_STATUSES }
+    };
+    const owners = await collection
+      .find({ ...filter, isLink: { $ne: true } }, { projection: { uploaderId: 1, uploadIp: 1 } })
+      .toArray();
     
-    const result = await collection.updateMany(
-      { _id: { $in: fileIds } },
-      { 
-        $set: { 
-          status, 
-          updatedAt: new Date() 
-        } 
-      }
-    );
+    const result = status === FileStatus.DELETED
+      ? await collection.updateMany(
+        { ...filter, status: { $nin: [...SCANNER_MANAGED_STATUSES, FileStatus.DELETED] } },
+        [{ $set: this.deletionFields(actorId) }]
+      )
+      : await collection.updateMany(
+        filter,
+        { 
+          $set: { 
+            status, 
+            updatedAt: new Date() 
+          },
+          $unset: { deletedAt: '', deletedBy: '', statusBeforeDelete: '' }
+        }
+      );
 
+    if (result.modifiedCount > 0 && owners.length > 0) {
+      await this.quotaService.recalculate(owners.map(file => QuotaService.ownerOf(file)));
+    }
     return result.modifiedCount;
   }
 
@@ -267,7 +357,8 @@ export class FileService {
     const collection = this.db.collection<FileModel>(this.collection);
     
     const pipeline = [
-      { $match: { status: { $ne: FileStatus.DELETED } } },
+      // 未审核通过的内容中的分类不公开
+      { $match: { status: { $nin: HIDDEN_STATUSES }, ...APPROVED_FILTER } },
       { $unwind: '$categories' },
       { $group: { _id: '$categories' } },
       { $sort: { _id: 1 } }
@@ -0,0 +1,368 @@
+import os from 'node:os';
+import { randomBytes } from 'node:crypto';
+import { Collection, Db, MongoServerError, ObjectId } from 'mongodb';
+import { JobModel, JobStatus, JobOptions, JobHandler } from '../models/job.model.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建任务队列日志器
+const logger = createLogger('JobQueue');
+
+/**
+ * 任务队列配置
+ */
+export interface JobQueueConfig {
+  concurrency: number;        // 单进程并发执行数
+  pollIntervalMs: number;     // 轮询间隔
+  leaseMs: number;            // 任务租约时长
+  maxAttempts: number;        // 默认最大尝试次数
+  backoffBaseMs: number;      // 退避基础时长
+  backoffMaxMs: number;       // 退避最大时长
+  completedTtlSeconds: number; // 已完成任务保留时长
+}
+
+/**
+ * 从环境变量读取任务队列配置
+ */
+const resolveConfig = (): JobQueueConfig => ({
+  concurrency: Number(process.env.JOB_CONCURRENCY) || 2,
+  pollIntervalMs: Number(process.env.JOB_POLL_INTERVAL_MS) || 1000,
+  leaseMs: Number(process.env.JOB_LEASE_MS) || 60 * 1000,
+  maxAttempts: Number(process.env.JOB_MAX_ATTEMPTS) || 5,
+  backoffBaseMs: Number(process.env.JOB_BACKOFF_BASE_MS) || 5 * 1000,
+  backoffMaxMs: Number(process.env.JOB_BACKOFF_MAX_MS) || 60 * 60 * 1000,
+  completedTtlSeconds: Number(process.env.JOB_COMPLETED_TTL_SECONDS) || 7 * 24 * 60 * 60
+});
+
+/**
+ * 后台任务队列服务
+ * 基于MongoDB持久化任务，支持租约、指数退避重试、最大重试次数和死信状态
+ */
+export class JobQueueService {
+  private collection: Collection<JobModel>;
+  private config: JobQueueConfig;
+  private handlers = new Map<string, JobHandler<any>>();
+  private activeJobs = new Set<Promise<void>>();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private polling = false;
+  private workerId: string;
+
+  constructor(db: Db, config: Partial<JobQueueConfig> = {}) {
+    this.collection = db.collection<JobModel>('jobs');
+    this.config = { ...resolveConfig(), ...config };
+    this.workerId = `${os.hostname()}-${process.pid}-${randomBytes(3).toString('hex')}`;
+  }
+
+  /**
+   * 创建任务集合索引
+   */
+  async ensureIndexes(): Promise<void> {
+    await this.collection.createIndexes([
+      { key: { status: 1, runAt: 1 } },
+      { key: { status: 1, leaseExpiresAt: 1 } },
+      {
+        key: { dedupeKey: 1 },
+        unique: true,
+        partialFilterExpression: { dedupeKey: { $exists: true } }
+      },
+      { key: { completedAt: 1 }, expireAfterSeconds: this.config.completedTtlSeconds }
+    ]);
+  }
+
+  /**
+   * 注册任务处理器
+   */
+  registerHandler<TPayload>(type: string, handler: JobHandler<TPayload>): void {
+    this.handlers.set(type, handler);
+    logger.dev('注册任务处理器', { type });
+  }
+
+  /**
+   * 任务入队
+   * 指定去重键时，若已有同键的未完成任务则直接返回该任务
+   */
+  async enqueue<TPayload extends Record<string, any>>(
+    type: string,
+    payload: TPayload,
+    options: JobOptions = {}
+  ): Promise<JobModel<TPayload>> {
+    const now = new Date();
+    const job: JobModel<TPayload> = {
+      type,
+      payload,
+      status: JobStatus.PENDING,
+      attempts: 0,
+      maxAttempts: options.maxAttempts || this.config.maxAttempts,
+      runAt: new Date(now.getTime() + (options.delayMs || 0)),
+      createdAt: now,
+      updatedAt: now
+    };
+    if (options.dedupeKey) {
+      job.dedupeKey = options.dedupeKey;
+    }
+
+    try {
+      const { insertedId } = await this.collection.insertOne(job as JobModel);
+      logger.dev('任务已入队', { jobId: insertedId.toString(), type, dedupeKey: options.dedupeKey });
+      this.nudge();
+      return { ...job, _id: insertedId };
+    } catch (error) {
+      if (options.dedupeKey && error instanceof MongoServerError && error.code === 11000) {
+        const existing = await this.collection.findOne({ dedupeKey: options.dedupeKey });
+        if (existing) {
+          logger.dev('已存在相同去重键的未完成任务', { type, dedupeKey: options.dedupeKey });
+          return existing as JobModel<TPayload>;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 启动工作进程
+   * 启动时先回收租约已过期的处理中任务
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    this.running = true;
+    const recovered = await this.recoverStaleJobs();
+    logger.info('任务队列工作进程已启动', {
+      workerId: this.workerId,
+      concurrency: this.config.concurrency,
+      handlers: [...this.handlers.keys()],
+      recovered
+    });
+    this.schedulePoll(0);
+  }
+
+  /**
+   * 停止工作进程，等待执行中的任务结束
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    await Promise.allSettled([...this.activeJobs]);
+    logger.info('任务队列工作进程已停止', { workerId: this.workerId });
+  }
+
+  /**
+   * 回收租约过期的处理中任务，重新置为等待状态
+   */
+  async recoverStaleJobs(): Promise<number> {
+    const result = await this.collection.updateMany(
+      { status: JobStatus.PROCESSING, leaseExpiresAt: { $lt: new Date() } },
+      {
+        $set: { status: JobStatus.PENDING, runAt: new Date(), updatedAt: new Date() },
+        $unset: { leaseExpiresAt: '', lockedBy: '' }
+      }
+    );
+
+    if (result.modifiedCount > 0) {
+      logger.warn('回收租约过期的任务', { count: result.modifiedCount });
+    }
+    return result.modifiedCount;
+  }
+
+  /**
+   * 获取各状态任务数量
+   */
+  async getStats(): Promise<Record<JobStatus, number>> {
+    const stats = { pending: 0, processing: 0, completed: 0, dead: 0 } as Record<JobStatus, number>;
+    const result = await this.collection
+      .aggregate<{ _id: JobStatus; count: number }>([{ $group: { _id: '$status', count: { $sum: 1 } } }])
+      .toArray();
+    result.forEach(item => {
+      stats[item._id] = item.count;
+    });
+    return stats;
+  }
+
+  /**
+   * 计算第n次失败后的退避时长
+   */
+  getBackoffDelay(attempts: number): number {
+    return Math.min(this.config.backoffBaseMs * 2 ** Math.max(attempts - 1, 0), this.config.backoffMaxMs);
+  }
+
+  /**
+   * 有新任务时立即触发一次轮询
+   */
+  private nudge(): void {
+    if (this.running && this.activeJobs.size < this.config.concurrency) {
+      this.schedulePoll(0);
+    }
+  }
+
+  /**
+   * 安排下一次轮询
+   */
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) return;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+    }
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.poll();
+    }, delayMs);
+    this.pollTimer.unref();
+  }
+
+  /**
+   * 轮询并领取任务，直到达到并发上限或没有可执行任务
+   */
+  private async poll(): Promise<void> {
+    if (!this.running || this.polling) return;
+    this.polling = true;
+
+    try {
+      while (this.running && this.activeJobs.size < this.config.concurrency) {
+        const job = await this.claimNext();
+        if (!job) break;
+
+        const run: Promise<void> = this.runJob(job).finally(() => {
+          this.activeJobs.delete(run);
+          this.nudge();
+        });
+        this.activeJobs.add(run);
+      }
+    } catch (error) {
+      logger.error('领取任务失败', { error: error instanceof Error ? error.message : '未知错误' });
+    } finally {
+      this.polling = false;
+      this.schedulePoll(this.config.pollIntervalMs);
+    }
+  }
+
+  /**
+   * 领取一个可执行的任务
+   * 包括到期的等待任务以及租约已过期的处理中任务
+   */
+  private async claimNext(): Promise<JobModel | null> {
+    const types = [...this.handlers.keys()];
+    if (types.length === 0) return null;
+
+    const now = new Date();
+    return await this.collection.findOneAndUpdate(
+      {
+        type: { $in: types },
+        $or: [
+          { status: JobStatus.PENDING, runAt: { $lte: now } },
+          { status: JobStatus.PROCESSING, leaseExpiresAt: { $lt: now } }
+        ]
+      },
+      {
+        $set: {
+          status: JobStatus.PROCESSING,
+          leaseExpiresAt: new Date(now.getTime() + this.config.leaseMs),
+          lockedBy: this.workerId,
+          updatedAt: now
+        },
+        $inc: { attempts: 1 }
+      },
+      { sort: { runAt: 1 }, returnDocument: 'after' }
+    );
+  }
+
+  /**
+   * 执行任务，执行期间定期续租
+   */
+  private async runJob(job: JobModel): Promise<void> {
+    const handler = this.handlers.get(job.type);
+    const jobId = job._id as ObjectId;
+    const heartbeat = setInterval(() => {
+      this.extendLease(jobId).catch(() => undefined);
+    }, Math.max(Math.floor(this.config.leaseMs / 2), 1000));
+    heartbeat.unref();
+
+    try {
+      logger.dev('开始执行任务', { jobId: jobId.toString(), type: job.type, attempt: job.attempts });
+      if (!handler) {
+        throw new Error(`未注册的任务类型: ${job.type}`);
+      }
+      await handler(job);
+      await this.markCompleted(jobId);
+      logger.info('任务执行完成', { jobId: jobId.toString(), type: job.type, attempts: job.attempts });
+    } catch (error) {
+      await this.markFailed(job, error);
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * 延长任务租约
+   */
+  private async extendLease(jobId: ObjectId): Promise<void> {
+    await this.collection.updateOne(
+      { _id: jobId, status: JobStatus.PROCESSING, lockedBy: this.workerId },
+      { $set: { leaseExpiresAt: new Date(Date.now() + this.config.leaseMs), updatedAt: new Date() } }
+    );
+  }
+
+  /**
+   * 标记任务完成，释放去重键
+   */
+  private async markCompleted(jobId: ObjectId): Promise<void> {
+    const now = new Date();
+    await this.collection.updateOne(
+      { _id: jobId, lockedBy: this.workerId },
+      {
+        $set: { status: JobStatus.COMPLETED, completedAt: now, updatedAt: now },
+        $unset: { leaseExpiresAt: '', lockedBy: '', dedupeKey: '', lastError: '' }
+      }
+    );
+  }
+
+  /**
+   * 标记任务失败
+   * 未达最大次数时按指数退避重新排队，否则进入死信状态
+   */
+  private async markFailed(job: JobModel, error: unknown): Promise<void> {
+    const jobId = job._id as ObjectId;
+    const message = error instanceof Error ? error.message : String(error);
+    const now = new Date();
+
+    if (job.attempts >= job.maxAttempts) {
+      await this.collection.updateOne(
+        { _id: jobId, lockedBy: this.workerId },
+        {
+          $set: { status: JobStatus.DEAD, lastError: message, updatedAt: now },
+          $unset: { leaseExpiresAt: '', lockedBy: '', dedupeKey: '' }
+        }
+      );
+      logger.error('任务多次失败，进入死信状态', {
+        jobId: jobId.toString(),
+        type: job.type,
+        attempts: job.attempts,
+        error: message
+      });
+      return;
+    }
+
+    const delay = this.getBackoffDelay(job.attempts);
+    await this.collection.updateOne(
+      { _id: jobId, lockedBy: this.workerId },
+      {
+        $set: {
+          status: JobStatus.PENDING,
+          runAt: new Date(now.getTime() + delay),
+          lastError: message,
+          updatedAt: now
+        },
+        $unset: { leaseExpiresAt: '', lockedBy: '' }
+      }
+    );
+    logger.warn('任务执行失败，等待重试', {
+      jobId: jobId.toString(),
+      type: job.type,
+      attempts: job.attempts,
+      retryInMs: delay,
+      error: message
+    });
+  }
+}
@@ -0,0 +1,160 @@
+import { LinkMetadata, parseHtmlMetadata, hasMetadata } from '../utils/html-metadata.js';
+import { safeFetch, SafeFetchResponse } from '../utils/safe-fetch.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建链接元数据服务日志器
+const logger = createLogger('LinkMetadataService');
+
+/**
+ * 抓取网页时使用的请求头
+ */
+const FETCH_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; LinkMetadataExtractor/1.0)',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8'
+};
+
+/**
+ * 链接元数据服务
+ * 优先直接抓取目标页面并在本地解析，外部Open Graph服务仅作为可选的备用链
+ */
+export class LinkMetadataService {
+  private fallbackServices: string[];
+  private timeoutMs: number;
+
+  constructor(fallbackServices: string[] = LinkMetadataService.resolveFallbackServices()) {
+    this.fallbackServices = fallbackServices;
+    this.timeoutMs = Number(process.env.LINK_METADATA_TIMEOUT_MS) || 15000;
+  }
+
+  /**
+   * 从环境变量读取备用服务列表
+   * LINK_METADATA_FALLBACK_SERVICES 为逗号分隔的服务地址，兼容旧的 OG_SERVICE_URL
+   */
+  static resolveFallbackServices(): string[] {
+    const configured = process.env.LINK_METADATA_FALLBACK_SERVICES || process.env.OG_SERVICE_URL || '';
+    return configured
+      .split(',')
+      .map(service => service.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * 提取链接元数据
+   * 本地解析失败或结果为空时，依次尝试配置的备用服务
+   */
+  async extract(url: string): Promise<LinkMetadata> {
+    let lastError: unknown = null;
+
+    try {
+      const metadata = await this.extractFromPage(url);
+      if (hasMetadata(metadata)) {
+        logger.info('本地解析链接元数据成功', {
+          url,
+          title: metadata.title,
+          hasThumbnail: !!metadata.thumbnail
+        });
+        return metadata;
+      }
+      logger.dev('页面未包含可用元数据，尝试备用服务', { url });
+    } catch (error) {
+      lastError = error;
+      logger.warn('直接抓取页面失败', {
+        url,
+        error: error instanceof Error ? error.message : '未知错误'
+      });
+    }
+
+    for (const serviceUrl of this.fallbackServices) {
+      try {
+        const metadata = await this.extractFromService(serviceUrl, url);
+        if (hasMetadata(metadata)) {
+          logger.info('备用服务提取链接元数据成功', { url, serviceUrl, title: metadata.title });
+          return metadata;
+        }
+      } catch (error) {
+        lastError = error;
+        logger.warn('Open Graph服务调用失败', {
+          url,
+          serviceUrl,
+          error: error instanceof Error ? error.message : '未知错误'
+        });
+      }
+    }
+
+    if (lastError) {
+      throw lastError;
+    }
+
+    return {};
+  }
+
+  /**
+   * 直接抓取目标页面并解析
+   */
+  private async extractFromPage(url: string): Promise<LinkMetadata> {
+    const response = await this.request(url);
+    const contentType = String(response.headers['content-type'] || '');
+
+    if (!/html|xml/i.test(contentType)) {
+      logger.dev('目标不是HTML页面，跳过解析', { url, contentType });
+      return {};
+    }
+
+    const html = response.text();
+    return parseHtmlMetadata(html, response.url);
+  }
+
+  /**
+   * 从外部Open Graph服务获取元数据
+   */
+  private async extractFromService(serviceUrl: string, targetUrl: string): Promise<LinkMetadata> {
+    const fullUrl = `${serviceUrl}${encodeURIComponent(targetUrl)}`;
+    logger.info('调用Open Graph服务', { url: targetUrl, serviceUrl: fullUrl });
+
+    const response = await this.request(fullUrl);
+
+    // 根据服务类型处理不同的响应格式
+    if (serviceUrl.includes('microlink.io')) {
+      const data = response.json();
+      return {
+        title: data.data?.title,
+        description: data.data?.description,
+        thumbnail: data.data?.image?.url,
+        siteName: data.data?.publisher,
+        favicon: data.data?.logo?.url
+      };
+    }
+
+    if (serviceUrl.includes('opengraph.xyz')) {
+      const data = response.json();
+      return {
+        title: data.title,
+        description: data.description,
+        thumbnail: data.image,
+        siteName: data.site_name
+      };
+    }
+
+    // 其他服务默认返回HTML
+    const html = response.text();
+    return parseHtmlMetadata(html, targetUrl);
+  }
+
+  /**
+   * 通过安全请求层发送GET请求
+   * 拒绝内网地址并限制超时、重定向次数和响应大小
+   */
+  private async request(url: string): Promise<SafeFetchResponse> {
+    const response = await safeFetch(url, {
+      headers: FETCH_HEADERS,
+      timeoutMs: this.timeoutMs
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response;
+  }
+}
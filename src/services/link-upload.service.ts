@@ -1,11 +1,85 @@
-import type { Db, ObjectId } from 'mongodb';
-import { FileModel, FileInput, LinkUploadInput, BatchLinkUploadInput, FileStatus, MetadataStatus } from '../models/file.model';
+import { Db, ObjectId } from 'mongodb';
+import {
+  FileModel,
+  FileInput,
+  LinkUploadInput,
+  BatchLinkUploadInput,
+  FileStatus,
+  MetadataStatus,
+  DuplicateLinkPolicy,
+  ReviewStatus
+} from '../models/file.model';
 import { createLogger } from '../utils/logger';
 import { ShortCodeService } from './shortcode.service';
+import { LinkMetadataService } from './link-metadata.service.js';
+import { JobQueueService } from './job-queue.service.js';
+import { LinkMetadata } from '../utils/html-metadata.js';
+import { isPublicUrl } from '../utils/safe-fetch.js';
+import { normalizeUrl } from '../utils/url-normalizer.js';
+import { JobModel } from '../models/job.model.js';
+import { APPROVED_FILTER } from '../models/review.model.js';
+import { ReviewService, resolveInitialReviewStatus } from './review.service.js';
+import { SearchService } from './search.service.js';
+import { PiiScanService } from './pii-scan.service.js';
 
 // 创建链接上传服务日志器
 const logger = createLogger('LinkUploadService');
 
+/**
+ * 链接元数据提取任务类型
+ */
+export const LINK_METADATA_JOB = 'link-metadata';
+
+/**
+ * 历史链接补全规范化URL任务类型
+ */
+export const LINK_URL_BACKFILL_JOB = 'link-url-backfill';
+
+/**
+ * 链接元数据提取任务参数
+ */
+interface LinkMetadataJobPayload {
+  linkId: string;
+  url: string;
+}
+
+/**
+ * 重复链接匹配信息
+ */
+export interface DuplicateLinkMatch {
+  linkId: ObjectId;           // 已存在链接的ID
+  shortCode: string;          // 已存在链接的短码
+  policy: DuplicateLinkPolicy; // 生效的处理策略
+}
+
+/**
+ * 链接上传结果（命中重复时附带匹配信息）
+ */
+export type UploadedLink = FileModel & { duplicateOf?: DuplicateLinkMatch };
+
+/**
+ * 重复链接错误（reject策略下抛出）
+ */
+export class DuplicateLinkError extends Error {
+  readonly match: DuplicateLinkMatch;
+
+  constructor(match: DuplicateLinkMatch) {
+    super(`链接已存在: ${match.shortCode}`);
+    this.name = 'DuplicateLinkError';
+    this.match = match;
+  }
+}
+
+/**
+ * 从环境变量读取重复链接处理策略（LINK_DUPLICATE_POLICY，默认merge）
+ */
+const resolveDuplicatePolicy = (): DuplicateLinkPolicy => {
+  const value = (process.env.LINK_DUPLICATE_POLICY || '').toLowerCase();
+  return Object.values(DuplicateLinkPolicy).includes(value as DuplicateLinkPolicy)
+    ? (value as DuplicateLinkPolicy)
+    : DuplicateLinkPolicy.MERGE;
+};
+
 /**
  * 链接上传服务类
  * 处理链接的上传、验证和元数据提取
@@ -14,227 +88,139 @@ export class LinkUploadService {
   private db: Db;
   private collection: string = 'files';
   private shortCodeService: ShortCodeService;
-
-  constructor(db: Db) {
+  private metadataService: LinkMetadataService;
+  private jobQueue: JobQueueService;
+  private searchService: SearchService;
+  private piiScanService: PiiScanService;
+  private reviewService: ReviewService;
+  private duplicatePolicy: DuplicateLinkPolicy;
+
+  constructor(
+    db: Db,
+    jobQueue: JobQueueService = new JobQueueService(db),
+    metadataService: LinkMetadataService = new LinkMetadataService(),
+    searchService: SearchService = new SearchService(db),
+    piiScanService: PiiScanService = new PiiScanService(db),
+    reviewService: ReviewService = new ReviewService(db)
+  ) {
     this.db = db;
     this.shortCodeService = new ShortCodeService(db);
+    this.metadataService = metadataService;
+    this.jobQueue = jobQueue;
+    this.searchService = searchService;
+    this.piiScanService = piiScanService;
+    this.reviewService = reviewService;
+    this.duplicatePolicy = resolveDuplicatePolicy();
+    this.jobQueue.registerHandler<LinkMetadataJobPayload>(LINK_METADATA_JOB, job => this.processMetadataJob(job));
+    this.jobQueue.registerHandler(LINK_URL_BACKFILL_JOB, async () => {
+      await this.backfillNormalizedUrls();
+    });
     logger.info('链接上传服务初始化完成', { collection: this.collection });
   }
 
   /**
-   * 验证链接URL格式
+   * 创建链接集合索引，并提交后台任务为历史链接补全规范化URL，不阻塞启动
    */
-  private validateUrl(url: string): boolean {
-    try {
-      const urlObj = new URL(url);
-      return ['http:', 'https:'].includes(urlObj.protocol);
-    } catch {
-      return false;
-    }
+  async ensureIndexes(): Promise<void> {
+    const collection = this.db.collection<FileModel>(this.collection);
+    await collection.createIndex(
+      { normalizedUrl: 1, status: 1 },
+      { partialFilterExpression: { normalizedUrl: { $exists: true } } }
+    );
+    await this.jobQueue.enqueue(LINK_URL_BACKFILL_JOB, {}, { dedupeKey: LINK_URL_BACKFILL_JOB });
   }
 
   /**
-   * 提取链接元数据（标题、描述等）
-   * 通过调用第三方Open Graph接口来提取元数据
+   * 为历史链接补全规范化URL，返回补全的数量
+   * 无法解析的URL记录失败原因，之后不再重复处理
    */
-  private async extractLinkMetadata(url: string): Promise<{
-    title?: string;
-    description?: string;
-    thumbnail?: string;
-  }> {
-    try {
-      // 从环境变量获取Open Graph服务配置，支持多个备用服务
-      const ogServices = [
-        process.env.OG_SERVICE_URL ||
-        'https://api.microlink.io?url=',
-        'https://opengraph.xyz/api/v1/site-info?url='
-      ].filter(Boolean);
-      
-      let metadata = null;
-      let lastError = null;
-      
-      // 尝试多个服务，直到成功
-      for (const serviceUrl of ogServices) {
-        try {
-          metadata = await this.fetchMetadataFromService(serviceUrl, url);
-          if (metadata && (metadata.title || metadata.description || metadata.thumbnail)) {
-            logger.info('链接元数据提取成功', { 
-              url, 
-              serviceUrl,
-              title: metadata.title,
-              description: metadata.description,
-              hasThumbnail: !!metadata.thumbnail
-            });
-            return metadata;
-          }
-        } catch (error) {
-          lastError = error;
-          logger.warn('Open Graph服务调用失败', { 
-            url, 
-            serviceUrl, 
-            error: error instanceof Error ? error.message : '未知错误' 
-          });
-          continue;
-        }
-      }
-      
-      // 如果所有服务都失败，记录错误并返回默认值
-      if (lastError) {
-        throw lastError;
+  async backfillNormalizedUrls(): Promise<number> {
+    const collection = this.db.collection<FileModel>(this.collection);
+    const legacyLinks = collection.find(
+      {
+        isLink: true,
+        linkUrl: { $exists: true },
+        normalizedUrl: { $exists: false },
+        normalizedUrlError: { $exists: false }
+      },
+      { projection: { linkUrl: 1 } }
+    );
+
+    let backfilled = 0;
+    let failed = 0;
+    for await (const link of legacyLinks) {
+      let update: Partial<FileModel>;
+      try {
+        update = { normalizedUrl: normalizeUrl(link.linkUrl as string) };
+        backfilled++;
+      } catch (error) {
+        update = { normalizedUrlError: error instanceof Error ? error.message : '未知错误' };
+        failed++;
       }
-      
-      return {
-        title: undefined,
-        description: undefined,
-        thumbnail: undefined
-      };
-      
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : '未知错误';
-      logger.warn('提取链接元数据失败', { url, error: errorMessage });
-      
-      // 返回默认值，不阻塞上传流程
-      return {
-        title: undefined,
-        description: undefined,
-        thumbnail: undefined
-      };
+      await collection.updateOne({ _id: link._id }, { $set: update });
     }
+    if (backfilled > 0 || failed > 0) {
+      logger.info('已为历史链接补全规范化URL', { count: backfilled, failed });
+    }
+    return backfilled;
   }
 
   /**
-   * 从指定的Open Graph服务获取元数据
+   * 查找相同规范化URL的已公开链接
+   * 待审核和已驳回的链接不参与去重，避免新提交合并到未公开的内容
    */
-  private async fetchMetadataFromService(serviceUrl: string, targetUrl: string): Promise<{
-    title?: string;
-    description?: string;
-    thumbnail?: string;
-  }> {
-    const encodedUrl = encodeURIComponent(targetUrl);
-    const fullUrl = `${serviceUrl}${encodedUrl}`;
-    
-    logger.info('调用Open Graph服务', { url: targetUrl, serviceUrl: fullUrl });
-    
-    // 设置请求超时
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 15000); // 15秒超时
-    
-    try {
-      const response = await fetch(fullUrl, {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; LinkMetadataExtractor/1.0)',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-          'Accept-Encoding': 'gzip, deflate',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1'
-        },
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-      
-      // 根据服务类型处理不同的响应格式
-      if (serviceUrl.includes('microlink.io')) {
-        // Microlink API返回JSON格式
-        const data = await response.json();
-        return {
-          title: data.data?.title,
-          description: data.data?.description,
-          thumbnail: data.data?.image?.url
-        };
-      } else if (serviceUrl.includes('opengraph.xyz')) {
-        // OpenGraph.xyz API返回JSON格式
-        const data = await response.json();
-        return {
-          title: data.title,
-          description: data.description,
-          thumbnail: data.image
-        };
-      } else {
-        // 默认处理HTML格式
-        const html = await response.text();
-        return this.parseOpenGraphMetadata(html, targetUrl);
-      }
-      
-    } catch (error) {
-      clearTimeout(timeoutId);
-      throw error;
-    }
+  private async findDuplicate(normalizedUrl: string): Promise<FileModel | null> {
+    const collection = this.db.collection<FileModel>(this.collection);
+    return await collection.findOne(
+      { normalizedUrl, isLink: true, status: { $ne: FileStatus.DELETED }, ...APPROVED_FILTER },
+      { sort: { uploadedAt: 1 } }
+    );
   }
 
   /**
-   * 解析HTML内容以提取Open Graph元数据
+   * 将新提交的分类和标签合并到已有链接
+   * 合并了新的分类或标签时链接回到待审核状态（未开启内容审核时除外），审核通过后才重新公开
    */
-  private parseOpenGraphMetadata(html: string, originalUrl: string): {
-    title?: string;
-    description?: string;
-    thumbnail?: string;
-  } {
-    try {
-      const metadata = {
-        title: undefined as string | undefined,
-        description: undefined as string | undefined,
-        thumbnail: undefined as string | undefined
-      };
-
-      // 提取Open Graph标题
-      const ogTitleMatch = html.match(/<meta\s+property="og:title"\s+content="([^"]+)"/i);
-      if (ogTitleMatch) {
-        metadata.title = ogTitleMatch[1].trim();
-      }
-
-      // 提取Open Graph描述
-      const ogDescMatch = html.match(/<meta\s+property="og:description"\s+content="([^"]+)"/i);
-      if (ogDescMatch) {
-        metadata.description = ogDescMatch[1].trim();
-      }
-
-      // 提取Open Graph图片
-      const ogImageMatch = html.match(/<meta\s+property="og:image"\s+content="([^"]+)"/i);
-      if (ogImageMatch) {
-        metadata.thumbnail = ogImageMatch[1].trim();
-      }
-
-      // 如果没有找到Open Graph数据，尝试提取普通HTML标签
-      if (!metadata.title) {
-        const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-        if (titleMatch) {
-          metadata.title = titleMatch[1].trim();
-        }
-      }
+  private async mergeIntoExisting(existing: FileModel, linkData: LinkUploadInput): Promise<FileModel> {
+    const categories = (linkData.categories || []).filter(category => !(existing.categories || []).includes(category));
+    const tags = (linkData.tags || []).filter(tag => !(existing.tags || []).includes(tag));
+    if (categories.length === 0 && tags.length === 0) {
+      return existing;
+    }
 
-      if (!metadata.description) {
-        const descMatch = html.match(/<meta\s+name="description"\s+content="([^"]+)"/i);
-        if (descMatch) {
-          metadata.description = descMatch[1].trim();
-        }
-      }
+    const collection = this.db.collection<FileModel>(this.collection);
+    const merged = await collection.findOneAndUpdate(
+      { _id: existing._id },
+      {
+        $addToSet: {
+          categories: { $each: categories },
+          tags: { $each: tags }
+        },
+        $set: { updatedAt: new Date() }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!merged) {
+      return existing;
+    }
 
-      // 处理相对URL，转换为绝对URL
-      if (metadata.thumbnail && !metadata.thumbnail.startsWith('http')) {
-        try {
-          const baseUrl = new URL(originalUrl);
-          metadata.thumbnail = new URL(metadata.thumbnail, baseUrl.origin).href;
-        } catch (e) {
-          // 如果URL解析失败，保持原值
-        }
-      }
+    if (resolveInitialReviewStatus() !== ReviewStatus.APPROVED
+      && await this.reviewService.flag(existing._id as ObjectId, '重复提交合并了新的分类或标签')) {
+      merged.reviewStatus = ReviewStatus.SUBMITTED;
+    }
+    this.searchService.scheduleIndex(existing._id as ObjectId);
+    return merged;
+  }
 
-      return metadata;
-      
-    } catch (error) {
-      logger.warn('解析Open Graph元数据失败', { error: error instanceof Error ? error.message : '未知错误' });
-      return {
-        title: undefined,
-        description: undefined,
-        thumbnail: undefined
-      };
+  /**
+   * 验证链接URL格式
+   */
+  private validateUrl(url: string): boolean {
+    try {
+      const urlObj = new URL(url);
+      return ['http:', 'https:'].includes(urlObj.protocol);
+    } catch {
+      return false;
     }
   }
 
@@ -256,7 +242,7 @@ export class LinkUploadService {
   /**
    * 上传单个链接（异步元数据提取）
    */
-  async uploadLink(linkData: LinkUploadInput): Promise<FileModel> {
+  async uploadLink(linkData: LinkUploadInput): Promise<UploadedLink> {
     try {
       logger.info('开始处理链接上传', { 
         url: linkData.url,
@@ -269,6 +255,39 @@ export class LinkUploadService {
         throw new Error('无效的URL格式');
       }
 
+      // 拒绝指向内网、本机或非常规端口的地址
+      if (!isPublicUrl(linkData.url)) {
+        throw new Error('不允许提交内网或本地地址');
+      }
+
+      // 检查重复链接
+      const normalizedUrl = normalizeUrl(linkData.url);
+      const existing = await this.findDuplicate(normalizedUrl);
+      let duplicateOf: DuplicateLinkMatch | undefined;
+
+      if (existing) {
+        duplicateOf = {
+          linkId: existing._id as ObjectId,
+          shortCode: existing.shortCode,
+          policy: this.duplicatePolicy
+        };
+        logger.info('检测到重复链接', {
+          url: linkData.url,
+          normalizedUrl,
+          existingShortCode: existing.shortCode,
+          policy: this.duplicatePolicy
+        });
+
+        if (this.duplicatePolicy === DuplicateLinkPolicy.REJECT) {
+          throw new DuplicateLinkError(duplicateOf);
+        }
+
+        if (this.duplicatePolicy === DuplicateLinkPolicy.MERGE) {
+          const merged = await this.mergeIntoExisting(existing, linkData);
+          return { ...merged, duplicateOf };
+        }
+      }
+
       // 生成短码
       const shortCode = await this.shortCodeService.generateUniqueShortCode();
 
@@ -289,6 +308,7 @@ export class LinkUploadService {
         description: linkData.description,
         isLink: true,
         linkUrl: linkData.url,
+        normalizedUrl,
         linkTitle: linkData.title || undefined,
         linkDescription: linkData.description || undefined,
         linkThumbnail: undefined,
@@ -301,56 +321,82 @@ export class LinkUploadService {
       const doc: Omit<FileModel, '_id'> = {
         ...fileInput,
         status: FileStatus.ACTIVE,
+        reviewStatus: resolveInitialReviewStatus(),
         uploadedAt: new Date(),
         updatedAt: new Date()
       };
 
       const { insertedId } = await collection.insertOne(doc as any);
       const result = { ...doc, _id: insertedId };
+      this.searchService.scheduleIndex(insertedId);
       
-      logger.info('链接上传成功，开始异步提取元数据', { 
+      logger.info('链接上传成功，提交元数据提取任务', { 
         linkId: insertedId.toString(),
         url: linkData.url,
         shortCode
       });
       
-      // 异步提取元数据（不阻塞响应）
-      this.extractMetadataAsync(insertedId, linkData.url).catch(error => {
-        logger.error('异步元数据提取失败', { 
+      // 提交后台任务提取元数据（不阻塞响应，重启后不会丢失）
+      try {
+        await this.enqueueMetadataJob(insertedId, linkData.url);
+      } catch (error) {
+        logger.error('提交元数据提取任务失败', { 
           linkId: insertedId.toString(), 
           url: linkData.url, 
           error: error instanceof Error ? error.message : '未知错误' 
         });
-      });
+      }
       
-      return result;
+      return duplicateOf ? { ...result, duplicateOf } : result;
     } catch (error) {
+      if (error instanceof DuplicateLinkError) {
+        throw error;
+      }
       logger.errorWithStack('链接上传失败', error as Error);
       throw error;
     }
   }
 
   /**
-   * 异步提取链接元数据（不阻塞主流程）
+   * 提交元数据提取任务
+   * 同一链接同时只保留一个未完成的任务
+   */
+  private async enqueueMetadataJob(linkId: ObjectId, url: string): Promise<void> {
+    await this.jobQueue.enqueue<LinkMetadataJobPayload>(
+      LINK_METADATA_JOB,
+      { linkId: linkId.toString(), url },
+      { dedupeKey: `${LINK_METADATA_JOB}:${linkId.toString()}` }
+    );
+  }
+
+  /**
+   * 执行元数据提取任务
+   * 失败时抛出错误交由任务队列重试，最后一次失败才标记为失败状态
    */
-  private async extractMetadataAsync(linkId: ObjectId, url: string): Promise<void> {
+  private async processMetadataJob(job: JobModel<LinkMetadataJobPayload>): Promise<void> {
+    const linkId = new ObjectId(job.payload.linkId);
+    const url = job.payload.url;
+
     try {
-      logger.info('开始异步提取链接元数据', { linkId: linkId.toString(), url });
+      logger.info('开始提取链接元数据', { linkId: job.payload.linkId, url, attempt: job.attempts });
       
       // 更新状态为处理中
       await this.updateMetadataStatus(linkId, MetadataStatus.PROCESSING);
       
       // 提取元数据
-      const metadata = await this.extractLinkMetadata(url);
+      const metadata = await this.metadataService.extract(url);
       
       // 更新数据库中的元数据
       await this.updateLinkMetadata(linkId, metadata);
+
+      // 检测标题和描述中的个人信息
+      await this.piiScanService.scanStored(linkId);
       
       // 更新状态为完成
       await this.updateMetadataStatus(linkId, MetadataStatus.COMPLETED);
       
-      logger.info('异步元数据提取完成', { 
-        linkId: linkId.toString(), 
+      logger.info('元数据提取完成', { 
+        linkId: job.payload.linkId, 
         url,
         title: metadata.title,
         description: metadata.description,
@@ -358,14 +404,18 @@ export class LinkUploadService {
       });
       
     } catch (error) {
-      logger.error('异步元数据提取失败', { 
-        linkId: linkId.toString(), 
+      const isLastAttempt = job.attempts >= job.maxAttempts;
+      logger.warn('元数据提取失败', { 
+        linkId: job.payload.linkId, 
         url, 
+        attempt: job.attempts,
+        willRetry: !isLastAttempt,
         error: error instanceof Error ? error.message : '未知错误' 
       });
       
-      // 更新状态为失败
-      await this.updateMetadataStatus(linkId, MetadataStatus.FAILED);
+      // 最后一次失败标记为失败，否则回到等待状态
+      await this.updateMetadataStatus(linkId, isLastAttempt ? MetadataStatus.FAILED : MetadataStatus.PENDING);
+      throw error;
     }
   }
 
@@ -398,11 +448,7 @@ export class LinkUploadService {
   /**
    * 更新链接元数据
    */
-  private async updateLinkMetadata(linkId: ObjectId, metadata: {
-    title?: string;
-    description?: string;
-    thumbnail?: string;
-  }): Promise<void> {
+  private async updateLinkMetadata(linkId: ObjectId, metadata: LinkMetadata): Promise<void> {
     try {
       const collection = this.db.collection<FileModel>(this.collection);
       
@@ -420,11 +466,21 @@ export class LinkUploadService {
       if (metadata.thumbnail) {
         updateData.linkThumbnail = metadata.thumbnail;
       }
+      if (metadata.siteName) {
+        updateData.linkSiteName = metadata.siteName;
+      }
+      if (metadata.favicon) {
+        updateData.linkFavicon = metadata.favicon;
+      }
+      if (metadata.canonicalUrl) {
+        updateData.linkCanonicalUrl = metadata.canonicalUrl;
+      }
       
       await collection.updateOne(
         { _id: linkId },
         { $set: updateData }
       );
+      this.searchService.scheduleIndex(linkId);
       
       logger.info('链接元数据更新成功', { 
         linkId: linkId.toString(),
@@ -446,17 +502,23 @@ export class LinkUploadService {
    */
   async getMetadataStatus(linkId: ObjectId): Promise<{
     status: MetadataStatus;
-    metadata?: {
-      title?: string;
-      description?: string;
-      thumbnail?: string;
-    };
+    metadata?: LinkMetadata;
   }> {
     try {
       const collection = this.db.collection<FileModel>(this.collection);
       const link = await collection.findOne(
         { _id: linkId, isLink: true },
-        { projection: { metadataStatus: 1, linkTitle: 1, linkDescription: 1, linkThumbnail: 1 } }
+        {
+          projection: {
+            metadataStatus: 1,
+            linkTitle: 1,
+            linkDescription: 1,
+            linkThumbnail: 1,
+            linkSiteName: 1,
+            linkFavicon: 1,
+            linkCanonicalUrl: 1
+          }
+        }
       );
       
       if (!link) {
@@ -465,11 +527,7 @@ export class LinkUploadService {
       
       const result: {
         status: MetadataStatus;
-        metadata?: {
-          title?: string;
-          description?: string;
-          thumbnail?: string;
-        };
+        metadata?: LinkMetadata;
       } = {
         status: link.metadataStatus || MetadataStatus.PENDING
       };
@@ -479,7 +537,10 @@ export class LinkUploadService {
         result.metadata = {
           title: link.linkTitle,
           description: link.linkDescription,
-          thumbnail: link.linkThumbnail
+          thumbnail: link.linkThumbnail,
+          siteName: link.linkSiteName,
+          favicon: link.linkFavicon,
+          canonicalUrl: link.linkCanonicalUrl
         };
       }
       
@@ -510,14 +571,9 @@ export class LinkUploadService {
       
       logger.info('手动触发元数据重新提取', { linkId: linkId.toString(), url: link.linkUrl });
       
-      // 异步重新提取元数据
-      this.extractMetadataAsync(linkId, link.linkUrl).catch(error => {
-        logger.error('手动元数据提取失败', { 
-          linkId: linkId.toString(), 
-          url: link.linkUrl, 
-          error: error instanceof Error ? error.message : '未知错误' 
-        });
-      });
+      // 重新提交元数据提取任务
+      await this.updateMetadataStatus(linkId, MetadataStatus.PENDING);
+      await this.enqueueMetadataJob(linkId, link.linkUrl);
       
     } catch (error) {
       logger.error('手动触发元数据提取失败', { 
@@ -533,8 +589,8 @@ export class LinkUploadService {
    */
   async uploadLinks(batchData: BatchLinkUploadInput): Promise<{
     success: boolean;
-    files: FileModel[];
-    errors: Array<{ url: string; error: string }>;
+    files: UploadedLink[];
+    errors: Array<{ url: string; error: string; existingShortCode?: string }>;
   }> {
     try {
       logger.info('开始批量链接上传', { 
@@ -543,8 +599,8 @@ export class LinkUploadService {
         globalTags: batchData.tags
       });
 
-      const results: FileModel[] = [];
-      const errors: Array<{ url: string; error: string }> = [];
+      const results: UploadedLink[] = [];
+      const errors: Array<{ url: string; error: string; existingShortCode?: string }> = [];
 
       // 处理每个链接
       for (const linkData of batchData.links) {
@@ -562,7 +618,8 @@ export class LinkUploadService {
           const errorMessage = error instanceof Error ? error.message : '未知错误';
           errors.push({
             url: linkData.url,
-            error: errorMessage
+            error: errorMessage,
+            ...(error instanceof DuplicateLinkError && { existingShortCode: error.match.shortCode })
           });
           logger.warn('单个链接上传失败', { 
             url: linkData.url, 
@@ -594,8 +651,9 @@ export class LinkUploadService {
 
   /**
    * 获取用户的所有链接
+   * includeUnreviewed 为 true 时包含待审核和已驳回的链接（上传者本人或审核员查看）
    */
-  async getUserLinks(uploaderId: ObjectId, page: number = 1, limit: number = 20): Promise<{
+  async getUserLinks(uploaderId: ObjectId, page: number = 1, limit: number = 20, includeUnreviewed: boolean = false): Promise<{
     links: FileModel[];
     total: number;
   }> {
@@ -603,23 +661,21 @@ export class LinkUploadService {
       const collection = this.db.collection<FileModel>(this.collection);
       
       const skip = (page - 1) * limit;
+      const filter = {
+        uploaderId,
+        isLink: true,
+        status: { $ne: FileStatus.DELETED },
+        ...(includeUnreviewed ? {} : APPROVED_FILTER)
+      };
       
       const [links, total] = await Promise.all([
-        collection.find({ 
-          uploaderId, 
-          isLink: true,
-          status: { $ne: FileStatus.DELETED } 
-        })
+        collection.find(filter)
         .sort({ uploadedAt: -1 })
         .skip(skip)
         .limit(limit)
         .toArray(),
         
-        collection.countDocuments({ 
-          uploaderId, 
-          isLink: true,
-          status: { $ne: FileStatus.DELETED } 
-        })
+        collection.countDocuments(filter)
       ]);
 
       return { links, total };
@@ -630,13 +686,19 @@ export class LinkUploadService {
   }
 
   /**
-   * 搜索链接
+   * 搜索链接（只返回审核通过的链接）
+   * 关键词为空时按上传时间列出全部链接，否则使用分词索引按相关度排序
    */
   async searchLinks(query: string, page: number = 1, limit: number = 20): Promise<{
     links: FileModel[];
     total: number;
   }> {
     try {
+      if (query.trim()) {
+        const result = await this.searchService.search({ q: query, type: 'link', page, limit });
+        return { links: result.items, total: result.total };
+      }
+
       const collection = this.db.collection<FileModel>(this.collection);
       
       const skip = (page - 1) * limit;
@@ -644,12 +706,7 @@ export class LinkUploadService {
       const filter = {
         isLink: true,
         status: { $ne: FileStatus.DELETED },
-        $or: [
-          { linkUrl: { $regex: query, $options: 'i' } },
-          { linkTitle: { $regex: query, $options: 'i' } },
-          { linkDescription: { $regex: query, $options: 'i' } },
-          { tags: { $in: [new RegExp(query, 'i')] } }
-        ]
+        ...APPROVED_FILTER
       };
 
       const [links, total] = await Promise.all([
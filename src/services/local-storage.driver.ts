@@ -0,0 +1,81 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { StorageDriver, StorageObjectStat, StorageRange } from './storage-driver.js';
+
+/**
+ * 本地文件系统存储驱动
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+    fs.mkdirSync(this.rootDir, { recursive: true });
+  }
+
+  /**
+   * 对象名只能是根目录下的文件名
+   */
+  private resolvePath(key: string): string {
+    if (!key || key !== path.basename(key) || key === '.' || key === '..') {
+      throw new Error(`非法的存储对象名: ${key}`);
+    }
+    return path.join(this.rootDir, key);
+  }
+
+  async put(key: string, body: Readable | Buffer): Promise<void> {
+    const target = this.resolvePath(key);
+    // 先写临时文件再重命名，避免读到写了一半的文件
+    const tmp = `${target}.${randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, fs.createWriteStream(tmp));
+      await fs.promises.rename(tmp, target);
+    } catch (error) {
+      await fs.promises.rm(tmp, { force: true });
+      throw error;
+    }
+  }
+
+  async getStream(key: string, range?: StorageRange): Promise<Readable> {
+    const filePath = this.resolvePath(key);
+    // 先打开文件，不存在时直接抛出 ENOENT
+    const handle = await fs.promises.open(filePath, 'r');
+    return handle.createReadStream(range ? { start: range.start, end: range.end } : {});
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.resolvePath(key));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== null;
+  }
+
+  async stat(key: string): Promise<StorageObjectStat | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolvePath(key));
+      return stats.isFile() ? { size: stats.size, lastModified: stats.mtime } : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    await fs.promises.rename(this.resolvePath(fromKey), this.resolvePath(toKey));
+  }
+
+  async presign(): Promise<string | null> {
+    return null;
+  }
+}
@@ -0,0 +1,131 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import type { MailLocale } from '../models/user.model.js';
+import { renderMailTemplate, MailTemplateName, MailTemplateVars } from '../utils/mail-templates.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建邮件服务日志器
+const logger = createLogger('MailService');
+
+/**
+ * 待发送的邮件
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * 邮件发送通道
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * SMTP发送通道
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * 文件发送通道（本地开发和测试用）
+ * 每封邮件写入一个JSON文件，便于读取其中的链接
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+  private outputDir: string;
+
+  constructor(outputDir: string = process.env.MAIL_OUTPUT_DIR || path.resolve(process.cwd(), 'mail-outbox')) {
+    this.outputDir = outputDir;
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+    const filename = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, '_')}.json`;
+    await fs.promises.writeFile(
+      path.join(this.outputDir, filename),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * 控制台发送通道（只输出到日志，默认通道）
+ */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info('邮件内容（控制台通道，未实际发送）', {
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+}
+
+/**
+ * 根据 MAIL_TRANSPORT 创建发送通道
+ */
+export function resolveMailTransport(): MailTransport {
+  switch ((process.env.MAIL_TRANSPORT || 'console').toLowerCase()) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'file':
+      return new FileMailTransport();
+    default:
+      return new ConsoleMailTransport();
+  }
+}
+
+/**
+ * 邮件服务
+ * 渲染多语言模板并通过配置的通道发送
+ */
+export class MailService {
+  private transport: MailTransport;
+  private from: string;
+
+  constructor(transport: MailTransport = resolveMailTransport()) {
+    this.transport = transport;
+    this.from = process.env.MAIL_FROM || 'no-reply@localhost';
+    logger.info('邮件服务初始化完成', { transport: transport.name });
+  }
+
+  /**
+   * 发送模板邮件
+   */
+  async sendTemplate(
+    to: string,
+    template: MailTemplateName,
+    locale: MailLocale,
+    vars: MailTemplateVars
+  ): Promise<void> {
+    const rendered = renderMailTemplate(template, locale, vars);
+    await this.transport.send({ from: this.from, to, ...rendered });
+    logger.info('邮件发送成功', { to, template, locale, transport: this.transport.name });
+  }
+}
@@ -0,0 +1,209 @@
+import { Db, ObjectId } from 'mongodb';
+import { FileModel, FileStatus, MalwareScanRecord, MalwareScanStatus } from '../models/file.model.js';
+import { JobModel } from '../models/job.model.js';
+import { JobQueueService } from './job-queue.service.js';
+import { FileStorageService } from './file-storage.service.js';
+import { resolveQuarantineStorageConfig } from './storage-driver.js';
+import {
+  MalwareScanConfig,
+  MalwareScanner,
+  createMalwareScanner,
+  resolveMalwareScanConfig
+} from './malware-scanner.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建恶意文件扫描服务日志器
+const logger = createLogger('MalwareScanService');
+
+/**
+ * 恶意文件扫描任务类型
+ */
+export const FILE_MALWARE_SCAN_JOB = 'file-malware-scan';
+
+/**
+ * 恶意文件扫描任务参数
+ */
+interface FileMalwareScanJobPayload {
+  fileId: string;
+}
+
+/**
+ * 扫描通过后的回调
+ */
+type CleanListener = (file: FileModel) => Promise<void>;
+
+/**
+ * 恶意文件扫描服务
+ * 开启扫描时上传的文件先处于 processing 状态，后台任务扫描通过后才变为 active；
+ * 检测到恶意内容的文件移入隔离存储并标记为 quarantined，不再提供下载
+ */
+export class MalwareScanService {
+  private db: Db;
+  private collection: string = 'files';
+  private jobQueue: JobQueueService;
+  private storage: FileStorageService;
+  private quarantineStorage: FileStorageService;
+  private config: MalwareScanConfig;
+  private scanner: MalwareScanner;
+  private cleanListeners: CleanListener[] = [];
+
+  constructor(
+    db: Db,
+    jobQueue: JobQueueService = new JobQueueService(db),
+    storage: FileStorageService = new FileStorageService(),
+    quarantineStorage: FileStorageService = new FileStorageService(resolveQuarantineStorageConfig()),
+    config: MalwareScanConfig = resolveMalwareScanConfig(),
+    scanner: MalwareScanner = createMalwareScanner(config)
+  ) {
+    this.db = db;
+    this.jobQueue = jobQueue;
+    this.storage = storage;
+    this.quarantineStorage = quarantineStorage;
+    this.config = config;
+    this.scanner = scanner;
+    this.jobQueue.registerHandler<FileMalwareScanJobPayload>(FILE_MALWARE_SCAN_JOB, job => this.processJob(job));
+    logger.info('恶意文件扫描服务初始化完成', { scanner: this.scanner.name, enabled: this.scanner.enabled });
+  }
+
+  /**
+   * 是否需要等待扫描结果
+   */
+  get enabled(): boolean {
+    return this.scanner.enabled;
+  }
+
+  /**
+   * 新上传文件的扫描记录
+   */
+  pendingRecord(): MalwareScanRecord {
+    return { status: MalwareScanStatus.PENDING, scanner: this.scanner.name };
+  }
+
+  /**
+   * 注册扫描通过后的回调（如提交正文提取和缩略图任务）
+   */
+  onClean(listener: CleanListener): void {
+    this.cleanListeners.push(listener);
+  }
+
+  /**
+   * 提交扫描任务，未开启扫描时返回 false
+   */
+  async enqueue(file: FileModel): Promise<boolean> {
+    if (!this.enabled) {
+      return false;
+    }
+
+    const fileId = file._id as ObjectId;
+    await this.jobQueue.enqueue<FileMalwareScanJobPayload>(
+      FILE_MALWARE_SCAN_JOB,
+      { fileId: fileId.toString() },
+      { dedupeKey: `${FILE_MALWARE_SCAN_JOB}:${fileId.toString()}`, maxAttempts: this.config.maxAttempts }
+    );
+    return true;
+  }
+
+  /**
+   * 执行扫描任务
+   * 扫描器不可用时抛出错误交由任务队列重试，最后一次失败标记为失败，文件保持不可下载
+   */
+  private async processJob(job: JobModel<FileMalwareScanJobPayload>): Promise<void> {
+    const fileId = new ObjectId(job.payload.fileId);
+    const collection = this.db.collection<FileModel>(this.collection);
+    const file = await collection.findOne({ _id: fileId, status: FileStatus.PROCESSING });
+    if (!file) {
+      logger.warn('文件不存在或不在等待扫描状态，跳过扫描', { fileId: job.payload.fileId });
+      return;
+    }
+
+    try {
+      // 相同内容已被隔离时不再重复扫描
+      const known = file.sha256
+        ? await collection.findOne({ sha256: file.sha256, status: FileStatus.QUARANTINED })
+        : null;
+      if (known) {
+        await this.quarantine(file, known.malwareScan?.signature);
+        return;
+      }
+
+      const stream = await this.storage.getFileStream(file.filename);
+      if (!stream) {
+        throw new Error(`存储中不存在文件: ${file.filename}`);
+      }
+      const verdict = await this.scanner.scan(stream);
+
+      if (verdict.infected) {
+        await this.quarantine(file, verdict.signature);
+        return;
+      }
+
+      const malwareScan: MalwareScanRecord = {
+        status: MalwareScanStatus.CLEAN,
+        scanner: this.scanner.name,
+        scannedAt: new Date()
+      };
+      const updated = await collection.findOneAndUpdate(
+        { _id: fileId, status: FileStatus.PROCESSING },
+        { $set: { status: FileStatus.ACTIVE, malwareScan, updatedAt: new Date() } },
+        { returnDocument: 'after' }
+      );
+      logger.info('恶意文件扫描通过', { fileId: job.payload.fileId, scanner: this.scanner.name });
+
+      if (updated) {
+        for (const listener of this.cleanListeners) {
+          try {
+            await listener(updated);
+          } catch (error) {
+            logger.warn('扫描通过后的回调执行失败', {
+              fileId: job.payload.fileId,
+              error: error instanceof Error ? error.message : '未知错误'
+            });
+          }
+        }
+      }
+    } catch (error) {
+      const isLastAttempt = job.attempts >= job.maxAttempts;
+      logger.warn('恶意文件扫描失败', {
+        fileId: job.payload.fileId,
+        attempt: job.attempts,
+        willRetry: !isLastAttempt,
+        error: error instanceof Error ? error.message : '未知错误'
+      });
+
+      if (isLastAttempt) {
+        await collection.updateOne(
+          { _id: fileId },
+          { $set: { 'malwareScan.status': MalwareScanStatus.FAILED, updatedAt: new Date() } }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 隔离文件：物理文件移入隔离存储，引用同一物理文件的记录全部标记为 quarantined
+   */
+  private async quarantine(file: FileModel, signature?: string): Promise<void> {
+    if (await this.storage.fileExists(file.filename)) {
+      await this.storage.transferTo(file.filename, this.quarantineStorage);
+    }
+
+    const malwareScan: MalwareScanRecord = {
+      status: MalwareScanStatus.INFECTED,
+      scanner: this.scanner.name,
+      signature,
+      scannedAt: new Date()
+    };
+    const result = await this.db.collection<FileModel>(this.collection).updateMany(
+      { filename: file.filename, status: { $in: [FileStatus.ACTIVE, FileStatus.PROCESSING] } },
+      { $set: { status: FileStatus.QUARANTINED, malwareScan, updatedAt: new Date() } }
+    );
+
+    logger.warn('检测到恶意文件，已移入隔离存储', {
+      fileId: file._id?.toString(),
+      filename: file.filename,
+      signature,
+      affectedFiles: result.modifiedCount
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import type { Readable } from 'node:stream';
+import { ClamdScannerDriver } from './clamd-scanner.driver.js';
+import { NoopScannerDriver } from './noop-scanner.driver.js';
+
+/**
+ * 扫描结果
+ */
+export interface ScanVerdict {
+  infected: boolean;
+  signature?: string;          // 命中的病毒特征名
+}
+
+/**
+ * 恶意文件扫描驱动接口
+ * scan 在无法得出结论（连接失败、超时、扫描器报错）时抛出错误，由调用方重试
+ */
+export interface MalwareScanner {
+  readonly name: string;
+  readonly enabled: boolean;   // 为 false 时上传的文件无需等待扫描
+  scan(stream: Readable): Promise<ScanVerdict>;
+}
+
+/**
+ * 恶意文件扫描配置
+ */
+export interface MalwareScanConfig {
+  driver: 'none' | 'clamd';
+  clamd: {
+    host: string;
+    port: number;
+    socketPath?: string;       // 配置后通过 Unix 套接字连接，忽略 host/port
+    timeoutMs: number;
+  };
+  maxAttempts: number;
+}
+
+export const resolveMalwareScanConfig = (): MalwareScanConfig => ({
+  driver: process.env.MALWARE_SCAN_DRIVER === 'clamd' ? 'clamd' : 'none',
+  clamd: {
+    host: process.env.CLAMD_HOST || '127.0.0.1',
+    port: Number(process.env.CLAMD_PORT) || 3310,
+    socketPath: process.env.CLAMD_SOCKET || undefined,
+    timeoutMs: Number(process.env.CLAMD_TIMEOUT_MS) || 60000
+  },
+  maxAttempts: Number(process.env.MALWARE_SCAN_MAX_ATTEMPTS) || 5
+});
+
+/**
+ * 根据配置创建扫描驱动
+ */
+export function createMalwareScanner(config: MalwareScanConfig = resolveMalwareScanConfig()): MalwareScanner {
+  if (config.driver === 'clamd') {
+    return new ClamdScannerDriver(config.clamd);
+  }
+  return new NoopScannerDriver();
+}
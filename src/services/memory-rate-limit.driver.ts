@@ -0,0 +1,56 @@
+import { rollWindow } from './rate-limit-store.js';
+import type { RateLimitStore, WindowCounts } from './rate-limit-store.js';
+
+/**
+ * 清理过期计数的间隔
+ */
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+interface MemoryEntry extends WindowCounts {
+  windowMs: number;
+}
+
+/**
+ * 进程内限流计数存储，只适用于单实例部署
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private entries = new Map<string, MemoryEntry>();
+  private lastPruneAt = 0;
+  private now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  async hit(key: string, windowMs: number): Promise<WindowCounts> {
+    const now = this.now();
+    this.prune(now);
+    const counts = rollWindow(this.entries.get(key) || null, windowMs, now);
+    const entry: MemoryEntry = { ...counts, current: counts.current + 1, lastHitAt: now, windowMs };
+    this.entries.set(key, entry);
+    return { windowStart: entry.windowStart, current: entry.current, previous: entry.previous, lastHitAt: now };
+  }
+
+  async peek(key: string, windowMs: number): Promise<WindowCounts> {
+    const { windowStart, current, previous, lastHitAt } = rollWindow(this.entries.get(key) || null, windowMs, this.now());
+    return { windowStart, current, previous, lastHitAt };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * 删除两个窗口内没有计数的记录
+   */
+  private prune(now: number): void {
+    if (now - this.lastPruneAt < PRUNE_INTERVAL_MS) return;
+    this.lastPruneAt = now;
+    for (const [key, entry] of this.entries) {
+      if (entry.windowStart + 2 * entry.windowMs <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import type { Db } from 'mongodb';
+import { rollWindow } from './rate-limit-store.js';
+import type { RateLimitStore, WindowCounts } from './rate-limit-store.js';
+import type { RateLimitCounterModel } from '../models/rate-limit.model.js';
+
+/**
+ * MongoDB 限流计数存储，多实例部署时共享计数
+ * 每个计数键一条记录，窗口切换在同一次原子更新中完成，过期记录由 TTL 索引清理
+ */
+export class MongoRateLimitStore implements RateLimitStore {
+  readonly name = 'mongo';
+  private db: Db;
+  private collection: string = 'rate_limits';
+
+  constructor(db: Db) {
+    this.db = db;
+  }
+
+  async ensureIndexes(): Promise<void> {
+    await this.db.collection<RateLimitCounterModel>(this.collection).createIndex(
+      { expiresAt: 1 },
+      { expireAfterSeconds: 0 }
+    );
+  }
+
+  async hit(key: string, windowMs: number): Promise<WindowCounts> {
+    const now = Date.now();
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const sameWindow = { $eq: ['$windowStart', windowStart] };
+    const update = [{
+      $set: {
+        previous: {
+          $cond: [
+            sameWindow,
+            '$previous',
+            { $cond: [{ $eq: ['$windowStart', windowStart - windowMs] }, '$current', 0] }
+          ]
+        },
+        current: { $cond: [sameWindow, { $add: ['$current', 1] }, 1] },
+        windowStart,
+        lastHitAt: now,
+        expiresAt: new Date(windowStart + 2 * windowMs)
+      }
+    }];
+
+    const collection = this.db.collection<RateLimitCounterModel>(this.collection);
+    let doc: RateLimitCounterModel | null;
+    try {
+      doc = await collection.findOneAndUpdate({ _id: key }, update, { upsert: true, returnDocument: 'after' });
+    } catch (error: any) {
+      // 并发创建同一计数键时重试一次
+      if (error?.code !== 11000) throw error;
+      doc = await collection.findOneAndUpdate({ _id: key }, update, { returnDocument: 'after' });
+    }
+    return {
+      windowStart,
+      current: doc?.current ?? 1,
+      previous: doc?.previous ?? 0,
+      lastHitAt: now
+    };
+  }
+
+  async peek(key: string, windowMs: number): Promise<WindowCounts> {
+    const doc = await this.db.collection<RateLimitCounterModel>(this.collection).findOne({ _id: key });
+    const { windowStart, current, previous, lastHitAt } = rollWindow(doc, windowMs, Date.now());
+    return { windowStart, current, previous, lastHitAt };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.db.collection<RateLimitCounterModel>(this.collection).deleteOne({ _id: key });
+  }
+}
@@ -0,0 +1,15 @@
+import type { Readable } from 'node:stream';
+import type { MalwareScanner, ScanVerdict } from './malware-scanner.js';
+
+/**
+ * 不执行扫描的驱动（未配置扫描器时使用），所有文件视为安全
+ */
+export class NoopScannerDriver implements MalwareScanner {
+  readonly name = 'none';
+  readonly enabled = false;
+
+  async scan(stream: Readable): Promise<ScanVerdict> {
+    stream.destroy();
+    return { infected: false };
+  }
+}
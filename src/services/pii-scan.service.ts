@@ -0,0 +1,141 @@
+import { Db, ObjectId } from 'mongodb';
+import { FileModel, PiiScanRecord, PiiType } from '../models/file.model.js';
+import { FileContentModel } from '../models/file-content.model.js';
+import { ReviewService } from './review.service.js';
+import { countPii, redactPii, scanPii } from '../utils/pii-scanner.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建个人信息检测服务日志器
+const logger = createLogger('PiiScanService');
+
+/**
+ * 待检测的文本字段（字段名 → 内容）
+ */
+export type PiiScanFields = Record<string, string | undefined>;
+
+/**
+ * 脱敏副本
+ */
+export interface RedactedCopy {
+  fileId: ObjectId;
+  piiScan?: PiiScanRecord;
+  fields: Record<string, string>;  // 脱敏后的字段内容
+}
+
+/**
+ * 个人信息检测服务
+ * 对文档正文和链接元数据进行检测，检测到个人信息时记录在 piiScan 字段，
+ * 已公开的内容重新进入审核队列；管理员可以获取脱敏副本
+ */
+export class PiiScanService {
+  private db: Db;
+  private collection: string = 'files';
+  private contentsCollection: string = 'file_contents';
+  private reviewService: ReviewService;
+  private enabled: boolean;
+
+  constructor(db: Db, reviewService: ReviewService = new ReviewService(db)) {
+    this.db = db;
+    this.reviewService = reviewService;
+    this.enabled = process.env.PII_SCAN_ENABLED !== 'false';
+    logger.info('个人信息检测服务初始化完成', { enabled: this.enabled });
+  }
+
+  /**
+   * 检测内容中的个人信息并保存检测记录
+   * 检测到个人信息时标记内容需要重新审核
+   */
+  async scan(fileId: ObjectId, fields: PiiScanFields): Promise<PiiScanRecord | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const counts: Partial<Record<PiiType, number>> = {};
+    const flaggedFields: string[] = [];
+    for (const [field, text] of Object.entries(fields)) {
+      const fieldCounts = countPii(scanPii(text || ''));
+      if (Object.keys(fieldCounts).length === 0) continue;
+      flaggedFields.push(field);
+      for (const [type, count] of Object.entries(fieldCounts) as [PiiType, number][]) {
+        counts[type] = (counts[type] || 0) + count;
+      }
+    }
+
+    const record: PiiScanRecord = {
+      flagged: flaggedFields.length > 0,
+      types: Object.keys(counts) as PiiType[],
+      counts,
+      fields: flaggedFields,
+      scannedAt: new Date()
+    };
+
+    await this.db.collection<FileModel>(this.collection).updateOne(
+      { _id: fileId },
+      { $set: { piiScan: record } }
+    );
+
+    if (record.flagged) {
+      const reopened = await this.reviewService.flag(fileId, `检测到个人信息：${record.types.join(', ')}`);
+      logger.warn('检测到个人信息', {
+        fileId: fileId.toString(),
+        types: record.types,
+        fields: record.fields,
+        reopened
+      });
+    }
+
+    return record;
+  }
+
+  /**
+   * 读取已保存的文件或链接及其正文并检测
+   */
+  async scanStored(fileId: ObjectId): Promise<PiiScanRecord | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const file = await this.db.collection<FileModel>(this.collection).findOne({ _id: fileId });
+    if (!file) {
+      return null;
+    }
+    return await this.scan(fileId, await this.collectFields(file));
+  }
+
+  /**
+   * 文件或链接中需要检测的文本字段
+   * 文件检测提取的正文和文档属性，链接检测标题和描述
+   */
+  async collectFields(file: FileModel): Promise<PiiScanFields> {
+    if (file.isLink) {
+      return {
+        description: file.description,
+        linkTitle: file.linkTitle,
+        linkDescription: file.linkDescription
+      };
+    }
+
+    const content = await this.db.collection<FileContentModel>(this.contentsCollection).findOne({
+      _id: file._id as ObjectId
+    });
+    return {
+      description: file.description,
+      content: content?.text,
+      contentTitle: content?.title,
+      contentAuthor: content?.author
+    };
+  }
+
+  /**
+   * 生成脱敏副本，不修改原内容
+   */
+  async getRedactedCopy(file: FileModel): Promise<RedactedCopy> {
+    const fields: Record<string, string> = {};
+    for (const [field, text] of Object.entries(await this.collectFields(file))) {
+      if (text) {
+        fields[field] = redactPii(text);
+      }
+    }
+    return { fileId: file._id as ObjectId, piiScan: file.piiScan, fields };
+  }
+}
@@ -0,0 +1,351 @@
+import { Db, ObjectId } from 'mongodb';
+import { FileModel, FileStatus } from '../models/file.model.js';
+import {
+  DEFAULT_ANONYMOUS_QUOTA,
+  DEFAULT_ROLE_QUOTAS,
+  QuotaLimit,
+  QuotaOverride,
+  QuotaOwner,
+  QuotaSummary,
+  QuotaUsageModel
+} from '../models/quota.model.js';
+import { Role, normalizeRole } from '../models/role.model.js';
+import { User } from '../models/user.model.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建配额服务日志器
+const logger = createLogger('QuotaService');
+
+/**
+ * 全站用量的统计对象
+ */
+export const GLOBAL_QUOTA_KEY = 'global';
+
+/**
+ * 超出配额的错误码
+ */
+export enum QuotaErrorCode {
+  BYTES_EXCEEDED = 'QUOTA_BYTES_EXCEEDED',     // 超出个人存储空间
+  FILES_EXCEEDED = 'QUOTA_FILES_EXCEEDED',     // 超出个人文件数量
+  GLOBAL_EXCEEDED = 'QUOTA_GLOBAL_EXCEEDED'    // 超出全站存储空间
+}
+
+/**
+ * 超出配额错误
+ */
+export class QuotaExceededError extends Error {
+  readonly code: QuotaErrorCode;
+  readonly statusCode = 413;
+  readonly limit: QuotaLimit;
+  readonly usage: { bytes: number; files: number };
+
+  constructor(code: QuotaErrorCode, limit: QuotaLimit, usage: { bytes: number; files: number }) {
+    super(
+      code === QuotaErrorCode.FILES_EXCEEDED ? `文件数量超过配额限制（${limit.maxFiles} 个）` :
+        code === QuotaErrorCode.GLOBAL_EXCEEDED ? '站点存储空间已满，请联系管理员' :
+          `存储空间超过配额限制（${QuotaExceededError.formatBytes(limit.maxBytes as number)}）`
+    );
+    this.name = 'QuotaExceededError';
+    this.code = code;
+    this.limit = limit;
+    this.usage = usage;
+  }
+
+  private static formatBytes(bytes: number): string {
+    return bytes >= 1024 * 1024 * 1024
+      ? `${(bytes / (1024 * 1024 * 1024)).toFixed(1)}GB`
+      : bytes >= 1024 * 1024
+        ? `${(bytes / (1024 * 1024)).toFixed(1)}MB`
+        : `${(bytes / 1024).toFixed(1)}KB`;
+  }
+}
+
+/**
+ * 配额配置
+ */
+interface QuotaConfig {
+  enabled: boolean;            // 关闭后只统计用量，不限制上传
+  roles: Record<Role, QuotaLimit>;
+  anonymous: QuotaLimit;
+  globalMaxBytes: number | null;
+}
+
+/**
+ * 解析配额值：空值使用默认值，unlimited 或 -1 表示不限制
+ */
+const parseLimit = (value: string | undefined, fallback: number | null): number | null => {
+  if (value === undefined || value === '') return fallback;
+  if (value === 'unlimited' || value === '-1') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const resolveLimit = (prefix: string, fallback: QuotaLimit): QuotaLimit => ({
+  maxBytes: parseLimit(process.env[`${prefix}_MAX_BYTES`], fallback.maxBytes),
+  maxFiles: parseLimit(process.env[`${prefix}_MAX_FILES`], fallback.maxFiles)
+});
+
+const resolveConfig = (): QuotaConfig => ({
+  enabled: process.env.QUOTA_ENABLED !== 'false',
+  roles: Object.fromEntries(
+    Object.values(Role).map(role => [role, resolveLimit(`QUOTA_${role.toUpperCase()}`, DEFAULT_ROLE_QUOTAS[role])])
+  ) as Record<Role, QuotaLimit>,
+  anonymous: resolveLimit('QUOTA_ANONYMOUS', DEFAULT_ANONYMOUS_QUOTA),
+  globalMaxBytes: parseLimit(process.env.QUOTA_GLOBAL_MAX_BYTES, null)
+});
+
+/**
+ * 存储配额服务
+ * 按角色和用户限制上传的文件总大小和数量（匿名上传按IP统计），并维护实时用量：
+ * 用量在保存文件记录时原子地预占，删除时归还；统计记录不存在时从文件记录重新计算
+ */
+export class QuotaService {
+  private db: Db;
+  private collection: string = 'quota_usage';
+  private filesCollection: string = 'files';
+  private usersCollection: string = 'users';
+  private config: QuotaConfig;
+
+  constructor(db: Db) {
+    this.db = db;
+    this.config = resolveConfig();
+    logger.info('配额服务初始化完成', {
+      enabled: this.config.enabled,
+      globalMaxBytes: this.config.globalMaxBytes
+    });
+  }
+
+  /**
+   * 统计对象的标识
+   */
+  static keyOf(owner: QuotaOwner): string {
+    return owner.userId ? `user:${owner.userId.toString()}` : `ip:${owner.ip}`;
+  }
+
+  /**
+   * 文件记录的统计对象
+   */
+  static ownerOf(file: Pick<FileModel, 'uploaderId' | 'uploadIp'>): QuotaOwner {
+    return { userId: file.uploaderId, ip: file.uploadIp };
+  }
+
+  /**
+   * 计入用量的文件条件（未删除的文件，不含链接）
+   */
+  private usageFilter(key: string): any {
+    const filter: any = { status: { $ne: FileStatus.DELETED }, isLink: { $ne: true } };
+    if (key.startsWith('user:')) {
+      filter.uploaderId = new ObjectId(key.slice('user:'.length));
+    } else if (key.startsWith('ip:')) {
+      filter.uploaderId = { $exists: false };
+      filter.uploadIp = key.slice('ip:'.length);
+    }
+    return filter;
+  }
+
+  /**
+   * 从文件记录计算用量
+   */
+  private async computeUsage(key: string): Promise<{ bytes: number; files: number }> {
+    const [result] = await this.db.collection<FileModel>(this.filesCollection).aggregate<{ bytes: number; files: number }>([
+      { $match: this.usageFilter(key) },
+      { $group: { _id: null, bytes: { $sum: '$size' }, files: { $sum: 1 } } }
+    ]).toArray();
+    return { bytes: result?.bytes || 0, files: result?.files || 0 };
+  }
+
+  /**
+   * 获取用量，统计记录不存在时从文件记录计算并保存
+   */
+  async getUsage(key: string): Promise<QuotaUsageModel> {
+    const collection = this.db.collection<QuotaUsageModel>(this.collection);
+    const existing = await collection.findOne({ _id: key });
+    if (existing) {
+      return existing;
+    }
+
+    const usage = await this.computeUsage(key);
+    try {
+      await collection.updateOne(
+        { _id: key },
+        { $setOnInsert: { ...usage, updatedAt: new Date() } },
+        { upsert: true }
+      );
+    } catch (error: any) {
+      // 并发创建时以先写入的为准
+      if (error?.code !== 11000) throw error;
+    }
+    return (await collection.findOne({ _id: key })) as QuotaUsageModel;
+  }
+
+  /**
+   * 重新计算统计对象的用量（批量修改文件状态后使用）
+   */
+  async recalculate(owners: QuotaOwner[]): Promise<void> {
+    const keys = new Set([...owners.map(owner => QuotaService.keyOf(owner)), GLOBAL_QUOTA_KEY]);
+    const collection = this.db.collection<QuotaUsageModel>(this.collection);
+    for (const key of keys) {
+      const usage = await this.computeUsage(key);
+      await collection.updateOne(
+        { _id: key },
+        { $set: { ...usage, updatedAt: new Date() } },
+        { upsert: true }
+      );
+    }
+  }
+
+  /**
+   * 获取统计对象适用的配额
+   * 登录用户使用角色默认配额，管理员设置的项覆盖默认值
+   */
+  async resolveLimit(owner: QuotaOwner): Promise<{ limit: QuotaLimit; override?: QuotaOverride }> {
+    if (!owner.userId) {
+      return { limit: { ...this.config.anonymous } };
+    }
+
+    const user = await this.db.collection<User>(this.usersCollection).findOne(
+      { _id: new ObjectId(owner.userId) },
+      { projection: { role: 1, quotaOverride: 1 } }
+    );
+    const limit = { ...this.config.roles[normalizeRole(user?.role)] };
+    const override = user?.quotaOverride;
+    if (override) {
+      if (override.maxBytes !== undefined) limit.maxBytes = override.maxBytes;
+      if (override.maxFiles !== undefined) limit.maxFiles = override.maxFiles;
+    }
+    return { limit, override };
+  }
+
+  /**
+   * 检查是否还能上传指定大小和数量的文件，超出时抛出 QuotaExceededError
+   * 只做预检查，实际用量在保存文件记录时预占
+   */
+  async check(owner: QuotaOwner, bytes: number, files: number = 1): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const { limit } = await this.resolveLimit(owner);
+    const usage = await this.getUsage(QuotaService.keyOf(owner));
+    if (limit.maxFiles !== null && usage.files + files > limit.maxFiles) {
+      throw new QuotaExceededError(QuotaErrorCode.FILES_EXCEEDED, limit, usage);
+    }
+    if (limit.maxBytes !== null && usage.bytes + bytes > limit.maxBytes) {
+      throw new QuotaExceededError(QuotaErrorCode.BYTES_EXCEEDED, limit, usage);
+    }
+
+    if (this.config.globalMaxBytes !== null) {
+      const global = await this.getUsage(GLOBAL_QUOTA_KEY);
+      if (global.bytes + bytes > this.config.globalMaxBytes) {
+        throw new QuotaExceededError(
+          QuotaErrorCode.GLOBAL_EXCEEDED,
+          { maxBytes: this.config.globalMaxBytes, maxFiles: null },
+          global
+        );
+      }
+    }
+  }
+
+  /**
+   * 预占一个文件的用量
+   * 以剩余额度作为更新条件，保证并发上传时不会超出配额；关闭配额时只统计不限制
+   */
+  async reserve(owner: QuotaOwner, bytes: number): Promise<void> {
+    const collection = this.db.collection<QuotaUsageModel>(this.collection);
+    const key = QuotaService.keyOf(owner);
+    const { limit } = await this.resolveLimit(owner);
+    const inc = { $inc: { bytes, files: 1 }, $set: { updatedAt: new Date() } };
+
+    await this.getUsage(key);
+    const filter: any = { _id: key };
+    if (this.config.enabled) {
+      if (limit.maxBytes !== null) filter.bytes = { $lte: limit.maxBytes - bytes };
+      if (limit.maxFiles !== null) filter.files = { $lte: limit.maxFiles - 1 };
+    }
+    if (!(await collection.findOneAndUpdate(filter, inc))) {
+      const usage = await this.getUsage(key);
+      const code = limit.maxFiles !== null && usage.files + 1 > limit.maxFiles
+        ? QuotaErrorCode.FILES_EXCEEDED
+        : QuotaErrorCode.BYTES_EXCEEDED;
+      throw new QuotaExceededError(code, limit, usage);
+    }
+
+    await this.getUsage(GLOBAL_QUOTA_KEY);
+    const globalFilter: any = { _id: GLOBAL_QUOTA_KEY };
+    if (this.config.enabled && this.config.globalMaxBytes !== null) {
+      globalFilter.bytes = { $lte: this.config.globalMaxBytes - bytes };
+    }
+    if (!(await collection.findOneAndUpdate(globalFilter, inc))) {
+      await collection.updateOne({ _id: key }, { $inc: { bytes: -bytes, files: -1 } });
+      throw new QuotaExceededError(
+        QuotaErrorCode.GLOBAL_EXCEEDED,
+        { maxBytes: this.config.globalMaxBytes, maxFiles: null },
+        await this.getUsage(GLOBAL_QUOTA_KEY)
+      );
+    }
+  }
+
+  /**
+   * 归还一个文件的用量
+   * 统计记录不存在时不处理，下次读取时会从文件记录重新计算
+   */
+  async release(owner: QuotaOwner, bytes: number): Promise<void> {
+    const collection = this.db.collection<QuotaUsageModel>(this.collection);
+    const update = { $inc: { bytes: -bytes, files: -1 }, $set: { updatedAt: new Date() } };
+    await collection.updateOne({ _id: QuotaService.keyOf(owner) }, update);
+    await collection.updateOne({ _id: GLOBAL_QUOTA_KEY }, update);
+  }
+
+  /**
+   * 获取配额使用情况
+   */
+  async getSummary(owner: QuotaOwner): Promise<QuotaSummary> {
+    const key = QuotaService.keyOf(owner);
+    const [{ limit, override }, usage] = await Promise.all([
+      this.resolveLimit(owner),
+      this.getUsage(key)
+    ]);
+    return {
+      owner: key,
+      limit,
+      usage: { bytes: usage.bytes, files: usage.files },
+      remaining: {
+        maxBytes: limit.maxBytes === null ? null : Math.max(limit.maxBytes - usage.bytes, 0),
+        maxFiles: limit.maxFiles === null ? null : Math.max(limit.maxFiles - usage.files, 0)
+      },
+      override
+    };
+  }
+
+  /**
+   * 设置用户的配额（管理员操作），返回用户是否存在
+   */
+  async setOverride(
+    userId: ObjectId,
+    override: Pick<QuotaOverride, 'maxBytes' | 'maxFiles'>,
+    adminId: ObjectId
+  ): Promise<boolean> {
+    const value: QuotaOverride = { updatedBy: adminId, updatedAt: new Date() };
+    if (override.maxBytes !== undefined) value.maxBytes = override.maxBytes;
+    if (override.maxFiles !== undefined) value.maxFiles = override.maxFiles;
+
+    const result = await this.db.collection<User>(this.usersCollection).updateOne(
+      { _id: userId },
+      { $set: { quotaOverride: value } }
+    );
+    logger.info('设置用户配额', { userId: userId.toString(), override: value, adminId: adminId.toString() });
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * 清除用户的配额设置，恢复角色默认值
+   */
+  async clearOverride(userId: ObjectId): Promise<boolean> {
+    const result = await this.db.collection<User>(this.usersCollection).updateOne(
+      { _id: userId },
+      { $unset: { quotaOverride: '' } }
+    );
+    logger.info('清除用户配额设置', { userId: userId.toString() });
+    return result.matchedCount > 0;
+  }
+}
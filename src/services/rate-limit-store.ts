@@ -0,0 +1,121 @@
+import type { Db } from 'mongodb';
+import { MemoryRateLimitStore } from './memory-rate-limit.driver.js';
+import { MongoRateLimitStore } from './mongo-rate-limit.driver.js';
+
+/**
+ * 计数窗口状态（固定窗口计数，用当前和上一窗口的计数估算滑动窗口）
+ */
+export interface WindowCounts {
+  windowStart: number;         // 当前窗口的开始时间（毫秒时间戳）
+  current: number;             // 当前窗口的计数
+  previous: number;            // 上一窗口的计数
+  lastHitAt?: number;          // 最后一次计数的时间
+}
+
+/**
+ * 限流计数存储接口
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  hit(key: string, windowMs: number): Promise<WindowCounts>;   // 计数加一并返回最新状态
+  peek(key: string, windowMs: number): Promise<WindowCounts>;  // 只读取，不计数
+  reset(key: string): Promise<void>;
+  ensureIndexes?(): Promise<void>;
+}
+
+/**
+ * 限流策略
+ */
+export interface RateLimitPolicy {
+  max: number;                 // 窗口内允许的请求数
+  windowMs: number;            // 窗口长度（毫秒）
+}
+
+/**
+ * 限流策略名称
+ */
+export type RateLimitPolicyName = 'login' | 'register' | 'forgot-password' | 'link-upload';
+
+/**
+ * 限流配置
+ */
+export interface RateLimitConfig {
+  enabled: boolean;
+  store: 'memory' | 'mongo';
+  policies: Record<RateLimitPolicyName, RateLimitPolicy>;
+  allowlist: string[];         // 不受限流的IP或网段
+  loginLockout: {
+    threshold: number;         // 同一账号在同一IP连续失败多少次后锁定该IP对该账号的登录
+    accountThreshold: number;  // 同一账号在所有IP累计失败多少次后锁定账号（应远大于 threshold）
+    baseDelayMs: number;       // 首次锁定时长，之后每次失败翻倍
+    maxDelayMs: number;        // 最长锁定时长
+    windowMs: number;          // 失败次数的统计窗口
+  };
+}
+
+const DEFAULT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  'login': { max: 10, windowMs: 15 * 60 * 1000 },
+  'register': { max: 5, windowMs: 60 * 60 * 1000 },
+  'forgot-password': { max: 5, windowMs: 60 * 60 * 1000 },
+  'link-upload': { max: 30, windowMs: 10 * 60 * 1000 }
+};
+
+/**
+ * 解析策略配置，格式为 "次数/秒数"（如 10/900）
+ */
+const parsePolicy = (value: string | undefined, fallback: RateLimitPolicy): RateLimitPolicy => {
+  const match = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(value || '');
+  if (!match || Number(match[2]) === 0) return fallback;
+  return { max: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+};
+
+export const resolveRateLimitConfig = (): RateLimitConfig => ({
+  enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+  store: process.env.RATE_LIMIT_STORE === 'mongo' ? 'mongo' : 'memory',
+  policies: Object.fromEntries(
+    (Object.keys(DEFAULT_POLICIES) as RateLimitPolicyName[]).map(name => [
+      name,
+      parsePolicy(process.env[`RATE_LIMIT_${name.toUpperCase().replace('-', '_')}`], DEFAULT_POLICIES[name])
+    ])
+  ) as Record<RateLimitPolicyName, RateLimitPolicy>,
+  allowlist: (process.env.RATE_LIMIT_ALLOWLIST || '').split(',').map(rule => rule.trim()).filter(Boolean),
+  loginLockout: {
+    threshold: Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 5,
+    accountThreshold: Number(process.env.LOGIN_LOCKOUT_ACCOUNT_THRESHOLD) || 50,
+    baseDelayMs: (Number(process.env.LOGIN_LOCKOUT_BASE_SECONDS) || 30) * 1000,
+    maxDelayMs: (Number(process.env.LOGIN_LOCKOUT_MAX_SECONDS) || 15 * 60) * 1000,
+    windowMs: (Number(process.env.LOGIN_LOCKOUT_WINDOW_SECONDS) || 60 * 60) * 1000
+  }
+});
+
+/**
+ * 将计数状态推进到 now 所在的窗口
+ */
+export function rollWindow(state: WindowCounts | null, windowMs: number, now: number): WindowCounts {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  if (!state || state.windowStart < windowStart - windowMs) {
+    return { windowStart, current: 0, previous: 0, lastHitAt: state?.lastHitAt };
+  }
+  if (state.windowStart < windowStart) {
+    return { windowStart, current: 0, previous: state.current, lastHitAt: state.lastHitAt };
+  }
+  return state;
+}
+
+/**
+ * 估算滑动窗口内的请求数：上一窗口的计数按仍在滑动窗口内的比例折算
+ */
+export function slidingCount(counts: WindowCounts, windowMs: number, now: number): number {
+  const elapsed = Math.min(Math.max(now - counts.windowStart, 0), windowMs);
+  return counts.previous * ((windowMs - elapsed) / windowMs) + counts.current;
+}
+
+/**
+ * 根据配置创建计数存储
+ */
+export function createRateLimitStore(config: RateLimitConfig, db: Db): RateLimitStore {
+  if (config.store === 'mongo') {
+    return new MongoRateLimitStore(db);
+  }
+  return new MemoryRateLimitStore();
+}
@@ -0,0 +1,272 @@
+import { Db, ObjectId } from 'mongodb';
+import { RateLimitAllowlistEntry, RateLimitResult } from '../models/rate-limit.model.js';
+import {
+  RateLimitConfig,
+  RateLimitPolicyName,
+  RateLimitStore,
+  createRateLimitStore,
+  resolveRateLimitConfig,
+  slidingCount
+} from './rate-limit-store.js';
+import { createIpMatcher, isValidIpRule, normalizeIp } from '../utils/ip-allowlist.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建限流服务日志器
+const logger = createLogger('RateLimitService');
+
+/**
+ * 白名单缓存的刷新间隔（多实例部署时其他实例的修改最迟在此间隔后生效）
+ */
+const ALLOWLIST_REFRESH_MS = 60 * 1000;
+
+/**
+ * 限流请求方（登录用户按用户计数，匿名请求按IP计数）
+ */
+export interface RateLimitSubject {
+  ip: string;
+  userId?: string;
+}
+
+/**
+ * 计算连续登录失败后的锁定时长：达到阈值后从基础时长开始，每多失败一次翻倍，不超过上限
+ * threshold 默认为按账号和IP计数的阈值，按账号累计计数时传入 accountThreshold
+ */
+export function resolveLoginLockMs(
+  failures: number,
+  lockout: RateLimitConfig['loginLockout'],
+  threshold: number = lockout.threshold
+): number {
+  if (failures < threshold) return 0;
+  return Math.min(lockout.baseDelayMs * 2 ** (failures - threshold), lockout.maxDelayMs);
+}
+
+/**
+ * 限流服务
+ * 按策略对公开接口限流（滑动窗口计数），对登录失败逐步延长锁定时间：
+ * 按账号和IP计数，避免他人从别的IP故意输错密码锁定账号；按账号累计的阈值较宽松，用于限制分散IP的猜测；
+ * 白名单（环境变量和管理员维护的列表）内的IP不受接口限流
+ */
+export class RateLimitService {
+  private db: Db;
+  private allowlistCollection: string = 'rate_limit_allowlist';
+  private config: RateLimitConfig;
+  private store: RateLimitStore;
+  private allowlistMatcher: (ip: string) => boolean;
+  private allowlistLoadedAt = 0;
+
+  constructor(
+    db: Db,
+    config: RateLimitConfig = resolveRateLimitConfig(),
+    store: RateLimitStore = createRateLimitStore(config, db)
+  ) {
+    this.db = db;
+    this.config = config;
+    this.store = store;
+    this.allowlistMatcher = createIpMatcher(config.allowlist);
+    logger.info('限流服务初始化完成', {
+      enabled: config.enabled,
+      store: store.name,
+      policies: config.policies,
+      allowlist: config.allowlist
+    });
+  }
+
+  /**
+   * 创建索引并加载白名单
+   */
+  async ensureIndexes(): Promise<void> {
+    await this.store.ensureIndexes?.();
+    await this.db.collection<RateLimitAllowlistEntry>(this.allowlistCollection).createIndex({ rule: 1 }, { unique: true });
+    await this.reloadAllowlist();
+  }
+
+  /**
+   * 重新加载白名单（环境变量配置加上管理员添加的规则）
+   */
+  async reloadAllowlist(): Promise<void> {
+    const entries = await this.db.collection<RateLimitAllowlistEntry>(this.allowlistCollection)
+      .find({}, { projection: { rule: 1 } })
+      .toArray();
+    this.allowlistMatcher = createIpMatcher([...this.config.allowlist, ...entries.map(entry => entry.rule)]);
+    this.allowlistLoadedAt = Date.now();
+  }
+
+  /**
+   * 判断IP是否在白名单内
+   */
+  async isAllowlisted(ip: string): Promise<boolean> {
+    if (Date.now() - this.allowlistLoadedAt > ALLOWLIST_REFRESH_MS) {
+      try {
+        await this.reloadAllowlist();
+      } catch (error) {
+        logger.warn('刷新限流白名单失败，继续使用缓存', {
+          error: error instanceof Error ? error.message : '未知错误'
+        });
+      }
+    }
+    return this.allowlistMatcher(ip);
+  }
+
+  /**
+   * 按策略计数并判断是否放行；未开启限流或IP在白名单内时返回 null
+   */
+  async consume(policyName: RateLimitPolicyName, subject: RateLimitSubject): Promise<RateLimitResult | null> {
+    if (!this.config.enabled || await this.isAllowlisted(subject.ip)) {
+      return null;
+    }
+
+    const policy = this.config.policies[policyName];
+    const key = subject.userId
+      ? `${policyName}:user:${subject.userId}`
+      : `${policyName}:ip:${normalizeIp(subject.ip)}`;
+    const counts = await this.store.hit(key, policy.windowMs);
+    const now = Date.now();
+    const count = slidingCount(counts, policy.windowMs, now);
+    const resetMs = Math.max(counts.windowStart + policy.windowMs - now, 0);
+
+    let retryAfterMs = 0;
+    if (count > policy.max) {
+      // 上一窗口的计数随时间折算减少，求出估算值回落到上限以内的时间；本窗口已超限时至少等到窗口结束
+      retryAfterMs = counts.current > policy.max || counts.previous === 0
+        ? resetMs
+        : Math.max(resetMs - ((policy.max - counts.current) * policy.windowMs) / counts.previous, 1000);
+    }
+
+    return {
+      allowed: count <= policy.max,
+      limit: policy.max,
+      remaining: Math.max(Math.floor(policy.max - count), 0),
+      resetMs,
+      retryAfterMs: Math.ceil(retryAfterMs),
+      windowMs: policy.windowMs
+    };
+  }
+
+  /**
+   * 从该IP登录账号剩余的锁定时间（毫秒），未锁定时为 0
+   * 计数存储不可用时不阻止登录
+   */
+  async getLoginLockMs(username: string, ip: string): Promise<number> {
+    if (!this.config.enabled) return 0;
+    const { loginLockout } = this.config;
+    try {
+      const now = Date.now();
+      const locks = await Promise.all(this.loginCounters(username, ip).map(async ({ key, threshold }) => {
+        const counts = await this.store.peek(key, loginLockout.windowMs);
+        const failures = Math.ceil(slidingCount(counts, loginLockout.windowMs, now));
+        const lockMs = resolveLoginLockMs(failures, loginLockout, threshold);
+        return lockMs && counts.lastHitAt ? Math.max(counts.lastHitAt + lockMs - now, 0) : 0;
+      }));
+      return Math.max(...locks);
+    } catch (error) {
+      logger.warn('读取登录失败次数出错', { error: error instanceof Error ? error.message : '未知错误' });
+      return 0;
+    }
+  }
+
+  /**
+   * 记录一次登录失败，返回此后该IP登录账号的锁定时长（毫秒）
+   */
+  async recordLoginFailure(username: string, ip: string): Promise<number> {
+    if (!this.config.enabled) return 0;
+    const { loginLockout } = this.config;
+    try {
+      const now = Date.now();
+      const locks = await Promise.all(this.loginCounters(username, ip).map(async ({ key, threshold }) => {
+        const counts = await this.store.hit(key, loginLockout.windowMs);
+        const failures = Math.ceil(slidingCount(counts, loginLockout.windowMs, now));
+        return { failures, lockMs: resolveLoginLockMs(failures, loginLockout, threshold) };
+      }));
+      const [perIp, account] = locks;
+      const lockMs = Math.max(perIp.lockMs, account.lockMs);
+      if (lockMs > 0) {
+        logger.warn('登录失败次数过多，暂时锁定', {
+          username,
+          ip,
+          failures: perIp.failures,
+          accountFailures: account.failures,
+          lockMs
+        });
+      }
+      return lockMs;
+    } catch (error) {
+      logger.warn('记录登录失败次数出错', { error: error instanceof Error ? error.message : '未知错误' });
+      return 0;
+    }
+  }
+
+  /**
+   * 登录成功后清除该IP的失败次数
+   * 按账号累计的次数不清除，随统计窗口自然减少，避免猜测者借用户本人的成功登录清零
+   */
+  async resetLoginFailures(username: string, ip: string): Promise<void> {
+    try {
+      await this.store.reset(this.loginCounters(username, ip)[0].key);
+    } catch (error) {
+      logger.warn('清除登录失败次数出错', { error: error instanceof Error ? error.message : '未知错误' });
+    }
+  }
+
+  /**
+   * 登录失败计数：按账号和IP计数，以及按账号累计计数
+   */
+  private loginCounters(username: string, ip: string): { key: string; threshold: number }[] {
+    const account = username.trim().toLowerCase();
+    return [
+      { key: `login-failure:ip:${normalizeIp(ip)}:${account}`, threshold: this.config.loginLockout.threshold },
+      { key: `login-failure:account:${account}`, threshold: this.config.loginLockout.accountThreshold }
+    ];
+  }
+
+  /**
+   * 获取管理员添加的白名单
+   */
+  async listAllowlist(): Promise<RateLimitAllowlistEntry[]> {
+    return await this.db.collection<RateLimitAllowlistEntry>(this.allowlistCollection)
+      .find({})
+      .sort({ createdAt: -1 })
+      .toArray();
+  }
+
+  /**
+   * 添加白名单规则，规则无效时抛出错误，已存在时返回 null
+   */
+  async addAllowlistEntry(rule: string, note: string | undefined, adminId: ObjectId): Promise<RateLimitAllowlistEntry | null> {
+    const normalized = rule.trim();
+    if (!isValidIpRule(normalized)) {
+      throw new Error(`无效的IP或网段: ${rule}`);
+    }
+
+    const entry: RateLimitAllowlistEntry = {
+      rule: normalized,
+      note: note?.trim() || undefined,
+      createdBy: adminId,
+      createdAt: new Date()
+    };
+    try {
+      const { insertedId } = await this.db.collection<RateLimitAllowlistEntry>(this.allowlistCollection).insertOne(entry);
+      entry._id = insertedId;
+    } catch (error: any) {
+      if (error?.code === 11000) return null;
+      throw error;
+    }
+
+    await this.reloadAllowlist();
+    logger.info('添加限流白名单', { rule: normalized, note: entry.note, adminId: adminId.toString() });
+    return entry;
+  }
+
+  /**
+   * 删除白名单规则
+   */
+  async removeAllowlistEntry(id: ObjectId): Promise<boolean> {
+    const result = await this.db.collection<RateLimitAllowlistEntry>(this.allowlistCollection).deleteOne({ _id: id });
+    if (result.deletedCount === 0) {
+      return false;
+    }
+
+    await this.reloadAllowlist();
+    logger.info('删除限流白名单', { id: id.toString() });
+    return true;
+  }
+}
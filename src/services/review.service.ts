@@ -0,0 +1,238 @@
+import { Db, ObjectId } from 'mongodb';
+import { FileModel, FileStatus, ReviewStatus } from '../models/file.model.js';
+import {
+  APPROVED_FILTER,
+  ReviewAction,
+  ReviewAuditModel,
+  ReviewAuditQuery,
+  ReviewQueueQuery,
+  REVIEW_TRANSITIONS
+} from '../models/review.model.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建审核服务日志器
+const logger = createLogger('ReviewService');
+
+/**
+ * 审核操作人
+ */
+export interface Reviewer {
+  id: string;
+  username: string;
+}
+
+/**
+ * 审核状态流转错误
+ */
+export class ReviewTransitionError extends Error {
+  readonly currentStatus: ReviewStatus;
+
+  constructor(action: ReviewAction, currentStatus: ReviewStatus) {
+    super(`当前审核状态为 ${currentStatus}，不能执行 ${action} 操作`);
+    this.name = 'ReviewTransitionError';
+    this.currentStatus = currentStatus;
+  }
+}
+
+/**
+ * 新提交内容的初始审核状态
+ * CONTENT_REVIEW_ENABLED=false 时跳过审核直接公开
+ */
+export const resolveInitialReviewStatus = (): ReviewStatus =>
+  process.env.CONTENT_REVIEW_ENABLED === 'false' ? ReviewStatus.APPROVED : ReviewStatus.SUBMITTED;
+
+/**
+ * 内容审核服务
+ * 维护上传文件和链接的审核状态机，并记录每一次审核操作
+ */
+export class ReviewService {
+  private db: Db;
+  private collection: string = 'files';
+  private auditCollection: string = 'review_audit';
+
+  constructor(db: Db) {
+    this.db = db;
+    logger.info('审核服务初始化完成', { auditCollection: this.auditCollection });
+  }
+
+  /**
+   * 创建审核队列和审核记录索引
+   */
+  async ensureIndexes(): Promise<void> {
+    await this.db.collection<FileModel>(this.collection).createIndex(
+      { reviewStatus: 1, uploadedAt: 1 },
+      { partialFilterExpression: { reviewStatus: { $exists: true } } }
+    );
+    const audit = this.db.collection<ReviewAuditModel>(this.auditCollection);
+    await audit.createIndex({ fileId: 1, createdAt: 1 });
+    await audit.createIndex({ reviewerId: 1, createdAt: -1 });
+  }
+
+  /**
+   * 获取审核队列（按提交时间先进先出）
+   */
+  async getQueue(query: ReviewQueueQuery): Promise<{ items: FileModel[]; total: number }> {
+    const collection = this.db.collection<FileModel>(this.collection);
+    const filter: any = {
+      status: { $ne: FileStatus.DELETED },
+      reviewStatus: { $in: query.statuses }
+    };
+    if (query.kinds.length === 1) {
+      filter.isLink = query.kinds[0] === 'link' ? true : { $ne: true };
+    }
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const [items, total] = await Promise.all([
+      collection.find(filter)
+        .sort({ uploadedAt: 1 })
+        .skip(skip)
+        .limit(limit)
+        .toArray(),
+      collection.countDocuments(filter)
+    ]);
+
+    return { items, total };
+  }
+
+  /**
+   * 执行审核操作
+   * 以当前状态作为更新条件，保证并发操作下状态流转合法；成功后写入审核记录
+   */
+  async transition(
+    fileId: ObjectId,
+    action: ReviewAction,
+    reviewer: Reviewer,
+    reason?: string
+  ): Promise<FileModel | null> {
+    const collection = this.db.collection<FileModel>(this.collection);
+    const { from, to } = REVIEW_TRANSITIONS[action];
+
+    const current = await collection.findOne({ _id: fileId, status: { $ne: FileStatus.DELETED } });
+    if (!current) {
+      return null;
+    }
+
+    // 历史内容没有审核状态，按已通过处理
+    const fromStatus = current.reviewStatus || ReviewStatus.APPROVED;
+    if (!from.includes(fromStatus)) {
+      throw new ReviewTransitionError(action, fromStatus);
+    }
+
+    const now = new Date();
+    const set: Partial<FileModel> = {
+      reviewStatus: to,
+      reviewerId: new ObjectId(reviewer.id),
+      reviewedAt: now,
+      updatedAt: now
+    };
+    const update: any = { $set: set };
+    if (action === ReviewAction.REJECT) {
+      set.reviewReason = reason;
+    } else {
+      update.$unset = { reviewReason: '' };
+    }
+
+    const updated = await collection.findOneAndUpdate(
+      {
+        _id: fileId,
+        status: { $ne: FileStatus.DELETED },
+        reviewStatus: current.reviewStatus ? current.reviewStatus : { $exists: false }
+      },
+      update,
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      // 读取后状态已被其他审核员修改
+      const latest = await collection.findOne({ _id: fileId }, { projection: { reviewStatus: 1 } });
+      throw new ReviewTransitionError(action, latest?.reviewStatus || fromStatus);
+    }
+
+    await this.db.collection<ReviewAuditModel>(this.auditCollection).insertOne({
+      fileId,
+      isLink: !!current.isLink,
+      action,
+      fromStatus,
+      toStatus: to,
+      reviewerId: new ObjectId(reviewer.id),
+      reviewerName: reviewer.username,
+      reason: reason || undefined,
+      createdAt: now
+    });
+
+    logger.info('审核操作成功', {
+      fileId: fileId.toString(),
+      action,
+      fromStatus,
+      toStatus: to,
+      reviewerId: reviewer.id
+    });
+
+    return updated;
+  }
+
+  /**
+   * 系统标记内容需要重新审核（如检测到个人信息）
+   * 只处理已公开的内容，使其回到待审核状态；待审核、审核中和已驳回的内容保持不变，返回是否发生了流转
+   */
+  async flag(fileId: ObjectId, reason: string): Promise<boolean> {
+    const { to } = REVIEW_TRANSITIONS[ReviewAction.FLAG];
+    const now = new Date();
+
+    const current = await this.db.collection<FileModel>(this.collection).findOneAndUpdate(
+      { _id: fileId, status: { $ne: FileStatus.DELETED }, ...APPROVED_FILTER },
+      { $set: { reviewStatus: to, updatedAt: now } },
+      { projection: { isLink: 1 } }
+    );
+    if (!current) {
+      return false;
+    }
+
+    await this.db.collection<ReviewAuditModel>(this.auditCollection).insertOne({
+      fileId,
+      isLink: !!current.isLink,
+      action: ReviewAction.FLAG,
+      fromStatus: ReviewStatus.APPROVED,
+      toStatus: to,
+      reviewerName: 'system',
+      reason,
+      createdAt: now
+    });
+
+    logger.info('内容已标记为需要重新审核', { fileId: fileId.toString(), reason });
+    return true;
+  }
+
+  /**
+   * 查询审核记录
+   */
+  async getAuditLog(query: ReviewAuditQuery): Promise<{ records: ReviewAuditModel[]; total: number }> {
+    const collection = this.db.collection<ReviewAuditModel>(this.auditCollection);
+    const filter: any = {};
+    if (query.fileId) filter.fileId = query.fileId;
+    if (query.reviewerId) filter.reviewerId = query.reviewerId;
+    if (query.action) filter.action = query.action;
+    if (query.startDate || query.endDate) {
+      filter.createdAt = {};
+      if (query.startDate) filter.createdAt.$gte = query.startDate;
+      if (query.endDate) filter.createdAt.$lte = query.endDate;
+    }
+
+    const page = query.page || 1;
+    const limit = query.limit || 50;
+    const skip = (page - 1) * limit;
+
+    const [records, total] = await Promise.all([
+      collection.find(filter)
+        .sort({ createdAt: query.fileId ? 1 : -1 })
+        .skip(skip)
+        .limit(limit)
+        .toArray(),
+      collection.countDocuments(filter)
+    ]);
+
+    return { records, total };
+  }
+}
@@ -0,0 +1,113 @@
+import { Readable } from 'node:stream';
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  S3Client,
+  S3ServiceException
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type {
+  PresignOptions,
+  StorageConfig,
+  StorageDriver,
+  StorageObjectStat,
+  StorageRange
+} from './storage-driver.js';
+
+/**
+ * S3 兼容存储驱动（AWS S3、MinIO 等）
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+
+  constructor(config: StorageConfig['s3'], client?: S3Client) {
+    this.bucket = config.bucket;
+    this.prefix = config.prefix;
+    this.client = client || new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined
+    });
+  }
+
+  private objectKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  async put(key: string, body: Readable | Buffer, contentType?: string): Promise<void> {
+    // 流式分段上传，无需预先知道文件大小
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: body,
+        ContentType: contentType
+      }
+    });
+    await upload.done();
+  }
+
+  async getStream(key: string, range?: StorageRange): Promise<Readable> {
+    const result = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined
+    }));
+    if (!(result.Body instanceof Readable)) {
+      throw new Error(`无法读取存储对象: ${key}`);
+    }
+    return result.Body;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    // S3 删除不存在的对象也会成功，先确认是否存在
+    if (!(await this.exists(key))) return false;
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+    return true;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.stat(key)) !== null;
+  }
+
+  async stat(key: string): Promise<StorageObjectStat | null> {
+    try {
+      const head = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      return { size: head.ContentLength ?? 0, lastModified: head.LastModified ?? new Date(0) };
+    } catch (error) {
+      if (error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    await this.client.send(new CopyObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(toKey),
+      CopySource: `${this.bucket}/${encodeURIComponent(this.objectKey(fromKey))}`
+    }));
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(fromKey) }));
+  }
+
+  async presign(key: string, options: PresignOptions): Promise<string | null> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      ResponseContentType: options.contentType,
+      ResponseContentDisposition: options.downloadName
+        ? `attachment; filename*=UTF-8''${encodeURIComponent(options.downloadName)}`
+        : undefined
+    });
+    return await getSignedUrl(this.client, command, { expiresIn: options.expiresIn });
+  }
+}
@@ -0,0 +1,205 @@
+import { Db, ObjectId } from 'mongodb';
+import { FileModel, FileStatus, HIDDEN_STATUSES } from '../models/file.model.js';
+import { FileContentModel } from '../models/file-content.model.js';
+import { approvedFilterFor } from '../models/review.model.js';
+import { SearchHit, SearchIndexEntry, SearchQuery } from '../models/search.model.js';
+import { JobQueueService } from './job-queue.service.js';
+import { tokenizeForIndex, tokenizeQuery } from '../utils/search-tokenizer.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建搜索服务日志器
+const logger = createLogger('SearchService');
+
+/**
+ * 相关度权重：标题命中 > 标签/分类命中 > 其他字段命中
+ */
+const TITLE_WEIGHT = 3;
+const TAG_WEIGHT = 2;
+
+/**
+ * 历史内容补建索引任务类型
+ */
+export const SEARCH_BACKFILL_JOB = 'search-backfill';
+
+/**
+ * 全文搜索服务
+ * 为文件和链接（含文档正文）维护分词索引（search_index 集合），查询时按相关度排序，只返回审核通过的内容
+ */
+export class SearchService {
+  private db: Db;
+  private collection: string = 'search_index';
+  private filesCollection: string = 'files';
+  private contentsCollection: string = 'file_contents';
+  private jobQueue: JobQueueService;
+
+  constructor(db: Db, jobQueue: JobQueueService = new JobQueueService(db)) {
+    this.db = db;
+    this.jobQueue = jobQueue;
+    this.jobQueue.registerHandler(SEARCH_BACKFILL_JOB, async () => {
+      await this.backfill();
+    });
+    logger.info('搜索服务初始化完成', { collection: this.collection });
+  }
+
+  /**
+   * 创建索引词索引，并提交后台任务为尚未建立索引的历史内容补建，不阻塞启动
+   */
+  async ensureIndexes(): Promise<void> {
+    const collection = this.db.collection<SearchIndexEntry>(this.collection);
+    await collection.createIndex({ tokens: 1 });
+    await this.jobQueue.enqueue(SEARCH_BACKFILL_JOB, {}, { dedupeKey: SEARCH_BACKFILL_JOB });
+  }
+
+  /**
+   * 为尚未建立索引的历史内容补建索引，返回补建的数量
+   */
+  async backfill(): Promise<number> {
+    const missing = this.db.collection<FileModel>(this.filesCollection).aggregate<{ _id: ObjectId }>([
+      { $match: { status: { $ne: FileStatus.DELETED } } },
+      { $lookup: { from: this.collection, localField: '_id', foreignField: '_id', as: 'entry' } },
+      { $match: { entry: { $size: 0 } } },
+      { $project: { _id: 1 } }
+    ]);
+    let indexed = 0;
+    for await (const { _id } of missing) {
+      await this.indexFile(_id);
+      indexed++;
+    }
+    if (indexed > 0) {
+      logger.info('已为历史内容建立搜索索引', { count: indexed });
+    }
+    return indexed;
+  }
+
+  /**
+   * 构建索引条目
+   */
+  private buildEntry(file: FileModel, content: FileContentModel | null): Omit<SearchIndexEntry, '_id'> {
+    const titleTokens = tokenizeForIndex(file.linkTitle, file.originalName, content?.title);
+    const tagTokens = tokenizeForIndex(...(file.tags || []), ...(file.categories || []));
+    const tokens = tokenizeForIndex(
+      file.linkTitle,
+      file.originalName,
+      ...(file.tags || []),
+      ...(file.categories || []),
+      file.description,
+      file.linkDescription,
+      file.linkSiteName,
+      file.linkUrl,
+      content?.title,
+      content?.author,
+      content?.text
+    );
+
+    return {
+      isLink: !!file.isLink,
+      titleTokens,
+      tagTokens,
+      tokens,
+      indexedAt: new Date()
+    };
+  }
+
+  /**
+   * 重建单个文件或链接的索引，已删除的内容移出索引
+   */
+  async indexFile(fileId: ObjectId): Promise<void> {
+    const file = await this.db.collection<FileModel>(this.filesCollection).findOne({ _id: fileId });
+    if (!file || file.status === FileStatus.DELETED) {
+      await this.removeFile(fileId);
+      return;
+    }
+
+    const content = file.isLink
+      ? null
+      : await this.db.collection<FileContentModel>(this.contentsCollection).findOne({ _id: fileId });
+
+    await this.db.collection<SearchIndexEntry>(this.collection).replaceOne(
+      { _id: fileId },
+      this.buildEntry(file, content),
+      { upsert: true }
+    );
+    logger.dev('搜索索引已更新', { fileId: fileId.toString() });
+  }
+
+  /**
+   * 后台更新索引（不等待完成，失败只记录日志）
+   */
+  scheduleIndex(fileId: ObjectId): void {
+    this.indexFile(fileId).catch(error => {
+      logger.error('更新搜索索引失败', {
+        fileId: fileId.toString(),
+        error: error instanceof Error ? error.message : '未知错误'
+      });
+    });
+  }
+
+  /**
+   * 移除索引
+   */
+  async removeFile(fileId: ObjectId): Promise<void> {
+    await this.db.collection<SearchIndexEntry>(this.collection).deleteOne({ _id: fileId });
+  }
+
+  /**
+   * 搜索文件和链接
+   * 所有查询词都需命中，按加权命中数降序、上传时间倒序排列
+   */
+  async search(query: SearchQuery): Promise<{ items: SearchHit[]; total: number }> {
+    const terms = tokenizeQuery(query.q);
+    if (terms.length === 0) {
+      return { items: [], total: 0 };
+    }
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const skip = (page - 1) * limit;
+
+    const entryFilter: any = { tokens: { $all: terms } };
+    if (query.type === 'file') entryFilter.isLink = false;
+    if (query.type === 'link') entryFilter.isLink = true;
+
+    const fileFilter: any = {
+      'file.status': { $nin: HIDDEN_STATUSES },
+      ...approvedFilterFor('file.reviewStatus')
+    };
+    if (query.categories && query.categories.length > 0) {
+      fileFilter['file.categories'] = { $in: query.categories };
+    }
+
+    const [result] = await this.db.collection<SearchIndexEntry>(this.collection).aggregate<{
+      items: Array<{ file: FileModel; score: number }>;
+      total: Array<{ count: number }>;
+    }>([
+      { $match: entryFilter },
+      { $lookup: { from: this.filesCollection, localField: '_id', foreignField: '_id', as: 'file' } },
+      { $unwind: '$file' },
+      { $match: fileFilter },
+      {
+        $addFields: {
+          score: {
+            $add: [
+              1,
+              { $multiply: [TITLE_WEIGHT, { $size: { $setIntersection: ['$titleTokens', terms] } }] },
+              { $multiply: [TAG_WEIGHT, { $size: { $setIntersection: ['$tagTokens', terms] } }] }
+            ]
+          }
+        }
+      },
+      { $sort: { score: -1, 'file.uploadedAt': -1 } },
+      {
+        $facet: {
+          items: [
+            { $skip: skip },
+            { $limit: limit },
+            { $project: { _id: 0, score: 1, file: 1 } }
+          ],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]).toArray();
+
+    const items = (result?.items || []).map(({ file, score }) => ({ ...file, score }));
+    return { items, total: result?.total[0]?.count || 0 };
+  }
+}
@@ -0,0 +1,119 @@
+import path from 'node:path';
+import type { Readable } from 'node:stream';
+import { LocalStorageDriver } from './local-storage.driver.js';
+import { S3StorageDriver } from './s3-storage.driver.js';
+
+/**
+ * 存储对象信息
+ */
+export interface StorageObjectStat {
+  size: number;                // 对象大小（字节）
+  lastModified: Date;          // 最后修改时间
+}
+
+/**
+ * 读取范围（闭区间，单位字节）
+ */
+export interface StorageRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 预签名下载参数
+ */
+export interface PresignOptions {
+  expiresIn: number;           // 有效期（秒）
+  downloadName?: string;       // 下载时的文件名
+  contentType?: string;        // 响应的 Content-Type
+}
+
+/**
+ * 存储驱动接口
+ * key 为存储对象名（即文件记录的 filename），不包含目录
+ */
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Readable | Buffer, contentType?: string): Promise<void>;
+  getStream(key: string, range?: StorageRange): Promise<Readable>;
+  delete(key: string): Promise<boolean>;
+  exists(key: string): Promise<boolean>;
+  stat(key: string): Promise<StorageObjectStat | null>;
+  move(fromKey: string, toKey: string): Promise<void>;
+  // 不支持预签名的驱动返回 null，由服务端转发文件内容
+  presign(key: string, options: PresignOptions): Promise<string | null>;
+}
+
+/**
+ * 存储配置
+ */
+export interface StorageConfig {
+  driver: 'local' | 's3';
+  localDir: string;
+  s3: {
+    bucket: string;
+    region: string;
+    endpoint?: string;         // 兼容 S3 的服务地址（如 MinIO）
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    forcePathStyle: boolean;
+    prefix: string;            // 对象名前缀
+  };
+  presignExpiresIn: number;
+  redirectDownloads: boolean;  // 下载时是否重定向到预签名地址
+}
+
+export const resolveStorageConfig = (): StorageConfig => {
+  const endpoint = process.env.STORAGE_S3_ENDPOINT || undefined;
+  return {
+    driver: process.env.STORAGE_DRIVER === 's3' ? 's3' : 'local',
+    localDir: process.env.STORAGE_LOCAL_DIR || path.resolve(process.cwd(), 'uploads'),
+    s3: {
+      bucket: process.env.STORAGE_S3_BUCKET || '',
+      region: process.env.STORAGE_S3_REGION || 'us-east-1',
+      endpoint,
+      accessKeyId: process.env.STORAGE_S3_ACCESS_KEY_ID || undefined,
+      secretAccessKey: process.env.STORAGE_S3_SECRET_ACCESS_KEY || undefined,
+      // MinIO 等自建服务通常不支持虚拟主机风格的地址
+      forcePathStyle: process.env.STORAGE_S3_FORCE_PATH_STYLE
+        ? process.env.STORAGE_S3_FORCE_PATH_STYLE === 'true'
+        : !!endpoint,
+      prefix: process.env.STORAGE_S3_PREFIX || ''
+    },
+    presignExpiresIn: Number(process.env.STORAGE_PRESIGN_EXPIRES) || 300,
+    redirectDownloads: process.env.STORAGE_REDIRECT_DOWNLOADS === 'true'
+  };
+};
+
+/**
+ * 隔离存储配置
+ * 与文件存储使用同一种驱动，本地存储使用独立目录（QUARANTINE_LOCAL_DIR），
+ * S3 使用独立的存储桶（QUARANTINE_S3_BUCKET，默认同一存储桶）和前缀（QUARANTINE_S3_PREFIX）
+ */
+export const resolveQuarantineStorageConfig = (): StorageConfig => {
+  const config = resolveStorageConfig();
+  return {
+    ...config,
+    localDir: process.env.QUARANTINE_LOCAL_DIR || path.resolve(process.cwd(), 'quarantine'),
+    s3: {
+      ...config.s3,
+      bucket: process.env.QUARANTINE_S3_BUCKET || config.s3.bucket,
+      prefix: process.env.QUARANTINE_S3_PREFIX ?? `${config.s3.prefix}quarantine/`
+    },
+    // 隔离的文件不提供下载
+    redirectDownloads: false
+  };
+};
+
+/**
+ * 根据配置创建存储驱动
+ */
+export function createStorageDriver(config: StorageConfig = resolveStorageConfig()): StorageDriver {
+  if (config.driver === 's3') {
+    if (!config.s3.bucket) {
+      throw new Error('STORAGE_DRIVER=s3 时必须配置 STORAGE_S3_BUCKET');
+    }
+    return new S3StorageDriver(config.s3);
+  }
+  return new LocalStorageDriver(config.localDir);
+}
@@ -0,0 +1,182 @@
+import { Db, ObjectId } from 'mongodb';
+import { FileModel, FileStatus, FileThumbnail, MetadataStatus, ThumbnailSize } from '../models/file.model.js';
+import { JobModel } from '../models/job.model.js';
+import { JobQueueService } from './job-queue.service.js';
+import { FileStorageService } from './file-storage.service.js';
+import {
+  THUMBNAIL_DIMENSIONS,
+  renderPdfFirstPage,
+  renderThumbnails,
+  resolveThumbnailSource
+} from '../utils/thumbnail.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建缩略图服务日志器
+const logger = createLogger('ThumbnailService');
+
+/**
+ * 缩略图生成任务类型
+ */
+export const FILE_THUMBNAIL_JOB = 'file-thumbnail';
+
+/**
+ * 缩略图生成任务参数
+ */
+interface FileThumbnailJobPayload {
+  fileId: string;
+}
+
+/**
+ * 缩略图配置
+ */
+interface ThumbnailConfig {
+  enabled: boolean;
+  pdftoppmPath: string;        // 为空时不生成 PDF 缩略图
+  pdfTimeoutMs: number;        // PDF 渲染超时
+  maxAttempts: number;
+}
+
+const resolveConfig = (): ThumbnailConfig => ({
+  enabled: process.env.THUMBNAIL_ENABLED !== 'false',
+  pdftoppmPath: process.env.THUMBNAIL_PDFTOPPM_PATH || '',
+  pdfTimeoutMs: Number(process.env.THUMBNAIL_PDF_TIMEOUT_MS) || 20000,
+  maxAttempts: Number(process.env.THUMBNAIL_MAX_ATTEMPTS) || 2
+});
+
+/**
+ * 缩略图服务
+ * 上传后以后台任务的形式为图片和 PDF 首页生成多个尺寸的 WebP 缩略图，
+ * 缩略图与原文件保存在同一存储中
+ */
+export class ThumbnailService {
+  private db: Db;
+  private collection: string = 'files';
+  private jobQueue: JobQueueService;
+  private storage: FileStorageService;
+  private config: ThumbnailConfig;
+
+  constructor(
+    db: Db,
+    jobQueue: JobQueueService = new JobQueueService(db),
+    storage: FileStorageService = new FileStorageService()
+  ) {
+    this.db = db;
+    this.jobQueue = jobQueue;
+    this.storage = storage;
+    this.config = resolveConfig();
+    this.jobQueue.registerHandler<FileThumbnailJobPayload>(FILE_THUMBNAIL_JOB, job => this.processJob(job));
+    logger.info('缩略图服务初始化完成', {
+      enabled: this.config.enabled,
+      pdfThumbnails: !!this.config.pdftoppmPath
+    });
+  }
+
+  /**
+   * 文件是否支持生成缩略图
+   */
+  supports(file: Pick<FileModel, 'mimeType' | 'isLink'>): boolean {
+    if (!this.config.enabled || file.isLink) return false;
+    const source = resolveThumbnailSource(file.mimeType);
+    return source === 'image' || (source === 'pdf' && !!this.config.pdftoppmPath);
+  }
+
+  /**
+   * 提交缩略图生成任务，返回是否已提交
+   */
+  async enqueue(file: FileModel): Promise<boolean> {
+    if (!this.supports(file)) {
+      return false;
+    }
+
+    const fileId = file._id as ObjectId;
+    await this.updateStatus(fileId, MetadataStatus.PENDING);
+    await this.jobQueue.enqueue<FileThumbnailJobPayload>(
+      FILE_THUMBNAIL_JOB,
+      { fileId: fileId.toString() },
+      { dedupeKey: `${FILE_THUMBNAIL_JOB}:${fileId.toString()}`, maxAttempts: this.config.maxAttempts }
+    );
+    return true;
+  }
+
+  /**
+   * 缩略图在存储中的文件名
+   */
+  private thumbnailFilename(fileId: ObjectId, size: ThumbnailSize): string {
+    return `thumb-${fileId.toString()}-${size}.webp`;
+  }
+
+  /**
+   * 执行缩略图生成任务
+   * 失败时抛出错误交由任务队列重试，最后一次失败才标记为失败状态
+   */
+  private async processJob(job: JobModel<FileThumbnailJobPayload>): Promise<void> {
+    const fileId = new ObjectId(job.payload.fileId);
+    const file = await this.db.collection<FileModel>(this.collection).findOne({
+      _id: fileId,
+      status: { $ne: FileStatus.DELETED }
+    });
+    if (!file) {
+      logger.warn('文件不存在或已删除，跳过缩略图生成', { fileId: job.payload.fileId });
+      return;
+    }
+
+    const source = resolveThumbnailSource(file.mimeType);
+    if (!source || !this.supports(file)) {
+      return;
+    }
+
+    try {
+      await this.updateStatus(fileId, MetadataStatus.PROCESSING);
+
+      const original = await this.storage.readFile(file.filename);
+      const image = source === 'pdf'
+        ? await renderPdfFirstPage(original, this.config.pdftoppmPath, {
+          maxDimension: THUMBNAIL_DIMENSIONS[ThumbnailSize.LARGE],
+          timeoutMs: this.config.pdfTimeoutMs
+        })
+        : original;
+
+      const thumbnails: FileThumbnail[] = [];
+      for (const rendered of await renderThumbnails(image)) {
+        const filename = this.thumbnailFilename(fileId, rendered.size);
+        await this.storage.putFile(filename, rendered.data, 'image/webp');
+        thumbnails.push({
+          size: rendered.size,
+          filename,
+          mimeType: 'image/webp',
+          width: rendered.width,
+          height: rendered.height,
+          bytes: rendered.data.length
+        });
+      }
+
+      await this.db.collection<FileModel>(this.collection).updateOne(
+        { _id: fileId },
+        { $set: { thumbnails, thumbnailStatus: MetadataStatus.COMPLETED, updatedAt: new Date() } }
+      );
+
+      logger.info('缩略图生成完成', { fileId: job.payload.fileId, source, count: thumbnails.length });
+    } catch (error) {
+      const isLastAttempt = job.attempts >= job.maxAttempts;
+      logger.warn('缩略图生成失败', {
+        fileId: job.payload.fileId,
+        attempt: job.attempts,
+        willRetry: !isLastAttempt,
+        error: error instanceof Error ? error.message : '未知错误'
+      });
+
+      await this.updateStatus(fileId, isLastAttempt ? MetadataStatus.FAILED : MetadataStatus.PENDING);
+      throw error;
+    }
+  }
+
+  /**
+   * 更新缩略图生成状态
+   */
+  private async updateStatus(fileId: ObjectId, status: MetadataStatus): Promise<void> {
+    await this.db.collection<FileModel>(this.collection).updateOne(
+      { _id: fileId },
+      { $set: { thumbnailStatus: status, updatedAt: new Date() } }
+    );
+  }
+}
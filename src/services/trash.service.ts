@@ -0,0 +1,258 @@
+import { Db, ObjectId } from 'mongodb';
+import { FileModel, FileStatus } from '../models/file.model.js';
+import { FileStorageService } from './file-storage.service.js';
+import { resolveQuarantineStorageConfig } from './storage-driver.js';
+import { BlobService } from './blob.service.js';
+import { SearchService } from './search.service.js';
+import { QuotaService } from './quota.service.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建回收站服务日志器
+const logger = createLogger('TrashService');
+
+/**
+ * 每批彻底删除的文件数
+ */
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * 回收站配置
+ */
+export interface TrashConfig {
+  retentionDays: number;       // 删除后保留的天数，到期后彻底删除
+  purgeIntervalMs: number;     // 定时清理的间隔
+}
+
+export const resolveTrashConfig = (): TrashConfig => ({
+  retentionDays: Number(process.env.TRASH_RETENTION_DAYS) || 30,
+  purgeIntervalMs: (Number(process.env.TRASH_PURGE_INTERVAL_MINUTES) || 60) * 60 * 1000
+});
+
+/**
+ * 回收站查询条件
+ */
+export interface TrashQuery {
+  uploaderId?: ObjectId;       // 只查看指定上传者的文件
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * 回收站服务
+ * 软删除的文件可以在保留期内恢复（恢复时重新占用存储配额），
+ * 到期后由定时任务删除文件记录、正文和缩略图，并释放物理文件
+ */
+export class TrashService {
+  private db: Db;
+  private collection: string = 'files';
+  private contentsCollection: string = 'file_contents';
+  private storage: FileStorageService;
+  private quarantineStorage: FileStorageService;
+  private blobService: BlobService;
+  private searchService: SearchService;
+  private quotaService: QuotaService;
+  private config: TrashConfig;
+  private purgeTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    db: Db,
+    storage: FileStorageService = new FileStorageService(),
+    quarantineStorage: FileStorageService = new FileStorageService(resolveQuarantineStorageConfig()),
+    blobService: BlobService = new BlobService(db, storage, quarantineStorage),
+    searchService: SearchService = new SearchService(db),
+    quotaService: QuotaService = new QuotaService(db),
+    config: TrashConfig = resolveTrashConfig()
+  ) {
+    this.db = db;
+    this.storage = storage;
+    this.quarantineStorage = quarantineStorage;
+    this.blobService = blobService;
+    this.searchService = searchService;
+    this.quotaService = quotaService;
+    this.config = config;
+    logger.info('回收站服务初始化完成', {
+      retentionDays: config.retentionDays,
+      purgeIntervalMs: config.purgeIntervalMs
+    });
+  }
+
+  /**
+   * 创建回收站查询和定时清理使用的索引
+   */
+  async ensureIndexes(): Promise<void> {
+    await this.db.collection<FileModel>(this.collection).createIndex(
+      { deletedAt: 1 },
+      { partialFilterExpression: { status: FileStatus.DELETED } }
+    );
+  }
+
+  /**
+   * 文件在回收站中保留到的时间
+   */
+  expiresAt(file: Pick<FileModel, 'deletedAt' | 'updatedAt'>): Date {
+    const deletedAt = file.deletedAt || file.updatedAt;
+    return new Date(deletedAt.getTime() + this.config.retentionDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * 查询回收站中的文件，按删除时间倒序
+   */
+  async findDeletedFiles(query: TrashQuery = {}): Promise<{ files: FileModel[]; total: number }> {
+    const collection = this.db.collection<FileModel>(this.collection);
+    const filter: any = { status: FileStatus.DELETED };
+    if (query.uploaderId) filter.uploaderId = query.uploaderId;
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const [files, total] = await Promise.all([
+      collection.find(filter)
+        .sort({ deletedAt: -1, updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .toArray(),
+      collection.countDocuments(filter)
+    ]);
+    return { files, total };
+  }
+
+  /**
+   * 查找回收站中的文件
+   */
+  async findDeletedFile(fileId: ObjectId): Promise<FileModel | null> {
+    return await this.db.collection<FileModel>(this.collection).findOne({ _id: fileId, status: FileStatus.DELETED });
+  }
+
+  /**
+   * 恢复文件到删除前的状态
+   * 文件（不含链接）需要重新占用存储配额，超出时抛出 QuotaExceededError；文件不在回收站时返回 null
+   */
+  async restore(fileId: ObjectId): Promise<FileModel | null> {
+    const collection = this.db.collection<FileModel>(this.collection);
+    const file = await this.findDeletedFile(fileId);
+    if (!file) {
+      return null;
+    }
+
+    const owner = QuotaService.ownerOf(file);
+    if (!file.isLink) {
+      await this.quotaService.reserve(owner, file.size);
+    }
+
+    const restored = await collection.findOneAndUpdate(
+      { _id: fileId, status: FileStatus.DELETED },
+      {
+        $set: { status: file.statusBeforeDelete || FileStatus.ACTIVE, updatedAt: new Date() },
+        $unset: { deletedAt: '', deletedBy: '', statusBeforeDelete: '' }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!restored) {
+      // 并发恢复或已被彻底删除
+      if (!file.isLink) {
+        await this.quotaService.release(owner, file.size);
+      }
+      return null;
+    }
+
+    logger.info('文件已从回收站恢复', { fileId: fileId.toString(), status: restored.status });
+    return restored;
+  }
+
+  /**
+   * 彻底删除超过保留期的文件，返回删除的文件数
+   * 先删除文件记录再释放物理文件：内容寻址的文件只释放引用，其余文件和缩略图经由存储服务删除，
+   * 删除前已被隔离的文件从隔离存储中删除。配额已在移入回收站时归还
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const collection = this.db.collection<FileModel>(this.collection);
+    const cutoff = new Date(now.getTime() - this.config.retentionDays * 24 * 60 * 60 * 1000);
+    // 回收站上线前删除的文件没有删除时间，按最后更新时间计算
+    const expiredFilter = {
+      status: FileStatus.DELETED,
+      $or: [
+        { deletedAt: { $lte: cutoff } },
+        { deletedAt: { $exists: false }, updatedAt: { $lte: cutoff } }
+      ]
+    };
+
+    let purged = 0;
+    for (;;) {
+      const candidates = await collection.find(expiredFilter).limit(PURGE_BATCH_SIZE).toArray();
+      if (candidates.length === 0) {
+        break;
+      }
+
+      const removed: FileModel[] = [];
+      for (const candidate of candidates) {
+        // 按条件删除，避免删除刚被恢复的文件
+        const file = await collection.findOneAndDelete({ _id: candidate._id, ...expiredFilter });
+        if (file) {
+          removed.push(file);
+        }
+      }
+      if (removed.length === 0) {
+        break;
+      }
+
+      const storedFiles: Array<{ filename: string; _id: ObjectId }> = [];
+      const quarantinedFiles: Array<{ filename: string; _id: ObjectId }> = [];
+      for (const file of removed) {
+        const fileId = file._id as ObjectId;
+        try {
+          if (file.sha256) {
+            await this.blobService.release(file.sha256);
+          } else if (file.statusBeforeDelete === FileStatus.QUARANTINED) {
+            quarantinedFiles.push({ filename: file.filename, _id: fileId });
+          } else if (!file.isLink) {
+            storedFiles.push({ filename: file.filename, _id: fileId });
+          }
+          for (const thumbnail of file.thumbnails || []) {
+            storedFiles.push({ filename: thumbnail.filename, _id: fileId });
+          }
+          await this.db.collection(this.contentsCollection).deleteOne({ _id: fileId });
+          await this.searchService.removeFile(fileId);
+        } catch (error) {
+          logger.warn('释放已删除文件的存储失败', {
+            fileId: fileId.toString(),
+            error: error instanceof Error ? error.message : '未知错误'
+          });
+        }
+      }
+      await this.storage.cleanupExpiredFiles(storedFiles);
+      await this.quarantineStorage.cleanupExpiredFiles(quarantinedFiles);
+
+      purged += removed.length;
+      if (candidates.length < PURGE_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (purged > 0) {
+      logger.info('已彻底删除回收站中过期的文件', { purged, retentionDays: this.config.retentionDays });
+    }
+    return purged;
+  }
+
+  /**
+   * 启动定时清理
+   */
+  startPurge(): void {
+    if (this.purgeTimer) return;
+    this.purgeTimer = setInterval(() => {
+      this.purgeExpired().catch(error => {
+        logger.error('清理回收站失败', { error: error instanceof Error ? error.message : '未知错误' });
+      });
+    }, this.config.purgeIntervalMs);
+    this.purgeTimer.unref();
+  }
+
+  /**
+   * 停止定时清理
+   */
+  stopPurge(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+      this.purgeTimer = null;
+    }
+  }
+}
@@ -0,0 +1,520 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash, randomBytes } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { Db, ObjectId } from 'mongodb';
+import { FileModel, MetadataStripStatus } from '../models/file.model.js';
+import {
+  UploadSessionInput,
+  UploadSessionModel,
+  UploadSessionStatus
+} from '../models/upload-session.model.js';
+import { defaultUploadConfig } from '../middlewares/upload.middleware.js';
+import type { StoredUpload } from './upload.service.js';
+import { FileStorageService } from './file-storage.service.js';
+import { QuotaExceededError, QuotaService } from './quota.service.js';
+import {
+  MetadataStripError,
+  resolveMetadataStripConfig,
+  resolveStripper,
+  stripMetadata
+} from '../utils/metadata-stripper.js';
+import { FILE_TYPE_SAMPLE_BYTES, FileTypeMismatchError, verifyFileType } from '../utils/file-type-verifier.js';
+import { createLogger } from '../utils/logger.js';
+
+// 创建分片上传服务日志器
+const logger = createLogger('UploadSessionService');
+
+const MIN_CHUNK_SIZE = 256 * 1024;
+const CLEANUP_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * 分片上传配置
+ */
+export interface UploadSessionConfig {
+  maxFileSize: number;         // 单个文件最大字节数
+  defaultChunkSize: number;    // 默认分片大小
+  maxChunkSize: number;        // 客户端可选的最大分片大小
+  sessionTtlMs: number;        // 会话空闲多久后过期
+  maxOpenSessions: number;     // 每个上传者（匿名按IP）同时未完成的会话上限
+  partsDir: string;            // 分片临时目录
+}
+
+export const resolveUploadSessionConfig = (): UploadSessionConfig => ({
+  maxFileSize: Number(process.env.RESUMABLE_MAX_FILE_SIZE) || 200 * 1024 * 1024,
+  defaultChunkSize: Number(process.env.RESUMABLE_CHUNK_SIZE) || 5 * 1024 * 1024,
+  maxChunkSize: Number(process.env.RESUMABLE_MAX_CHUNK_SIZE) || 16 * 1024 * 1024,
+  sessionTtlMs: (Number(process.env.RESUMABLE_SESSION_TTL_HOURS) || 24) * 60 * 60 * 1000,
+  maxOpenSessions: Number(process.env.RESUMABLE_MAX_OPEN_SESSIONS) || 5,
+  partsDir: process.env.RESUMABLE_TMP_DIR || path.resolve(process.cwd(), 'uploads', '.parts')
+});
+
+/**
+ * 分片上传错误，statusCode 为对应的HTTP状态码
+ */
+export class UploadSessionError extends Error {
+  readonly statusCode: number;
+
+  constructor(message: string, statusCode: number) {
+    super(message);
+    this.name = 'UploadSessionError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * 分片上传服务
+ * 记录已接收的分片，逐片校验 SHA-256，全部到齐后按顺序合并，并清理过期会话
+ */
+export class UploadSessionService {
+  private db: Db;
+  private collection: string = 'upload_sessions';
+  private config: UploadSessionConfig;
+  private storage: FileStorageService;
+  private quotaService: QuotaService;
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    db: Db,
+    config: UploadSessionConfig = resolveUploadSessionConfig(),
+    storage: FileStorageService = new FileStorageService(),
+    quotaService: QuotaService = new QuotaService(db)
+  ) {
+    this.db = db;
+    this.config = config;
+    this.storage = storage;
+    this.quotaService = quotaService;
+    logger.info('分片上传服务初始化完成', {
+      collection: this.collection,
+      maxFileSize: config.maxFileSize,
+      defaultChunkSize: config.defaultChunkSize
+    });
+  }
+
+  /**
+   * 创建会话索引
+   */
+  async ensureIndexes(): Promise<void> {
+    const collection = this.db.collection<UploadSessionModel>(this.collection);
+    await collection.createIndex({ status: 1, expiresAt: 1 });
+    await collection.createIndex({ uploaderId: 1, status: 1 });
+    await collection.createIndex({ uploadIp: 1, status: 1 });
+    await fs.promises.mkdir(this.config.partsDir, { recursive: true });
+  }
+
+  private get sessions() {
+    return this.db.collection<UploadSessionModel>(this.collection);
+  }
+
+  private sessionDir(sessionId: string): string {
+    return path.join(this.config.partsDir, sessionId);
+  }
+
+  private partPath(sessionId: string, index: number): string {
+    return path.join(this.sessionDir(sessionId), `${index}.part`);
+  }
+
+  /**
+   * 统计上传者未完成（上传中或合并中且未过期）的会话数量和声明的总大小
+   * 登录用户按用户ID统计，匿名上传按IP统计，与配额的统计对象一致
+   */
+  private async pendingUsage(input: Pick<UploadSessionInput, 'uploaderId' | 'uploadIp'>): Promise<{ bytes: number; count: number }> {
+    const owner = input.uploaderId
+      ? { uploaderId: input.uploaderId }
+      : { uploaderId: null, uploadIp: input.uploadIp };
+    const [result] = await this.sessions.aggregate<{ bytes: number; count: number }>([
+      {
+        $match: {
+          ...owner,
+          status: { $in: [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING] },
+          expiresAt: { $gt: new Date() }
+        }
+      },
+      { $group: { _id: null, bytes: { $sum: '$size' }, count: { $sum: 1 } } }
+    ]).toArray();
+    return { bytes: result?.bytes || 0, count: result?.count || 0 };
+  }
+
+  /**
+   * 创建分片上传会话
+   */
+  async createSession(input: UploadSessionInput): Promise<UploadSessionModel> {
+    if (!defaultUploadConfig.allowedMimeTypes.includes(input.mimeType)) {
+      throw new UploadSessionError(`不支持的文件类型: ${input.mimeType}`, 400);
+    }
+    if (!Number.isInteger(input.size) || input.size <= 0) {
+      throw new UploadSessionError('无效的文件大小', 400);
+    }
+    if (input.size > this.config.maxFileSize) {
+      throw new UploadSessionError(`文件大小超过限制: ${Math.floor(this.config.maxFileSize / (1024 * 1024))}MB`, 413);
+    }
+    if (input.sha256 && !/^[a-f0-9]{64}$/i.test(input.sha256)) {
+      throw new UploadSessionError('无效的SHA-256校验值', 400);
+    }
+
+    // 未完成的会话数量有上限，其声明的大小与本次一起计入配额检查，
+    // 避免同时开多个会话绕过配额，也避免传完分片后才被拒绝
+    const pending = await this.pendingUsage(input);
+    if (pending.count >= this.config.maxOpenSessions) {
+      throw new UploadSessionError(`未完成的上传会话过多（最多 ${this.config.maxOpenSessions} 个），请先完成或取消已有的会话`, 429);
+    }
+    await this.quotaService.check(
+      { userId: input.uploaderId, ip: input.uploadIp },
+      pending.bytes + input.size,
+      pending.count + 1
+    );
+
+    const chunkSize = input.chunkSize ?? this.config.defaultChunkSize;
+    if (!Number.isInteger(chunkSize) || chunkSize < MIN_CHUNK_SIZE || chunkSize > this.config.maxChunkSize) {
+      throw new UploadSessionError(
+        `分片大小必须在 ${MIN_CHUNK_SIZE} 到 ${this.config.maxChunkSize} 字节之间`,
+        400
+      );
+    }
+
+    const now = new Date();
+    const session: UploadSessionModel = {
+      _id: randomBytes(16).toString('hex'),
+      uploaderId: input.uploaderId,
+      uploadIp: input.uploadIp,
+      originalName: input.originalName,
+      mimeType: input.mimeType,
+      size: input.size,
+      sha256: input.sha256?.toLowerCase(),
+      chunkSize,
+      totalChunks: Math.ceil(input.size / chunkSize),
+      receivedChunks: [],
+      categories: input.categories,
+      status: UploadSessionStatus.ACTIVE,
+      expiresAt: new Date(now.getTime() + this.config.sessionTtlMs),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await fs.promises.mkdir(this.sessionDir(session._id), { recursive: true });
+    await this.sessions.insertOne(session);
+
+    logger.info('分片上传会话已创建', {
+      sessionId: session._id,
+      originalName: session.originalName,
+      size: session.size,
+      totalChunks: session.totalChunks
+    });
+    return session;
+  }
+
+  /**
+   * 获取会话并校验访问权限
+   * 登录用户创建的会话只能由本人继续上传；匿名会话凭会话ID访问
+   */
+  async getSession(sessionId: string, requesterId?: string): Promise<UploadSessionModel> {
+    const session = await this.sessions.findOne({ _id: sessionId });
+    if (!session) {
+      throw new UploadSessionError('上传会话不存在', 404);
+    }
+    if (session.uploaderId && session.uploaderId.toString() !== requesterId) {
+      throw new UploadSessionError('无权访问该上传会话', 403);
+    }
+    return session;
+  }
+
+  /**
+   * 获取会话中可继续上传的状态
+   */
+  private async getActiveSession(sessionId: string, requesterId?: string): Promise<UploadSessionModel> {
+    const session = await this.getSession(sessionId, requesterId);
+    if (session.status !== UploadSessionStatus.ACTIVE || session.expiresAt < new Date()) {
+      throw new UploadSessionError(`上传会话不可继续上传（${session.status}）`, 409);
+    }
+    return session;
+  }
+
+  /**
+   * 计算分片应有的大小（最后一片为剩余字节）
+   */
+  private expectedChunkSize(session: UploadSessionModel, index: number): number {
+    return index === session.totalChunks - 1
+      ? session.size - session.chunkSize * (session.totalChunks - 1)
+      : session.chunkSize;
+  }
+
+  /**
+   * 上传单个分片
+   * 重复上传同一分片会覆盖之前的内容，便于断点续传时重试
+   */
+  async uploadPart(
+    sessionId: string,
+    index: number,
+    data: Buffer,
+    sha256: string | undefined,
+    requesterId?: string
+  ): Promise<UploadSessionModel> {
+    const session = await this.getActiveSession(sessionId, requesterId);
+
+    if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+      throw new UploadSessionError(`无效的分片序号: ${index}`, 400);
+    }
+    const expected = this.expectedChunkSize(session, index);
+    if (data.length !== expected) {
+      throw new UploadSessionError(`分片大小不正确，应为 ${expected} 字节，实际为 ${data.length} 字节`, 400);
+    }
+    if (!sha256) {
+      throw new UploadSessionError('缺少分片校验值（X-Chunk-SHA256）', 400);
+    }
+    const actual = createHash('sha256').update(data).digest('hex');
+    if (actual !== sha256.toLowerCase()) {
+      throw new UploadSessionError('分片校验失败，请重新上传该分片', 422);
+    }
+
+    // 先写临时文件再重命名，避免中断时留下不完整的分片
+    const target = this.partPath(sessionId, index);
+    const temp = `${target}.${randomBytes(4).toString('hex')}.tmp`;
+    await fs.promises.writeFile(temp, data);
+    await fs.promises.rename(temp, target);
+
+    const updated = await this.sessions.findOneAndUpdate(
+      { _id: sessionId, status: UploadSessionStatus.ACTIVE },
+      {
+        $addToSet: { receivedChunks: index },
+        $set: { expiresAt: new Date(Date.now() + this.config.sessionTtlMs), updatedAt: new Date() }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      throw new UploadSessionError('上传会话不可继续上传', 409);
+    }
+
+    logger.dev('分片上传成功', { sessionId, index, received: updated.receivedChunks.length, total: updated.totalChunks });
+    return updated;
+  }
+
+  /**
+   * 缺失的分片序号
+   */
+  missingChunks(session: UploadSessionModel): number[] {
+    const received = new Set(session.receivedChunks);
+    const missing: number[] = [];
+    for (let i = 0; i < session.totalChunks; i++) {
+      if (!received.has(i)) missing.push(i);
+    }
+    return missing;
+  }
+
+  /**
+   * 完成上传：按顺序合并分片、校验大小和整体 SHA-256，再交由 finalize 生成文件记录
+   */
+  async complete<T extends FileModel>(
+    sessionId: string,
+    requesterId: string | undefined,
+    finalize: (file: StoredUpload, session: UploadSessionModel) => Promise<T>
+  ): Promise<T> {
+    const session = await this.getActiveSession(sessionId, requesterId);
+    const missing = this.missingChunks(session);
+    if (missing.length > 0) {
+      throw new UploadSessionError(`还有 ${missing.length} 个分片未上传`, 409);
+    }
+
+    // 以状态作为条件加锁，防止重复合并
+    const locked = await this.sessions.findOneAndUpdate(
+      { _id: sessionId, status: UploadSessionStatus.ACTIVE },
+      { $set: { status: UploadSessionStatus.COMPLETING, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+    if (!locked) {
+      throw new UploadSessionError('上传会话正在合并或已结束', 409);
+    }
+
+    const filename = `file-${Date.now()}-${Math.round(Math.random() * 1e9)}${path.extname(session.originalName)}`;
+
+    try {
+      const hash = createHash('sha256');
+      let written = 0;
+      const partPath = (index: number) => this.partPath(sessionId, index);
+      const parts = Readable.from((async function* () {
+        for (let i = 0; i < session.totalChunks; i++) {
+          for await (const chunk of fs.createReadStream(partPath(i))) {
+            hash.update(chunk);
+            written += chunk.length;
+            yield chunk;
+          }
+        }
+      })());
+      const verify = () => {
+        if (written !== session.size) {
+          throw new UploadSessionError(`合并后的文件大小不正确（${written}/${session.size}）`, 422);
+        }
+        const digest = hash.digest('hex');
+        if (session.sha256 && digest !== session.sha256) {
+          throw new UploadSessionError('文件校验失败，请重新上传', 422);
+        }
+        return digest;
+      };
+
+      const stripConfig = resolveMetadataStripConfig();
+      const stripper = stripConfig.enabled ? resolveStripper(session.mimeType, session.originalName) : null;
+      let stored: StoredUpload;
+
+      if (stripper && session.size <= stripConfig.maxSize) {
+        // 需要清除元数据的文件在内存中合并，清除后再写入存储，原文件不落盘
+        const chunks: Buffer[] = [];
+        for await (const chunk of parts) {
+          chunks.push(chunk as Buffer);
+        }
+        verify();
+
+        const original = Buffer.concat(chunks);
+        const verifiedMimeType = await this.verifyType(original, session);
+        let stripped: Awaited<ReturnType<typeof stripMetadata>>;
+        try {
+          stripped = await stripMetadata(original, stripper);
+        } catch (error) {
+          throw error instanceof MetadataStripError ? new UploadSessionError(error.message, 422) : error;
+        }
+        await this.storage.putFile(filename, stripped.data, session.mimeType);
+        stored = {
+          originalname: session.originalName,
+          mimetype: session.mimeType,
+          size: stripped.data.length,
+          filename,
+          sha256: createHash('sha256').update(stripped.data).digest('hex'),
+          metadataStrip: stripped.record,
+          verifiedMimeType
+        };
+      } else {
+        await this.storage.putFile(filename, parts, session.mimeType);
+        const digest = verify();
+        const head = written > 0 ? await this.storage.readHead(filename, FILE_TYPE_SAMPLE_BYTES) : Buffer.alloc(0);
+        const verifiedMimeType = await this.verifyType(head, session);
+        stored = {
+          originalname: session.originalName,
+          mimetype: session.mimeType,
+          size: written,
+          filename,
+          sha256: digest,
+          metadataStrip: stripper
+            ? { status: MetadataStripStatus.SKIPPED, removed: [], originalSize: written, strippedAt: new Date() }
+            : undefined,
+          verifiedMimeType
+        };
+      }
+
+      const file = await finalize(stored, session);
+
+      await this.sessions.updateOne(
+        { _id: sessionId },
+        { $set: { status: UploadSessionStatus.COMPLETED, fileId: file._id, updatedAt: new Date() } }
+      );
+      await this.removeParts(sessionId);
+
+      logger.info('分片上传完成', { sessionId, fileId: file._id?.toString(), size: written });
+      return file;
+    } catch (error) {
+      await this.storage.deleteFile(filename);
+      // 校验失败的分片无法定位、超出配额时重试也不会成功，放弃会话；其他错误允许客户端重试合并
+      const failed = error instanceof UploadSessionError || error instanceof QuotaExceededError;
+      await this.sessions.updateOne(
+        { _id: sessionId },
+        { $set: { status: failed ? UploadSessionStatus.ABORTED : UploadSessionStatus.ACTIVE, updatedAt: new Date() } }
+      );
+      if (failed) {
+        await this.removeParts(sessionId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 按文件头校验合并后的文件类型，不一致时放弃会话（合并失败处理会删除已写入的文件）
+   */
+  private async verifyType(head: Buffer, session: UploadSessionModel): Promise<string> {
+    try {
+      return await verifyFileType(head, session.mimeType, session.originalName);
+    } catch (error) {
+      if (error instanceof FileTypeMismatchError) {
+        logger.warn('分片上传被拒绝：文件内容与类型不一致', {
+          sessionId: session._id,
+          declaredMimeType: error.declaredMimeType,
+          detectedMimeType: error.detectedMimeType
+        });
+        throw new UploadSessionError(error.message, 415);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 取消上传并删除已接收的分片
+   */
+  async abort(sessionId: string, requesterId?: string): Promise<void> {
+    await this.getActiveSession(sessionId, requesterId);
+    const result = await this.sessions.updateOne(
+      { _id: sessionId, status: UploadSessionStatus.ACTIVE },
+      { $set: { status: UploadSessionStatus.ABORTED, updatedAt: new Date() } }
+    );
+    if (result.modifiedCount === 0) {
+      throw new UploadSessionError('上传会话正在合并或已结束', 409);
+    }
+    await this.removeParts(sessionId);
+    logger.info('分片上传已取消', { sessionId });
+  }
+
+  private async removeParts(sessionId: string): Promise<void> {
+    await fs.promises.rm(this.sessionDir(sessionId), { recursive: true, force: true });
+  }
+
+  /**
+   * 清理过期会话的分片
+   * 合并中途进程退出的会话也会在过期后清理
+   */
+  async cleanupExpiredSessions(): Promise<number> {
+    const expired = await this.sessions
+      .find(
+        {
+          status: { $in: [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING] },
+          expiresAt: { $lt: new Date() }
+        },
+        { projection: { _id: 1 } }
+      )
+      .toArray();
+
+    let cleaned = 0;
+    for (const { _id } of expired) {
+      const result = await this.sessions.updateOne(
+        { _id, status: { $in: [UploadSessionStatus.ACTIVE, UploadSessionStatus.COMPLETING] }, expiresAt: { $lt: new Date() } },
+        { $set: { status: UploadSessionStatus.EXPIRED, updatedAt: new Date() } }
+      );
+      if (result.modifiedCount > 0) {
+        await this.removeParts(_id);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      logger.info('已清理过期的分片上传会话', { count: cleaned });
+    }
+    return cleaned;
+  }
+
+  /**
+   * 启动定时清理
+   */
+  startCleanup(): void {
+    if (this.cleanupTimer) return;
+    this.cleanupTimer = setInterval(() => {
+      this.cleanupExpiredSessions().catch(error => {
+        logger.error('清理过期分片上传会话失败', { error: error instanceof Error ? error.message : '未知错误' });
+      });
+    }, CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref();
+  }
+
+  /**
+   * 停止定时清理
+   */
+  stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+}
@@ -1,9 +1,20 @@
 import { Request } from 'express';
 import { FileService } from './file.service';
-import { FileInput } from '../models/file.model';
+import type { ContentExtractionService } from './content-extraction.service.js';
+import type { BlobService } from './blob.service.js';
+import type { ThumbnailService } from './thumbnail.service.js';
+import type { MalwareScanService } from './malware-scan.service.js';
+import { QuotaExceededError } from './quota.service.js';
+import type { DuplicateFileMatch } from '../models/blob.model.js';
+import { FileInput, FileModel, FileStatus } from '../models/file.model';
 import { ObjectId } from 'mongodb';
 import path from 'node:path';
 
+/**
+ * 已落盘的上传文件（multer 上传或分片合并后的文件）
+ */
+export type StoredUpload = Pick<Express.Multer.File, 'originalname' | 'mimetype' | 'size' | 'filename' | 'sha256' | 'metadataStrip' | 'verifiedMimeType'>;
+
 /**
  * 文件上传服务
  * 处理文件上传的业务逻辑
@@ -11,10 +22,115 @@ import path from 'node:path';
 export class UploadService {
   private fileService: FileService;
   private shortCodeService: any; // 暂时使用any，后面会通过容器注入
+  private contentExtractionService?: ContentExtractionService;
+  private blobService?: BlobService;
+  private thumbnailService?: ThumbnailService;
+  private malwareScanService?: MalwareScanService;
+  private baseUrl: string;
 
-  constructor(fileService: FileService, shortCodeService?: any) {
+  constructor(
+    fileService: FileService,
+    shortCodeService?: any,
+    contentExtractionService?: ContentExtractionService,
+    blobService?: BlobService,
+    thumbnailService?: ThumbnailService,
+    malwareScanService?: MalwareScanService
+  ) {
     this.fileService = fileService;
     this.shortCodeService = shortCodeService;
+    this.contentExtractionService = contentExtractionService;
+    this.blobService = blobService;
+    this.thumbnailService = thumbnailService;
+    this.malwareScanService = malwareScanService;
+    this.baseUrl = process.env.BASE_URL || 'http://localhost:3000';
+    // 开启恶意文件扫描时，扫描通过后才处理文件内容
+    this.malwareScanService?.onClean(file => this.scheduleContentTasks(file));
+  }
+
+  /**
+   * 按内容入库并保存文件元数据
+   * 内容已存在时复用物理文件，并在返回结果中附带已公开的同内容文件；
+   * 开启恶意文件扫描时文件以 processing 状态保存，扫描通过前不可下载
+   */
+  private async saveUpload(file: StoredUpload, fileInput: FileInput): Promise<FileModel & {
+    duplicate?: boolean;
+    duplicateOf?: DuplicateFileMatch;
+  }> {
+    if (this.malwareScanService?.enabled) {
+      fileInput = {
+        ...fileInput,
+        status: FileStatus.PROCESSING,
+        malwareScan: this.malwareScanService.pendingRecord()
+      };
+    }
+
+    if (!this.blobService) {
+      return await this.fileService.saveFileMetadata(fileInput);
+    }
+
+    const blob = await this.blobService.store(file.filename, file.size, file.sha256);
+    let savedFile: FileModel;
+    try {
+      savedFile = await this.fileService.saveFileMetadata({
+        ...fileInput,
+        filename: blob.filename,
+        sha256: blob.sha256
+      });
+    } catch (error) {
+      await this.blobService.release(blob.sha256);
+      throw error;
+    }
+
+    if (!blob.deduplicated) {
+      return savedFile;
+    }
+
+    const existing = await this.fileService.findDuplicateFile(blob.sha256, savedFile._id);
+    return {
+      ...savedFile,
+      duplicate: true,
+      duplicateOf: existing ? {
+        fileId: existing._id!.toString(),
+        shortCode: existing.shortCode,
+        shortUrl: `${this.baseUrl}/s/${existing.shortCode}`
+      } : undefined
+    };
+  }
+
+  /**
+   * 提交上传后的后台任务（失败不影响上传结果）
+   * 开启恶意文件扫描时只提交扫描任务，其余任务在扫描通过后提交
+   */
+  private async scheduleBackgroundTasks(file: FileModel): Promise<void> {
+    if (this.malwareScanService?.enabled) {
+      try {
+        await this.malwareScanService.enqueue(file);
+      } catch (error) {
+        console.error(`文件 ${file.originalName} 提交恶意文件扫描任务失败:`, error);
+      }
+      return;
+    }
+    await this.scheduleContentTasks(file);
+  }
+
+  /**
+   * 提交文档正文提取和缩略图生成任务
+   */
+  private async scheduleContentTasks(file: FileModel): Promise<void> {
+    if (this.contentExtractionService) {
+      try {
+        await this.contentExtractionService.enqueue(file);
+      } catch (error) {
+        console.error(`文件 ${file.originalName} 提交正文提取任务失败:`, error);
+      }
+    }
+    if (this.thumbnailService) {
+      try {
+        await this.thumbnailService.enqueue(file);
+      } catch (error) {
+        console.error(`文件 ${file.originalName} 提交缩略图任务失败:`, error);
+      }
+    }
   }
 
   /**
@@ -46,8 +162,10 @@ export class UploadService {
         shortCode,
         originalName: file.originalname,
         mimeType: file.mimetype,
+        verifiedMimeType: file.verifiedMimeType,
         size: file.size,
         filename: file.filename,
+        metadataStrip: file.metadataStrip,
         uploaderId,
         uploadIp,
         categories: categories || [],
@@ -56,7 +174,8 @@ export class UploadService {
       };
 
       // 保存文件元数据
-      const savedFile = await this.fileService.saveFileMetadata(fileInput);
+      const savedFile = await this.saveUpload(file, fileInput);
+      await this.scheduleBackgroundTasks(savedFile);
 
       return {
         success: true,
@@ -71,11 +190,44 @@ export class UploadService {
     }
   }
 
+  /**
+   * 保存单个已落盘的文件并安排后台任务
+   * 失败时直接抛出错误（如 QuotaExceededError），由调用方决定如何响应
+   */
+  async saveStoredFile(file: StoredUpload, req: Request, categories?: string[], uploaderId?: ObjectId): Promise<FileModel & {
+    duplicate?: boolean;
+    duplicateOf?: DuplicateFileMatch;
+  }> {
+    // 生成唯一短码
+    const shortCode = this.shortCodeService ? 
+      await this.shortCodeService.generateUniqueShortCode() : 
+      'TEMP' + Math.random().toString(36).substr(2, 4).toUpperCase();
+
+    const fileInput: FileInput = {
+      shortCode,
+      originalName: file.originalname,
+      mimeType: file.mimetype,
+      verifiedMimeType: file.verifiedMimeType,
+      size: file.size,
+      filename: file.filename,
+      metadataStrip: file.metadataStrip,
+      uploaderId,
+      uploadIp: this.getClientIp(req),
+      categories: categories || [],
+      tags: this.extractTagsFromFilename(file.originalname),
+      description: this.generateDescription(file)
+    };
+
+    const savedFile = await this.saveUpload(file, fileInput);
+    await this.scheduleBackgroundTasks(savedFile);
+    return savedFile;
+  }
+
   /**
    * 统一文件上传处理
    * 支持单文件和多文件
    */
-  async handleFileUpload(files: Express.Multer.File[], req: Request, categories?: string[], uploaderId?: ObjectId): Promise<{
+  async handleFileUpload(files: StoredUpload[], req: Request, categories?: string[], uploaderId?: ObjectId): Promise<{
     success: boolean;
     files?: any[];
     errors?: string[];
@@ -88,35 +240,17 @@ export class UploadService {
         };
       }
 
-      const uploadIp = this.getClientIp(req);
       const results = [];
       const errors = [];
 
       for (const file of files) {
         try {
-          // 生成唯一短码
-          const shortCode = this.shortCodeService ? 
-            await this.shortCodeService.generateUniqueShortCode() : 
-            'TEMP' + Math.random().toString(36).substr(2, 4).toUpperCase();
-
-          const fileInput: FileInput = {
-            shortCode,
-            originalName: file.originalname,
-            mimeType: file.mimetype,
-            size: file.size,
-            filename: file.filename,
-            uploaderId,
-            uploadIp,
-            categories: categories || [],
-            tags: this.extractTagsFromFilename(file.originalname),
-            description: this.generateDescription(file)
-          };
-
-          const savedFile = await this.fileService.saveFileMetadata(fileInput);
-          results.push(savedFile);
+          results.push(await this.saveStoredFile(file, req, categories, uploaderId));
         } catch (error) {
           console.error(`文件 ${file.originalname} 上传失败:`, error);
-          errors.push(`文件 ${file.originalname} 上传失败`);
+          errors.push(error instanceof QuotaExceededError
+            ? `文件 ${file.originalname} 上传失败：${error.message}`
+            : `文件 ${file.originalname} 上传失败`);
         }
       }
 
@@ -173,8 +307,10 @@ export class UploadService {
             shortCode,
             originalName: file.originalname,
             mimeType: file.mimetype,
+            verifiedMimeType: file.verifiedMimeType,
             size: file.size,
             filename: file.filename,
+            metadataStrip: file.metadataStrip,
             uploaderId,
             uploadIp,
             categories: categories || [],
@@ -182,11 +318,14 @@ export class UploadService {
             description: this.generateDescription(file)
           };
 
-          const savedFile = await this.fileService.saveFileMetadata(fileInput);
+          const savedFile = await this.saveUpload(file, fileInput);
+          await this.scheduleBackgroundTasks(savedFile);
           results.push(savedFile);
         } catch (error) {
           console.error(`文件 ${file.originalname} 上传失败:`, error);
-          errors.push(`文件 ${file.originalname} 上传失败`);
+          errors.push(error instanceof QuotaExceededError
+            ? `文件 ${file.originalname} 上传失败：${error.message}`
+            : `文件 ${file.originalname} 上传失败`);
         }
       }
 
@@ -249,7 +388,7 @@ export class UploadService {
   /**
    * 生成文件描述
    */
-  private generateDescription(file: Express.Multer.File): string {
+  private generateDescription(file: StoredUpload): string {
     const sizeInMB = (file.size / (1024 * 1024)).toFixed(2);
     const ext = path.extname(file.originalname).toUpperCase();
     
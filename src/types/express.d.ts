@@ -1,4 +1,6 @@
 import { ObjectId } from 'mongodb';
+import type { Role, Permission } from '../models/role.model.js';
+import type { MetadataStripRecord } from '../models/file.model.js';
 
 declare global {
   namespace Express {
@@ -6,11 +8,20 @@ declare global {
       user?: {
         id: string;
         username: string;
-        role: string;
+        role: Role;
+        permissions: Permission[];  // 由角色解析出的权限
       };
       file?: Express.Multer.File;
       files?: Express.Multer.File[];
     }
+
+    namespace Multer {
+      interface File {
+        sha256?: string;            // 写入存储时计算的内容哈希
+        metadataStrip?: MetadataStripRecord;  // 写入存储前清除元数据的记录
+        verifiedMimeType?: string;  // 按文件头校验后的MIME类型
+      }
+    }
   }
 }
 
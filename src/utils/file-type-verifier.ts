@@ -0,0 +1,102 @@
+import path from 'node:path';
+import { fileTypeFromBuffer } from 'file-type';
+
+/**
+ * 根据文件头识别类型时读取的字节数（与 file-type 建议的采样大小一致）
+ */
+export const FILE_TYPE_SAMPLE_BYTES = 4100;
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * 允许上传的扩展名对应的MIME类型
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.doc': 'application/msword',
+  '.docx': DOCX_MIME_TYPE
+};
+
+/**
+ * 各声明类型允许的文件头识别结果
+ * DOCX 只读取文件头时可能只能识别为 ZIP，DOC 识别为 OLE 复合文档；纯文本没有文件头特征
+ */
+const SNIFFED_MIME_TYPES: Record<string, string[]> = {
+  'image/jpeg': ['image/jpeg'],
+  'image/png': ['image/png'],
+  'image/gif': ['image/gif'],
+  'image/webp': ['image/webp'],
+  'application/pdf': ['application/pdf'],
+  'application/msword': ['application/x-cfb'],
+  [DOCX_MIME_TYPE]: [DOCX_MIME_TYPE, 'application/zip'],
+  'text/plain': []
+};
+
+/**
+ * 文件类型校验失败错误
+ */
+export class FileTypeMismatchError extends Error {
+  readonly declaredMimeType: string;
+  readonly detectedMimeType?: string;
+
+  constructor(message: string, declaredMimeType: string, detectedMimeType?: string) {
+    super(message);
+    this.name = 'FileTypeMismatchError';
+    this.declaredMimeType = declaredMimeType;
+    this.detectedMimeType = detectedMimeType;
+  }
+}
+
+/**
+ * 按扩展名推断MIME类型，无法识别时返回 null
+ */
+export function mimeTypeFromExtension(filename: string): string | null {
+  return EXTENSION_MIME_TYPES[path.extname(filename).toLowerCase()] || null;
+}
+
+/**
+ * 校验客户端声明的类型、扩展名推断的类型与文件头识别的类型是否一致
+ * head 为文件开头的内容（至少 FILE_TYPE_SAMPLE_BYTES 字节，文件更小时为完整内容），
+ * 通过时返回校验后的MIME类型，否则抛出 FileTypeMismatchError
+ */
+export async function verifyFileType(head: Buffer, declaredMimeType: string, originalName: string): Promise<string> {
+  const declared = declaredMimeType.toLowerCase().split(';')[0].trim();
+  const accepted = SNIFFED_MIME_TYPES[declared];
+  if (!accepted) {
+    throw new FileTypeMismatchError(`不支持的文件类型: ${declaredMimeType}`, declaredMimeType);
+  }
+
+  if (path.extname(originalName)) {
+    const fromExtension = mimeTypeFromExtension(originalName);
+    if (fromExtension !== declared) {
+      throw new FileTypeMismatchError(
+        `文件扩展名与文件类型不一致: ${path.extname(originalName)} / ${declared}`,
+        declaredMimeType
+      );
+    }
+  }
+
+  const detected = (await fileTypeFromBuffer(head.subarray(0, FILE_TYPE_SAMPLE_BYTES)))?.mime;
+  if (declared === 'text/plain') {
+    // 纯文本不应该带有任何可识别的文件头，也不应该包含空字节
+    if (detected || head.includes(0)) {
+      throw new FileTypeMismatchError('文件内容不是纯文本', declaredMimeType, detected);
+    }
+    return declared;
+  }
+
+  if (!detected || !accepted.includes(detected)) {
+    throw new FileTypeMismatchError(
+      `文件内容与声明的类型不一致: ${declared}${detected ? `（实际为 ${detected}）` : ''}`,
+      declaredMimeType,
+      detected
+    );
+  }
+  return declared;
+}
@@ -0,0 +1,250 @@
+import { Parser } from 'htmlparser2';
+
+/**
+ * 链接元数据
+ * 由HTML页面或外部Open Graph服务提取得到
+ */
+export interface LinkMetadata {
+  title?: string;
+  description?: string;
+  thumbnail?: string;
+  siteName?: string;
+  favicon?: string;
+  canonicalUrl?: string;
+}
+
+/**
+ * 解析过程中收集到的原始字段
+ */
+interface RawMetadata {
+  meta: Map<string, string>;        // meta标签（property/name -> content），保留首次出现的值
+  title?: string;                   // <title>内容
+  baseHref?: string;                // <base href>
+  canonical?: string;               // <link rel="canonical">
+  icons: Array<{ rel: string; href: string }>;
+  jsonLd: string[];                 // JSON-LD脚本原文
+}
+
+/**
+ * JSON-LD中可能包含元数据的节点类型
+ */
+const JSON_LD_CONTENT_TYPES = [
+  'Article',
+  'NewsArticle',
+  'BlogPosting',
+  'MedicalWebPage',
+  'ScholarlyArticle',
+  'WebPage',
+  'VideoObject'
+];
+
+/**
+ * 清理文本：合并空白并去除首尾空格
+ */
+function cleanText(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text.length > 0 ? text : undefined;
+}
+
+/**
+ * 将相对URL转换为绝对URL，仅接受http/https
+ */
+function resolveUrl(value: string | undefined, baseUrl: string): string | undefined {
+  const trimmed = cleanText(value);
+  if (!trimmed) return undefined;
+
+  try {
+    const resolved = new URL(trimmed, baseUrl);
+    return ['http:', 'https:'].includes(resolved.protocol) ? resolved.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 按顺序返回第一个非空值
+ */
+function firstOf(...values: Array<string | undefined>): string | undefined {
+  return values.find(value => value !== undefined && value.length > 0);
+}
+
+/**
+ * 使用HTML解析器收集meta、link、title和JSON-LD
+ * 属性顺序、引号类型和HTML实体均由解析器处理
+ */
+function collectRawMetadata(html: string): RawMetadata {
+  const raw: RawMetadata = { meta: new Map(), icons: [], jsonLd: [] };
+
+  let inTitle = false;
+  let titleBuffer = '';
+  let inJsonLd = false;
+  let jsonLdBuffer = '';
+
+  const parser = new Parser(
+    {
+      onopentag(name, attribs) {
+        if (name === 'meta') {
+          const key = (attribs.property || attribs.name || attribs.itemprop || '').trim().toLowerCase();
+          const content = attribs.content;
+          if (key && content !== undefined && !raw.meta.has(key)) {
+            raw.meta.set(key, content);
+          }
+        } else if (name === 'link' && attribs.href) {
+          const rels = (attribs.rel || '').toLowerCase().split(/\s+/).filter(Boolean);
+          if (rels.includes('canonical') && !raw.canonical) {
+            raw.canonical = attribs.href;
+          }
+          if (rels.includes('icon') || rels.includes('apple-touch-icon')) {
+            raw.icons.push({ rel: rels.join(' '), href: attribs.href });
+          }
+        } else if (name === 'base' && attribs.href && !raw.baseHref) {
+          raw.baseHref = attribs.href;
+        } else if (name === 'title' && raw.title === undefined) {
+          inTitle = true;
+          titleBuffer = '';
+        } else if (name === 'script' && (attribs.type || '').toLowerCase() === 'application/ld+json') {
+          inJsonLd = true;
+          jsonLdBuffer = '';
+        }
+      },
+      ontext(text) {
+        if (inTitle) titleBuffer += text;
+        if (inJsonLd) jsonLdBuffer += text;
+      },
+      onclosetag(name) {
+        if (name === 'title' && inTitle) {
+          inTitle = false;
+          raw.title = titleBuffer;
+        } else if (name === 'script' && inJsonLd) {
+          inJsonLd = false;
+          raw.jsonLd.push(jsonLdBuffer);
+        }
+      }
+    },
+    { decodeEntities: true, lowerCaseTags: true, lowerCaseAttributeNames: true }
+  );
+
+  parser.write(html);
+  parser.end();
+
+  return raw;
+}
+
+/**
+ * 展开JSON-LD节点（支持数组和@graph）
+ */
+function flattenJsonLd(value: unknown, nodes: Record<string, unknown>[] = []): Record<string, unknown>[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => flattenJsonLd(item, nodes));
+  } else if (value && typeof value === 'object') {
+    const node = value as Record<string, unknown>;
+    nodes.push(node);
+    if (node['@graph']) {
+      flattenJsonLd(node['@graph'], nodes);
+    }
+  }
+  return nodes;
+}
+
+/**
+ * 从JSON-LD的image字段中取出图片地址
+ */
+function jsonLdImage(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return jsonLdImage(value[0]);
+  if (value && typeof value === 'object') {
+    const image = value as Record<string, unknown>;
+    return jsonLdImage(image.url ?? image.contentUrl);
+  }
+  return undefined;
+}
+
+/**
+ * 从JSON-LD脚本中选出最合适的内容节点
+ */
+function parseJsonLd(scripts: string[]): {
+  title?: string;
+  description?: string;
+  image?: string;
+  publisher?: string;
+} {
+  const nodes: Record<string, unknown>[] = [];
+  for (const script of scripts) {
+    try {
+      flattenJsonLd(JSON.parse(script), nodes);
+    } catch {
+      // 忽略格式错误的JSON-LD
+    }
+  }
+
+  const isContentNode = (node: Record<string, unknown>) => {
+    const types = ([] as unknown[]).concat(node['@type'] ?? []);
+    return types.some(type => typeof type === 'string' && JSON_LD_CONTENT_TYPES.includes(type));
+  };
+
+  const node = nodes.find(isContentNode) ?? nodes.find(item => item.headline || item.name);
+  if (!node) return {};
+
+  const publisher = node.publisher as Record<string, unknown> | undefined;
+
+  return {
+    title: cleanText(node.headline) ?? cleanText(node.name),
+    description: cleanText(node.description),
+    image: jsonLdImage(node.image ?? node.thumbnailUrl),
+    publisher: publisher && typeof publisher === 'object' ? cleanText(publisher.name) : undefined
+  };
+}
+
+/**
+ * 选择站点图标：优先icon，其次apple-touch-icon，最后默认/favicon.ico
+ */
+function pickFavicon(icons: RawMetadata['icons'], baseUrl: string): string | undefined {
+  const icon =
+    icons.find(item => item.rel.split(' ').includes('icon')) ??
+    icons.find(item => item.rel.includes('apple-touch-icon'));
+
+  return resolveUrl(icon?.href ?? '/favicon.ico', baseUrl);
+}
+
+/**
+ * 解析HTML页面元数据
+ * 依次读取Open Graph、Twitter Card、JSON-LD以及普通HTML标签
+ */
+export function parseHtmlMetadata(html: string, pageUrl: string): LinkMetadata {
+  const raw = collectRawMetadata(html);
+  const meta = (key: string) => cleanText(raw.meta.get(key));
+  const jsonLd = parseJsonLd(raw.jsonLd);
+  const baseUrl = resolveUrl(raw.baseHref, pageUrl) ?? pageUrl;
+
+  return {
+    title: firstOf(meta('og:title'), meta('twitter:title'), jsonLd.title, cleanText(raw.title)),
+    description: firstOf(
+      meta('og:description'),
+      meta('twitter:description'),
+      jsonLd.description,
+      meta('description')
+    ),
+    thumbnail: resolveUrl(
+      firstOf(
+        meta('og:image'),
+        meta('og:image:secure_url'),
+        meta('og:image:url'),
+        meta('twitter:image'),
+        meta('twitter:image:src'),
+        jsonLd.image
+      ),
+      baseUrl
+    ),
+    siteName: firstOf(meta('og:site_name'), meta('application-name'), jsonLd.publisher),
+    favicon: pickFavicon(raw.icons, baseUrl),
+    canonicalUrl: resolveUrl(firstOf(cleanText(raw.canonical), meta('og:url')), baseUrl)
+  };
+}
+
+/**
+ * 判断元数据是否包含有效内容
+ */
+export function hasMetadata(metadata: LinkMetadata | null | undefined): metadata is LinkMetadata {
+  return !!metadata && !!(metadata.title || metadata.description || metadata.thumbnail);
+}
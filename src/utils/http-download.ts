@@ -0,0 +1,181 @@
+/**
+ * 文件下载相关的HTTP工具：Content-Disposition、ETag、条件请求和 Range 解析
+ */
+
+/**
+ * 字节范围（闭区间）
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * 单次请求允许的最大范围数量，超出时按完整文件返回
+ */
+const MAX_RANGES = 10;
+
+/**
+ * 按 RFC 5987 编码参数值（encodeURIComponent 未编码的 ' ( ) * 也需要编码）
+ */
+export function encodeRFC5987(value: string): string {
+  return encodeURIComponent(value).replace(
+    /['()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * 生成 Content-Disposition 头
+ * filename 为兼容旧客户端的 ASCII 文件名，filename* 为 UTF-8 编码的完整文件名
+ */
+export function contentDisposition(filename: string, type: 'attachment' | 'inline' = 'attachment'): string {
+  const fallback = filename
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '_')
+    .replace(/["\\]/g, '_') || 'download';
+
+  if (fallback === filename) {
+    return `${type}; filename="${filename}"`;
+  }
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeRFC5987(filename)}`;
+}
+
+/**
+ * 生成 ETag
+ * 有内容哈希时使用强 ETag，历史文件退化为基于大小和上传时间的弱 ETag
+ */
+export function buildETag(file: { sha256?: string; size: number; uploadedAt: Date }): string {
+  if (file.sha256) {
+    return `"${file.sha256}"`;
+  }
+  return `W/"${file.size.toString(16)}-${new Date(file.uploadedAt).getTime().toString(16)}"`;
+}
+
+/**
+ * 拆分 If-None-Match / If-Match 中的 ETag 列表
+ */
+function parseETagList(header: string): string[] {
+  return header.split(',').map(tag => tag.trim()).filter(Boolean);
+}
+
+/**
+ * 去掉弱校验前缀
+ */
+function opaqueTag(tag: string): string {
+  return tag.startsWith('W/') ? tag.slice(2) : tag;
+}
+
+/**
+ * HTTP 日期精确到秒
+ */
+function toHttpSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * 判断客户端缓存是否仍然有效（可返回 304）
+ * 同时存在时 If-None-Match 优先于 If-Modified-Since
+ */
+export function isNotModified(
+  headers: { 'if-none-match'?: string; 'if-modified-since'?: string },
+  etag: string,
+  lastModified: Date
+): boolean {
+  const ifNoneMatch = headers['if-none-match'];
+  if (ifNoneMatch) {
+    // If-None-Match 使用弱比较
+    return ifNoneMatch.trim() === '*' ||
+      parseETagList(ifNoneMatch).some(tag => opaqueTag(tag) === opaqueTag(etag));
+  }
+
+  const ifModifiedSince = headers['if-modified-since'];
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    return !Number.isNaN(since) && toHttpSeconds(lastModified) <= Math.floor(since / 1000);
+  }
+
+  return false;
+}
+
+/**
+ * 判断 If-Range 条件是否满足
+ * ETag 使用强比较，弱 ETag 永远不满足；日期需要与 Last-Modified 完全一致
+ */
+export function isRangeFresh(ifRange: string | undefined, etag: string, lastModified: Date): boolean {
+  if (!ifRange) {
+    return true;
+  }
+  const value = ifRange.trim();
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    return !etag.startsWith('W/') && value === etag;
+  }
+  const date = Date.parse(value);
+  return !Number.isNaN(date) && Math.floor(date / 1000) === toHttpSeconds(lastModified);
+}
+
+/**
+ * 解析 Range 头
+ * 返回 null 表示忽略 Range 按完整文件返回，'unsatisfiable' 表示应返回 416
+ * 重叠或相邻的范围会被合并
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange[] | 'unsatisfiable' | null {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) {
+    return null;
+  }
+
+  const specs = match[1].split(',').map(spec => spec.trim()).filter(Boolean);
+  if (specs.length === 0 || specs.length > MAX_RANGES) {
+    return null;
+  }
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = /^(\d*)\s*-\s*(\d*)$/.exec(spec);
+    if (!parts || (parts[1] === '' && parts[2] === '')) {
+      return null;
+    }
+
+    let start: number;
+    let end: number;
+    if (parts[1] === '') {
+      // 后缀范围：最后 N 个字节
+      const suffix = Number(parts[2]);
+      if (suffix === 0) continue;
+      start = Math.max(size - suffix, 0);
+      end = size - 1;
+    } else {
+      start = Number(parts[1]);
+      end = parts[2] === '' ? size - 1 : Math.min(Number(parts[2]), size - 1);
+      if (parts[2] !== '' && Number(parts[2]) < start) {
+        return null;
+      }
+    }
+
+    if (start < size && start <= end) {
+      ranges.push({ start, end });
+    }
+  }
+
+  if (ranges.length === 0) {
+    return 'unsatisfiable';
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [ranges[0]];
+  for (const range of ranges.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
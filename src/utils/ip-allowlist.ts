@@ -0,0 +1,50 @@
+import net from 'node:net';
+
+/**
+ * 规范化IP地址：去掉 IPv4 映射的 IPv6 前缀（::ffff:1.2.3.4）
+ */
+export function normalizeIp(ip: string): string {
+  const trimmed = ip.trim();
+  return /^::ffff:\d+\.\d+\.\d+\.\d+$/i.test(trimmed) ? trimmed.slice(7) : trimmed;
+}
+
+/**
+ * 校验单个IP或 CIDR 网段（如 10.0.0.0/8、2001:db8::/32）
+ */
+export function isValidIpRule(rule: string): boolean {
+  const [address, prefix, ...rest] = rule.trim().split('/');
+  const family = net.isIP(address);
+  if (!family || rest.length > 0) return false;
+  if (prefix === undefined) return true;
+  if (!/^\d+$/.test(prefix)) return false;
+  return Number(prefix) <= (family === 4 ? 32 : 128);
+}
+
+/**
+ * 根据IP和网段列表创建匹配函数，无效的规则会被忽略
+ */
+export function createIpMatcher(rules: string[]): (ip: string) => boolean {
+  const list = new net.BlockList();
+  let count = 0;
+  for (const rule of rules) {
+    if (!isValidIpRule(rule)) continue;
+    const [raw, prefix] = rule.trim().split('/');
+    const address = prefix === undefined ? normalizeIp(raw) : raw;
+    const type = net.isIPv4(address) ? 'ipv4' : 'ipv6';
+    if (prefix === undefined) {
+      list.addAddress(address, type);
+    } else {
+      list.addSubnet(address, Number(prefix), type);
+    }
+    count++;
+  }
+
+  if (count === 0) {
+    return () => false;
+  }
+  return (ip: string) => {
+    const address = normalizeIp(ip);
+    const family = net.isIP(address);
+    return family !== 0 && list.check(address, family === 4 ? 'ipv4' : 'ipv6');
+  };
+}
@@ -0,0 +1,155 @@
+import type { MailLocale } from '../models/user.model.js';
+
+/**
+ * 邮件模板名称
+ */
+export type MailTemplateName = 'email-verification' | 'password-reset' | 'password-changed';
+
+/**
+ * 渲染后的邮件内容
+ */
+export interface RenderedMail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * 模板变量
+ */
+export interface MailTemplateVars {
+  username: string;
+  link?: string;              // 操作链接
+  expiresIn?: string;         // 有效期描述
+}
+
+interface MailTemplate {
+  subject: string;
+  lines: string[];            // 正文段落，{{变量}} 会被替换
+  action?: string;            // 按钮文字
+}
+
+const SITE_NAME = process.env.MAIL_SITE_NAME || '知识库';
+
+const TEMPLATES: Record<MailTemplateName, Record<MailLocale, MailTemplate>> = {
+  'email-verification': {
+    'zh-CN': {
+      subject: `【${SITE_NAME}】请验证您的邮箱`,
+      lines: [
+        '{{username}}，您好：',
+        '感谢注册。请点击下方链接验证您的邮箱地址，链接 {{expiresIn}} 内有效。',
+        '如果这不是您本人的操作，请忽略本邮件。'
+      ],
+      action: '验证邮箱'
+    },
+    en: {
+      subject: `[${SITE_NAME}] Verify your email address`,
+      lines: [
+        'Hi {{username}},',
+        'Thanks for signing up. Please verify your email address using the link below. The link expires in {{expiresIn}}.',
+        'If you did not create this account, you can ignore this email.'
+      ],
+      action: 'Verify email'
+    }
+  },
+  'password-reset': {
+    'zh-CN': {
+      subject: `【${SITE_NAME}】重置密码`,
+      lines: [
+        '{{username}}，您好：',
+        '我们收到了重置您账号密码的请求。请点击下方链接设置新密码，链接 {{expiresIn}} 内有效且只能使用一次。',
+        '如果这不是您本人的操作，请忽略本邮件，您的密码不会被修改。'
+      ],
+      action: '重置密码'
+    },
+    en: {
+      subject: `[${SITE_NAME}] Reset your password`,
+      lines: [
+        'Hi {{username}},',
+        'We received a request to reset your password. Use the link below to choose a new one. The link expires in {{expiresIn}} and can only be used once.',
+        'If you did not request this, you can ignore this email and your password will stay the same.'
+      ],
+      action: 'Reset password'
+    }
+  },
+  'password-changed': {
+    'zh-CN': {
+      subject: `【${SITE_NAME}】您的密码已修改`,
+      lines: [
+        '{{username}}，您好：',
+        '您的账号密码刚刚被重置，所有设备上的登录状态均已失效。',
+        '如果这不是您本人的操作，请立即联系管理员。'
+      ]
+    },
+    en: {
+      subject: `[${SITE_NAME}] Your password was changed`,
+      lines: [
+        'Hi {{username}},',
+        'Your password was just reset and you have been signed out of all devices.',
+        'If you did not do this, please contact an administrator immediately.'
+      ]
+    }
+  }
+};
+
+/**
+ * 转义HTML特殊字符
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * 替换模板变量
+ */
+function interpolate(line: string, vars: MailTemplateVars, escape: boolean): string {
+  return line.replace(/\{\{(\w+)\}\}/g, (_match, key: keyof MailTemplateVars) => {
+    const value = vars[key] ?? '';
+    return escape ? escapeHtml(value) : value;
+  });
+}
+
+/**
+ * 根据Accept-Language等输入选择邮件语言，默认中文
+ */
+export function resolveMailLocale(value?: string): MailLocale {
+  return value && /^en\b/i.test(value.trim()) ? 'en' : 'zh-CN';
+}
+
+/**
+ * 渲染邮件模板，同时生成纯文本和HTML版本
+ */
+export function renderMailTemplate(
+  name: MailTemplateName,
+  locale: MailLocale,
+  vars: MailTemplateVars
+): RenderedMail {
+  const template = TEMPLATES[name][locale] || TEMPLATES[name]['zh-CN'];
+
+  const textLines = template.lines.map(line => interpolate(line, vars, false));
+  if (template.action && vars.link) {
+    textLines.splice(2, 0, vars.link);
+  }
+
+  const htmlLines = template.lines.map(line => `<p>${interpolate(line, vars, true)}</p>`);
+  if (template.action && vars.link) {
+    const link = escapeHtml(vars.link);
+    htmlLines.splice(
+      2,
+      0,
+      `<p><a href="${link}" style="display:inline-block;padding:8px 16px;background:#1677ff;color:#fff;border-radius:4px;text-decoration:none">${escapeHtml(template.action)}</a></p>`,
+      `<p style="color:#888;font-size:12px;word-break:break-all">${link}</p>`
+    );
+  }
+
+  return {
+    subject: template.subject,
+    text: textLines.join('\n\n'),
+    html: `<!DOCTYPE html><html><body style="font-family:sans-serif;color:#222;line-height:1.6">${htmlLines.join('')}</body></html>`
+  };
+}
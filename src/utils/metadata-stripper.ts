@@ -0,0 +1,349 @@
+import path from 'node:path';
+import sharp from 'sharp';
+import JSZip from 'jszip';
+import { PDFDocument, PDFName, PDFRef } from 'pdf-lib';
+import { MetadataStripRecord, MetadataStripStatus } from '../models/file.model.js';
+
+/**
+ * 支持清除元数据的文件类型
+ */
+export type MetadataStripper = 'jpeg' | 'png' | 'webp' | 'docx' | 'pdf';
+
+/**
+ * 元数据清除配置
+ */
+export interface MetadataStripConfig {
+  enabled: boolean;
+  maxSize: number;             // 超过该大小的文件不处理（需要整体读入内存）
+}
+
+export const resolveMetadataStripConfig = (): MetadataStripConfig => ({
+  enabled: process.env.METADATA_STRIP_ENABLED !== 'false',
+  maxSize: Number(process.env.METADATA_STRIP_MAX_SIZE) || 50 * 1024 * 1024
+});
+
+/**
+ * 图片元数据无法清除（通常是文件损坏），此时拒绝上传而不是保存原图
+ */
+export class MetadataStripError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataStripError';
+  }
+}
+
+/**
+ * 根据MIME类型或扩展名选择清除方式，不支持时返回 null
+ */
+export function resolveStripper(mimeType: string, originalName: string): MetadataStripper | null {
+  const normalized = mimeType.toLowerCase().split(';')[0].trim();
+  const ext = path.extname(originalName).toLowerCase();
+
+  if (normalized === 'image/jpeg' || ext === '.jpg' || ext === '.jpeg') return 'jpeg';
+  if (normalized === 'image/png' || ext === '.png') return 'png';
+  if (normalized === 'image/webp' || ext === '.webp') return 'webp';
+  if (normalized === 'application/pdf' || ext === '.pdf') return 'pdf';
+  if (normalized === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || ext === '.docx') {
+    return 'docx';
+  }
+  return null;
+}
+
+/**
+ * 清除结果
+ */
+interface StripOutput {
+  data: Buffer;
+  removed: string[];
+}
+
+/**
+ * 按标签去重
+ */
+const unique = (labels: string[]) => [...new Set(labels)];
+
+/**
+ * 清除 JPEG 中的 EXIF/XMP/IPTC 和注释
+ * 只保留 JFIF、ICC 色彩配置和 Adobe 段，图像数据原样保留；
+ * EXIF 中带有旋转方向时先按方向旋转再重新编码，避免去掉 EXIF 后图片方向错误
+ */
+async function stripJpeg(input: Buffer): Promise<StripOutput> {
+  if (input.length < 4 || input[0] !== 0xff || input[1] !== 0xd8) {
+    throw new MetadataStripError('无效的 JPEG 文件');
+  }
+
+  const kept: Buffer[] = [input.subarray(0, 2)];
+  const removed: string[] = [];
+  let offset = 2;
+
+  while (offset < input.length) {
+    if (input[offset] !== 0xff) {
+      throw new MetadataStripError('JPEG 段结构损坏');
+    }
+    // 跳过填充字节
+    let markerOffset = offset + 1;
+    while (input[markerOffset] === 0xff) markerOffset++;
+    const marker = input[markerOffset];
+
+    // 图像数据开始，剩余部分原样保留
+    if (marker === 0xda || marker === 0xd9) {
+      kept.push(input.subarray(offset));
+      break;
+    }
+    // 无长度的独立标记
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      kept.push(input.subarray(offset, markerOffset + 1));
+      offset = markerOffset + 1;
+      continue;
+    }
+
+    if (markerOffset + 3 >= input.length) {
+      throw new MetadataStripError('JPEG 段结构损坏');
+    }
+    const end = markerOffset + 1 + input.readUInt16BE(markerOffset + 1);
+    if (end > input.length) {
+      throw new MetadataStripError('JPEG 段长度超出文件范围');
+    }
+    const segment = input.subarray(offset, end);
+    const payload = input.subarray(markerOffset + 3, end);
+
+    if (marker === 0xe1) {
+      removed.push(payload.subarray(0, 4).toString('latin1') === 'Exif' ? 'EXIF' : 'XMP');
+    } else if (marker === 0xed) {
+      removed.push('IPTC');
+    } else if (marker === 0xfe) {
+      removed.push('COMMENT');
+    } else if (
+      (marker === 0xe0 && !/^JF(IF|XX)\0/.test(payload.subarray(0, 5).toString('latin1'))) ||
+      (marker === 0xe2 && payload.subarray(0, 12).toString('latin1') !== 'ICC_PROFILE\0') ||
+      (marker >= 0xe3 && marker <= 0xef && marker !== 0xee)
+    ) {
+      removed.push(`APP${marker - 0xe0}`);
+    } else {
+      kept.push(segment);
+    }
+    offset = end;
+  }
+
+  const { orientation } = await sharp(input).metadata();
+  if (orientation && orientation > 1) {
+    // 重新编码时 sharp 默认丢弃全部元数据，只保留色彩配置
+    const data = await sharp(input).rotate().keepIccProfile().jpeg({ quality: 92 }).toBuffer();
+    return { data, removed: unique(removed) };
+  }
+
+  return { data: removed.length > 0 ? Buffer.concat(kept) : input, removed: unique(removed) };
+}
+
+/**
+ * 清除 PNG 中的 eXIf、文本（含 XMP）和时间块
+ */
+function stripPng(input: Buffer): StripOutput {
+  const signature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  if (input.length < 8 || !input.subarray(0, 8).equals(signature)) {
+    throw new MetadataStripError('无效的 PNG 文件');
+  }
+
+  const kept: Buffer[] = [signature];
+  const removed: string[] = [];
+  let offset = 8;
+
+  while (offset + 8 <= input.length) {
+    const length = input.readUInt32BE(offset);
+    const type = input.subarray(offset + 4, offset + 8).toString('latin1');
+    const end = offset + 12 + length;
+    if (end > input.length) {
+      throw new MetadataStripError('PNG 数据块长度超出文件范围');
+    }
+
+    if (type === 'eXIf') {
+      removed.push('EXIF');
+    } else if (type === 'iTXt' && input.subarray(offset + 8, offset + 8 + 17).toString('latin1') === 'XML:com.adobe.xmp') {
+      removed.push('XMP');
+    } else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      removed.push('TEXT');
+    } else if (type === 'tIME') {
+      removed.push('TIME');
+    } else {
+      kept.push(input.subarray(offset, end));
+    }
+
+    offset = end;
+    if (type === 'IEND') break;
+  }
+
+  return { data: removed.length > 0 ? Buffer.concat(kept) : input, removed: unique(removed) };
+}
+
+/**
+ * 清除 WebP 中的 EXIF 和 XMP 块，并同步更新 VP8X 标志位和 RIFF 长度
+ */
+function stripWebp(input: Buffer): StripOutput {
+  if (
+    input.length < 12 ||
+    input.subarray(0, 4).toString('latin1') !== 'RIFF' ||
+    input.subarray(8, 12).toString('latin1') !== 'WEBP'
+  ) {
+    throw new MetadataStripError('无效的 WebP 文件');
+  }
+
+  const kept: Buffer[] = [];
+  const removed: string[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= input.length) {
+    const type = input.subarray(offset, offset + 4).toString('latin1');
+    const size = input.readUInt32LE(offset + 4);
+    const end = offset + 8 + size + (size % 2);
+    if (offset + 8 + size > input.length) {
+      throw new MetadataStripError('WebP 数据块长度超出文件范围');
+    }
+
+    if (type === 'EXIF') {
+      removed.push('EXIF');
+    } else if (type === 'XMP ') {
+      removed.push('XMP');
+    } else {
+      kept.push(input.subarray(offset, Math.min(end, input.length)));
+    }
+    offset = end;
+  }
+
+  if (removed.length === 0) {
+    return { data: input, removed };
+  }
+
+  const body = Buffer.concat(kept);
+  // VP8X 标志位：0x08 表示含 EXIF，0x04 表示含 XMP
+  if (body.subarray(0, 4).toString('latin1') === 'VP8X') {
+    body[8] &= ~(0x08 | 0x04);
+  }
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'latin1');
+  return { data: Buffer.concat([header, body]), removed: unique(removed) };
+}
+
+/**
+ * 清除 DOCX 的文档属性（作者、公司、最后修改者及自定义属性）
+ */
+async function stripDocx(input: Buffer): Promise<StripOutput> {
+  const zip = await JSZip.loadAsync(input);
+  const removed: string[] = [];
+
+  const core = zip.file('docProps/core.xml');
+  if (core && /<(dc|cp|dcterms):(?!coreProperties)\w+/.test(await core.async('string'))) {
+    zip.file('docProps/core.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+      'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+      'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"></cp:coreProperties>');
+    removed.push('DOCX_CORE');
+  }
+
+  const app = zip.file('docProps/app.xml');
+  if (app) {
+    const xml = await app.async('string');
+    const cleaned = xml.replace(/<(Company|Manager)>[\s\S]*?<\/\1>|<(Company|Manager)\s*\/>/g, '');
+    if (cleaned !== xml) {
+      zip.file('docProps/app.xml', cleaned);
+      removed.push('DOCX_APP');
+    }
+  }
+
+  const custom = zip.file('docProps/custom.xml');
+  if (custom && /<property\b/.test(await custom.async('string'))) {
+    zip.file('docProps/custom.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+      '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" ' +
+      'xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes"></Properties>');
+    removed.push('DOCX_CUSTOM');
+  }
+
+  if (removed.length === 0) {
+    return { data: input, removed };
+  }
+  const data = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  return { data, removed };
+}
+
+/**
+ * 清除 PDF 的文档信息字典和 XMP 元数据
+ */
+async function stripPdf(input: Buffer): Promise<StripOutput> {
+  const pdf = await PDFDocument.load(input, { updateMetadata: false });
+  const removed: string[] = [];
+
+  const info = pdf.context.trailerInfo.Info;
+  if (info) {
+    pdf.context.trailerInfo.Info = undefined;
+    if (info instanceof PDFRef) pdf.context.delete(info);
+    removed.push('PDF_INFO');
+  }
+
+  const metadata = pdf.catalog.get(PDFName.of('Metadata'));
+  if (metadata) {
+    pdf.catalog.delete(PDFName.of('Metadata'));
+    if (metadata instanceof PDFRef) pdf.context.delete(metadata);
+    removed.push('XMP');
+  }
+
+  if (removed.length === 0) {
+    return { data: input, removed };
+  }
+  return { data: Buffer.from(await pdf.save()), removed };
+}
+
+/**
+ * 清除文件中的隐私元数据
+ * 图片清除失败时抛出 MetadataStripError；文档清除失败（如加密的 PDF）时保留原文件并记录失败；
+ * 超过 maxSize 的文件不处理
+ */
+export async function stripMetadata(
+  input: Buffer,
+  stripper: MetadataStripper,
+  maxSize: number = Infinity
+): Promise<{ data: Buffer; record: MetadataStripRecord }> {
+  const record = (status: MetadataStripStatus, removed: string[] = []): MetadataStripRecord => ({
+    status,
+    removed,
+    originalSize: input.length,
+    strippedAt: new Date()
+  });
+
+  if (input.length > maxSize) {
+    return { data: input, record: record(MetadataStripStatus.SKIPPED) };
+  }
+
+  let output: StripOutput;
+  try {
+    switch (stripper) {
+      case 'jpeg':
+        output = await stripJpeg(input);
+        break;
+      case 'png':
+        output = stripPng(input);
+        break;
+      case 'webp':
+        output = stripWebp(input);
+        break;
+      case 'docx':
+        output = await stripDocx(input);
+        break;
+      case 'pdf':
+        output = await stripPdf(input);
+        break;
+    }
+  } catch (error) {
+    if (stripper === 'docx' || stripper === 'pdf') {
+      return { data: input, record: record(MetadataStripStatus.FAILED) };
+    }
+    throw error instanceof MetadataStripError ? error : new MetadataStripError(`图片元数据清除失败: ${(error as Error).message}`);
+  }
+
+  return {
+    data: output.data,
+    record: record(output.removed.length > 0 ? MetadataStripStatus.STRIPPED : MetadataStripStatus.CLEAN, output.removed)
+  };
+}
@@ -0,0 +1,156 @@
+import { PiiType } from '../models/file.model.js';
+
+/**
+ * 个人信息识别与脱敏
+ * 只识别格式明确的信息：身份证号（校验位）、手机号、邮箱，以及“姓名”“患者”、“住院号”等关键词后面的姓名和病历号
+ */
+
+/**
+ * 识别到的个人信息（start/end 为在原文中的位置，end 不含）
+ */
+export interface PiiFinding {
+  type: PiiType;
+  start: number;
+  end: number;
+  value: string;
+}
+
+/**
+ * 脱敏后替换成的占位文本
+ */
+export const PII_LABELS: Record<PiiType, string> = {
+  [PiiType.ID_CARD]: '[身份证号]',
+  [PiiType.PHONE]: '[手机号]',
+  [PiiType.EMAIL]: '[邮箱]',
+  [PiiType.NAME]: '[姓名]',
+  [PiiType.MEDICAL_RECORD]: '[病历号]'
+};
+
+const ID_CARD_WEIGHTS = [7, 9, 10, 5, 8, 4, 2, 1, 6, 3, 7, 9, 10, 5, 8, 4, 2];
+const ID_CARD_CHECK_CODES = '10X98765432';
+
+const ID_CARD_PATTERN = /(?<![0-9A-Za-z])\d{17}[\dXx](?![0-9A-Za-z])/g;
+const PHONE_PATTERN = /(?<![\d+])(?:(?:\+|00)?86[-\s]?)?1[3-9]\d[-\s]?\d{4}[-\s]?\d{4}(?!\d)/g;
+const EMAIL_PATTERN = /(?<![\w.+-])[\w.+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}(?![\w-])/g;
+
+/**
+ * 姓名关键词后接可选的冒号，姓名为 2~4 个汉字（可含少数民族姓名中的间隔号），
+ * 到空白、标点或下一个常见字段名为止
+ */
+const NAME_PATTERN = new RegExp(
+  '(?:患者姓名|病人姓名|姓名|患者|病人|就诊人|受检者)[:：]?[ \\t]*' +
+  '([\\u4e00-\\u9fa5·]{2,4}?)' +
+  '(?=性别|年龄|科室|床号|住院|门诊|病案|[^\\u4e00-\\u9fa5·]|$)',
+  'g'
+);
+
+/**
+ * 关键词后面常见的非姓名词语（以这些词开头的不视为姓名）
+ */
+const NAME_STOPWORDS = [
+  '男性', '女性', '信息', '资料', '本人', '家属', '情况', '病史', '主诉',
+  '年龄', '性别', '签名', '须知', '知情', '同意', '教育', '服务', '管理', '隐私'
+];
+
+const isLikelyName = (value: string) => !NAME_STOPWORDS.some(word => value.startsWith(word));
+
+const MEDICAL_RECORD_PATTERN = /(?:住院号|门诊号|病案号|病历号|就诊卡号|ID号)[:：]?[ \t]*([A-Za-z0-9-]{4,20})(?![A-Za-z0-9-])/g;
+
+/**
+ * 校验18位身份证号：出生日期必须合法，最后一位为 ISO 7064 MOD 11-2 校验码
+ */
+export function isValidChineseIdCard(value: string): boolean {
+  if (!/^\d{17}[\dXx]$/.test(value)) {
+    return false;
+  }
+
+  const year = Number(value.slice(6, 10));
+  const month = Number(value.slice(10, 12));
+  const day = Number(value.slice(12, 14));
+  const birth = new Date(Date.UTC(year, month - 1, day));
+  if (
+    year < 1900 ||
+    birth.getUTCFullYear() !== year ||
+    birth.getUTCMonth() !== month - 1 ||
+    birth.getUTCDate() !== day ||
+    birth.getTime() > Date.now()
+  ) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    sum += Number(value[i]) * ID_CARD_WEIGHTS[i];
+  }
+  return ID_CARD_CHECK_CODES[sum % 11] === value[17].toUpperCase();
+}
+
+/**
+ * 收集正则的所有匹配；group 指定时只取该分组的位置
+ */
+function collect(
+  text: string,
+  pattern: RegExp,
+  type: PiiType,
+  accept: (value: string) => boolean = () => true,
+  group = 0
+): PiiFinding[] {
+  const findings: PiiFinding[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const value = match[group];
+    if (!value || !accept(value)) continue;
+    const start = (match.index as number) + (group === 0 ? 0 : match[0].lastIndexOf(value));
+    findings.push({ type, start, end: start + value.length, value });
+  }
+  return findings;
+}
+
+/**
+ * 识别文本中的个人信息，结果按出现位置排序，重叠的结果只保留靠前的一个
+ */
+export function scanPii(text: string): PiiFinding[] {
+  if (!text) {
+    return [];
+  }
+
+  const findings = [
+    ...collect(text, ID_CARD_PATTERN, PiiType.ID_CARD, isValidChineseIdCard),
+    ...collect(text, PHONE_PATTERN, PiiType.PHONE),
+    ...collect(text, EMAIL_PATTERN, PiiType.EMAIL),
+    ...collect(text, NAME_PATTERN, PiiType.NAME, isLikelyName, 1),
+    ...collect(text, MEDICAL_RECORD_PATTERN, PiiType.MEDICAL_RECORD, value => /\d/.test(value), 1)
+  ].sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const result: PiiFinding[] = [];
+  for (const finding of findings) {
+    const last = result[result.length - 1];
+    if (!last || finding.start >= last.end) {
+      result.push(finding);
+    }
+  }
+  return result;
+}
+
+/**
+ * 按类型统计识别结果
+ */
+export function countPii(findings: PiiFinding[]): Partial<Record<PiiType, number>> {
+  const counts: Partial<Record<PiiType, number>> = {};
+  for (const finding of findings) {
+    counts[finding.type] = (counts[finding.type] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * 生成脱敏副本：识别到的个人信息替换为对应的占位文本
+ */
+export function redactPii(text: string, findings: PiiFinding[] = scanPii(text)): string {
+  let result = '';
+  let cursor = 0;
+  for (const finding of findings) {
+    result += text.slice(cursor, finding.start) + PII_LABELS[finding.type];
+    cursor = finding.end;
+  }
+  return result + text.slice(cursor);
+}
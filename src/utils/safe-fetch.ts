@@ -0,0 +1,338 @@
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import dns from 'node:dns';
+import zlib from 'node:zlib';
+import type { LookupFunction } from 'node:net';
+import type { IncomingHttpHeaders, IncomingMessage } from 'node:http';
+import { Readable } from 'node:stream';
+
+/**
+ * 安全请求选项
+ */
+export interface SafeFetchOptions {
+  method?: 'GET' | 'HEAD';
+  headers?: Record<string, string>;
+  timeoutMs?: number;          // 整个请求（含重定向和响应体）的超时时间
+  maxBytes?: number;           // 响应体最大字节数（解压后）
+  maxRedirects?: number;       // 最大重定向次数
+  allowedPorts?: number[];     // 允许访问的端口
+  blockList?: net.BlockList;   // 禁止访问的地址段
+}
+
+/**
+ * 安全请求响应
+ */
+export interface SafeFetchResponse {
+  url: string;                 // 最终地址（重定向后）
+  status: number;
+  statusText: string;
+  ok: boolean;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+  text(): string;
+  json<T = any>(): T;
+}
+
+/**
+ * 默认禁止访问的地址段：私有网络、回环、链路本地、运营商NAT、保留和组播地址
+ */
+export const defaultBlockList = (() => {
+  const blockList = new net.BlockList();
+  const ipv4Ranges: Array<[string, number]> = [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.0.2.0', 24],
+    ['192.88.99.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['198.51.100.0', 24],
+    ['203.0.113.0', 24],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4]
+  ];
+  const ipv6Ranges: Array<[string, number]> = [
+    ['::', 128],
+    ['::1', 128],
+    ['64:ff9b::', 96],
+    ['64:ff9b:1::', 48],
+    ['100::', 64],
+    ['2001::', 23],
+    ['2001:db8::', 32],
+    ['2002::', 16],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['fec0::', 10],
+    ['ff00::', 8]
+  ];
+  ipv4Ranges.forEach(([address, prefix]) => blockList.addSubnet(address, prefix, 'ipv4'));
+  ipv6Ranges.forEach(([address, prefix]) => blockList.addSubnet(address, prefix, 'ipv6'));
+  return blockList;
+})();
+
+/**
+ * 默认允许访问的端口
+ */
+const DEFAULT_ALLOWED_PORTS = (process.env.SAFE_FETCH_ALLOWED_PORTS || '80,443,8080,8443')
+  .split(',')
+  .map(port => Number(port.trim()))
+  .filter(port => Number.isInteger(port) && port > 0);
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.SAFE_FETCH_TIMEOUT_MS) || 15000;
+const DEFAULT_MAX_BYTES = Number(process.env.SAFE_FETCH_MAX_BYTES) || 5 * 1024 * 1024;
+const DEFAULT_MAX_REDIRECTS = Number(process.env.SAFE_FETCH_MAX_REDIRECTS) || 5;
+
+const REDIRECT_STATUS = [301, 302, 303, 307, 308];
+
+/**
+ * 判断IP地址是否被禁止访问
+ * BlockList会将IPv4映射的IPv6地址（::ffff:a.b.c.d）按IPv4规则判断
+ */
+export function isBlockedAddress(address: string, blockList: net.BlockList = defaultBlockList): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockList.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * 获取URL的端口（未指定时使用协议默认端口）
+ */
+function portOf(url: URL): number {
+  if (url.port) return Number(url.port);
+  return url.protocol === 'https:' ? 443 : 80;
+}
+
+/**
+ * 校验URL是否允许访问（不做DNS解析）
+ * 检查协议、账号信息、端口以及字面量IP地址
+ */
+export function assertPublicUrl(
+  rawUrl: string | URL,
+  options: Pick<SafeFetchOptions, 'allowedPorts' | 'blockList'> = {}
+): URL {
+  const url = typeof rawUrl === 'string' ? new URL(rawUrl) : rawUrl;
+  const allowedPorts = options.allowedPorts || DEFAULT_ALLOWED_PORTS;
+
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    throw new Error(`不支持的协议: ${url.protocol}`);
+  }
+
+  if (url.username || url.password) {
+    throw new Error('URL中不允许包含账号信息');
+  }
+
+  if (!allowedPorts.includes(portOf(url))) {
+    throw new Error(`不允许访问的端口: ${portOf(url)}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (net.isIP(hostname)) {
+    if (isBlockedAddress(hostname, options.blockList)) {
+      throw new Error(`禁止访问内网地址: ${hostname}`);
+    }
+  } else if (hostname === 'localhost' || hostname.endsWith('.localhost') || !hostname.includes('.')) {
+    throw new Error(`禁止访问内网地址: ${hostname}`);
+  }
+
+  return url;
+}
+
+/**
+ * 判断URL是否允许访问
+ */
+export function isPublicUrl(rawUrl: string): boolean {
+  try {
+    assertPublicUrl(rawUrl);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 创建带地址校验的DNS解析函数
+ * 在建立连接时校验解析结果，避免DNS重绑定绕过检查
+ */
+function createGuardedLookup(blockList: net.BlockList): LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '', 0);
+        return;
+      }
+
+      const list = addresses as dns.LookupAddress[];
+      const blocked = list.find(item => isBlockedAddress(item.address, blockList));
+      if (blocked || list.length === 0) {
+        callback(new Error(`禁止访问内网地址: ${hostname} -> ${blocked?.address ?? '无解析结果'}`), '', 0);
+        return;
+      }
+
+      if ((options as dns.LookupOptions).all) {
+        (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, list);
+      } else {
+        callback(null, list[0].address, list[0].family);
+      }
+    });
+  };
+}
+
+/**
+ * 根据Content-Encoding解压响应流
+ */
+function decodeBody(response: IncomingMessage): Readable {
+  const encoding = String(response.headers['content-encoding'] || '').toLowerCase();
+  if (encoding === 'gzip' || encoding === 'x-gzip') return response.pipe(zlib.createGunzip());
+  if (encoding === 'deflate') return response.pipe(zlib.createInflate());
+  if (encoding === 'br') return response.pipe(zlib.createBrotliDecompress());
+  return response;
+}
+
+/**
+ * 从Content-Type或HTML meta中识别字符集
+ */
+function detectCharset(headers: IncomingHttpHeaders, body: Buffer): string {
+  const fromHeader = String(headers['content-type'] || '').match(/charset=["']?([\w-]+)/i);
+  if (fromHeader) return fromHeader[1].toLowerCase();
+
+  const head = body.subarray(0, 2048).toString('latin1');
+  const fromMeta = head.match(/<meta[^>]+charset=["']?([\w-]+)/i);
+  return fromMeta ? fromMeta[1].toLowerCase() : 'utf-8';
+}
+
+/**
+ * 解码响应文本，不支持的字符集回退为UTF-8
+ */
+function decodeText(headers: IncomingHttpHeaders, body: Buffer): string {
+  const charset = detectCharset(headers, body);
+  try {
+    return new TextDecoder(charset).decode(body);
+  } catch {
+    return new TextDecoder('utf-8').decode(body);
+  }
+}
+
+/**
+ * 发送单跳请求（不跟随重定向）
+ */
+function requestOnce(
+  url: URL,
+  options: Required<Pick<SafeFetchOptions, 'method' | 'headers' | 'maxBytes' | 'blockList'>>,
+  signal: AbortSignal
+): Promise<{ response: IncomingMessage; body?: Buffer }> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.request(url, {
+      method: options.method,
+      headers: { 'Accept-Encoding': 'gzip, deflate, br', ...options.headers },
+      lookup: createGuardedLookup(options.blockList),
+      agent: false,
+      signal
+    });
+
+    request.on('error', reject);
+    request.on('response', response => {
+      const status = response.statusCode || 0;
+
+      // 重定向响应不读取响应体，由调用方校验下一跳
+      if (REDIRECT_STATUS.includes(status) && response.headers.location) {
+        response.resume();
+        resolve({ response });
+        return;
+      }
+
+      const declaredLength = Number(response.headers['content-length']);
+      if (declaredLength > options.maxBytes && !response.headers['content-encoding']) {
+        response.destroy();
+        reject(new Error(`响应体超过大小限制: ${declaredLength} > ${options.maxBytes}`));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+      const stream = decodeBody(response);
+
+      stream.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > options.maxBytes) {
+          stream.destroy();
+          response.destroy();
+          reject(new Error(`响应体超过大小限制: ${options.maxBytes}`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      stream.on('end', () => resolve({ response, body: Buffer.concat(chunks) }));
+      stream.on('error', reject);
+      response.on('error', reject);
+    });
+
+    request.end();
+  });
+}
+
+/**
+ * 安全地请求外部URL
+ * 解析DNS并拒绝私有/回环/链路本地地址，每次重定向都会重新校验，
+ * 同时限制重定向次数、响应体大小和总耗时
+ */
+export async function safeFetch(rawUrl: string, options: SafeFetchOptions = {}): Promise<SafeFetchResponse> {
+  const method = options.method || 'GET';
+  const headers = options.headers || {};
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const blockList = options.blockList || defaultBlockList;
+  const guardOptions = { allowedPorts: options.allowedPorts, blockList };
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(
+    () => controller.abort(new Error('请求超时')),
+    options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+  );
+
+  try {
+    let url = assertPublicUrl(rawUrl, guardOptions);
+    let currentMethod = method;
+
+    for (let redirects = 0; ; redirects++) {
+      const { response, body } = await requestOnce(
+        url,
+        { method: currentMethod, headers, maxBytes, blockList },
+        controller.signal
+      );
+      const status = response.statusCode || 0;
+
+      if (!body) {
+        if (redirects >= maxRedirects) {
+          throw new Error(`重定向次数超过限制: ${maxRedirects}`);
+        }
+        url = assertPublicUrl(new URL(String(response.headers.location), url), guardOptions);
+        if (status === 303) currentMethod = 'GET';
+        continue;
+      }
+
+      return {
+        url: url.href,
+        status,
+        statusText: response.statusMessage || '',
+        ok: status >= 200 && status < 300,
+        headers: response.headers,
+        body,
+        text: () => decodeText(response.headers, body),
+        json: () => JSON.parse(decodeText(response.headers, body))
+      };
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw controller.signal.reason instanceof Error ? controller.signal.reason : new Error('请求超时');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
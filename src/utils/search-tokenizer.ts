@@ -0,0 +1,102 @@
+/**
+ * 搜索分词工具
+ * 中文按词典分词（Intl.Segmenter）并补充相邻二字组合，保证“胰腺癌”这类未收录的医学词汇也能命中；
+ * 其他文字按单词切分并统一为小写
+ */
+
+const segmenter = new Intl.Segmenter('zh', { granularity: 'word' });
+
+const HAN_RUN = /\p{Script=Han}+/gu;
+const HAN_CHAR = /\p{Script=Han}/u;
+const WORD_SEPARATOR = /[^\p{L}\p{N}]+/u;
+
+/**
+ * 网址中没有检索意义的片段
+ */
+const STOP_WORDS = new Set(['http', 'https', 'www']);
+
+/**
+ * 单个文档最多保留的索引词数量
+ */
+export const MAX_INDEX_TOKENS = 10000;
+
+/**
+ * 统一全角/半角和大小写
+ */
+const normalizeText = (text: string): string => text.normalize('NFKC').toLowerCase();
+
+/**
+ * 中文连续片段的相邻二字组合
+ */
+const hanBigrams = (run: string): string[] => {
+  const chars = Array.from(run);
+  const bigrams: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    bigrams.push(chars[i] + chars[i + 1]);
+  }
+  return bigrams;
+};
+
+/**
+ * 拆分非中文片段（如 example.com、covid-19）
+ * 保留两个字符以上的单词和所有数字
+ */
+const splitWords = (segment: string): string[] =>
+  segment
+    .split(WORD_SEPARATOR)
+    .filter(word => (word.length >= 2 || /^\d+$/.test(word)) && !STOP_WORDS.has(word));
+
+/**
+ * 生成索引词
+ * 包含分词结果、中文二字组合和中文单字（单字只用于单字查询）
+ */
+export function tokenizeForIndex(...texts: Array<string | undefined | null>): string[] {
+  const tokens = new Set<string>();
+
+  for (const raw of texts) {
+    if (!raw) continue;
+    const text = normalizeText(raw);
+
+    for (const { segment, isWordLike } of segmenter.segment(text)) {
+      if (!isWordLike) continue;
+      if (HAN_CHAR.test(segment)) {
+        if (Array.from(segment).length >= 2) tokens.add(segment);
+      } else {
+        for (const word of splitWords(segment)) tokens.add(word);
+      }
+    }
+
+    for (const [run] of text.matchAll(HAN_RUN)) {
+      for (const char of run) tokens.add(char);
+      for (const bigram of hanBigrams(run)) tokens.add(bigram);
+    }
+
+    if (tokens.size >= MAX_INDEX_TOKENS) break;
+  }
+
+  return Array.from(tokens).slice(0, MAX_INDEX_TOKENS);
+}
+
+/**
+ * 生成查询词
+ * 中文片段拆为二字组合（单字片段按单字查询），所有查询词都需命中
+ */
+export function tokenizeQuery(query: string): string[] {
+  const tokens = new Set<string>();
+  const text = normalizeText(query);
+
+  for (const [run] of text.matchAll(HAN_RUN)) {
+    const bigrams = hanBigrams(run);
+    if (bigrams.length === 0) {
+      tokens.add(run);
+    }
+    for (const bigram of bigrams) tokens.add(bigram);
+  }
+
+  for (const { segment, isWordLike } of segmenter.segment(text.replace(HAN_RUN, ' '))) {
+    if (!isWordLike) continue;
+    for (const word of splitWords(segment)) tokens.add(word);
+  }
+
+  return Array.from(tokens);
+}
@@ -0,0 +1,104 @@
+import path from 'node:path';
+import pdfParse from 'pdf-parse';
+import mammoth from 'mammoth';
+import JSZip from 'jszip';
+import { parseDocument, DomUtils } from 'htmlparser2';
+
+/**
+ * 文本提取结果
+ */
+export interface ExtractedContent {
+  text: string;
+  pageCount?: number;          // 页数（PDF）
+  title?: string;              // 文档属性中的标题
+  author?: string;             // 文档属性中的作者
+  extractor: 'pdf' | 'docx' | 'text';
+}
+
+const PDF_TYPES = ['application/pdf'];
+const DOCX_TYPES = ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
+const TEXT_TYPES = ['text/plain', 'text/markdown', 'text/csv'];
+
+/**
+ * 判断文件类型使用哪种提取器，不支持时返回 null
+ * 旧版 .doc 格式暂不支持
+ */
+export function resolveExtractor(mimeType: string, originalName: string): ExtractedContent['extractor'] | null {
+  const ext = path.extname(originalName).toLowerCase();
+  if (PDF_TYPES.includes(mimeType) || ext === '.pdf') return 'pdf';
+  if (DOCX_TYPES.includes(mimeType) || ext === '.docx') return 'docx';
+  if (TEXT_TYPES.includes(mimeType) || ['.txt', '.md', '.csv'].includes(ext)) return 'text';
+  return null;
+}
+
+/**
+ * 规范化提取出的文本：统一换行，压缩多余空白
+ */
+const cleanText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v\u00a0\u3000]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * 解码纯文本
+ * 优先按 UTF-8 解码，出现非法字节时按 GB18030 解码（兼容 Windows 记事本保存的中文文件）
+ */
+export function decodeText(buffer: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('gb18030').decode(buffer);
+  }
+}
+
+/**
+ * 读取 DOCX 的文档属性（docProps/core.xml）
+ */
+async function readDocxProperties(buffer: Buffer): Promise<{ title?: string; author?: string }> {
+  const zip = await JSZip.loadAsync(buffer);
+  const core = zip.file('docProps/core.xml');
+  if (!core) return {};
+
+  const document = parseDocument(await core.async('string'), { xmlMode: true });
+  const read = (tag: string) => {
+    const [element] = DomUtils.getElementsByTagName(tag, document, true, 1);
+    return element ? optionalString(DomUtils.textContent(element)) : undefined;
+  };
+  return { title: read('dc:title'), author: read('dc:creator') };
+}
+
+/**
+ * 从文件内容中提取文本和文档属性
+ */
+export async function extractText(
+  buffer: Buffer,
+  extractor: ExtractedContent['extractor']
+): Promise<ExtractedContent> {
+  switch (extractor) {
+    case 'pdf': {
+      const result = await pdfParse(buffer);
+      return {
+        text: cleanText(result.text),
+        pageCount: result.numpages,
+        title: optionalString(result.info?.Title),
+        author: optionalString(result.info?.Author),
+        extractor
+      };
+    }
+    case 'docx': {
+      const [{ value }, properties] = await Promise.all([
+        mammoth.extractRawText({ buffer }),
+        readDocxProperties(buffer)
+      ]);
+      return { text: cleanText(value), ...properties, extractor };
+    }
+    case 'text':
+      return { text: cleanText(decodeText(buffer)), extractor };
+  }
+}
@@ -0,0 +1,93 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import sharp from 'sharp';
+import { ThumbnailSize } from '../models/file.model.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * 各尺寸缩略图的最长边（像素）
+ */
+export const THUMBNAIL_DIMENSIONS: Record<ThumbnailSize, number> = {
+  [ThumbnailSize.SMALL]: 160,
+  [ThumbnailSize.MEDIUM]: 480,
+  [ThumbnailSize.LARGE]: 960
+};
+
+/**
+ * 可以生成缩略图的图片类型（不包含 SVG，避免处理脚本内容）
+ */
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+/**
+ * 缩略图来源类型
+ */
+export type ThumbnailSource = 'image' | 'pdf';
+
+/**
+ * 根据MIME类型判断缩略图来源，不支持时返回 null
+ */
+export function resolveThumbnailSource(mimeType: string): ThumbnailSource | null {
+  const normalized = mimeType.toLowerCase().split(';')[0].trim();
+  if (IMAGE_MIME_TYPES.includes(normalized)) return 'image';
+  if (normalized === 'application/pdf') return 'pdf';
+  return null;
+}
+
+/**
+ * 生成的缩略图
+ */
+export interface RenderedThumbnail {
+  size: ThumbnailSize;
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+/**
+ * 生成各尺寸的 WebP 缩略图
+ * 按 EXIF 方向旋转，只缩小不放大；动图只取第一帧
+ */
+export async function renderThumbnails(
+  image: Buffer,
+  sizes: ThumbnailSize[] = Object.values(ThumbnailSize)
+): Promise<RenderedThumbnail[]> {
+  const results: RenderedThumbnail[] = [];
+  for (const size of sizes) {
+    const dimension = THUMBNAIL_DIMENSIONS[size];
+    const { data, info } = await sharp(image, { pages: 1 })
+      .rotate()
+      .resize(dimension, dimension, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer({ resolveWithObject: true });
+    results.push({ size, width: info.width, height: info.height, data });
+  }
+  return results;
+}
+
+/**
+ * 使用 poppler 的 pdftoppm 将 PDF 首页渲染为 PNG
+ */
+export async function renderPdfFirstPage(
+  pdf: Buffer,
+  pdftoppmPath: string,
+  options: { maxDimension: number; timeoutMs: number }
+): Promise<Buffer> {
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'kb-thumb-'));
+  try {
+    const input = path.join(workDir, 'input.pdf');
+    const outputRoot = path.join(workDir, 'page');
+    await fs.promises.writeFile(input, pdf);
+    await execFileAsync(
+      pdftoppmPath,
+      ['-png', '-f', '1', '-l', '1', '-singlefile', '-scale-to', String(options.maxDimension), input, outputRoot],
+      { timeout: options.timeoutMs }
+    );
+    return await fs.promises.readFile(`${outputRoot}.png`);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
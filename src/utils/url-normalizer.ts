@@ -0,0 +1,118 @@
+/**
+ * 通用跟踪参数（对所有站点生效）
+ */
+const GLOBAL_TRACKING_PARAMS = [
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'yclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_hsenc',
+  '_hsmi',
+  'spm',
+  'share_source',
+  'share_medium',
+  'share_token',
+  'vd_source'
+];
+
+/**
+ * 特定站点的跟踪/会话参数
+ * 这些参数在其他站点上可能是有意义的内容参数，因此只在对应域名下移除
+ */
+const SITE_TRACKING_PARAMS: Record<string, string[]> = {
+  'mp.weixin.qq.com': [
+    'scene',
+    'subscene',
+    'chksm',
+    'srcid',
+    'from',
+    'sharer_sharetime',
+    'sharer_shareid',
+    'sharer_shareinfo',
+    'sharer_shareinfo_first',
+    'clicktime',
+    'enterid',
+    'ascene',
+    'devicetype',
+    'version',
+    'nettype',
+    'abtest_cookie',
+    'lang',
+    'exportkey',
+    'pass_ticket',
+    'wx_header',
+    'key',
+    'uin',
+    'isappinstalled',
+    'sessionid',
+    'poc_token',
+    'realreporttime',
+    'countrycode',
+    'mpshare'
+  ]
+};
+
+/**
+ * 读取额外配置的跟踪参数（URL_TRACKING_PARAMS，逗号分隔）
+ */
+function extraTrackingParams(): string[] {
+  return (process.env.URL_TRACKING_PARAMS || '')
+    .split(',')
+    .map(param => param.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * 判断查询参数是否为跟踪参数
+ */
+function isTrackingParam(name: string, hostname: string): boolean {
+  const key = name.toLowerCase();
+  if (key.startsWith('utm_')) return true;
+  if (GLOBAL_TRACKING_PARAMS.includes(key)) return true;
+  if (extraTrackingParams().includes(key)) return true;
+  return (SITE_TRACKING_PARAMS[hostname] || []).includes(key);
+}
+
+/**
+ * 计算用于去重的规范化URL
+ *
+ * - http/https 视为同一地址，统一为 https
+ * - 主机名小写并去掉 www. 前缀，去掉默认端口
+ * - 移除 utm_* 及微信 scene/chksm 等跟踪参数，剩余参数按名称排序
+ * - 去掉末尾斜杠和普通锚点（保留 #/ 和 #! 形式的前端路由）
+ *
+ * 结果只用作去重键，不用于实际访问
+ */
+export function normalizeUrl(rawUrl: string): string {
+  const url = new URL(rawUrl.trim());
+
+  if (url.protocol === 'http:') {
+    url.protocol = 'https:';
+  }
+
+  url.hostname = url.hostname.toLowerCase().replace(/^www\./, '');
+  url.username = '';
+  url.password = '';
+
+  const hostname = url.hostname;
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name, hostname))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = '';
+  params.forEach(([name, value]) => url.searchParams.append(name, value));
+
+  if (url.pathname.length > 1) {
+    url.pathname = url.pathname.replace(/\/+$/, '') || '/';
+  }
+
+  if (!/^#[/!]/.test(url.hash)) {
+    url.hash = '';
+  }
+
+  const normalized = url.href;
+  return url.pathname === '/' && !url.search && !url.hash ? normalized.replace(/\/$/, '') : normalized;
+}